@@ -0,0 +1,63 @@
+module.exports = (pool) => {
+  const router = require('express').Router();
+  const { checkAdmin } = require('./auth');
+
+  /**
+   * @route   GET /api/audit-logs
+   * @desc    Paged audit trail, newest first. Filters: userId, entityType, entityId,
+   *          branchId, fromDate, toDate (YYYY-MM-DD, inclusive). Also returns the
+   *          entity types present so the page can build its filter list.
+   * @access  Admin.
+   */
+  router.get('/', checkAdmin, async (req, res) => {
+    try {
+      const { userId, entityType, entityId, branchId, fromDate, toDate } = req.query;
+      const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+      const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+
+      const params = [];
+      const conditions = [];
+      const addCondition = (sql, value) => {
+        params.push(value);
+        conditions.push(sql.replace('?', `$${params.length}`));
+      };
+
+      if (userId) addCondition('a.user_id = ?', parseInt(userId, 10));
+      if (entityType) addCondition('a.entity_type = ?', entityType);
+      if (entityId) addCondition('a.entity_id = ?', parseInt(entityId, 10));
+      if (branchId) addCondition('a.branch_id = ?', parseInt(branchId, 10));
+      if (fromDate) addCondition('a.created_at >= ?::date', fromDate);
+      if (toDate) addCondition("a.created_at < ?::date + INTERVAL '1 day'", toDate);
+      if (params.some(value => typeof value === 'number' && isNaN(value))) {
+        return res.status(400).json({ message: 'Invalid filter value' });
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const countRes = await pool.query(`SELECT COUNT(*) FROM audit_logs a ${where}`, params);
+      const logsRes = await pool.query(
+        `SELECT a.id, a.user_id, a.username, a.action, a.entity_type, a.entity_id, a.branch_id,
+                b.name AS branch_name, a.before_data, a.after_data, a.changes, a.ip_address, a.created_at
+         FROM audit_logs a
+         LEFT JOIN branches b ON a.branch_id = b.id
+         ${where}
+         ORDER BY a.created_at DESC, a.id DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, (page - 1) * limit]
+      );
+      const typesRes = await pool.query('SELECT DISTINCT entity_type FROM audit_logs ORDER BY entity_type');
+
+      res.json({
+        logs: logsRes.rows,
+        total: parseInt(countRes.rows[0].count, 10),
+        page,
+        limit,
+        entity_types: typesRes.rows.map(row => row.entity_type),
+      });
+    } catch (err) {
+      console.error('Error fetching audit logs:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  return router;
+};
@@ -1,5 +1,16 @@
 // ./routes/auth.js
 
+const { hashPassword, verifyPassword, validateNewPassword } = require('../utils/passwords');
+const { getLockoutSeconds, recordFailedLogin, clearFailedLogins } = require('../utils/loginLockout');
+const { recordAudit, skipAudit } = require('../utils/audit');
+const { ROLE_PERMISSIONS_SQL, resolvePermissions } = require('../utils/roles');
+const {
+  createEnrollment, verifyTotp, regenerateRecoveryCodes, consumeRecoveryCode, isAdminTwoFactorRequired
+} = require('../utils/twoFactor');
+
+// How long the password step of a two-factor login stays valid.
+const TWO_FACTOR_PENDING_MS = 5 * 60 * 1000;
+
 const checkPermission = (permission) => {
   return (req, res, next) => {
     if (!req.session.user) {
@@ -72,6 +83,15 @@ const checkAdminOrStaff = (req, res, next) => {
 
 const authenticateUser = (req, res, next) => {
   if (req.session && req.session.user && req.session.user.id) {
+    // Until a forced password change or 2FA enrollment is done only the auth endpoints are reachable.
+    if (!req.originalUrl.startsWith('/api/auth/')) {
+      if (req.session.user.mustChangePassword) {
+        return res.status(403).json({ message: 'Password change required', passwordChangeRequired: true });
+      }
+      if (req.session.user.twoFactorSetupRequired) {
+        return res.status(403).json({ message: 'Two-factor authentication setup required', twoFactorSetupRequired: true });
+      }
+    }
     return next();
   } else {
     console.warn('[AUTH.JS] User not authenticated for path:', req.path);
@@ -82,6 +102,23 @@ const authenticateUser = (req, res, next) => {
 const authRouter = (pool) => {
   const router = require('express').Router();
 
+  const sessionUser = (user, twoFactorSetupRequired = false) => ({
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    roleId: user.role_id || null,
+    // Effective permissions (role plus per-user overrides), resolved once per
+    // session. Role and override changes invalidate the affected sessions.
+    permissions: resolvePermissions(user.role_permissions, user.permissions, user.revoked_permissions),
+    // null means every branch; see utils/branchAccess.js.
+    allowedBranchIds: user.allowed_branch_ids || null,
+    mustChangePassword: !!user.must_change_password,
+    twoFactorSetupRequired: !!twoFactorSetupRequired
+  });
+
+  const USER_COLUMNS = `id, username, role, role_id, permissions, revoked_permissions, ${ROLE_PERMISSIONS_SQL},
+    allowed_branch_ids, must_change_password, totp_enabled`;
+
   router.post('/login', async (req, res) => {
     try {
       const { username, password } = req.body;
@@ -89,38 +126,53 @@ const authRouter = (pool) => {
         return res.status(400).json({ message: 'Username and password are required' });
       }
 
+      const lockedSeconds = await getLockoutSeconds(pool, username, req.ip);
+      if (lockedSeconds > 0) {
+        const minutes = Math.ceil(lockedSeconds / 60);
+        return res.status(429).json({
+          message: `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+          retryAfterSeconds: lockedSeconds
+        });
+      }
+
       const result = await pool.query(
-        'SELECT id, username, password, role, permissions FROM users WHERE username = $1',
+        `SELECT ${USER_COLUMNS}, password FROM users WHERE username = $1`,
         [username]
       );
 
-      if (result.rows.length === 0) {
+      const user = result.rows[0];
+      const { valid, needsUpgrade } = await verifyPassword(password, user && user.password);
+
+      if (!valid) {
+        const lockMinutes = await recordFailedLogin(pool, username, req.ip);
+        console.warn(`[AUTH.JS] Failed login for ${username} from ${req.ip}${lockMinutes > 0 ? `, locked for ${lockMinutes} min` : ''}`);
         return res.status(401).json({ message: 'Invalid credentials' });
       }
 
-      const user = result.rows[0];
-      const isPasswordValid = (password === user.password);
+      await clearFailedLogins(pool, username);
 
-      if (!isPasswordValid) {
-        return res.status(401).json({ message: 'Invalid credentials' });
+      // Rows from before password hashing are upgraded on their first successful login.
+      if (needsUpgrade) {
+        await pool.query('UPDATE users SET password = $1 WHERE id = $2', [await hashPassword(password), user.id]);
+        console.log(`[AUTH.JS] Upgraded plaintext password of user ${user.username} to a hash`);
       }
 
-      req.session.user = {
-        id: user.id,
-        username: user.username,
-        role: user.role,
-        permissions: user.permissions || []
-      };
+      // With 2FA enabled the password only opens the second step; the session
+      // user is set once the code has been verified.
+      if (user.totp_enabled) {
+        req.session.pendingTwoFactor = { userId: user.id, username: user.username, startedAt: Date.now() };
+        skipAudit(req);
+        return res.json({ message: 'Two-factor authentication required', twoFactorRequired: true });
+      }
+
+      const setupRequired = user.role === 'admin' && await isAdminTwoFactorRequired(pool);
+      req.session.user = sessionUser(user, setupRequired);
+      await recordAudit(pool, req, { action: 'login', entityType: 'user', entityId: user.id });
 
       console.log(`[AUTH.JS] User ${user.username} logged in successfully`);
       return res.json({
         message: 'Login successful',
-        user: {
-          id: user.id,
-          username: user.username,
-          role: user.role,
-          permissions: user.permissions || []
-        }
+        user: req.session.user
       });
     } catch (err) {
       console.error('[AUTH.JS] Login error:', err.stack);
@@ -128,6 +180,268 @@ const authRouter = (pool) => {
     }
   });
 
+  /**
+   * @route   POST /api/auth/2fa/verify
+   * @desc    Second login step: verify a TOTP code or a one-time recovery code.
+   * @access  Public (requires a password-verified pending login in the session).
+   */
+  router.post('/2fa/verify', async (req, res) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || Date.now() - pending.startedAt > TWO_FACTOR_PENDING_MS) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: 'Verification expired. Please log in again.' });
+      }
+
+      const lockedSeconds = await getLockoutSeconds(pool, pending.username, req.ip);
+      if (lockedSeconds > 0) {
+        const minutes = Math.ceil(lockedSeconds / 60);
+        return res.status(429).json({
+          message: `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+          retryAfterSeconds: lockedSeconds
+        });
+      }
+
+      const { totp_code, recovery_code } = req.body;
+      const result = await pool.query(`SELECT ${USER_COLUMNS}, totp_secret FROM users WHERE id = $1`, [pending.userId]);
+      const user = result.rows[0];
+      if (!user || !user.totp_enabled) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: 'Verification expired. Please log in again.' });
+      }
+
+      let valid = false;
+      if (recovery_code) {
+        valid = await consumeRecoveryCode(pool, user.id, recovery_code);
+      } else if (totp_code) {
+        valid = await verifyTotp(user.totp_secret, totp_code);
+      }
+      if (!valid) {
+        await recordFailedLogin(pool, pending.username, req.ip);
+        return res.status(401).json({ message: 'Invalid verification code' });
+      }
+
+      await clearFailedLogins(pool, pending.username);
+      delete req.session.pendingTwoFactor;
+      req.session.user = sessionUser(user);
+      await recordAudit(pool, req, {
+        action: recovery_code ? 'login_recovery_code' : 'login', entityType: 'user', entityId: user.id,
+      });
+
+      let recoveryCodesRemaining;
+      if (recovery_code) {
+        const remaining = await pool.query(
+          'SELECT COUNT(*) FROM user_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+          [user.id]
+        );
+        recoveryCodesRemaining = parseInt(remaining.rows[0].count, 10);
+        console.warn(`[AUTH.JS] User ${user.username} logged in with a recovery code, ${recoveryCodesRemaining} left`);
+      }
+
+      console.log(`[AUTH.JS] User ${user.username} logged in successfully (2FA)`);
+      return res.json({ message: 'Login successful', user: req.session.user, recoveryCodesRemaining });
+    } catch (err) {
+      console.error('[AUTH.JS] 2FA verify error:', err.stack);
+      return res.status(500).json({ message: 'Server error during login', error: err.message });
+    }
+  });
+
+  /**
+   * @route   GET /api/auth/2fa/status
+   * @desc    Two-factor state of the logged-in admin and whether it is mandatory.
+   * @access  Admin.
+   */
+  router.get('/2fa/status', authenticateUser, checkAdmin, async (req, res) => {
+    try {
+      const result = await pool.query(
+        `SELECT u.totp_enabled,
+           (SELECT COUNT(*) FROM user_recovery_codes rc WHERE rc.user_id = u.id AND rc.used_at IS NULL) AS recovery_codes_remaining
+         FROM users u WHERE u.id = $1`,
+        [req.session.user.id]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      return res.json({
+        enabled: !!result.rows[0].totp_enabled,
+        required: await isAdminTwoFactorRequired(pool),
+        recoveryCodesRemaining: parseInt(result.rows[0].recovery_codes_remaining, 10)
+      });
+    } catch (err) {
+      console.error('[AUTH.JS] 2FA status error:', err.stack);
+      return res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/auth/2fa/setup
+   * @desc    Start enrollment: store a new (not yet active) secret and return its QR code.
+   * @access  Admin.
+   */
+  router.post('/2fa/setup', authenticateUser, checkAdmin, async (req, res) => {
+    try {
+      const current = await pool.query('SELECT totp_enabled FROM users WHERE id = $1', [req.session.user.id]);
+      if (current.rows[0]?.totp_enabled) {
+        return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+      }
+      const enrollment = await createEnrollment(req.session.user.username);
+      await pool.query(
+        'UPDATE users SET totp_secret = $1, totp_enabled = FALSE WHERE id = $2',
+        [enrollment.secret, req.session.user.id]
+      );
+      await recordAudit(pool, req, { action: '2fa_setup', entityType: 'user', entityId: req.session.user.id });
+      return res.json(enrollment);
+    } catch (err) {
+      console.error('[AUTH.JS] 2FA setup error:', err.stack);
+      return res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/auth/2fa/enable
+   * @desc    Finish enrollment by confirming a code from the authenticator app.
+   *          Returns the recovery codes, which are shown only this once.
+   * @access  Admin.
+   */
+  router.post('/2fa/enable', authenticateUser, checkAdmin, async (req, res) => {
+    const client = await pool.connect();
+    try {
+      const { totp_code } = req.body;
+      const current = await client.query('SELECT totp_secret, totp_enabled FROM users WHERE id = $1', [req.session.user.id]);
+      const row = current.rows[0];
+      if (!row || !row.totp_secret) {
+        return res.status(400).json({ message: 'Start the setup first' });
+      }
+      if (row.totp_enabled) {
+        return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+      }
+      if (!(await verifyTotp(row.totp_secret, totp_code))) {
+        return res.status(400).json({ message: 'Invalid verification code' });
+      }
+
+      await client.query('BEGIN');
+      await client.query('UPDATE users SET totp_enabled = TRUE WHERE id = $1', [req.session.user.id]);
+      const recoveryCodes = await regenerateRecoveryCodes(client, req.session.user.id);
+      await client.query('COMMIT');
+
+      req.session.user.twoFactorSetupRequired = false;
+      await recordAudit(pool, req, { action: '2fa_enable', entityType: 'user', entityId: req.session.user.id });
+      console.log(`[AUTH.JS] User ${req.session.user.username} enabled two-factor authentication`);
+      return res.json({ message: 'Two-factor authentication enabled', recoveryCodes, user: req.session.user });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('[AUTH.JS] 2FA enable error:', err.stack);
+      return res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
+
+  /**
+   * @route   POST /api/auth/2fa/recovery-codes
+   * @desc    Replace all recovery codes. Requires a current authenticator code.
+   * @access  Admin.
+   */
+  router.post('/2fa/recovery-codes', authenticateUser, checkAdmin, async (req, res) => {
+    const client = await pool.connect();
+    try {
+      const { totp_code } = req.body;
+      const current = await client.query('SELECT totp_secret, totp_enabled FROM users WHERE id = $1', [req.session.user.id]);
+      const row = current.rows[0];
+      if (!row || !row.totp_enabled) {
+        return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+      }
+      if (!(await verifyTotp(row.totp_secret, totp_code))) {
+        return res.status(400).json({ message: 'Invalid verification code' });
+      }
+
+      await client.query('BEGIN');
+      const recoveryCodes = await regenerateRecoveryCodes(client, req.session.user.id);
+      await client.query('COMMIT');
+      await recordAudit(pool, req, { action: '2fa_recovery_codes', entityType: 'user', entityId: req.session.user.id });
+      return res.json({ message: 'Recovery codes regenerated', recoveryCodes });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('[AUTH.JS] 2FA recovery codes error:', err.stack);
+      return res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
+
+  /**
+   * @route   POST /api/auth/2fa/disable
+   * @desc    Turn off two-factor authentication after confirming the password.
+   *          Not allowed while 2FA is required for all admins.
+   * @access  Admin.
+   */
+  router.post('/2fa/disable', authenticateUser, checkAdmin, async (req, res) => {
+    try {
+      if (await isAdminTwoFactorRequired(pool)) {
+        return res.status(400).json({ message: 'Two-factor authentication is required for admin accounts' });
+      }
+      const { password } = req.body;
+      const current = await pool.query('SELECT password FROM users WHERE id = $1', [req.session.user.id]);
+      const { valid } = await verifyPassword(password, current.rows[0]?.password);
+      if (!valid) {
+        return res.status(400).json({ message: 'Password is incorrect' });
+      }
+      await pool.query('UPDATE users SET totp_secret = NULL, totp_enabled = FALSE WHERE id = $1', [req.session.user.id]);
+      await pool.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [req.session.user.id]);
+      await recordAudit(pool, req, { action: '2fa_disable', entityType: 'user', entityId: req.session.user.id });
+      console.log(`[AUTH.JS] User ${req.session.user.username} disabled two-factor authentication`);
+      return res.json({ message: 'Two-factor authentication disabled' });
+    } catch (err) {
+      console.error('[AUTH.JS] 2FA disable error:', err.stack);
+      return res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/auth/change-password
+   * @desc    Change the logged-in user's password. Required before anything else
+   *          when the account is flagged with must_change_password.
+   * @access  Authenticated users.
+   */
+  router.post('/change-password', authenticateUser, async (req, res) => {
+    try {
+      const { current_password, new_password } = req.body;
+      if (!current_password) {
+        return res.status(400).json({ message: 'Current password is required' });
+      }
+      const validationError = validateNewPassword(new_password);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+      if (current_password === new_password) {
+        return res.status(400).json({ message: 'New password must be different from the current password' });
+      }
+
+      const userResult = await pool.query('SELECT password FROM users WHERE id = $1', [req.session.user.id]);
+      if (userResult.rows.length === 0) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      const { valid } = await verifyPassword(current_password, userResult.rows[0].password);
+      if (!valid) {
+        return res.status(400).json({ message: 'Current password is incorrect' });
+      }
+
+      const result = await pool.query(
+        `UPDATE users SET password = $1, must_change_password = FALSE
+         WHERE id = $2 RETURNING ${USER_COLUMNS}`,
+        [await hashPassword(new_password), req.session.user.id]
+      );
+      req.session.user = sessionUser(result.rows[0], req.session.user.twoFactorSetupRequired);
+      await recordAudit(pool, req, { action: 'change_password', entityType: 'user', entityId: req.session.user.id });
+
+      console.log(`[AUTH.JS] User ${req.session.user.username} changed their password`);
+      return res.json({ message: 'Password changed successfully', user: req.session.user });
+    } catch (err) {
+      console.error('[AUTH.JS] Change password error:', err.stack);
+      return res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
   router.get('/logout', (req, res) => {
     const username = req.session?.user?.username || 'Unknown';
     req.session.destroy((err) => {
@@ -150,11 +464,18 @@ const authRouter = (pool) => {
             id: req.session.user.id,
             username: req.session.user.username,
             role: req.session.user.role,
-            permissions: req.session.user.permissions || []
+            permissions: req.session.user.permissions || [],
+            mustChangePassword: !!req.session.user.mustChangePassword,
+            twoFactorSetupRequired: !!req.session.user.twoFactorSetupRequired
           }
         });
       }
-      return res.json({ isAuthenticated: false, user: null });
+      const pending = req.session && req.session.pendingTwoFactor;
+      return res.json({
+        isAuthenticated: false,
+        user: null,
+        twoFactorPending: !!pending && Date.now() - pending.startedAt <= TWO_FACTOR_PENDING_MS
+      });
     } catch (error) {
       console.error('[AUTH.JS] Error in /api/auth/status:', error);
       console.log('Session user permissions:', req.session.user.permissions);
@@ -166,7 +487,7 @@ const authRouter = (pool) => {
   router.get('/refresh', authenticateUser, async (req, res) => {
     try {
       const result = await pool.query(
-        'SELECT id, username, role, permissions FROM users WHERE id = $1',
+        `SELECT ${USER_COLUMNS} FROM users WHERE id = $1`,
         [req.session.user.id]
       );
       const user = result.rows[0];
@@ -174,12 +495,7 @@ const authRouter = (pool) => {
         return res.status(404).json({ message: 'User not found' });
       }
 
-      req.session.user = {
-        id: user.id,
-        username: user.username,
-        role: user.role,
-        permissions: user.permissions || []
-      };
+      req.session.user = sessionUser(user, req.session.user.twoFactorSetupRequired);
 
       console.log(`[AUTH.JS] Session refreshed for user: ${user.username}`);
       return res.json({
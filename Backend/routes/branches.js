@@ -4,6 +4,9 @@ module.exports = (pool) => {
   const router = express.Router();
   // ✅ FIX: Import the checkPermissions function
   const { checkPermissions } = require('./auth');
+  const { branchScopeCondition, checkRecordBranch } = require('../utils/branchAccess');
+
+  router.param('id', checkRecordBranch(pool, 'SELECT id AS branch_id FROM branches WHERE id = $1'));
 
   // Public endpoint to get branches (no authentication required)
   router.get('/public', async (req, res) => {
@@ -19,7 +22,13 @@ module.exports = (pool) => {
   // ✅ FIX: Allow users who can manage students to also read branch data
   router.get('/', checkPermissions(['manage_branches', 'manage_library_students'], 'OR'), async (req, res) => {
     try {
-      const result = await pool.query('SELECT * FROM branches ORDER BY name');
+      // Staff limited to some branches only get those for their selectors.
+      const params = [];
+      const branchScope = branchScopeCondition(req, 'id', params);
+      const result = await pool.query(
+        `SELECT * FROM branches ${branchScope ? `WHERE ${branchScope}` : ''} ORDER BY name`,
+        params
+      );
       res.json({ branches: result.rows });
     } catch (err) {
       res.status(500).json({ message: 'Server error', error: err.message });
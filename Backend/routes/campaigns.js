@@ -0,0 +1,259 @@
+module.exports = (pool) => {
+  const router = require('express').Router();
+  const { checkPermissions } = require('./auth');
+  const { recordAudit } = require('../utils/audit');
+  const { branchScopeCondition, checkBranchAccess, checkRecordBranch, getAllowedBranchIds } = require('../utils/branchAccess');
+  const { CHANNELS } = require('../utils/notifications');
+  const {
+    MAX_PER_MINUTE, DEFAULT_PER_MINUTE, CAMPAIGN_PLACEHOLDERS, invalidPlaceholders, parseFilters, findAudience,
+    summarizeAudience, renderCampaignMessage, queueCampaign,
+  } = require('../utils/campaigns');
+
+  router.use(checkPermissions(['send_campaigns']));
+  router.use(checkBranchAccess);
+  router.param('id', checkRecordBranch(pool, 'SELECT branch_id FROM campaigns WHERE id = $1'));
+
+  /**
+   * Validates the message and audience of a request body. Staff limited to
+   * some branches must pick one of them. Returns { error } or { values }.
+   */
+  const parseCampaign = (req) => {
+    const { channel, subject, body, provider_template } = req.body;
+    if (!CHANNELS.includes(channel)) {
+      return { error: `Channel must be one of ${CHANNELS.join(', ')}` };
+    }
+    if (!body || !String(body).trim()) {
+      return { error: 'Message text is required' };
+    }
+    const invalid = invalidPlaceholders(`${subject || ''} ${body}`);
+    if (invalid.length > 0) {
+      return { error: `Placeholders not available in campaigns: ${invalid.map(key => `{{${key}}}`).join(', ')}` };
+    }
+    const { error, filters } = parseFilters(req.body);
+    if (error) {
+      return { error };
+    }
+    if (getAllowedBranchIds(req) && !filters.branch_id) {
+      return { error: 'Choose a branch' };
+    }
+    return {
+      values: {
+        channel,
+        subject: subject && String(subject).trim() ? String(subject).trim() : null,
+        body: String(body).trim(),
+        provider_template: provider_template && String(provider_template).trim() ? String(provider_template).trim() : null,
+        filters,
+      },
+    };
+  };
+
+  /**
+   * @route   GET /api/campaigns
+   * @desc    Latest campaigns, newest first, with their progress: students
+   *          matched and skipped, and messages queued, sent and failed. Also
+   *          returns the placeholders campaigns can use and the send rate limit.
+   * @access  send_campaigns.
+   */
+  router.get('/', async (req, res) => {
+    try {
+      const params = [];
+      const branchScope = branchScopeCondition(req, 'c.branch_id', params);
+      const result = await pool.query(`
+        SELECT c.*, b.name AS branch_name, u.username AS created_by_name,
+               COUNT(cr.id)::int AS matched,
+               COUNT(cr.id) FILTER (WHERE cr.skip_reason IS NOT NULL)::int AS skipped,
+               COUNT(m.id) FILTER (WHERE m.status IN ('pending', 'sending'))::int AS pending,
+               COUNT(m.id) FILTER (WHERE m.status = 'sent')::int AS sent,
+               COUNT(m.id) FILTER (WHERE m.status = 'failed')::int AS failed
+        FROM campaigns c
+        LEFT JOIN branches b ON b.id = c.branch_id
+        LEFT JOIN users u ON u.id = c.created_by
+        LEFT JOIN campaign_recipients cr ON cr.campaign_id = c.id
+        LEFT JOIN notification_outbox m ON m.id = cr.outbox_id
+        ${branchScope ? `WHERE ${branchScope}` : ''}
+        GROUP BY c.id, b.name, u.username
+        ORDER BY c.created_at DESC, c.id DESC
+        LIMIT 50
+      `, params);
+      res.json({
+        campaigns: result.rows,
+        placeholders: CAMPAIGN_PLACEHOLDERS,
+        max_per_minute: MAX_PER_MINUTE,
+        default_per_minute: DEFAULT_PER_MINUTE,
+      });
+    } catch (err) {
+      console.error('Error fetching campaigns:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/campaigns/preview
+   * @desc    Who a campaign would reach, without sending: students matched,
+   *          opted out, without an address on the channel and left to message,
+   *          plus the message rendered for the first of them.
+   * @access  send_campaigns.
+   */
+  router.post('/preview', async (req, res) => {
+    try {
+      const { error, values } = parseCampaign(req);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      const audience = await findAudience(pool, values.filters, getAllowedBranchIds(req));
+      const summary = summarizeAudience(audience, values.channel);
+      const first = audience.find(student => !student.campaign_opt_out);
+      let sample = null;
+      if (first) {
+        const rendered = await renderCampaignMessage(pool, values, first.id);
+        sample = { student_name: first.name, subject: rendered.payload.subject, text: rendered.payload.text };
+      }
+      res.json({ ...summary, sample });
+    } catch (err) {
+      console.error('Error previewing campaign:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/campaigns
+   * @desc    Create a campaign and queue its messages. They go out through the
+   *          outbox at per_minute messages a minute (at most MAX_PER_MINUTE).
+   * @access  send_campaigns.
+   */
+  router.post('/', async (req, res) => {
+    const { name, per_minute } = req.body;
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ message: 'Campaign name is required' });
+    }
+    const perMinute = per_minute === undefined || per_minute === null || per_minute === ''
+      ? DEFAULT_PER_MINUTE
+      : Number(per_minute);
+    if (!Number.isInteger(perMinute) || perMinute < 1 || perMinute > MAX_PER_MINUTE) {
+      return res.status(400).json({ message: `Messages per minute must be a whole number from 1 to ${MAX_PER_MINUTE}` });
+    }
+    const { error, values } = parseCampaign(req);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const client = await pool.connect();
+    try {
+      const audience = await findAudience(client, values.filters, getAllowedBranchIds(req));
+      if (summarizeAudience(audience, values.channel).recipients === 0) {
+        return res.status(400).json({ message: 'No students to send this campaign to' });
+      }
+
+      await client.query('BEGIN');
+      const { branch_id, ...filters } = values.filters;
+      const campaignRes = await client.query(
+        `INSERT INTO campaigns (name, channel, subject, body, provider_template, branch_id, filters, per_minute, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+        [
+          String(name).trim(), values.channel, values.subject, values.body, values.provider_template,
+          branch_id, JSON.stringify(filters), perMinute, req.session.user.id,
+        ]
+      );
+      const campaign = campaignRes.rows[0];
+      const summary = await queueCampaign(client, campaign, audience);
+      await client.query('COMMIT');
+
+      await recordAudit(pool, req, {
+        action: 'create', entityType: 'campaign', entityId: campaign.id, branchId: campaign.branch_id,
+        after: { ...campaign, ...summary },
+      });
+      res.status(201).json({ campaign, ...summary });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error creating campaign:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
+
+  /**
+   * @route   GET /api/campaigns/:id
+   * @desc    Results report of a campaign: every student matched with their
+   *          message's status, or why they were skipped.
+   * @access  send_campaigns.
+   */
+  router.get('/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const campaignRes = await pool.query(
+        `SELECT c.*, b.name AS branch_name, u.username AS created_by_name
+         FROM campaigns c
+         LEFT JOIN branches b ON b.id = c.branch_id
+         LEFT JOIN users u ON u.id = c.created_by
+         WHERE c.id = $1`,
+        [id]
+      );
+      if (campaignRes.rows.length === 0) {
+        return res.status(404).json({ message: 'Campaign not found' });
+      }
+      const recipientsRes = await pool.query(
+        `SELECT cr.id, cr.student_id, s.name AS student_name, s.phone, s.email, cr.skip_reason,
+                m.id AS message_id, m.recipient, m.status, m.attempts, m.last_error, m.next_attempt_at, m.sent_at
+         FROM campaign_recipients cr
+         LEFT JOIN students s ON s.id = cr.student_id
+         LEFT JOIN notification_outbox m ON m.id = cr.outbox_id
+         WHERE cr.campaign_id = $1
+         ORDER BY s.name, cr.id`,
+        [id]
+      );
+      res.json({ campaign: campaignRes.rows[0], recipients: recipientsRes.rows });
+    } catch (err) {
+      console.error('Error fetching campaign:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/campaigns/:id/cancel
+   * @desc    Stop a campaign: its messages not yet sent are marked failed with
+   *          "Campaign cancelled". Messages already sent are unaffected.
+   * @access  send_campaigns.
+   */
+  router.post('/:id/cancel', async (req, res) => {
+    const client = await pool.connect();
+    try {
+      const id = parseInt(req.params.id, 10);
+      await client.query('BEGIN');
+      const campaignRes = await client.query(
+        `UPDATE campaigns SET status = 'cancelled', cancelled_at = NOW()
+         WHERE id = $1 AND status <> 'cancelled' RETURNING *`,
+        [id]
+      );
+      if (campaignRes.rows.length === 0) {
+        await client.query('ROLLBACK');
+        const exists = await pool.query('SELECT 1 FROM campaigns WHERE id = $1', [id]);
+        return exists.rows.length === 0
+          ? res.status(404).json({ message: 'Campaign not found' })
+          : res.status(400).json({ message: 'Campaign is already cancelled' });
+      }
+      const stopped = await client.query(
+        `UPDATE notification_outbox
+         SET status = 'failed', last_error = 'Campaign cancelled', locked_at = NULL
+         WHERE status = 'pending' AND id IN (SELECT outbox_id FROM campaign_recipients WHERE campaign_id = $1)`,
+        [id]
+      );
+      await client.query('COMMIT');
+
+      const campaign = campaignRes.rows[0];
+      await recordAudit(pool, req, {
+        action: 'cancel', entityType: 'campaign', entityId: id, branchId: campaign.branch_id,
+        after: { stopped: stopped.rowCount },
+      });
+      res.json({ message: `Campaign cancelled; ${stopped.rowCount} unsent message(s) stopped`, campaign });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error cancelling campaign:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
+
+  return router;
+};
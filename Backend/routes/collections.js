@@ -1,6 +1,14 @@
 module.exports = (pool) => {
   const router = require('express').Router();
   const { checkAdmin, checkPermissions } = require('./auth');
+  const { issueReceipt } = require('../utils/receipts');
+  const { PAYMENT_METHODS, recordLedgerEntry, syncHistoryTotals } = require('../utils/ledger');
+  const { recordAudit } = require('../utils/audit');
+  const { overdueCondition } = require('../utils/installments');
+  const { branchScopeCondition, checkBranchAccess, checkRecordBranch } = require('../utils/branchAccess');
+
+  router.use(checkBranchAccess);
+  router.param('historyId', checkRecordBranch(pool, 'SELECT branch_id FROM student_membership_history WHERE id = $1'));
 
   /**
    * @route   GET /api/collections/stats
@@ -41,6 +49,11 @@ module.exports = (pool) => {
         whereClause += (paramIndex > 1 ? ' AND' : ' WHERE') + ` smh.branch_id = $${paramIndex}`;
         params.push(branchId);
       }
+
+      const branchScope = branchScopeCondition(req, 'smh.branch_id', params);
+      if (branchScope) {
+        whereClause += (whereClause ? ' AND ' : ' WHERE ') + branchScope;
+      }
       
       query += whereClause;
 
@@ -83,7 +96,13 @@ module.exports = (pool) => {
           smh.remark,
           smh.changed_at as "createdAt",
           smh.branch_id as "branchId",
-          b.name as "branchName"
+          b.name as "branchName",
+          (SELECT COUNT(*) FROM receipts r WHERE r.history_id = smh.id)::int as "receiptCount",
+          (SELECT COUNT(*) FROM fee_installments fi WHERE fi.history_id = smh.id)::int as "installmentCount",
+          (SELECT COALESCE(SUM(fi.amount - fi.paid_amount), 0) FROM fee_installments fi
+            WHERE fi.history_id = smh.id AND ${overdueCondition('fi')}) as "overdueAmount",
+          (SELECT TO_CHAR(MIN(fi.due_date), 'YYYY-MM-DD') FROM fee_installments fi
+            WHERE fi.history_id = smh.id AND fi.status <> 'paid') as "nextDueDate"
         FROM student_membership_history smh
         LEFT JOIN schedules sch ON smh.shift_id = sch.id
         LEFT JOIN branches b ON smh.branch_id = b.id
@@ -112,6 +131,11 @@ module.exports = (pool) => {
         params.push(branchId);
       }
 
+      const branchScope = branchScopeCondition(req, 'smh.branch_id', params);
+      if (branchScope) {
+        whereClause += (whereClause ? ' AND ' : ' WHERE ') + branchScope;
+      }
+
       query += whereClause + ` ORDER BY smh.name;`;
       
       const result = await pool.query(query, params);
@@ -124,6 +148,7 @@ module.exports = (pool) => {
         cash: parseFloat(row.cash || 0),
         online: parseFloat(row.online || 0),
         securityMoney: parseFloat(row.securityMoney || 0),
+        overdueAmount: parseFloat(row.overdueAmount || 0),
       }));
 
       res.json({ collections });
@@ -133,9 +158,57 @@ module.exports = (pool) => {
     }
   });
 
+  /**
+   * @route   GET /api/collections/installments?branchId=&status=overdue|upcoming|all
+   * @desc    Unpaid installments across students, earliest due first. overdue
+   *          (the default) = past their due date, upcoming = due today or later.
+   * @access  Admin or Staff with 'view_collections' permission.
+   */
+  router.get('/installments', checkPermissions(['view_collections']), async (req, res) => {
+    try {
+      const { branchId, status = 'overdue' } = req.query;
+      const params = [];
+      const conditions = ["fi.status <> 'paid'"];
+      if (status === 'overdue') {
+        conditions.push(overdueCondition('fi'));
+      } else if (status === 'upcoming') {
+        conditions.push('fi.due_date >= CURRENT_DATE');
+      }
+      if (branchId) {
+        params.push(parseInt(branchId, 10));
+        conditions.push(`fi.branch_id = $${params.length}`);
+      }
+      const branchScope = branchScopeCondition(req, 'fi.branch_id', params);
+      if (branchScope) {
+        conditions.push(branchScope);
+      }
+
+      const result = await pool.query(`
+        SELECT fi.id, fi.history_id AS "historyId", fi.student_id AS "studentId", s.name, s.phone,
+               b.name AS "branchName", fi.installment_no AS "installmentNo",
+               TO_CHAR(fi.due_date, 'YYYY-MM-DD') AS "dueDate",
+               fi.amount::float AS amount, fi.paid_amount::float AS "paidAmount",
+               (fi.amount - fi.paid_amount)::float AS remaining, fi.status,
+               GREATEST(CURRENT_DATE - fi.due_date, 0) AS "daysOverdue",
+               TO_CHAR(fi.last_reminded_on, 'YYYY-MM-DD') AS "lastRemindedOn"
+        FROM fee_installments fi
+        JOIN students s ON s.id = fi.student_id
+        LEFT JOIN branches b ON b.id = fi.branch_id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY fi.due_date, s.name
+      `, params);
+      res.json({ installments: result.rows });
+    } catch (err) {
+      console.error('Error fetching installments:', err);
+      res.status(500).json({ message: 'Server error fetching installments', error: err.message });
+    }
+  });
+
   /**
    * @route   PUT /api/collections/:historyId
-   * @desc    Pay a due amount for a student's collection record.
+   * @desc    Pay a due amount for a student's collection record. The payment is
+   *          stored as a ledger entry, the paid/due totals are recomputed from the
+   *          ledger and a receipt is issued for it.
    * @access  Admin or Staff with 'view_collections' permission.
    */
   router.put('/:historyId', checkPermissions(['view_collections']), async (req, res) => {
@@ -144,17 +217,21 @@ module.exports = (pool) => {
       await client.query('BEGIN');
 
       const { historyId } = req.params;
-      const { payment_amount, payment_method } = req.body;
+      const { payment_amount, payment_method, payment_date, reference, note } = req.body;
 
       // --- 1. Validate Input ---
       if (typeof payment_amount !== 'number' || payment_amount <= 0) {
         await client.query('ROLLBACK');
         return res.status(400).json({ message: 'Invalid payment amount' });
       }
-      if (!['cash', 'online'].includes(payment_method)) {
+      if (!PAYMENT_METHODS.includes(payment_method)) {
         await client.query('ROLLBACK');
         return res.status(400).json({ message: 'Invalid payment method' });
       }
+      if (payment_date && !/^\d{4}-\d{2}-\d{2}$/.test(payment_date)) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'Invalid payment date. Use YYYY-MM-DD' });
+      }
 
       // --- 2. Fetch the specific history record to get its due amount and student_id ---
       const historyRes = await client.query('SELECT * FROM student_membership_history WHERE id = $1 FOR UPDATE', [historyId]);
@@ -163,7 +240,6 @@ module.exports = (pool) => {
         return res.status(404).json({ message: 'History record not found' });
       }
       const history = historyRes.rows[0];
-      const studentId = history.student_id;
       const history_due_amount = parseFloat(history.due_amount) || 0;
 
       // --- 3. Check for overpayment against THIS transaction's due amount ---
@@ -172,41 +248,37 @@ module.exports = (pool) => {
         return res.status(400).json({ message: `Payment of ${payment_amount.toFixed(2)} exceeds the due amount of ${history_due_amount.toFixed(2)} for this specific transaction.` });
       }
 
-      // --- 4. Fetch the main student record to get the aggregate totals ---
-      const studentRes = await client.query('SELECT * FROM students WHERE id = $1 FOR UPDATE', [studentId]);
-      if (studentRes.rows.length === 0) {
-          await client.query('ROLLBACK');
-          return res.status(404).json({ message: `Student with ID ${studentId} not found.` });
-      }
-      const student = studentRes.rows[0];
-
-      // --- 5. Update the totals for the main STUDENT record ---
-      const new_student_cash = (parseFloat(student.cash) || 0) + (payment_method === 'cash' ? payment_amount : 0);
-      const new_student_online = (parseFloat(student.online) || 0) + (payment_method === 'online' ? payment_amount : 0);
-      const new_student_amount_paid = (parseFloat(student.amount_paid) || 0) + payment_amount;
-      const new_student_due_amount = (parseFloat(student.due_amount) || 0) - payment_amount;
-
-      const updateStudentQuery = `
-        UPDATE students 
-        SET cash = $1, online = $2, amount_paid = $3, due_amount = $4 
-        WHERE id = $5`;
-      await client.query(updateStudentQuery, [new_student_cash, new_student_online, new_student_amount_paid, new_student_due_amount, studentId]);
-
-      // --- 6. Update the specific HISTORY record that is being paid ---
-      const new_history_cash = (parseFloat(history.cash) || 0) + (payment_method === 'cash' ? payment_amount : 0);
-      const new_history_online = (parseFloat(history.online) || 0) + (payment_method === 'online' ? payment_amount : 0);
-      const new_history_amount_paid = (parseFloat(history.amount_paid) || 0) + payment_amount;
-      const new_history_due_amount = history_due_amount - payment_amount;
-
-      const updateHistoryQuery = `
-        UPDATE student_membership_history 
-        SET cash = $1, online = $2, amount_paid = $3, due_amount = $4 
-        WHERE id = $5`;
-      await client.query(updateHistoryQuery, [new_history_cash, new_history_online, new_history_amount_paid, new_history_due_amount, historyId]);
+      // --- 4. Record the payment in the ledger ---
+      await recordLedgerEntry(client, {
+        studentId: history.student_id,
+        historyId: history.id,
+        amount: payment_amount,
+        method: payment_method,
+        type: 'payment',
+        date: payment_date || null,
+        collectedBy: req.session.user.id,
+        reference,
+        note,
+      });
+
+      // --- 5. Recompute the history (and current student) totals from the ledger ---
+      const updatedHistory = await syncHistoryTotals(client, history.id);
+
+      // --- 6. Issue a receipt for this payment only ---
+      const receipt = await issueReceipt(client, {
+        historyId: history.id,
+        cash: payment_method === 'cash' ? payment_amount : 0,
+        online: payment_method === 'online' ? payment_amount : 0,
+        issuedBy: req.session.user.id,
+      });
       
       // --- 7. Commit and respond ---
       await client.query('COMMIT');
-      res.json({ message: 'Payment updated successfully' });
+      await recordAudit(pool, req, {
+        action: 'collect_payment', entityType: 'membership_history', entityId: history.id, branchId: history.branch_id,
+        before: history, after: { ...updatedHistory, payment_method, reference: reference || null, receipt_number: receipt ? receipt.receipt_number : null },
+      });
+      res.json({ message: 'Payment updated successfully', receipt });
 
     } catch (err) {
       await client.query('ROLLBACK');
@@ -2,6 +2,13 @@ module.exports = (pool) => {
   const express = require('express');
   const router = express.Router();
   const { checkAdminOrStaff } = require('./auth');
+  const { recordAudit } = require('../utils/audit');
+  const {
+    getAllowedBranchIds, branchScopeCondition, checkBranchAccess, checkRecordBranch
+  } = require('../utils/branchAccess');
+
+  router.use(checkBranchAccess);
+  router.param('id', checkRecordBranch(pool, 'SELECT branch_id FROM expenses WHERE id = $1'));
 
   router.get('/', checkAdminOrStaff, async (req, res) => {
     try {
@@ -12,9 +19,17 @@ module.exports = (pool) => {
         LEFT JOIN branches b ON e.branch_id = b.id
       `;
       const params = [];
+      const conditions = [];
       if (branchId) {
-        query += ` WHERE e.branch_id = $1`;
         params.push(parseInt(branchId, 10)); // Ensure it's an integer for the query
+        conditions.push(`e.branch_id = $${params.length}`);
+      }
+      const branchScope = branchScopeCondition(req, 'e.branch_id', params);
+      if (branchScope) {
+        conditions.push(branchScope);
+      }
+      if (conditions.length > 0) {
+        query += ` WHERE ${conditions.join(' AND ')}`;
       }
       query += ' ORDER BY e.date DESC';
       
@@ -52,6 +67,9 @@ module.exports = (pool) => {
       // Ensure branch_id is an integer or null
       branch_id = branch_id ? parseInt(branch_id, 10) : null;
       remark = remark || null;
+      if (!branch_id && getAllowedBranchIds(req)) {
+        return res.status(400).json({ message: 'Branch is required' });
+      }
 
       const result = await pool.query(
         'INSERT INTO expenses (title, amount, date, remark, branch_id) VALUES ($1, $2, $3, $4, $5) RETURNING *',
@@ -60,6 +78,9 @@ module.exports = (pool) => {
 
       // Log the inserted expense
       console.log('Inserted expense:', result.rows[0]);
+      await recordAudit(pool, req, {
+        action: 'create', entityType: 'expense', entityId: result.rows[0].id, branchId: branch_id, after: result.rows[0],
+      });
 
       res.status(201).json({
         ...result.rows[0],
@@ -78,7 +99,11 @@ module.exports = (pool) => {
       
       branch_id = branch_id ? parseInt(branch_id, 10) : null;
       remark = remark || null;
+      if (!branch_id && getAllowedBranchIds(req)) {
+        return res.status(400).json({ message: 'Branch is required' });
+      }
 
+      const before = await pool.query('SELECT * FROM expenses WHERE id = $1', [parseInt(id, 10)]);
       const result = await pool.query(
         'UPDATE expenses SET title = $1, amount = $2, date = $3, remark = $4, branch_id = $5 WHERE id = $6 RETURNING *',
         [title, parseFloat(amount), date, remark, branch_id, parseInt(id, 10)]
@@ -89,6 +114,10 @@ module.exports = (pool) => {
 
       // Log the updated expense
       console.log('Updated expense:', result.rows[0]);
+      await recordAudit(pool, req, {
+        action: 'update', entityType: 'expense', entityId: result.rows[0].id, branchId: branch_id,
+        before: before.rows[0], after: result.rows[0],
+      });
 
       res.json({
         ...result.rows[0],
@@ -107,6 +136,9 @@ module.exports = (pool) => {
       if (result.rows.length === 0) {
         return res.status(404).json({ message: 'Expense not found' });
       }
+      await recordAudit(pool, req, {
+        action: 'delete', entityType: 'expense', entityId: result.rows[0].id, branchId: result.rows[0].branch_id, before: result.rows[0],
+      });
       res.json({ message: 'Expense deleted' });
     } catch (err) {
       console.error('Error deleting expense:', err);
@@ -0,0 +1,527 @@
+module.exports = (pool) => {
+  const router = require('express').Router();
+  const { checkAdminOrStaff, checkPermissions } = require('./auth');
+  const { recordAudit } = require('../utils/audit');
+  const { branchScopeCondition, canAccessBranch, checkBranchAccess, checkRecordBranch } = require('../utils/branchAccess');
+  const { DISCOUNT_TYPES, canOverrideFees, quoteFee } = require('../utils/feePlans');
+
+  const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+  router.use(checkBranchAccess);
+  router.param('id', checkRecordBranch(pool, 'SELECT branch_id FROM fee_plans WHERE id = $1'));
+  router.param('offerId', checkRecordBranch(pool, 'SELECT branch_id FROM fee_offers WHERE id = $1'));
+  router.param('couponId', checkRecordBranch(pool, 'SELECT branch_id FROM coupons WHERE id = $1'));
+
+  const parseAmount = (value) => (value === undefined || value === null || value === '' ? 0 : parseFloat(value));
+
+  // Branch filter for plan/offer lists: global rows plus the user's branches.
+  const branchConditions = (req, alias, params) => {
+    const conditions = [];
+    if (req.query.branchId) {
+      params.push(parseInt(req.query.branchId, 10));
+      conditions.push(`(${alias}.branch_id IS NULL OR ${alias}.branch_id = $${params.length})`);
+    }
+    const branchScope = branchScopeCondition(req, `${alias}.branch_id`, params);
+    if (branchScope) {
+      conditions.push(`(${alias}.branch_id IS NULL OR ${branchScope})`);
+    }
+    return conditions;
+  };
+
+  /**
+   * Validates a plan body. Returns { error } or { values }.
+   */
+  const parsePlan = async (body) => {
+    const { name, branch_id, shift_ids, duration_months, fee, locker_fee, security_deposit, is_active } = body;
+    if (!name || !String(name).trim()) {
+      return { error: 'Plan name is required' };
+    }
+    const branchId = branch_id ? parseInt(branch_id, 10) : null;
+    const months = parseInt(duration_months, 10);
+    if (isNaN(months) || months <= 0) {
+      return { error: 'Duration must be a positive number of months' };
+    }
+    const shiftIds = Array.isArray(shift_ids) ? [...new Set(shift_ids.map(id => parseInt(id, 10)))] : [];
+    if (shiftIds.length === 0 || shiftIds.some(isNaN)) {
+      return { error: 'Select at least one shift' };
+    }
+    const amounts = { fee: parseAmount(fee), locker_fee: parseAmount(locker_fee), security_deposit: parseAmount(security_deposit) };
+    for (const [field, value] of Object.entries(amounts)) {
+      if (isNaN(value) || value < 0) {
+        return { error: `${field.replace('_', ' ')} must be a valid non-negative number` };
+      }
+    }
+    const shifts = await pool.query(
+      'SELECT id FROM schedules WHERE id = ANY($1::int[]) AND ($2::int IS NULL OR branch_id IS NULL OR branch_id = $2)',
+      [shiftIds, branchId]
+    );
+    if (shifts.rows.length !== shiftIds.length) {
+      return { error: 'One or more shifts do not exist in this branch' };
+    }
+    return {
+      values: {
+        name: String(name).trim(), branchId, shiftIds, months, ...amounts,
+        isActive: is_active === undefined ? true : Boolean(is_active),
+      },
+    };
+  };
+
+  /**
+   * Validates an offer body. Returns { error } or { values }.
+   */
+  const parseOffer = (body) => {
+    const { name, branch_id, discount_type, discount_value, valid_from, valid_to, min_months, is_active } = body;
+    if (!name || !String(name).trim()) {
+      return { error: 'Offer name is required' };
+    }
+    if (!DISCOUNT_TYPES.includes(discount_type)) {
+      return { error: `Discount type must be one of ${DISCOUNT_TYPES.join(', ')}` };
+    }
+    const value = parseFloat(discount_value);
+    if (isNaN(value) || value < 0 || (discount_type === 'percent' && value > 100)) {
+      return { error: 'Discount must be a non-negative amount (at most 100 for a percentage)' };
+    }
+    if (!DATE_PATTERN.test(valid_from || '') || !DATE_PATTERN.test(valid_to || '') || valid_to < valid_from) {
+      return { error: 'Valid from and valid to must be dates with valid to on or after valid from' };
+    }
+    const minMonths = min_months ? parseInt(min_months, 10) : 1;
+    if (isNaN(minMonths) || minMonths <= 0) {
+      return { error: 'Minimum months must be a positive number' };
+    }
+    return {
+      values: {
+        name: String(name).trim(), branchId: branch_id ? parseInt(branch_id, 10) : null,
+        discountType: discount_type, value, validFrom: valid_from, validTo: valid_to, minMonths,
+        isActive: is_active === undefined ? true : Boolean(is_active),
+      },
+    };
+  };
+
+  /**
+   * Validates a coupon body. Returns { error } or { values }.
+   */
+  const parseCoupon = (body) => {
+    const { code, description, branch_id, discount_type, discount_value, valid_from, valid_to, max_uses, is_active } = body;
+    const trimmedCode = code ? String(code).trim().toUpperCase() : '';
+    if (!/^[A-Z0-9_-]{3,40}$/.test(trimmedCode)) {
+      return { error: 'Coupon code must be 3 to 40 letters, digits, - or _' };
+    }
+    if (!DISCOUNT_TYPES.includes(discount_type)) {
+      return { error: `Discount type must be one of ${DISCOUNT_TYPES.join(', ')}` };
+    }
+    const value = parseFloat(discount_value);
+    if (isNaN(value) || value < 0 || (discount_type === 'percent' && value > 100)) {
+      return { error: 'Discount must be a non-negative amount (at most 100 for a percentage)' };
+    }
+    if (!DATE_PATTERN.test(valid_from || '') || !DATE_PATTERN.test(valid_to || '') || valid_to < valid_from) {
+      return { error: 'Valid from and valid to must be dates with valid to on or after valid from' };
+    }
+    const maxUses = max_uses === undefined || max_uses === null || max_uses === '' ? null : parseInt(max_uses, 10);
+    if (maxUses !== null && (isNaN(maxUses) || maxUses <= 0)) {
+      return { error: 'Usage limit must be a positive number (or empty for unlimited)' };
+    }
+    return {
+      values: {
+        code: trimmedCode, description: description ? String(description).trim() : null,
+        branchId: branch_id ? parseInt(branch_id, 10) : null,
+        discountType: discount_type, value, validFrom: valid_from, validTo: valid_to, maxUses,
+        isActive: is_active === undefined ? true : Boolean(is_active),
+      },
+    };
+  };
+
+  const isDuplicateCode = (err) => err.code === '23505';
+
+  /**
+   * @route   GET /api/fee-plans/quote?branchId=&shiftIds=1,2&months=&startDate=&withLocker=
+   *          &studentId=&couponCode=&referrerPhone=&siblingPhone=
+   * @desc    Fee, discount, security deposit and end date for a membership,
+   *          as admission and renewal will charge it. studentId is the
+   *          renewing student; the last three are promotions.
+   * @access  Admin or staff.
+   */
+  router.get('/quote', checkAdminOrStaff, async (req, res) => {
+    try {
+      const { branchId, shiftIds, months, startDate, withLocker, studentId, couponCode, referrerPhone, siblingPhone } = req.query;
+      const monthsNum = parseInt(months, 10);
+      if (isNaN(monthsNum) || monthsNum <= 0) {
+        return res.status(400).json({ message: 'Duration must be a positive number of months' });
+      }
+      if (!DATE_PATTERN.test(startDate || '')) {
+        return res.status(400).json({ message: 'Start date must be a date (YYYY-MM-DD)' });
+      }
+      const shiftIdsNum = String(shiftIds || '').split(',').filter(id => id).map(id => parseInt(id, 10));
+      if (shiftIdsNum.some(isNaN)) {
+        return res.status(400).json({ message: 'Invalid shift ids' });
+      }
+      const quote = await quoteFee(pool, {
+        branchId: branchId ? parseInt(branchId, 10) : null,
+        shiftIds: shiftIdsNum,
+        months: monthsNum,
+        startDate,
+        withLocker: withLocker === 'true',
+        studentId: studentId ? parseInt(studentId, 10) : null,
+        couponCode,
+        referrerPhone,
+        siblingPhone,
+      });
+      res.json({ quote, can_override: canOverrideFees(req) });
+    } catch (err) {
+      console.error('Error quoting fee:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   GET /api/fee-plans?branchId=
+   * @desc    Fee plans of a branch, including the ones for every branch.
+   * @access  Admin or staff.
+   */
+  router.get('/', checkAdminOrStaff, async (req, res) => {
+    try {
+      const params = [];
+      const conditions = branchConditions(req, 'fp', params);
+      const result = await pool.query(`
+        SELECT fp.*, b.name AS branch_name,
+               ARRAY(SELECT sch.title FROM schedules sch WHERE sch.id = ANY(fp.shift_ids) ORDER BY sch.title) AS shift_titles
+        FROM fee_plans fp
+        LEFT JOIN branches b ON b.id = fp.branch_id
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY b.name NULLS FIRST, fp.duration_months, fp.name
+      `, params);
+      res.json({ plans: result.rows });
+    } catch (err) {
+      console.error('Error fetching fee plans:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/fee-plans
+   * @desc    Create a fee plan. branch_id empty = every branch.
+   * @access  manage_fee_plans.
+   */
+  router.post('/', checkPermissions(['manage_fee_plans']), async (req, res) => {
+    try {
+      const { error, values } = await parsePlan(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      if (!values.branchId && !canAccessBranch(req, values.branchId)) {
+        return res.status(403).json({ message: 'Only users with access to every branch can add plans for all branches' });
+      }
+      const result = await pool.query(
+        `INSERT INTO fee_plans (name, branch_id, shift_ids, duration_months, fee, locker_fee, security_deposit, is_active)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+        [values.name, values.branchId, values.shiftIds, values.months, values.fee, values.locker_fee, values.security_deposit, values.isActive]
+      );
+      const plan = result.rows[0];
+      await recordAudit(pool, req, {
+        action: 'create', entityType: 'fee_plan', entityId: plan.id, branchId: plan.branch_id, after: plan,
+      });
+      res.status(201).json({ plan });
+    } catch (err) {
+      console.error('Error creating fee plan:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   PUT /api/fee-plans/:id
+   * @desc    Update a fee plan. Memberships already sold keep their fee.
+   * @access  manage_fee_plans.
+   */
+  router.put('/:id', checkPermissions(['manage_fee_plans']), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const { error, values } = await parsePlan(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      if (!values.branchId && !canAccessBranch(req, values.branchId)) {
+        return res.status(403).json({ message: 'Only users with access to every branch can add plans for all branches' });
+      }
+      const before = await pool.query('SELECT * FROM fee_plans WHERE id = $1', [id]);
+      if (before.rows.length === 0) {
+        return res.status(404).json({ message: 'Fee plan not found' });
+      }
+      const result = await pool.query(
+        `UPDATE fee_plans
+         SET name = $1, branch_id = $2, shift_ids = $3, duration_months = $4, fee = $5,
+             locker_fee = $6, security_deposit = $7, is_active = $8, updated_at = NOW()
+         WHERE id = $9 RETURNING *`,
+        [values.name, values.branchId, values.shiftIds, values.months, values.fee, values.locker_fee, values.security_deposit, values.isActive, id]
+      );
+      const plan = result.rows[0];
+      await recordAudit(pool, req, {
+        action: 'update', entityType: 'fee_plan', entityId: id, branchId: plan.branch_id, before: before.rows[0], after: plan,
+      });
+      res.json({ plan });
+    } catch (err) {
+      console.error('Error updating fee plan:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   DELETE /api/fee-plans/:id
+   * @access  manage_fee_plans.
+   */
+  router.delete('/:id', checkPermissions(['manage_fee_plans']), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const result = await pool.query('DELETE FROM fee_plans WHERE id = $1 RETURNING *', [id]);
+      if (result.rows.length === 0) {
+        return res.status(404).json({ message: 'Fee plan not found' });
+      }
+      await recordAudit(pool, req, {
+        action: 'delete', entityType: 'fee_plan', entityId: id, branchId: result.rows[0].branch_id, before: result.rows[0],
+      });
+      res.json({ message: 'Fee plan deleted' });
+    } catch (err) {
+      console.error('Error deleting fee plan:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   GET /api/fee-plans/offers?branchId=
+   * @desc    Seasonal offers of a branch, including the ones for every branch.
+   * @access  manage_fee_plans.
+   */
+  router.get('/offers', checkPermissions(['manage_fee_plans']), async (req, res) => {
+    try {
+      const params = [];
+      const conditions = branchConditions(req, 'fo', params);
+      const result = await pool.query(`
+        SELECT fo.*, TO_CHAR(fo.valid_from, 'YYYY-MM-DD') AS valid_from, TO_CHAR(fo.valid_to, 'YYYY-MM-DD') AS valid_to,
+               b.name AS branch_name
+        FROM fee_offers fo
+        LEFT JOIN branches b ON b.id = fo.branch_id
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY fo.valid_from DESC, fo.name
+      `, params);
+      res.json({ offers: result.rows });
+    } catch (err) {
+      console.error('Error fetching fee offers:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/fee-plans/offers
+   * @desc    Create an offer: a percent or flat discount for memberships
+   *          starting between valid_from and valid_to.
+   * @access  manage_fee_plans.
+   */
+  router.post('/offers', checkPermissions(['manage_fee_plans']), async (req, res) => {
+    try {
+      const { error, values } = parseOffer(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      if (!values.branchId && !canAccessBranch(req, values.branchId)) {
+        return res.status(403).json({ message: 'Only users with access to every branch can add offers for all branches' });
+      }
+      const result = await pool.query(
+        `INSERT INTO fee_offers (name, branch_id, discount_type, discount_value, valid_from, valid_to, min_months, is_active)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+        [values.name, values.branchId, values.discountType, values.value, values.validFrom, values.validTo, values.minMonths, values.isActive]
+      );
+      const offer = result.rows[0];
+      await recordAudit(pool, req, {
+        action: 'create', entityType: 'fee_offer', entityId: offer.id, branchId: offer.branch_id, after: offer,
+      });
+      res.status(201).json({ offer });
+    } catch (err) {
+      console.error('Error creating fee offer:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   PUT /api/fee-plans/offers/:offerId
+   * @access  manage_fee_plans.
+   */
+  router.put('/offers/:offerId', checkPermissions(['manage_fee_plans']), async (req, res) => {
+    try {
+      const id = parseInt(req.params.offerId, 10);
+      const { error, values } = parseOffer(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      if (!values.branchId && !canAccessBranch(req, values.branchId)) {
+        return res.status(403).json({ message: 'Only users with access to every branch can add offers for all branches' });
+      }
+      const before = await pool.query('SELECT * FROM fee_offers WHERE id = $1', [id]);
+      if (before.rows.length === 0) {
+        return res.status(404).json({ message: 'Offer not found' });
+      }
+      const result = await pool.query(
+        `UPDATE fee_offers
+         SET name = $1, branch_id = $2, discount_type = $3, discount_value = $4,
+             valid_from = $5, valid_to = $6, min_months = $7, is_active = $8
+         WHERE id = $9 RETURNING *`,
+        [values.name, values.branchId, values.discountType, values.value, values.validFrom, values.validTo, values.minMonths, values.isActive, id]
+      );
+      const offer = result.rows[0];
+      await recordAudit(pool, req, {
+        action: 'update', entityType: 'fee_offer', entityId: id, branchId: offer.branch_id, before: before.rows[0], after: offer,
+      });
+      res.json({ offer });
+    } catch (err) {
+      console.error('Error updating fee offer:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   DELETE /api/fee-plans/offers/:offerId
+   * @access  manage_fee_plans.
+   */
+  router.delete('/offers/:offerId', checkPermissions(['manage_fee_plans']), async (req, res) => {
+    try {
+      const id = parseInt(req.params.offerId, 10);
+      const result = await pool.query('DELETE FROM fee_offers WHERE id = $1 RETURNING *', [id]);
+      if (result.rows.length === 0) {
+        return res.status(404).json({ message: 'Offer not found' });
+      }
+      await recordAudit(pool, req, {
+        action: 'delete', entityType: 'fee_offer', entityId: id, branchId: result.rows[0].branch_id, before: result.rows[0],
+      });
+      res.json({ message: 'Offer deleted' });
+    } catch (err) {
+      console.error('Error deleting fee offer:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   GET /api/fee-plans/coupons?branchId=
+   * @desc    Coupon codes of a branch, including the ones for every branch,
+   *          with how often each has been redeemed.
+   * @access  manage_fee_plans.
+   */
+  router.get('/coupons', checkPermissions(['manage_fee_plans']), async (req, res) => {
+    try {
+      const params = [];
+      const conditions = branchConditions(req, 'c', params);
+      const result = await pool.query(`
+        SELECT c.*, TO_CHAR(c.valid_from, 'YYYY-MM-DD') AS valid_from, TO_CHAR(c.valid_to, 'YYYY-MM-DD') AS valid_to,
+               b.name AS branch_name,
+               (SELECT COUNT(*)::int FROM coupon_redemptions cr WHERE cr.coupon_id = c.id) AS times_used,
+               (SELECT COALESCE(SUM(cr.discount), 0)::float FROM coupon_redemptions cr WHERE cr.coupon_id = c.id) AS total_discount
+        FROM coupons c
+        LEFT JOIN branches b ON b.id = c.branch_id
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY c.valid_to DESC, c.code
+      `, params);
+      res.json({ coupons: result.rows });
+    } catch (err) {
+      console.error('Error fetching coupons:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/fee-plans/coupons
+   * @desc    Create a coupon code, redeemable at admission and renewal
+   *          between valid_from and valid_to, up to max_uses times.
+   * @access  manage_fee_plans.
+   */
+  router.post('/coupons', checkPermissions(['manage_fee_plans']), async (req, res) => {
+    try {
+      const { error, values } = parseCoupon(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      if (!values.branchId && !canAccessBranch(req, values.branchId)) {
+        return res.status(403).json({ message: 'Only users with access to every branch can add coupons for all branches' });
+      }
+      const result = await pool.query(
+        `INSERT INTO coupons (code, description, branch_id, discount_type, discount_value, valid_from, valid_to, max_uses, is_active)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+        [values.code, values.description, values.branchId, values.discountType, values.value, values.validFrom, values.validTo, values.maxUses, values.isActive]
+      );
+      const coupon = result.rows[0];
+      await recordAudit(pool, req, {
+        action: 'create', entityType: 'coupon', entityId: coupon.id, branchId: coupon.branch_id, after: coupon,
+      });
+      res.status(201).json({ coupon });
+    } catch (err) {
+      if (isDuplicateCode(err)) {
+        return res.status(400).json({ message: 'A coupon with this code already exists' });
+      }
+      console.error('Error creating coupon:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   PUT /api/fee-plans/coupons/:couponId
+   * @desc    Update a coupon. Redemptions already made keep their discount.
+   * @access  manage_fee_plans.
+   */
+  router.put('/coupons/:couponId', checkPermissions(['manage_fee_plans']), async (req, res) => {
+    try {
+      const id = parseInt(req.params.couponId, 10);
+      const { error, values } = parseCoupon(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      if (!values.branchId && !canAccessBranch(req, values.branchId)) {
+        return res.status(403).json({ message: 'Only users with access to every branch can add coupons for all branches' });
+      }
+      const before = await pool.query('SELECT * FROM coupons WHERE id = $1', [id]);
+      if (before.rows.length === 0) {
+        return res.status(404).json({ message: 'Coupon not found' });
+      }
+      const result = await pool.query(
+        `UPDATE coupons
+         SET code = $1, description = $2, branch_id = $3, discount_type = $4, discount_value = $5,
+             valid_from = $6, valid_to = $7, max_uses = $8, is_active = $9
+         WHERE id = $10 RETURNING *`,
+        [values.code, values.description, values.branchId, values.discountType, values.value, values.validFrom, values.validTo, values.maxUses, values.isActive, id]
+      );
+      const coupon = result.rows[0];
+      await recordAudit(pool, req, {
+        action: 'update', entityType: 'coupon', entityId: id, branchId: coupon.branch_id, before: before.rows[0], after: coupon,
+      });
+      res.json({ coupon });
+    } catch (err) {
+      if (isDuplicateCode(err)) {
+        return res.status(400).json({ message: 'A coupon with this code already exists' });
+      }
+      console.error('Error updating coupon:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   DELETE /api/fee-plans/coupons/:couponId
+   * @desc    Delete a coupon that was never redeemed; deactivate it otherwise.
+   * @access  manage_fee_plans.
+   */
+  router.delete('/coupons/:couponId', checkPermissions(['manage_fee_plans']), async (req, res) => {
+    try {
+      const id = parseInt(req.params.couponId, 10);
+      const redeemed = await pool.query('SELECT 1 FROM coupon_redemptions WHERE coupon_id = $1 LIMIT 1', [id]);
+      if (redeemed.rows.length > 0) {
+        return res.status(400).json({ message: 'This coupon has been redeemed; deactivate it instead' });
+      }
+      const result = await pool.query('DELETE FROM coupons WHERE id = $1 RETURNING *', [id]);
+      if (result.rows.length === 0) {
+        return res.status(404).json({ message: 'Coupon not found' });
+      }
+      await recordAudit(pool, req, {
+        action: 'delete', entityType: 'coupon', entityId: id, branchId: result.rows[0].branch_id, before: result.rows[0],
+      });
+      res.json({ message: 'Coupon deleted' });
+    } catch (err) {
+      console.error('Error deleting coupon:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  return router;
+};
@@ -2,6 +2,11 @@
 module.exports = (pool) => {
   const router = require('express').Router();
   const { checkPermissions } = require('./auth');
+  const { recordAudit } = require('../utils/audit');
+  const { branchScopeCondition, checkBranchAccess, checkRecordBranch } = require('../utils/branchAccess');
+
+  router.use(checkBranchAccess);
+  router.param('id', checkRecordBranch(pool, 'SELECT branch_id FROM locker WHERE id = $1'));
 
   // ✅ FIX: Modified to filter by branchId and join to get branch_name
   router.get('/', checkPermissions(['manage_seats', 'manage_library_students'], 'OR'), async (req, res) => {
@@ -21,10 +26,18 @@ module.exports = (pool) => {
         LEFT JOIN branches b ON l.branch_id = b.id -- Join with branches table
       `;
       const params = [];
+      const conditions = [];
 
       if (branchId) {
-        query += ` WHERE l.branch_id = $1`;
         params.push(parseInt(branchId, 10));
+        conditions.push(`l.branch_id = $${params.length}`);
+      }
+      const branchScope = branchScopeCondition(req, 'l.branch_id', params);
+      if (branchScope) {
+        conditions.push(branchScope);
+      }
+      if (conditions.length > 0) {
+        query += ` WHERE ${conditions.join(' AND ')}`;
       }
 
       query += ` ORDER BY b.name, l.locker_number`;
@@ -56,6 +69,9 @@ module.exports = (pool) => {
         [locker_number, branch_id] // Added branch_id to query
       );
       await client.query('COMMIT');
+      await recordAudit(pool, req, {
+        action: 'create', entityType: 'locker', entityId: result.rows[0].id, branchId: result.rows[0].branch_id, after: result.rows[0],
+      });
       res.status(201).json({ locker: result.rows[0] });
     } catch (err) {
       await client.query('ROLLBACK');
@@ -83,6 +99,7 @@ module.exports = (pool) => {
         await client.query('ROLLBACK');
         return res.status(400).json({ message: `Locker with number ${locker_number} already exists in this branch` });
       }
+      const before = await client.query('SELECT * FROM locker WHERE id = $1', [id]);
       const result = await client.query(
         'UPDATE locker SET locker_number = $1, branch_id = $2 WHERE id = $3 RETURNING *',
         [locker_number, branch_id, id]
@@ -92,6 +109,10 @@ module.exports = (pool) => {
         return res.status(404).json({ message: 'Locker not found' });
       }
       await client.query('COMMIT');
+      await recordAudit(pool, req, {
+        action: 'update', entityType: 'locker', entityId: id, branchId: result.rows[0].branch_id,
+        before: before.rows[0], after: result.rows[0],
+      });
       res.json({ locker: result.rows[0] });
     } catch (err) {
       await client.query('ROLLBACK');
@@ -123,6 +144,9 @@ module.exports = (pool) => {
         return res.status(404).json({ message: 'Locker not found' });
       }
       await client.query('COMMIT');
+      await recordAudit(pool, req, {
+        action: 'delete', entityType: 'locker', entityId: id, branchId: result.rows[0].branch_id, before: result.rows[0],
+      });
       res.json({ message: 'Locker deleted', locker: result.rows[0] });
     } catch (err) {
       await client.query('ROLLBACK');
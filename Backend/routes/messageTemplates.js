@@ -0,0 +1,227 @@
+module.exports = (pool) => {
+  const router = require('express').Router();
+  const { recordAudit } = require('../utils/audit');
+  const { CHANNELS } = require('../utils/providers');
+  const {
+    EVENTS, EVENT_KEYS, PLACEHOLDERS, unknownPlaceholders, studentVariables, renderMessage,
+  } = require('../utils/messageTemplates');
+
+  const isDuplicateScope = (err) => err.code === '23505';
+
+  /**
+   * Validates a template body. Returns { error } or { values }.
+   */
+  const parseTemplate = async (body) => {
+    const { event, channel, branch_id, subject, provider_template, is_active } = body;
+    const text = body.body;
+    if (!EVENT_KEYS.includes(event)) {
+      return { error: `Event must be one of ${EVENT_KEYS.join(', ')}` };
+    }
+    if (!CHANNELS.includes(channel)) {
+      return { error: `Channel must be one of ${CHANNELS.join(', ')}` };
+    }
+    if (!text || !String(text).trim()) {
+      return { error: 'Message text is required' };
+    }
+    if (channel === 'email' && !(subject && String(subject).trim()) && !provider_template) {
+      return { error: 'Email templates need a subject' };
+    }
+    const unknown = unknownPlaceholders(`${subject || ''} ${text}`);
+    if (unknown.length > 0) {
+      return { error: `Unknown placeholder(s): ${unknown.map(key => `{{${key}}}`).join(', ')}` };
+    }
+    const branchId = branch_id ? parseInt(branch_id, 10) : null;
+    if (branch_id && isNaN(branchId)) {
+      return { error: 'Invalid branch' };
+    }
+    if (branchId) {
+      const branch = await pool.query('SELECT 1 FROM branches WHERE id = $1', [branchId]);
+      if (branch.rows.length === 0) {
+        return { error: 'Branch not found' };
+      }
+    }
+    return {
+      values: {
+        event,
+        channel,
+        branchId,
+        subject: subject && String(subject).trim() ? String(subject).trim() : null,
+        body: String(text),
+        providerTemplate: provider_template && String(provider_template).trim() ? String(provider_template).trim() : null,
+        isActive: is_active === undefined ? true : Boolean(is_active),
+      },
+    };
+  };
+
+  /**
+   * @route   GET /api/message-templates
+   * @desc    All templates with their branch, plus the events and the
+   *          placeholders a template can use.
+   * @access  Admin.
+   */
+  router.get('/', async (req, res) => {
+    try {
+      const result = await pool.query(`
+        SELECT mt.*, b.name AS branch_name
+        FROM message_templates mt
+        LEFT JOIN branches b ON b.id = mt.branch_id
+        ORDER BY mt.event, mt.channel, mt.branch_id NULLS FIRST
+      `);
+      res.json({ templates: result.rows, events: EVENTS, placeholders: PLACEHOLDERS });
+    } catch (err) {
+      console.error('Error fetching message templates:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/message-templates/preview
+   * @desc    Render a (possibly unsaved) template for a real student. Values
+   *          of other events (receipt, installment) come from the student's
+   *          latest receipt and next unpaid installment.
+   * @access  Admin.
+   */
+  router.post('/preview', async (req, res) => {
+    try {
+      const studentId = parseInt(req.body.student_id, 10);
+      if (isNaN(studentId)) {
+        return res.status(400).json({ message: 'Select a student to preview with' });
+      }
+      const receipt = await pool.query(
+        'SELECT receipt_number, amount, due_amount FROM receipts WHERE student_id = $1 ORDER BY issued_at DESC, id DESC LIMIT 1',
+        [studentId]
+      );
+      const installment = await pool.query(
+        `SELECT amount - paid_amount AS left_amount, TO_CHAR(due_date, 'DD/MM/YYYY') AS due_date
+         FROM fee_installments WHERE student_id = $1 AND status <> 'paid'
+         ORDER BY due_date LIMIT 1`,
+        [studentId]
+      );
+      const extra = {};
+      if (receipt.rows.length > 0) {
+        extra.receipt_number = receipt.rows[0].receipt_number;
+        extra.amount_paid = parseFloat(receipt.rows[0].amount).toFixed(2);
+      }
+      if (installment.rows.length > 0) {
+        extra.due_date = installment.rows[0].due_date;
+        if (req.body.event === 'due_reminder') {
+          extra.due_amount = parseFloat(installment.rows[0].left_amount).toFixed(2);
+        }
+      }
+      const variables = await studentVariables(pool, studentId, extra);
+      if (!variables) {
+        return res.status(404).json({ message: 'Student not found' });
+      }
+      const rendered = renderMessage({
+        event: req.body.event,
+        subject: req.body.subject,
+        body: req.body.body,
+        provider_template: req.body.provider_template,
+      }, variables);
+      res.json({
+        subject: rendered.payload.subject,
+        text: rendered.payload.text,
+        parameters: rendered.payload.parameters || [],
+        unknown_placeholders: unknownPlaceholders(`${req.body.subject || ''} ${req.body.body || ''}`),
+        student: { id: variables.id, name: variables.name, phone: variables.phone, email: variables.email },
+      });
+    } catch (err) {
+      console.error('Error previewing message template:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/message-templates
+   * @desc    Create a template for an event and channel, for every branch
+   *          (no branch_id) or one branch. One per event, channel and branch.
+   * @access  Admin.
+   */
+  router.post('/', async (req, res) => {
+    try {
+      const { error, values } = await parseTemplate(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      const result = await pool.query(
+        `INSERT INTO message_templates (event, channel, branch_id, subject, body, provider_template, is_active)
+         VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+        [values.event, values.channel, values.branchId, values.subject, values.body, values.providerTemplate, values.isActive]
+      );
+      const template = result.rows[0];
+      await recordAudit(pool, req, {
+        action: 'create', entityType: 'message_template', entityId: template.id, branchId: template.branch_id, after: template,
+      });
+      res.status(201).json({ template });
+    } catch (err) {
+      if (isDuplicateScope(err)) {
+        return res.status(400).json({ message: 'There is already a template for this event, channel and branch' });
+      }
+      console.error('Error creating message template:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   PUT /api/message-templates/:id
+   * @desc    Update a template. Messages already queued keep their text.
+   * @access  Admin.
+   */
+  router.put('/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const { error, values } = await parseTemplate(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      const before = await pool.query('SELECT * FROM message_templates WHERE id = $1', [id]);
+      if (before.rows.length === 0) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      const result = await pool.query(
+        `UPDATE message_templates
+         SET event = $1, channel = $2, branch_id = $3, subject = $4, body = $5, provider_template = $6,
+             is_active = $7, updated_at = NOW()
+         WHERE id = $8 RETURNING *`,
+        [values.event, values.channel, values.branchId, values.subject, values.body, values.providerTemplate, values.isActive, id]
+      );
+      const template = result.rows[0];
+      await recordAudit(pool, req, {
+        action: 'update', entityType: 'message_template', entityId: id, branchId: template.branch_id,
+        before: before.rows[0], after: template,
+      });
+      res.json({ template });
+    } catch (err) {
+      if (isDuplicateScope(err)) {
+        return res.status(400).json({ message: 'There is already a template for this event, channel and branch' });
+      }
+      console.error('Error updating message template:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   DELETE /api/message-templates/:id
+   * @desc    Delete a template. The event then falls back to the template
+   *          for every branch, if any.
+   * @access  Admin.
+   */
+  router.delete('/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const result = await pool.query('DELETE FROM message_templates WHERE id = $1 RETURNING *', [id]);
+      if (result.rows.length === 0) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      await recordAudit(pool, req, {
+        action: 'delete', entityType: 'message_template', entityId: id, branchId: result.rows[0].branch_id, before: result.rows[0],
+      });
+      res.json({ message: 'Template deleted' });
+    } catch (err) {
+      console.error('Error deleting message template:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,111 @@
+module.exports = (pool) => {
+  const router = require('express').Router();
+  const { checkPermissions } = require('./auth');
+  const { recordAudit } = require('../utils/audit');
+  const { branchScopeCondition, checkBranchAccess, checkRecordBranch } = require('../utils/branchAccess');
+  const { CHANNELS, STATUSES, resendNotification } = require('../utils/notifications');
+
+  router.use(checkBranchAccess);
+  router.param('id', checkRecordBranch(pool, 'SELECT branch_id FROM notification_outbox WHERE id = $1'));
+
+  /**
+   * @route   GET /api/messages
+   * @desc    Paged notification outbox, newest first. Filters: studentId,
+   *          branchId, status, channel, kind. Also returns the counts per
+   *          status for the same filters (without status).
+   * @access  manage_messages.
+   */
+  router.get('/', checkPermissions(['manage_messages']), async (req, res) => {
+    try {
+      const { studentId, branchId, status, channel, kind } = req.query;
+      const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+      const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+
+      if (status && !STATUSES.includes(status)) {
+        return res.status(400).json({ message: `Status must be one of ${STATUSES.join(', ')}` });
+      }
+      if (channel && !CHANNELS.includes(channel)) {
+        return res.status(400).json({ message: `Channel must be one of ${CHANNELS.join(', ')}` });
+      }
+
+      const params = [];
+      const conditions = [];
+      const addCondition = (sql, value) => {
+        params.push(value);
+        conditions.push(sql.replace('?', `$${params.length}`));
+      };
+
+      if (studentId) addCondition('m.student_id = ?', parseInt(studentId, 10));
+      if (branchId) addCondition('m.branch_id = ?', parseInt(branchId, 10));
+      if (channel) addCondition('m.channel = ?', channel);
+      if (kind) addCondition('m.kind = ?', kind);
+      if (params.some(value => typeof value === 'number' && isNaN(value))) {
+        return res.status(400).json({ message: 'Invalid filter value' });
+      }
+      const branchScope = branchScopeCondition(req, 'm.branch_id', params);
+      if (branchScope) conditions.push(branchScope);
+
+      const countsWhere = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const countsRes = await pool.query(
+        `SELECT m.status, COUNT(*)::int AS count FROM notification_outbox m ${countsWhere} GROUP BY m.status`,
+        params
+      );
+
+      if (status) addCondition('m.status = ?', status);
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const countRes = await pool.query(`SELECT COUNT(*) FROM notification_outbox m ${where}`, params);
+      const messagesRes = await pool.query(
+        `SELECT m.id, m.channel, m.recipient, m.template, m.payload, m.kind, m.status, m.attempts, m.max_attempts,
+                m.next_attempt_at, m.last_error, m.provider, m.provider_message_id, m.resend_of, m.created_at, m.sent_at,
+                m.student_id, s.name AS student_name, m.branch_id, b.name AS branch_name, u.username AS created_by_name
+         FROM notification_outbox m
+         LEFT JOIN students s ON s.id = m.student_id
+         LEFT JOIN branches b ON b.id = m.branch_id
+         LEFT JOIN users u ON u.id = m.created_by
+         ${where}
+         ORDER BY m.created_at DESC, m.id DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, (page - 1) * limit]
+      );
+      const kindsRes = await pool.query('SELECT DISTINCT kind FROM notification_outbox ORDER BY kind');
+
+      res.json({
+        messages: messagesRes.rows,
+        total: parseInt(countRes.rows[0].count, 10),
+        page,
+        limit,
+        status_counts: Object.fromEntries(countsRes.rows.map(row => [row.status, row.count])),
+        kinds: kindsRes.rows.map(row => row.kind),
+      });
+    } catch (err) {
+      console.error('Error fetching messages:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/messages/:id/resend
+   * @desc    Queue a copy of a message to go out on the next worker run. The
+   *          original keeps its status; the copy points back to it.
+   * @access  manage_messages.
+   */
+  router.post('/:id/resend', checkPermissions(['manage_messages']), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const message = await resendNotification(pool, id, req.session.user.id);
+      if (!message) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      await recordAudit(pool, req, {
+        action: 'resend', entityType: 'notification', entityId: message.id, branchId: message.branch_id,
+        after: { resend_of: id, channel: message.channel, recipient: message.recipient, template: message.template },
+      });
+      res.status(201).json({ message: 'Message queued to be sent again', notification: message });
+    } catch (err) {
+      console.error('Error resending message:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  return router;
+};
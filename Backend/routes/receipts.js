@@ -0,0 +1,152 @@
+module.exports = (pool) => {
+  const router = require('express').Router();
+  const { checkAdminOrStaff } = require('./auth');
+  const { branchScopeCondition, checkRecordBranch } = require('../utils/branchAccess');
+
+  router.param('id', checkRecordBranch(pool, 'SELECT branch_id FROM receipts WHERE id = $1'));
+
+  const formatReceipt = (row) => ({
+    ...row,
+    total_fee: parseFloat(row.total_fee || 0),
+    discount: parseFloat(row.discount || 0),
+    cash: parseFloat(row.cash || 0),
+    online: parseFloat(row.online || 0),
+    amount: parseFloat(row.amount || 0),
+    security_money: parseFloat(row.security_money || 0),
+    due_amount: parseFloat(row.due_amount || 0),
+    print_count: parseInt(row.print_count || 0, 10),
+  });
+
+  const receiptSelect = `
+    SELECT
+      r.id, r.receipt_number, r.branch_id, r.student_id, r.history_id,
+      r.student_name, r.phone, r.registration_number, r.shift_titles, r.seat_number,
+      r.total_fee, r.discount, r.cash, r.online, r.amount, r.security_money, r.due_amount,
+      r.issued_by, r.issued_at, r.voided_at, r.void_reason, r.replaced_by,
+      rr.receipt_number AS replaced_by_number,
+      TO_CHAR(r.membership_start, 'YYYY-MM-DD') AS membership_start,
+      TO_CHAR(r.membership_end, 'YYYY-MM-DD') AS membership_end,
+      b.name AS branch_name,
+      u.username AS issued_by_name,
+      (SELECT COUNT(*) FROM receipt_prints rp WHERE rp.receipt_id = r.id) AS print_count,
+      (SELECT MAX(rp.printed_at) FROM receipt_prints rp WHERE rp.receipt_id = r.id) AS last_printed_at
+    FROM receipts r
+    LEFT JOIN branches b ON r.branch_id = b.id
+    LEFT JOIN users u ON r.issued_by = u.id
+    LEFT JOIN receipts rr ON r.replaced_by = rr.id
+  `;
+
+  const fetchReceiptWithPrints = async (id) => {
+    const receiptRes = await pool.query(`${receiptSelect} WHERE r.id = $1`, [id]);
+    if (receiptRes.rows.length === 0) {
+      return null;
+    }
+    const printsRes = await pool.query(
+      `SELECT rp.id, rp.printed_at, u.username AS printed_by_name
+       FROM receipt_prints rp
+       LEFT JOIN users u ON rp.printed_by = u.id
+       WHERE rp.receipt_id = $1
+       ORDER BY rp.printed_at ASC`,
+      [id]
+    );
+    return { ...formatReceipt(receiptRes.rows[0]), prints: printsRes.rows };
+  };
+
+  /**
+   * @route   GET /api/receipts
+   * @desc    List receipts for a student (?studentId=) or a single collection record (?historyId=).
+   * @access  Admin or Staff.
+   */
+  router.get('/', checkAdminOrStaff, async (req, res) => {
+    try {
+      const { studentId, historyId } = req.query;
+      const params = [];
+      const conditions = [];
+
+      if (studentId) {
+        const studentIdNum = parseInt(studentId, 10);
+        if (isNaN(studentIdNum)) {
+          return res.status(400).json({ message: 'Invalid student ID' });
+        }
+        params.push(studentIdNum);
+        conditions.push(`r.student_id = $${params.length}`);
+      }
+      if (historyId) {
+        const historyIdNum = parseInt(historyId, 10);
+        if (isNaN(historyIdNum)) {
+          return res.status(400).json({ message: 'Invalid history ID' });
+        }
+        params.push(historyIdNum);
+        conditions.push(`r.history_id = $${params.length}`);
+      }
+      if (conditions.length === 0) {
+        return res.status(400).json({ message: 'studentId or historyId is required' });
+      }
+      const branchScope = branchScopeCondition(req, 'r.branch_id', params);
+      if (branchScope) {
+        conditions.push(branchScope);
+      }
+
+      const result = await pool.query(
+        `${receiptSelect} WHERE ${conditions.join(' AND ')} ORDER BY r.issued_at DESC, r.id DESC`,
+        params
+      );
+      res.json({ receipts: result.rows.map(formatReceipt) });
+    } catch (err) {
+      console.error('Error fetching receipts:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   GET /api/receipts/:id
+   * @desc    Get a single receipt together with its print history.
+   * @access  Admin or Staff.
+   */
+  router.get('/:id', checkAdminOrStaff, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid receipt ID' });
+      }
+      const receipt = await fetchReceiptWithPrints(id);
+      if (!receipt) {
+        return res.status(404).json({ message: 'Receipt not found' });
+      }
+      res.json({ receipt });
+    } catch (err) {
+      console.error('Error fetching receipt:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/receipts/:id/print
+   * @desc    Record that a receipt was printed/downloaded. The first entry is the
+   *          original copy, every later entry is a reprint.
+   * @access  Admin or Staff.
+   */
+  router.post('/:id/print', checkAdminOrStaff, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid receipt ID' });
+      }
+      const exists = await pool.query('SELECT 1 FROM receipts WHERE id = $1', [id]);
+      if (exists.rows.length === 0) {
+        return res.status(404).json({ message: 'Receipt not found' });
+      }
+      await pool.query(
+        'INSERT INTO receipt_prints (receipt_id, printed_by, printed_at) VALUES ($1, $2, NOW())',
+        [id, req.session.user.id]
+      );
+      const receipt = await fetchReceiptWithPrints(id);
+      res.json({ receipt });
+    } catch (err) {
+      console.error('Error recording receipt print:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,213 @@
+module.exports = (pool) => {
+  const router = require('express').Router();
+  const { recordAudit } = require('../utils/audit');
+  const { CHANNELS } = require('../utils/providers');
+  const { EVENTS, EVENT_KEYS } = require('../utils/messageTemplates');
+  const { TRIGGERS, TRIGGER_KEYS } = require('../utils/reminderRules');
+
+  const isWholeNumber = (value) => Number.isInteger(Number(value)) && String(value).trim() !== '';
+
+  /**
+   * Validates a rule body. Returns { error } or { values }.
+   */
+  const parseRule = async (body) => {
+    const { name, trigger, days, event, channels, branch_ids, send_from_hour, send_to_hour, is_active } = body;
+    if (!name || !String(name).trim()) {
+      return { error: 'Rule name is required' };
+    }
+    const triggerDef = TRIGGERS.find(item => item.key === trigger);
+    if (!triggerDef) {
+      return { error: `Trigger must be one of ${TRIGGER_KEYS.join(', ')}` };
+    }
+    let dayCount = 0;
+    if (triggerDef.usesDays) {
+      const minDays = trigger === 'due_amount' ? 0 : 1;
+      if (!isWholeNumber(days) || Number(days) < minDays) {
+        return { error: `Days must be a whole number of at least ${minDays}` };
+      }
+      dayCount = Number(days);
+    }
+    if (!EVENT_KEYS.includes(event)) {
+      return { error: `Message must be one of ${EVENT_KEYS.join(', ')}` };
+    }
+    const channelList = Array.isArray(channels) ? [...new Set(channels)] : [];
+    if (channelList.length === 0 || channelList.some(channel => !CHANNELS.includes(channel))) {
+      return { error: `Choose at least one channel of ${CHANNELS.join(', ')}` };
+    }
+    const from = Number(send_from_hour);
+    const to = Number(send_to_hour);
+    if (!isWholeNumber(send_from_hour) || !isWholeNumber(send_to_hour) || from < 0 || to > 24 || from >= to) {
+      return { error: 'The send window must be whole hours from 0 to 24, with the start before the end' };
+    }
+    const branchIds = Array.isArray(branch_ids) ? [...new Set(branch_ids.map(id => parseInt(id, 10)))] : [];
+    if (branchIds.some(isNaN)) {
+      return { error: 'Invalid branch' };
+    }
+    if (branchIds.length > 0) {
+      const table = trigger === 'hostel_stay_ending' ? 'hostel_branches' : 'branches';
+      const found = await pool.query(`SELECT id FROM ${table} WHERE id = ANY($1::int[])`, [branchIds]);
+      if (found.rows.length !== branchIds.length) {
+        return { error: 'Branch not found' };
+      }
+    }
+    return {
+      values: {
+        name: String(name).trim(),
+        trigger,
+        days: dayCount,
+        event,
+        channels: channelList,
+        branchIds: branchIds.length > 0 ? branchIds : null,
+        from,
+        to,
+        isActive: is_active === undefined ? true : Boolean(is_active),
+      },
+    };
+  };
+
+  /**
+   * @route   GET /api/reminder-rules
+   * @desc    All rules with how often each has fired (in total and in the last
+   *          30 days) and when last, plus the triggers and message events.
+   * @access  Admin.
+   */
+  router.get('/', async (req, res) => {
+    try {
+      const result = await pool.query(`
+        SELECT rr.*,
+               (SELECT COUNT(*)::int FROM reminder_rule_runs r WHERE r.rule_id = rr.id) AS times_fired,
+               (SELECT COUNT(*)::int FROM reminder_rule_runs r
+                WHERE r.rule_id = rr.id AND r.fired_at >= NOW() - INTERVAL '30 days') AS fired_last_30_days,
+               (SELECT MAX(r.fired_at) FROM reminder_rule_runs r WHERE r.rule_id = rr.id) AS last_fired_at
+        FROM reminder_rules rr
+        ORDER BY rr.trigger, rr.days, rr.id
+      `);
+      res.json({ rules: result.rows, triggers: TRIGGERS, events: EVENTS });
+    } catch (err) {
+      console.error('Error fetching reminder rules:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   GET /api/reminder-rules/runs?ruleId=&studentId=&limit=
+   * @desc    Latest rule firings, newest first: which rule reminded whom, for
+   *          which occurrence and how many messages it queued.
+   * @access  Admin.
+   */
+  router.get('/runs', async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit, 10) || 100, 500);
+      const params = [];
+      const conditions = [];
+      if (req.query.ruleId) {
+        params.push(parseInt(req.query.ruleId, 10));
+        conditions.push(`r.rule_id = $${params.length}`);
+      }
+      if (req.query.studentId) {
+        params.push(parseInt(req.query.studentId, 10));
+        conditions.push(`r.student_id = $${params.length}`);
+      }
+      if (params.some(isNaN)) {
+        return res.status(400).json({ message: 'Invalid filter value' });
+      }
+      params.push(limit);
+      const result = await pool.query(`
+        SELECT r.*, rr.name AS rule_name, COALESCE(s.name, hs.name) AS student_name
+        FROM reminder_rule_runs r
+        JOIN reminder_rules rr ON rr.id = r.rule_id
+        LEFT JOIN students s ON s.id = r.student_id
+        LEFT JOIN hostel_students hs ON hs.id = r.hostel_student_id
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY r.fired_at DESC, r.id DESC
+        LIMIT $${params.length}
+      `, params);
+      res.json({ runs: result.rows });
+    } catch (err) {
+      console.error('Error fetching reminder rule runs:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/reminder-rules
+   * @desc    Create a rule. It is picked up by the next hourly run.
+   * @access  Admin.
+   */
+  router.post('/', async (req, res) => {
+    try {
+      const { error, values } = await parseRule(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      const result = await pool.query(
+        `INSERT INTO reminder_rules (name, trigger, days, event, channels, branch_ids, send_from_hour, send_to_hour, is_active)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+        [values.name, values.trigger, values.days, values.event, values.channels, values.branchIds, values.from, values.to, values.isActive]
+      );
+      const rule = result.rows[0];
+      await recordAudit(pool, req, { action: 'create', entityType: 'reminder_rule', entityId: rule.id, after: rule });
+      res.status(201).json({ rule });
+    } catch (err) {
+      console.error('Error creating reminder rule:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   PUT /api/reminder-rules/:id
+   * @desc    Update a rule. Students it already fired for are not reminded
+   *          again for the same occurrence.
+   * @access  Admin.
+   */
+  router.put('/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const { error, values } = await parseRule(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      const before = await pool.query('SELECT * FROM reminder_rules WHERE id = $1', [id]);
+      if (before.rows.length === 0) {
+        return res.status(404).json({ message: 'Rule not found' });
+      }
+      const result = await pool.query(
+        `UPDATE reminder_rules
+         SET name = $1, trigger = $2, days = $3, event = $4, channels = $5, branch_ids = $6,
+             send_from_hour = $7, send_to_hour = $8, is_active = $9, updated_at = NOW()
+         WHERE id = $10 RETURNING *`,
+        [values.name, values.trigger, values.days, values.event, values.channels, values.branchIds, values.from, values.to, values.isActive, id]
+      );
+      const rule = result.rows[0];
+      await recordAudit(pool, req, {
+        action: 'update', entityType: 'reminder_rule', entityId: id, before: before.rows[0], after: rule,
+      });
+      res.json({ rule });
+    } catch (err) {
+      console.error('Error updating reminder rule:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   DELETE /api/reminder-rules/:id
+   * @desc    Delete a rule together with its firing record.
+   * @access  Admin.
+   */
+  router.delete('/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const result = await pool.query('DELETE FROM reminder_rules WHERE id = $1 RETURNING *', [id]);
+      if (result.rows.length === 0) {
+        return res.status(404).json({ message: 'Rule not found' });
+      }
+      await recordAudit(pool, req, { action: 'delete', entityType: 'reminder_rule', entityId: id, before: result.rows[0] });
+      res.json({ message: 'Rule deleted' });
+    } catch (err) {
+      console.error('Error deleting reminder rule:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  return router;
+};
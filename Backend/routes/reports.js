@@ -1,6 +1,10 @@
 module.exports = (pool) => {
   const router = require('express').Router();
-  const { checkAdminOrStaff } = require('./auth');
+  const { checkAdminOrStaff, checkPermissions } = require('./auth');
+  const { branchScopeCondition, checkBranchAccess } = require('../utils/branchAccess');
+  const { COLLECTION_TYPES } = require('../utils/ledger');
+
+  router.use(checkBranchAccess);
 
   router.get('/profit-loss', checkAdminOrStaff, async (req, res) => {
     try {
@@ -35,6 +39,11 @@ module.exports = (pool) => {
         expensesQuery += ` AND branch_id = $${paramIndex}`;
         params.push(branchIdNum);
       }
+      const branchScope = branchScopeCondition(req, 'branch_id', params);
+      if (branchScope) {
+        collectionsQuery += ` AND ${branchScope}`;
+        expensesQuery += ` AND ${branchScope}`;
+      }
   
       const collectionsResult = await pool.query(collectionsQuery, params);
       const expensesResult = await pool.query(expensesQuery, params);
@@ -64,24 +73,26 @@ module.exports = (pool) => {
       const [y, m] = month.split('-');
       const start = `${y}-${m}-01`;
       const end = new Date(y, m, 0).toISOString().slice(0, 10);
+      const params = [start, end, COLLECTION_TYPES];
+      const branchScope = branchScopeCondition(req, 's.branch_id', params);
 
       const sql = `
         SELECT s.id AS student_id,
                s.name AS student_name,
                s.email,
                s.phone,
-               COALESCE(SUM(CASE WHEN st.type='payment' THEN st.amount END), 0) AS total_collected,
+               COALESCE(SUM(CASE WHEN st.type = ANY($3) THEN st.amount END), 0) AS total_collected,
                COALESCE(SUM(CASE WHEN st.type='due' THEN st.amount END), 0) AS total_due,
                s.total_fee,
                s.amount_paid,
                s.due_amount
         FROM student_transactions st
         JOIN students s ON s.id = st.student_id
-        WHERE st.date BETWEEN $1 AND $2
+        WHERE st.date BETWEEN $1 AND $2 ${branchScope ? `AND ${branchScope}` : ''}
         GROUP BY s.id, s.name, s.email, s.phone, s.total_fee, s.amount_paid, s.due_amount
         ORDER BY s.name;
       `;
-      const { rows } = await pool.query(sql, [start, end]);
+      const { rows } = await pool.query(sql, params);
 
       res.json({
         month,
@@ -103,5 +114,163 @@ module.exports = (pool) => {
     }
   });
 
+  /**
+   * @route   GET /api/reports/seat-utilization?month=YYYY-MM&branchId=
+   * @desc    Seat usage for a month from seat_assignment_history: occupancy per
+   *          shift per branch (overall and per day), a seat x shift heatmap,
+   *          vacant seat-days and the fee earned per seat. A seat-day counts
+   *          when the seat is held in that shift on a day the shift runs.
+   *          Days after today are not counted; revenue is the fee of each
+   *          membership spread evenly over its days, taking the month's share.
+   * @access  view_reports.
+   */
+  router.get('/seat-utilization', checkPermissions(['view_reports']), async (req, res) => {
+    try {
+      const { month, branchId } = req.query;
+      if (!month || !/^\d{4}-\d{2}$/.test(month)) {
+        return res.status(400).json({ message: 'Invalid month format, use YYYY-MM' });
+      }
+      const [year, monthNum] = month.split('-').map(Number);
+      const monthStart = `${month}-01`;
+      const monthEnd = new Date(Date.UTC(year, monthNum, 0)).toISOString().slice(0, 10);
+      const today = new Date().toISOString().slice(0, 10);
+      const countedEnd = monthEnd < today ? monthEnd : today;
+
+      const days = [];
+      for (let day = new Date(`${monthStart}T00:00:00Z`); day.toISOString().slice(0, 10) <= countedEnd; day.setUTCDate(day.getUTCDate() + 1)) {
+        days.push({ date: day.toISOString().slice(0, 10), dow: day.getUTCDay() });
+      }
+
+      const seatParams = [];
+      const seatConditions = ['st.branch_id IS NOT NULL'];
+      if (branchId) {
+        const branchIdNum = parseInt(branchId, 10);
+        if (isNaN(branchIdNum)) {
+          return res.status(400).json({ message: 'Invalid branch ID' });
+        }
+        seatParams.push(branchIdNum);
+        seatConditions.push(`st.branch_id = $${seatParams.length}`);
+      }
+      const branchScope = branchScopeCondition(req, 'st.branch_id', seatParams);
+      if (branchScope) {
+        seatConditions.push(branchScope);
+      }
+      const seatsRes = await pool.query(`
+        SELECT st.id, st.seat_number, st.branch_id, b.name AS branch_name
+        FROM seats st
+        JOIN branches b ON b.id = st.branch_id
+        WHERE ${seatConditions.join(' AND ')}
+        ORDER BY b.name, st.seat_number
+      `, seatParams);
+      const seats = seatsRes.rows;
+      const seatIds = seats.map(seat => seat.id);
+      const shiftsRes = await pool.query('SELECT id, title, branch_id, days_of_week, capacity FROM schedules ORDER BY start_time NULLS LAST, title');
+
+      // Seat-days held per seat and shift, and seats held per shift per day.
+      const occupiedCte = `
+        WITH occupied AS (
+          SELECT DISTINCT h.seat_id, h.shift_id, d.day::date AS day
+          FROM seat_assignment_history h
+          JOIN schedules sch ON sch.id = h.shift_id
+          JOIN generate_series($1::date, $2::date, interval '1 day') AS d(day)
+            ON d.day >= h.started_on AND (h.ended_on IS NULL OR d.day < h.ended_on)
+          WHERE h.seat_id = ANY($3::int[])
+            AND (sch.days_of_week IS NULL OR EXTRACT(DOW FROM d.day)::int = ANY(sch.days_of_week))
+        )`;
+      const occupancyParams = [monthStart, countedEnd, seatIds];
+      const perSeatRes = days.length === 0 ? { rows: [] } : await pool.query(`${occupiedCte}
+        SELECT seat_id, shift_id, COUNT(*)::int AS days FROM occupied GROUP BY seat_id, shift_id`, occupancyParams);
+      const perDayRes = days.length === 0 ? { rows: [] } : await pool.query(`${occupiedCte}
+        SELECT st.branch_id, o.shift_id, to_char(o.day, 'YYYY-MM-DD') AS day, COUNT(*)::int AS seats
+        FROM occupied o JOIN seats st ON st.id = o.seat_id
+        GROUP BY st.branch_id, o.shift_id, o.day`, occupancyParams);
+      const revenueRes = await pool.query(`
+        SELECT h.seat_id,
+               COUNT(*)::int AS memberships,
+               SUM((COALESCE(h.total_fee, 0) - COALESCE(h.discount, 0))
+                   * ((LEAST(h.membership_end, $2::date) - GREATEST(h.membership_start, $1::date) + 1)::numeric
+                   / NULLIF(h.membership_end - h.membership_start + 1, 0))) AS revenue
+        FROM student_membership_history h
+        WHERE h.seat_id = ANY($3::int[]) AND h.membership_start <= $2::date AND h.membership_end >= $1::date
+        GROUP BY h.seat_id
+      `, [monthStart, monthEnd, seatIds]);
+
+      const runDays = (shift) => days.filter(day => !shift.days_of_week || shift.days_of_week.includes(day.dow));
+      const heldBySeatShift = new Map(perSeatRes.rows.map(row => [`${row.seat_id}:${row.shift_id}`, row.days]));
+      const branches = [...new Map(seats.map(seat => [seat.branch_id, seat.branch_name])).entries()];
+
+      const shifts = [];
+      for (const [branchIdValue, branchName] of branches) {
+        const branchSeatCount = seats.filter(seat => seat.branch_id === branchIdValue).length;
+        for (const shift of shiftsRes.rows) {
+          const daily = perDayRes.rows.filter(row => row.branch_id === branchIdValue && row.shift_id === shift.id);
+          if (shift.branch_id && shift.branch_id !== branchIdValue && daily.length === 0) continue;
+          const slots = shift.capacity ? Math.min(branchSeatCount, shift.capacity) : branchSeatCount;
+          const shiftDays = runDays(shift);
+          const available = slots * shiftDays.length;
+          const occupied = daily.reduce((sum, row) => sum + row.seats, 0);
+          shifts.push({
+            branchId: branchIdValue,
+            branchName,
+            shiftId: shift.id,
+            shiftTitle: shift.title,
+            seats: slots,
+            runDays: shiftDays.length,
+            occupiedSeatDays: occupied,
+            availableSeatDays: available,
+            vacancyDays: Math.max(available - occupied, 0),
+            occupancy: available > 0 ? Math.round((occupied / available) * 1000) / 10 : 0,
+            daily: shiftDays.map(day => {
+              const held = (daily.find(row => row.day === day.date) || { seats: 0 }).seats;
+              return { date: day.date, seats: held, occupancy: slots > 0 ? Math.round((held / slots) * 1000) / 10 : 0 };
+            }),
+          });
+        }
+      }
+
+      const revenueBySeat = new Map(revenueRes.rows.map(row => [row.seat_id, row]));
+      const seatRows = seats.map(seat => {
+        const revenue = revenueBySeat.get(seat.id);
+        return {
+          seatId: seat.id,
+          seatNumber: seat.seat_number,
+          branchId: seat.branch_id,
+          branchName: seat.branch_name,
+          revenue: revenue ? Math.round(parseFloat(revenue.revenue || 0) * 100) / 100 : 0,
+          memberships: revenue ? revenue.memberships : 0,
+          shifts: shiftsRes.rows
+            .filter(shift => !shift.branch_id || shift.branch_id === seat.branch_id)
+            .map(shift => {
+              const shiftDays = runDays(shift).length;
+              const held = heldBySeatShift.get(`${seat.id}:${shift.id}`) || 0;
+              return {
+                shiftId: shift.id,
+                occupiedDays: held,
+                runDays: shiftDays,
+                occupancy: shiftDays > 0 ? Math.round((held / shiftDays) * 1000) / 10 : 0,
+              };
+            }),
+        };
+      });
+
+      const totalAvailable = shifts.reduce((sum, row) => sum + row.availableSeatDays, 0);
+      const totalOccupied = shifts.reduce((sum, row) => sum + row.occupiedSeatDays, 0);
+      res.json({
+        month,
+        countedDays: days.length,
+        shifts,
+        seats: seatRows,
+        totals: {
+          occupancy: totalAvailable > 0 ? Math.round((totalOccupied / totalAvailable) * 1000) / 10 : 0,
+          vacancyDays: shifts.reduce((sum, row) => sum + row.vacancyDays, 0),
+          revenue: Math.round(seatRows.reduce((sum, row) => sum + row.revenue, 0) * 100) / 100,
+        },
+      });
+    } catch (err) {
+      console.error('Error calculating seat utilization:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
   return router;
 };
\ No newline at end of file
@@ -0,0 +1,157 @@
+module.exports = (pool) => {
+  const router = require('express').Router();
+  const { checkAdmin } = require('./auth');
+  const { recordAudit } = require('../utils/audit');
+  const { parsePermissionList } = require('../utils/roles');
+  const { invalidateUserSessions } = require('../utils/sessions');
+
+  const ROLE_SELECT = `
+    SELECT r.id, r.name, r.description, r.permissions, r.created_at, r.updated_at,
+           (SELECT COUNT(*) FROM users u WHERE u.role_id = r.id)::int AS user_count
+    FROM roles r
+  `;
+
+  const validateRole = (body) => {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return { error: 'Role name is required' };
+    }
+    const { permissions, error } = parsePermissionList(body.permissions);
+    if (error) {
+      return { error };
+    }
+    return { values: { name, description: body.description ? String(body.description).trim() : null, permissions } };
+  };
+
+  const usersWithRole = async (client, roleId) => {
+    const result = await client.query('SELECT id FROM users WHERE role_id = $1', [roleId]);
+    return result.rows.map(row => row.id);
+  };
+
+  /**
+   * @route   GET /api/roles
+   * @desc    All roles with their permissions and the number of users assigned.
+   * @access  Admin.
+   */
+  router.get('/', checkAdmin, async (req, res) => {
+    try {
+      const result = await pool.query(`${ROLE_SELECT} ORDER BY r.name`);
+      res.json({ roles: result.rows });
+    } catch (err) {
+      console.error('Error fetching roles:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/roles
+   * @desc    Create a named role bundling permissions.
+   * @access  Admin.
+   */
+  router.post('/', checkAdmin, async (req, res) => {
+    try {
+      const { values, error } = validateRole(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      const existing = await pool.query('SELECT 1 FROM roles WHERE LOWER(name) = LOWER($1)', [values.name]);
+      if (existing.rows.length > 0) {
+        return res.status(400).json({ message: `A role named "${values.name}" already exists` });
+      }
+      const result = await pool.query(
+        'INSERT INTO roles (name, description, permissions) VALUES ($1, $2, $3) RETURNING *',
+        [values.name, values.description, values.permissions]
+      );
+      await recordAudit(pool, req, { action: 'create', entityType: 'role', entityId: result.rows[0].id, after: result.rows[0] });
+      res.status(201).json({ role: { ...result.rows[0], user_count: 0 } });
+    } catch (err) {
+      console.error('Error creating role:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   PUT /api/roles/:id
+   * @desc    Rename a role or change its permissions. Sessions of every user
+   *          holding the role are invalidated so the change applies on next login.
+   * @access  Admin.
+   */
+  router.put('/:id', checkAdmin, async (req, res) => {
+    const client = await pool.connect();
+    try {
+      const roleId = parseInt(req.params.id, 10);
+      const { values, error } = validateRole(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      await client.query('BEGIN');
+      const duplicate = await client.query(
+        'SELECT 1 FROM roles WHERE LOWER(name) = LOWER($1) AND id <> $2',
+        [values.name, roleId]
+      );
+      if (duplicate.rows.length > 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: `A role named "${values.name}" already exists` });
+      }
+      const before = await client.query('SELECT * FROM roles WHERE id = $1', [roleId]);
+      const result = await client.query(
+        `UPDATE roles SET name = $1, description = $2, permissions = $3, updated_at = NOW()
+         WHERE id = $4 RETURNING *`,
+        [values.name, values.description, values.permissions, roleId]
+      );
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ message: 'Role not found' });
+      }
+
+      const userIds = await usersWithRole(client, roleId);
+      await invalidateUserSessions(client, userIds.filter(id => id !== req.session.user.id));
+      await client.query('COMMIT');
+
+      await recordAudit(pool, req, {
+        action: 'update', entityType: 'role', entityId: roleId, before: before.rows[0], after: result.rows[0],
+      });
+      res.json({ role: { ...result.rows[0], user_count: userIds.length } });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error updating role:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
+
+  /**
+   * @route   DELETE /api/roles/:id
+   * @desc    Delete a role. Its users keep only their per-user permissions and
+   *          have to log in again.
+   * @access  Admin.
+   */
+  router.delete('/:id', checkAdmin, async (req, res) => {
+    const client = await pool.connect();
+    try {
+      const roleId = parseInt(req.params.id, 10);
+      await client.query('BEGIN');
+      const userIds = await usersWithRole(client, roleId);
+      const result = await client.query('DELETE FROM roles WHERE id = $1 RETURNING *', [roleId]);
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ message: 'Role not found' });
+      }
+      await invalidateUserSessions(client, userIds.filter(id => id !== req.session.user.id));
+      await client.query('COMMIT');
+
+      await recordAudit(pool, req, { action: 'delete', entityType: 'role', entityId: roleId, before: result.rows[0] });
+      res.json({ message: 'Role deleted' });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error deleting role:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
+
+  return router;
+};
@@ -1,11 +1,37 @@
 const { checkPermissions } = require('./auth');
+const { branchScopeCondition, checkBranchAccess } = require('../utils/branchAccess');
+const { parseShiftTiming } = require('../utils/shifts');
 
 module.exports = (pool) => {
   const router = require('express').Router();
 
+  router.use(checkBranchAccess);
+
+  // Shifts without a branch are shared by every branch.
+  const shiftBranchFilter = (req, params) => {
+    const conditions = [];
+    const branchId = parseInt(req.query.branchId, 10);
+    if (!isNaN(branchId)) {
+      params.push(branchId);
+      conditions.push(`(s.branch_id IS NULL OR s.branch_id = $${params.length})`);
+    }
+    const branchScope = branchScopeCondition(req, 's.branch_id', params);
+    if (branchScope) {
+      conditions.push(`(s.branch_id IS NULL OR ${branchScope})`);
+    }
+    return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  };
+
+  /**
+   * @route   GET /api/schedules?branchId=
+   * @desc    All shifts, or those usable in one branch.
+   * @access  manage_schedules or manage_library_students.
+   */
   router.get('/', checkPermissions(['manage_schedules', 'manage_library_students'], 'OR'), async (req, res) => {
     try {
-      const result = await pool.query('SELECT *, fee FROM schedules ORDER BY created_at DESC, title');
+      const params = [];
+      const where = shiftBranchFilter(req, params);
+      const result = await pool.query(`SELECT s.* FROM schedules s ${where} ORDER BY s.created_at DESC, s.title`, params);
       res.json({ schedules: result.rows });
     } catch (err) {
       console.error('Error fetching schedules:', err.stack);
@@ -15,6 +41,8 @@ module.exports = (pool) => {
 
   router.get('/with-students', checkPermissions(['manage_schedules', 'manage_library_students'], 'OR'), async (req, res) => {
     try {
+      const params = [];
+      const where = shiftBranchFilter(req, params);
       const result = await pool.query(`
         SELECT 
             s.id, 
@@ -23,14 +51,22 @@ module.exports = (pool) => {
             s.time, 
             s.event_date, 
             s.fee,
+            s.start_time,
+            s.end_time,
+            s.days_of_week,
+            s.branch_id,
+            b.name AS branch_name,
+            s.capacity,
             s.created_at, 
             s.updated_at,
-            COUNT(sa.student_id) as student_count
+            COUNT(DISTINCT sa.student_id) as student_count
         FROM schedules s
         LEFT JOIN seat_assignments sa ON s.id = sa.shift_id 
-        GROUP BY s.id, s.title, s.description, s.time, s.event_date, s.fee, s.created_at, s.updated_at
-        ORDER BY s.event_date, s.time
-      `);
+        LEFT JOIN branches b ON b.id = s.branch_id
+        ${where}
+        GROUP BY s.id, b.name
+        ORDER BY s.start_time NULLS LAST, s.event_date, s.time
+      `, params);
       res.json({ schedules: result.rows });
     } catch (err) {
       console.error('Error fetching schedules with students:', err.stack);
@@ -57,7 +93,14 @@ module.exports = (pool) => {
 
   router.post('/', checkPermissions(['manage_schedules']), async (req, res) => {
     try {
-      const { title, description, time, event_date, fee } = req.body;
+      const { title, description, event_date, fee } = req.body;
+      const timing = parseShiftTiming(req.body);
+      if (timing.error) {
+        return res.status(400).json({ message: timing.error });
+      }
+      const { start_time = null, end_time = null, days_of_week = null, branch_id = null, capacity = null } = timing.values;
+      // `time` is kept for older screens; it defaults to the start of the range.
+      const time = req.body.time || start_time;
       if (!title || !time || !event_date || fee === undefined) {
         return res.status(400).json({ message: 'Title, time, event_date, and fee are required' });
       }
@@ -68,9 +111,11 @@ module.exports = (pool) => {
         return res.status(400).json({ message: 'Fee must be a non-negative number' });
       }
       const result = await pool.query(
-        `INSERT INTO schedules (title, description, time, event_date, fee, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP) RETURNING *`,
-        [title, description || null, time, event_date, fee]
+        `INSERT INTO schedules (
+           title, description, time, event_date, fee,
+           start_time, end_time, days_of_week, branch_id, capacity, created_at, updated_at
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP) RETURNING *`,
+        [title, description || null, time, event_date, fee, start_time, end_time, days_of_week, branch_id, capacity]
       );
       res.status(201).json({
         message: 'Schedule added successfully',
@@ -95,6 +140,26 @@ module.exports = (pool) => {
       if (fee !== undefined && (typeof fee !== 'number' || fee < 0)) {
         return res.status(400).json({ message: 'Fee must be a non-negative number' });
       }
+      const timing = parseShiftTiming(req.body, { partial: true });
+      if (timing.error) {
+        return res.status(400).json({ message: timing.error });
+      }
+      const current = await pool.query('SELECT start_time, end_time FROM schedules WHERE id = $1', [scheduleId]);
+      if (current.rows.length === 0) {
+        return res.status(404).json({ message: 'Schedule not found for update' });
+      }
+      const merged = { ...current.rows[0], ...timing.values };
+      if (!merged.start_time !== !merged.end_time) {
+        return res.status(400).json({ message: 'Both start_time and end_time are required for a time range' });
+      }
+
+      // Timing fields may be cleared, so they are only touched when sent.
+      const params = [title, description, time, event_date, fee];
+      const timingSets = Object.entries(timing.values).map(([column, value]) => {
+        params.push(value);
+        return `${column} = $${params.length}`;
+      });
+      params.push(scheduleId);
       const result = await pool.query(
         `UPDATE schedules SET
           title = COALESCE($1, title),
@@ -102,9 +167,10 @@ module.exports = (pool) => {
           time = COALESCE($3, time),
           event_date = COALESCE($4, event_date),
           fee = COALESCE($5, fee),
+          ${timingSets.map(set => `${set},`).join('\n          ')}
           updated_at = NOW()
-         WHERE id = $6 RETURNING *`,
-        [title, description, time, event_date, fee, scheduleId]
+         WHERE id = $${params.length} RETURNING *`,
+        params
       );
       if (result.rows.length === 0) {
         return res.status(404).json({ message: 'Schedule not found for update' });
@@ -2,6 +2,20 @@ module.exports = (pool) => {
   const express = require('express');
   const router = express.Router();
   const { checkAdminOrStaff } = require('./auth');
+  const {
+    getAllowedBranchIds, branchScopeCondition, checkBranchAccess, checkRecordBranch
+  } = require('../utils/branchAccess');
+  const { shiftTimingColumns, shiftsOverlap } = require('../utils/shifts');
+  const { processWaitlist } = require('../utils/waitlist');
+  const { closeSeatPeriods } = require('../utils/seatHistory');
+
+  const SEAT_ZONES = ['ac', 'non_ac'];
+  const DEFAULT_LAYOUT_SIZE = 10;
+  const MAX_LAYOUT_SIZE = 50;
+
+  router.use(checkBranchAccess);
+  router.param('id', checkRecordBranch(pool, 'SELECT branch_id FROM seats WHERE id = $1'));
+  router.param('seatId', checkRecordBranch(pool, 'SELECT branch_id FROM seats WHERE id = $1'));
 
   router.get('/', checkAdminOrStaff, async (req, res) => {
     try {
@@ -9,7 +23,8 @@ module.exports = (pool) => {
       const shiftIdNum = shiftId ? parseInt(shiftId, 10) : null;
       const branchIdNum = branchId ? parseInt(branchId, 10) : null;
       let queryText = `
-        SELECT s.id AS seat_id, s.seat_number,
+        SELECT s.id AS seat_id, s.seat_number, s.branch_id,
+               s.row_index, s.col_index, s.zone, s.is_window,
                sch.id AS shift_id, sch.title AS shift_title,
                st.id AS student_id, st.name AS student_name
         FROM seats s
@@ -28,6 +43,10 @@ module.exports = (pool) => {
         queryText += ` AND s.branch_id = $${params.length + 1}`;
         params.push(branchIdNum);
       }
+      const branchScope = branchScopeCondition(req, 's.branch_id', params);
+      if (branchScope) {
+        queryText += ` AND ${branchScope}`;
+      }
       queryText += ` ORDER BY s.seat_number, sch.id`;
 
       const result = await pool.query(queryText, params);
@@ -39,6 +58,11 @@ module.exports = (pool) => {
           seatsMap.set(seatId, {
             id: seatId,
             seatNumber: row.seat_number,
+            branchId: row.branch_id,
+            rowIndex: row.row_index,
+            colIndex: row.col_index,
+            zone: row.zone,
+            isWindow: row.is_window,
             shifts: []
           });
         }
@@ -46,6 +70,7 @@ module.exports = (pool) => {
           shiftId: row.shift_id,
           shiftTitle: row.shift_title,
           isAssigned: !!row.student_id,
+          studentId: row.student_id || null,
           studentName: row.student_name || null
         });
       });
@@ -70,6 +95,9 @@ module.exports = (pool) => {
       }
       
       const branchIdNum = branch_id ? parseInt(branch_id, 10) : null;
+      if (!branchIdNum && getAllowedBranchIds(req)) {
+        return res.status(400).json({ message: 'Branch is required' });
+      }
       const existingSeats = await pool.query(
         'SELECT seat_number FROM seats WHERE seat_number = ANY($1) AND ($2::integer IS NULL OR branch_id = $2)',
         [seatArray, branchIdNum]
@@ -91,14 +119,227 @@ module.exports = (pool) => {
     }
   });
 
+  /**
+   * @route   GET /api/seats/layout?branchId=
+   * @desc    Floor plan size of a branch's hall. Seat positions come with GET /api/seats.
+   * @access  Admin or Staff.
+   */
+  router.get('/layout', checkAdminOrStaff, async (req, res) => {
+    try {
+      const branchId = parseInt(req.query.branchId, 10);
+      if (isNaN(branchId)) {
+        return res.status(400).json({ message: 'branchId is required' });
+      }
+      const result = await pool.query('SELECT branch_id, rows, cols FROM seat_layouts WHERE branch_id = $1', [branchId]);
+      res.json({ layout: result.rows[0] || { branch_id: branchId, rows: DEFAULT_LAYOUT_SIZE, cols: DEFAULT_LAYOUT_SIZE } });
+    } catch (err) {
+      console.error('Error fetching seat layout:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   PUT /api/seats/layout
+   * @desc    Save a branch's floor plan: grid size plus the position, zone and
+   *          window flag of its seats. Cells without a seat are aisles/empty.
+   *          Seats left out of `seats` are taken off the map.
+   * @access  Admin or Staff.
+   */
+  router.put('/layout', checkAdminOrStaff, async (req, res) => {
+    const { branch_id, rows, cols, seats } = req.body;
+    const branchId = parseInt(branch_id, 10);
+    const rowCount = parseInt(rows, 10);
+    const colCount = parseInt(cols, 10);
+    if (isNaN(branchId)) {
+      return res.status(400).json({ message: 'branchId is required' });
+    }
+    if (!(rowCount >= 1 && rowCount <= MAX_LAYOUT_SIZE && colCount >= 1 && colCount <= MAX_LAYOUT_SIZE)) {
+      return res.status(400).json({ message: `Rows and columns must be between 1 and ${MAX_LAYOUT_SIZE}` });
+    }
+    if (!Array.isArray(seats)) {
+      return res.status(400).json({ message: 'seats must be an array' });
+    }
+
+    const occupiedCells = new Set();
+    for (const seat of seats) {
+      const rowIndex = parseInt(seat.row_index, 10);
+      const colIndex = parseInt(seat.col_index, 10);
+      if (isNaN(rowIndex) || isNaN(colIndex) || rowIndex < 0 || colIndex < 0 || rowIndex >= rowCount || colIndex >= colCount) {
+        return res.status(400).json({ message: `Seat ${seat.id} is outside the ${rowCount} x ${colCount} grid` });
+      }
+      if (seat.zone && !SEAT_ZONES.includes(seat.zone)) {
+        return res.status(400).json({ message: `Invalid zone "${seat.zone}"` });
+      }
+      const cell = `${rowIndex}:${colIndex}`;
+      if (occupiedCells.has(cell)) {
+        return res.status(400).json({ message: `Two seats are placed on row ${rowIndex + 1}, column ${colIndex + 1}` });
+      }
+      occupiedCells.add(cell);
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const branchSeats = await client.query('SELECT id FROM seats WHERE branch_id = $1', [branchId]);
+      const branchSeatIds = branchSeats.rows.map(row => row.id);
+      const foreignSeat = seats.find(seat => !branchSeatIds.includes(parseInt(seat.id, 10)));
+      if (foreignSeat) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: `Seat ${foreignSeat.id} does not belong to this branch` });
+      }
+
+      await client.query(
+        `INSERT INTO seat_layouts (branch_id, rows, cols, updated_at) VALUES ($1, $2, $3, NOW())
+         ON CONFLICT (branch_id) DO UPDATE SET rows = EXCLUDED.rows, cols = EXCLUDED.cols, updated_at = NOW()`,
+        [branchId, rowCount, colCount]
+      );
+      // Clear first so seats can swap cells without tripping the unique position index.
+      await client.query(
+        'UPDATE seats SET row_index = NULL, col_index = NULL, zone = NULL, is_window = FALSE WHERE branch_id = $1',
+        [branchId]
+      );
+      for (const seat of seats) {
+        await client.query(
+          'UPDATE seats SET row_index = $1, col_index = $2, zone = $3, is_window = $4 WHERE id = $5',
+          [parseInt(seat.row_index, 10), parseInt(seat.col_index, 10), seat.zone || null, !!seat.is_window, parseInt(seat.id, 10)]
+        );
+      }
+      await client.query('COMMIT');
+      res.json({ message: 'Seat layout saved', layout: { branch_id: branchId, rows: rowCount, cols: colCount } });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error saving seat layout:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
+
+  /**
+   * @route   GET /api/seats/suggestions?branchId=&shiftIds=1,3&zone=&nearSeatId=&limit=
+   * @desc    Seats of a branch that are free in every requested shift (and in
+   *          any shift overlapping them), best first.
+   *          Ranking: requested zone first, then closest to `nearSeatId` on the
+   *          floor plan, then seats already taken in other shifts (so fully free
+   *          seats stay open for full-day students), then seat number.
+   * @access  Admin or Staff.
+   */
+  router.get('/suggestions', checkAdminOrStaff, async (req, res) => {
+    try {
+      const branchId = parseInt(req.query.branchId, 10);
+      if (isNaN(branchId)) {
+        return res.status(400).json({ message: 'branchId is required' });
+      }
+      const shiftIds = String(req.query.shiftIds || '')
+        .split(',')
+        .map(id => parseInt(id, 10))
+        .filter(id => !isNaN(id));
+      if (shiftIds.length === 0) {
+        return res.status(400).json({ message: 'Select at least one shift' });
+      }
+      const zone = req.query.zone || null;
+      if (zone && !SEAT_ZONES.includes(zone)) {
+        return res.status(400).json({ message: `Invalid zone "${zone}"` });
+      }
+      const limit = Math.min(parseInt(req.query.limit, 10) || 5, 50);
+
+      let nearSeat = null;
+      if (req.query.nearSeatId) {
+        const nearResult = await pool.query(
+          'SELECT id, seat_number, row_index, col_index FROM seats WHERE id = $1 AND branch_id = $2',
+          [parseInt(req.query.nearSeatId, 10), branchId]
+        );
+        nearSeat = nearResult.rows[0] || null;
+      }
+
+      const requestedShifts = await pool.query(
+        `SELECT ${shiftTimingColumns()} FROM schedules WHERE id = ANY($1::int[])`,
+        [shiftIds]
+      );
+      const takenShifts = await pool.query(`
+        SELECT sa.seat_id, ${shiftTimingColumns('sch')}
+        FROM seat_assignments sa
+        JOIN schedules sch ON sch.id = sa.shift_id
+        JOIN seats s ON s.id = sa.seat_id
+        WHERE s.branch_id = $1
+      `, [branchId]);
+      // Seats held for someone on the waitlist count as taken.
+      const heldShifts = await pool.query(`
+        SELECT w.offered_seat_id AS seat_id, ${shiftTimingColumns('sch')}
+        FROM seat_waitlist w
+        JOIN schedules sch ON sch.id = ANY(w.shift_ids)
+        WHERE w.branch_id = $1 AND w.status = 'offered' AND w.offer_expires_at > NOW()
+      `, [branchId]);
+      const result = await pool.query(`
+        SELECT s.id, s.seat_number, s.row_index, s.col_index, s.zone, s.is_window,
+               (SELECT COUNT(*) FROM seat_assignments sa WHERE sa.seat_id = s.id)::int AS assigned_shifts
+        FROM seats s
+        WHERE s.branch_id = $1
+      `, [branchId]);
+
+      const isFree = (seat) => ![...takenShifts.rows, ...heldShifts.rows].some(taken =>
+        taken.seat_id === seat.id && requestedShifts.rows.some(shift => shiftsOverlap(shift, taken))
+      );
+      const nearPlaced = nearSeat && nearSeat.row_index !== null && nearSeat.col_index !== null;
+      const candidates = result.rows
+        .filter(seat => isFree(seat) && (!nearSeat || seat.id !== nearSeat.id))
+        .map(seat => {
+          const distance = nearPlaced && seat.row_index !== null && seat.col_index !== null
+            ? Math.abs(seat.row_index - nearSeat.row_index) + Math.abs(seat.col_index - nearSeat.col_index)
+            : null;
+          const reasons = [];
+          if (zone && seat.zone === zone) reasons.push(zone === 'ac' ? 'AC zone' : 'Non-AC zone');
+          if (distance !== null) reasons.push(`${distance} step${distance === 1 ? '' : 's'} from seat ${nearSeat.seat_number}`);
+          if (seat.is_window) reasons.push('Window seat');
+          if (seat.assigned_shifts > 0) reasons.push('Fills a partly used seat');
+          return { ...seat, distance, zone_match: !!zone && seat.zone === zone, reasons };
+        });
+
+      candidates.sort((a, b) =>
+        (Number(b.zone_match) - Number(a.zone_match)) ||
+        ((a.distance ?? Infinity) - (b.distance ?? Infinity)) ||
+        (b.assigned_shifts - a.assigned_shifts) ||
+        a.seat_number.localeCompare(b.seat_number, undefined, { numeric: true })
+      );
+
+      res.json({
+        suggestions: candidates.slice(0, limit).map(seat => ({
+          seat_id: seat.id,
+          seat_number: seat.seat_number,
+          zone: seat.zone,
+          is_window: seat.is_window,
+          distance: seat.distance,
+          reasons: seat.reasons,
+        })),
+        total_free: candidates.length,
+      });
+    } catch (err) {
+      console.error('Error suggesting seats:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
   router.delete('/:id', checkAdminOrStaff, async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
       await pool.query('DELETE FROM seat_assignments WHERE seat_id = $1', [id]);
+      await closeSeatPeriods(pool, id, 'seat_removed');
+      // Offers of this seat go back to the queue and are re-offered below.
+      await pool.query(
+        `UPDATE seat_waitlist SET status = 'waiting', offered_seat_id = NULL, offered_at = NULL,
+                offer_expires_at = NULL, updated_at = NOW()
+         WHERE offered_seat_id = $1 AND status = 'offered'`,
+        [id]
+      );
       const result = await pool.query('DELETE FROM seats WHERE id = $1 RETURNING *', [id]);
       if (result.rows.length === 0) {
         return res.status(404).json({ message: 'Seat not found' });
       }
+      if (result.rows[0].branch_id) {
+        // Shift capacity the seat's students held is free again.
+        processWaitlist(pool, result.rows[0].branch_id)
+          .catch(err => console.error('Error offering seats to the waitlist:', err));
+      }
       res.json({ message: 'Seat deleted successfully' });
     } catch (err) {
       console.error('Error deleting seat:', err);
@@ -131,7 +372,31 @@ module.exports = (pool) => {
     }
   });
 
-  router.get('/:seatId/available-shifts', checkAdminOrStaff, async (req, res) => {
+  /**
+   * @route   GET /api/seats/:seatId/history
+   * @desc    Everyone who has held this seat, newest period first, including
+   *          the current occupants (ended_on NULL).
+   * @access  Admin or Staff.
+   */
+  router.get('/:seatId/history', checkAdminOrStaff, async (req, res) => {
+    try {
+      const seatId = parseInt(req.params.seatId, 10);
+      const result = await pool.query(`
+        SELECT h.*, s.name AS student_name, u.username AS created_by_name
+        FROM seat_assignment_history h
+        JOIN students s ON s.id = h.student_id
+        LEFT JOIN users u ON u.id = h.created_by
+        WHERE h.seat_id = $1
+        ORDER BY h.started_on DESC, h.id DESC
+      `, [seatId]);
+      res.json({ history: result.rows });
+    } catch (err) {
+      console.error('Error fetching seat history:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  router.get('/:seatId/available-shifts',checkAdminOrStaff, async (req, res) => {
     try {
       const seatId = parseInt(req.params.seatId, 10);
       const result = await pool.query(`
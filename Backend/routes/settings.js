@@ -1,4 +1,12 @@
 const { checkAdmin } = require('./auth');
+const { REQUIRE_ADMIN_SETTING } = require('../utils/twoFactor');
+const { recordAudit } = require('../utils/audit');
+const { HOLD_HOURS_SETTING, TEMPLATE_SETTING, RELEASE_GRACE_SETTING } = require('../utils/waitlist');
+const { SEAT_POLICY_SETTING, SEAT_POLICIES } = require('../utils/pauses');
+const { REMINDER_DAYS_SETTING: INSTALLMENT_DAYS_SETTING, TEMPLATE_SETTING: INSTALLMENT_TEMPLATE_SETTING } = require('../utils/installments');
+const { REFERRAL_CREDIT_SETTING, SIBLING_DISCOUNT_SETTING } = require('../utils/promotions');
+const { CHANNELS, PROVIDER_SETTINGS, providerOptions, isValidProvider, getProviders, sendWithProvider } = require('../utils/providers');
+const { EXPIRY_TEMPLATE_SETTING } = require('../utils/reminderRules');
 
 module.exports = (pool) => {
   const router = require('express').Router();
@@ -19,19 +27,98 @@ module.exports = (pool) => {
 
   router.put('/', checkAdmin, async (req, res) => {
     try {
-      const { brevo_template_id, days_before_expiration } = req.body;
+      const {
+        brevo_template_id, days_before_expiration, require_admin_two_factor,
+        waitlist_hold_hours, waitlist_whatsapp_template, seat_release_grace_days, pause_seat_policy,
+        installment_reminder_days, installment_whatsapp_template,
+        referral_credit_amount, sibling_discount_percent,
+        email_provider, sms_provider, whatsapp_provider, expiry_whatsapp_template
+      } = req.body;
+      const providers = { email: email_provider, sms: sms_provider, whatsapp: whatsapp_provider };
+      const readSettings = async () => {
+        const result = await pool.query('SELECT key, value FROM settings');
+        return Object.fromEntries(result.rows.map(row => [row.key, row.value]));
+      };
+      const before = await readSettings();
       if (brevo_template_id && typeof brevo_template_id !== 'string') {
         return res.status(400).json({ message: 'Invalid Brevo template ID' });
       }
       if (days_before_expiration && (isNaN(days_before_expiration) || days_before_expiration < 1)) {
         return res.status(400).json({ message: 'Days before expiration must be a positive integer' });
       }
+      if (waitlist_hold_hours !== undefined && !(Number.isInteger(Number(waitlist_hold_hours)) && Number(waitlist_hold_hours) >= 1)) {
+        return res.status(400).json({ message: 'Waitlist hold hours must be a positive whole number' });
+      }
+      if (seat_release_grace_days !== undefined && seat_release_grace_days !== null && seat_release_grace_days !== ''
+        && !(Number.isInteger(Number(seat_release_grace_days)) && Number(seat_release_grace_days) >= 0)) {
+        return res.status(400).json({ message: 'Seat release grace days must be zero or a positive whole number' });
+      }
+      if (pause_seat_policy !== undefined && !SEAT_POLICIES.includes(pause_seat_policy)) {
+        return res.status(400).json({ message: `Pause seat policy must be one of: ${SEAT_POLICIES.join(', ')}` });
+      }
+      if (installment_reminder_days !== undefined
+        && !(Number.isInteger(Number(installment_reminder_days)) && Number(installment_reminder_days) >= 0)) {
+        return res.status(400).json({ message: 'Installment reminder days must be zero or a positive whole number' });
+      }
+      if (referral_credit_amount !== undefined && !(Number(referral_credit_amount) >= 0)) {
+        return res.status(400).json({ message: 'Referral credit must be zero or a positive amount' });
+      }
+      if (sibling_discount_percent !== undefined
+        && !(Number(sibling_discount_percent) >= 0 && Number(sibling_discount_percent) <= 100)) {
+        return res.status(400).json({ message: 'Sibling discount must be a percentage between 0 and 100' });
+      }
+      for (const channel of CHANNELS) {
+        if (providers[channel] !== undefined && !isValidProvider(channel, providers[channel])) {
+          return res.status(400).json({ message: `${providers[channel]} cannot send ${channel} messages` });
+        }
+      }
       if (brevo_template_id) {
         await pool.query('INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = $2', ['brevo_template_id', brevo_template_id]);
       }
       if (days_before_expiration) {
         await pool.query('INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = $2', ['days_before_expiration', days_before_expiration.toString()]);
       }
+      // Applies to admins from their next login; those without 2FA are sent to enrollment first.
+      if (typeof require_admin_two_factor === 'boolean') {
+        await pool.query('INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = $2', [REQUIRE_ADMIN_SETTING, require_admin_two_factor.toString()]);
+      }
+      if (waitlist_hold_hours !== undefined) {
+        await pool.query('INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = $2', [HOLD_HOURS_SETTING, String(waitlist_hold_hours)]);
+      }
+      if (waitlist_whatsapp_template) {
+        await pool.query('INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = $2', [TEMPLATE_SETTING, String(waitlist_whatsapp_template).trim()]);
+      }
+      // Empty turns automatic release of expired students' seats off.
+      if (seat_release_grace_days === null || seat_release_grace_days === '') {
+        await pool.query('DELETE FROM settings WHERE key = $1', [RELEASE_GRACE_SETTING]);
+      } else if (seat_release_grace_days !== undefined) {
+        await pool.query('INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = $2', [RELEASE_GRACE_SETTING, String(seat_release_grace_days)]);
+      }
+      if (pause_seat_policy !== undefined) {
+        await pool.query('INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = $2', [SEAT_POLICY_SETTING, pause_seat_policy]);
+      }
+      if (installment_reminder_days !== undefined) {
+        await pool.query('INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = $2', [INSTALLMENT_DAYS_SETTING, String(installment_reminder_days)]);
+      }
+      if (installment_whatsapp_template) {
+        await pool.query('INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = $2', [INSTALLMENT_TEMPLATE_SETTING, String(installment_whatsapp_template).trim()]);
+      }
+      // Zero turns the referral credit or sibling discount off.
+      if (referral_credit_amount !== undefined) {
+        await pool.query('INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = $2', [REFERRAL_CREDIT_SETTING, String(referral_credit_amount)]);
+      }
+      if (sibling_discount_percent !== undefined) {
+        await pool.query('INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = $2', [SIBLING_DISCOUNT_SETTING, String(sibling_discount_percent)]);
+      }
+      for (const channel of CHANNELS) {
+        if (providers[channel] !== undefined) {
+          await pool.query('INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = $2', [PROVIDER_SETTINGS[channel], providers[channel]]);
+        }
+      }
+      if (expiry_whatsapp_template !== undefined) {
+        await pool.query('INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = $2', [EXPIRY_TEMPLATE_SETTING, String(expiry_whatsapp_template).trim()]);
+      }
+      await recordAudit(pool, req, { action: 'update', entityType: 'settings', before, after: await readSettings() });
       res.json({ message: 'Settings updated successfully' });
     } catch (err) {
       console.error('Error in settings PUT route:', err.stack);
@@ -39,5 +126,44 @@ module.exports = (pool) => {
     }
   });
 
+  /**
+   * @route   GET /api/settings/messaging-providers
+   * @desc    Providers that can be chosen for each channel.
+   * @access  Admin.
+   */
+  router.get('/messaging-providers', checkAdmin, (req, res) => {
+    res.json({ providers: providerOptions() });
+  });
+
+  /**
+   * @route   POST /api/settings/messaging-test
+   * @desc    Send a test message straight through the provider chosen for
+   *          `channel` (bypassing the outbox) to check its configuration.
+   * @access  Admin.
+   */
+  router.post('/messaging-test', checkAdmin, async (req, res) => {
+    try {
+      const { channel, to } = req.body;
+      if (!CHANNELS.includes(channel)) {
+        return res.status(400).json({ message: `Channel must be one of ${CHANNELS.join(', ')}` });
+      }
+      if (!to || !String(to).trim()) {
+        return res.status(400).json({ message: 'Recipient is required' });
+      }
+      const provider = (await getProviders(pool))[channel];
+      const template = channel === 'whatsapp' ? 'hello_world' : 'Test message';
+      const providerMessageId = await sendWithProvider(provider, {
+        channel,
+        to: String(to).trim(),
+        template,
+        text: `This is a test ${channel} message from the library.`,
+      });
+      res.json({ message: `Test ${channel} message sent via ${provider.label}`, provider: provider.name, provider_message_id: providerMessageId });
+    } catch (err) {
+      console.error('Error sending test message:', err);
+      res.status(502).json({ message: `Sending failed: ${err.message}` });
+    }
+  });
+
   return router;
 };
\ No newline at end of file
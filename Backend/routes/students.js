@@ -2,6 +2,24 @@ module.exports = (pool) => {
   const router = require('express').Router();
   const { checkAdmin, checkAdminOrStaff } = require('./auth');
   const { checkPermissions } = require('./auth');
+  const { issueReceipt, voidReversedReceipt } = require('../utils/receipts');
+  const { recordAudit, skipAudit } = require('../utils/audit');
+  const { branchScopeCondition, canAccessBranch, checkBranchAccess, checkRecordBranch } = require('../utils/branchAccess');
+  const { validateShiftAssignment } = require('../utils/shifts');
+  const { offerFreedSeats } = require('../utils/waitlist');
+  const { syncSeatHistory } = require('../utils/seatHistory');
+  const { SEAT_POLICIES, notPausedCondition, readSeatPolicy } = require('../utils/pauses');
+  const { applyFeeQuote, feeOverrideError, recordFeeQuote } = require('../utils/feePlans');
+  const { recordPromotions } = require('../utils/promotions');
+  const { queueTemplatedMessages } = require('../utils/messageTemplates');
+  const { overdueCondition, parseInstallments, saveInstallments } = require('../utils/installments');
+  const {
+    PAYMENT_METHODS, REVERSAL_TYPES, recordLedgerEntry, recordInitialPayments, syncHistoryTotals, adjustToTotals,
+  } = require('../utils/ledger');
+
+  // Staff limited to some branches can only name and open students of those branches.
+  router.use(checkBranchAccess);
+  router.param('id', checkRecordBranch(pool, 'SELECT branch_id FROM students WHERE id = $1'));
   
   router.post('/public/register', async (req, res) => {
     const client = await pool.connect();
@@ -62,7 +80,7 @@ module.exports = (pool) => {
           total_fee, amount_paid, due_amount, cash, online, security_money,
           discount, is_active, status, created_at, profile_image_url, aadhaar_front_url, aadhaar_back_url, remark, preparing_for
         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, NOW(), $20, $21, $22, $23, $24)
-        RETURNING id`,
+        RETURNING *`,
         [
           name,
           email || null,
@@ -119,6 +137,11 @@ module.exports = (pool) => {
   
   
       await client.query('COMMIT');
+
+      await recordAudit(pool, req, {
+        action: 'self_register', entityType: 'student', entityId: studentId,
+        branchId: studentResult.rows[0].branch_id, after: studentResult.rows[0],
+      });
   
       res.status(201).json({
         success: true,
@@ -160,7 +183,7 @@ module.exports = (pool) => {
 
   router.get('/', checkAdminOrStaff, async (req, res) => {
     try {
-      const { branchId } = req.query;
+      const { branchId, fromDate, toDate } = req.query;
       const branchIdNum = branchId ? parseInt(branchId, 10) : null;
       
       let query = `
@@ -169,7 +192,8 @@ module.exports = (pool) => {
           s.is_active, s.profile_image_url, s.aadhaar_front_url, s.aadhaar_back_url,
           TO_CHAR(s.membership_end, 'YYYY-MM-DD') AS membership_end,
           TO_CHAR(s.created_at, 'YYYY-MM-DD') AS created_at,
-          s.discount,
+          s.discount, s.total_fee, s.amount_paid, s.due_amount,
+          b.name AS branch_name,
           CASE
             WHEN s.membership_end < CURRENT_DATE THEN 'expired'
             ELSE 'active'
@@ -178,12 +202,29 @@ module.exports = (pool) => {
           l.locker_number
         FROM students s
         LEFT JOIN locker l ON s.locker_id = l.id
+        LEFT JOIN branches b ON s.branch_id = b.id
       `;
       const params = [];
+      const conditions = [];
 
       if (branchIdNum) {
-        query += ` WHERE s.branch_id = $1`;
         params.push(branchIdNum);
+        conditions.push(`s.branch_id = $${params.length}`);
+      }
+      const branchScope = branchScopeCondition(req, 's.branch_id', params);
+      if (branchScope) {
+        conditions.push(branchScope);
+      }
+      if (fromDate) {
+        params.push(fromDate);
+        conditions.push(`s.created_at::date >= $${params.length}`);
+      }
+      if (toDate) {
+        params.push(toDate);
+        conditions.push(`s.created_at::date <= $${params.length}`);
+      }
+      if (conditions.length > 0) {
+        query += ` WHERE ${conditions.join(' AND ')}`;
       }
       query += ` ORDER BY s.name`;
       
@@ -197,13 +238,17 @@ module.exports = (pool) => {
 
   router.get('/inactive', checkAdminOrStaff, async (req, res) => {
     try {
+      const params = [];
+      const branchScope = branchScopeCondition(req, 's.branch_id', params);
       const result = await pool.query(`
-        SELECT s.id, s.name, s.phone, s.registration_number, s.is_active, b.name as branch_name 
+        SELECT s.id, s.name, s.phone, s.registration_number, s.is_active, b.name as branch_name,
+               TO_CHAR(s.membership_end, 'YYYY-MM-DD') AS membership_end,
+               s.total_fee, s.amount_paid, s.due_amount
         FROM students s
         LEFT JOIN branches b ON s.branch_id = b.id
-        WHERE s.is_active = false 
+        WHERE s.is_active = false ${branchScope ? `AND ${branchScope}` : ''}
         ORDER BY s.name
-      `);
+      `, params);
       res.json({ students: result.rows });
     } catch (err) {
       console.error('Error fetching inactive students:', err);
@@ -222,6 +267,7 @@ module.exports = (pool) => {
         return res.status(400).json({ message: 'is_active must be a boolean value.' });
       }
 
+      const beforeRes = await client.query('SELECT * FROM students WHERE id = $1', [id]);
       const updatedStudent = await client.query(
         'UPDATE students SET is_active = $1 WHERE id = $2 RETURNING *',
         [is_active, id]
@@ -231,13 +277,21 @@ module.exports = (pool) => {
         return res.status(404).json({ message: 'Student not found.' });
       }
 
+      let freedSeatIds = [];
       if (is_active === false) {
-        await client.query('DELETE FROM seat_assignments WHERE student_id = $1', [id]);
+        const released = await client.query('DELETE FROM seat_assignments WHERE student_id = $1 RETURNING seat_id', [id]);
+        freedSeatIds = released.rows.map(row => row.seat_id);
+        await syncSeatHistory(client, id, { reason: 'deactivated', userId: req.session.user.id });
         await client.query('UPDATE students SET locker_id = NULL WHERE id = $1', [id]);
         await client.query('UPDATE locker SET is_assigned = false, student_id = NULL WHERE student_id = $1', [id]);
       }
       
       await client.query('COMMIT');
+      offerFreedSeats(pool, freedSeatIds);
+      await recordAudit(pool, req, {
+        action: is_active ? 'activate' : 'deactivate', entityType: 'student', entityId: parseInt(id, 10),
+        branchId: updatedStudent.rows[0].branch_id, before: beforeRes.rows[0], after: updatedStudent.rows[0],
+      });
       res.json({ student: updatedStudent.rows[0], message: `Student status updated to ${is_active ? 'active' : 'inactive'}.` });
     } catch (err) {
       await client.query('ROLLBACK');
@@ -248,6 +302,65 @@ module.exports = (pool) => {
     }
   });
 
+  /**
+   * @route   PUT /api/students/:id/campaign-opt-out
+   * @desc    Opt a student out of campaigns, or back in. Opting out also stops
+   *          campaign messages still waiting in the outbox; their report rows
+   *          then show the student as opted out. Reminders and receipts are
+   *          still sent.
+   * @access  Admin or Staff.
+   */
+  router.put('/:id/campaign-opt-out', checkAdminOrStaff, async (req, res) => {
+    const client = await pool.connect();
+    try {
+      const id = parseInt(req.params.id, 10);
+      const { campaign_opt_out } = req.body;
+      if (typeof campaign_opt_out !== 'boolean') {
+        return res.status(400).json({ message: 'campaign_opt_out must be a boolean value.' });
+      }
+      await client.query('BEGIN');
+      const beforeRes = await client.query('SELECT campaign_opt_out, branch_id FROM students WHERE id = $1 FOR UPDATE', [id]);
+      if (beforeRes.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ message: 'Student not found.' });
+      }
+      await client.query('UPDATE students SET campaign_opt_out = $1 WHERE id = $2', [campaign_opt_out, id]);
+      let stopped = 0;
+      if (campaign_opt_out) {
+        const stoppedRes = await client.query(
+          `UPDATE notification_outbox
+           SET status = 'failed', last_error = 'Student opted out of campaigns', locked_at = NULL
+           WHERE student_id = $1 AND kind = 'campaign' AND status = 'pending'
+           RETURNING id`,
+          [id]
+        );
+        stopped = stoppedRes.rows.length;
+        await client.query(
+          `UPDATE campaign_recipients SET skip_reason = 'opted_out', outbox_id = NULL
+           WHERE outbox_id = ANY($1::int[])`,
+          [stoppedRes.rows.map(row => row.id)]
+        );
+      }
+      await client.query('COMMIT');
+      await recordAudit(pool, req, {
+        action: 'update', entityType: 'student', entityId: id, branchId: beforeRes.rows[0].branch_id,
+        before: { campaign_opt_out: beforeRes.rows[0].campaign_opt_out }, after: { campaign_opt_out, stopped },
+      });
+      res.json({
+        campaign_opt_out,
+        message: campaign_opt_out
+          ? `Student opted out of campaigns.${stopped > 0 ? ` ${stopped} unsent campaign message(s) stopped.` : ''}`
+          : 'Student will receive campaigns again.',
+      });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error updating campaign opt-out:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
+
   router.get('/active', checkAdminOrStaff, async (req, res) => {
     try {
       const { branchId } = req.query;
@@ -260,6 +373,10 @@ module.exports = (pool) => {
         query += ` AND s.branch_id = $1`;
         params.push(branchIdNum);
       }
+      const branchScope = branchScopeCondition(req, 's.branch_id', params);
+      if (branchScope) {
+        query += ` AND ${branchScope}`;
+      }
       query += ` ORDER BY s.name`;
 
       const result = await pool.query(query, params);
@@ -314,6 +431,10 @@ module.exports = (pool) => {
         query += ` AND s.branch_id = $1`;
         params.push(branchIdNum);
       }
+      const branchScope = branchScopeCondition(req, 's.branch_id', params);
+      if (branchScope) {
+        query += ` AND ${branchScope}`;
+      }
       query += ` ORDER BY s.name`;
 
       const result = await pool.query(query, params);
@@ -367,6 +488,7 @@ module.exports = (pool) => {
         FROM students s
         LEFT JOIN locker l ON s.locker_id = l.id
         WHERE s.membership_end >= CURRENT_DATE AND s.membership_end <= $1
+          AND ${notPausedCondition('s')}
       `;
       const params = [fiveDaysFromNow];
       
@@ -374,6 +496,10 @@ module.exports = (pool) => {
         query += ` AND s.branch_id = $2`;
         params.push(branchIdNum);
       }
+      const branchScope = branchScopeCondition(req, 's.branch_id', params);
+      if (branchScope) {
+        query += ` AND ${branchScope}`;
+      }
       query += ` ORDER BY s.membership_end`;
 
       const result = await pool.query(query, params);
@@ -384,6 +510,679 @@ module.exports = (pool) => {
     }
   });
 
+  /**
+   * @route   GET /api/students/:id/payments
+   * @desc    Ledger entries of a student, newest first, with the membership period each was booked against.
+   * @access  Admin or Staff.
+   */
+  router.get('/:id/payments', checkAdminOrStaff, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid student ID' });
+      }
+      const result = await pool.query(
+        `SELECT
+           st.id, st.history_id, st.amount, st.type, st.method, st.reference, st.note,
+           st.reversal_of, st.reason,
+           EXISTS (SELECT 1 FROM student_transactions r WHERE r.reversal_of = st.id) AS reversed,
+           TO_CHAR(st.date, 'YYYY-MM-DD') AS date, st.created_at,
+           u.username AS collected_by_name,
+           TO_CHAR(smh.membership_start, 'YYYY-MM-DD') AS membership_start,
+           TO_CHAR(smh.membership_end, 'YYYY-MM-DD') AS membership_end
+         FROM student_transactions st
+         LEFT JOIN users u ON st.collected_by = u.id
+         LEFT JOIN student_membership_history smh ON st.history_id = smh.id
+         WHERE st.student_id = $1 AND st.history_id IS NOT NULL
+         ORDER BY st.date DESC, st.id DESC`,
+        [id]
+      );
+      res.json({
+        payments: result.rows.map(row => ({ ...row, amount: parseFloat(row.amount || 0) })),
+      });
+    } catch (err) {
+      console.error('Error fetching student payments:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/students/:id/payments/:paymentId/reverse
+   * @desc    Reverse a payment booked by mistake (wrong student, wrong method) with a
+   *          compensating ledger entry. The original entry is kept and the receipt
+   *          it was issued with is voided, and replaced by one for the payments
+   *          on it that were not reversed.
+   * @access  Admin or Staff with 'manage_refunds' permission.
+   */
+  router.post('/:id/payments/:paymentId/reverse', checkPermissions(['manage_refunds']), async (req, res) => {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const id = parseInt(req.params.id, 10);
+      const paymentId = parseInt(req.params.paymentId, 10);
+      const { reason } = req.body;
+
+      if (isNaN(id) || isNaN(paymentId)) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'Invalid student or payment ID' });
+      }
+      if (!reason || !String(reason).trim()) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'A reason is required to reverse a payment' });
+      }
+
+      const entryRes = await client.query(
+        'SELECT * FROM student_transactions WHERE id = $1 AND student_id = $2 FOR UPDATE',
+        [paymentId, id]
+      );
+      if (entryRes.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ message: 'Payment not found for this student' });
+      }
+      const entry = entryRes.rows[0];
+      const reversalType = REVERSAL_TYPES[entry.type];
+      if (!reversalType || !entry.history_id || parseFloat(entry.amount) <= 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'Only received payments and security deposits can be reversed' });
+      }
+      const alreadyReversed = await client.query('SELECT 1 FROM student_transactions WHERE reversal_of = $1', [paymentId]);
+      if (alreadyReversed.rows.length > 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'This payment has already been reversed' });
+      }
+
+      const reversal = await recordLedgerEntry(client, {
+        studentId: id,
+        historyId: entry.history_id,
+        amount: -parseFloat(entry.amount),
+        method: entry.method,
+        type: reversalType,
+        collectedBy: req.session.user.id,
+        reference: entry.reference,
+        reversalOf: entry.id,
+        reason: String(reason).trim(),
+      });
+      const history = await syncHistoryTotals(client, entry.history_id);
+      const replacementReceipt = entry.receipt_id
+        ? await voidReversedReceipt(client, entry.receipt_id, { reason: String(reason).trim(), issuedBy: req.session.user.id })
+        : null;
+
+      await client.query('COMMIT');
+      await recordAudit(pool, req, {
+        action: 'reverse_payment', entityType: 'student_payment', entityId: entry.id,
+        branchId: history.branch_id, before: entry, after: reversal,
+      });
+      res.json({
+        message: replacementReceipt
+          ? `Payment reversed. Receipt ${replacementReceipt.receipt_number} issued for the payments that stand`
+          : 'Payment reversed',
+        reversal: { ...reversal, amount: parseFloat(reversal.amount) },
+        receipt: replacementReceipt,
+      });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error reversing payment:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
+
+  /**
+   * @route   POST /api/students/:id/refunds
+   * @desc    Pay money back to a student. kind 'security' returns security money
+   *          (e.g. when leaving); kind 'fee' returns fee paid in excess of the fee
+   *          after discount. Reduce the fee first to refund an unused period.
+   * @access  Admin or Staff with 'manage_refunds' permission.
+   */
+  router.post('/:id/refunds', checkPermissions(['manage_refunds']), async (req, res) => {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const id = parseInt(req.params.id, 10);
+      const { history_id, kind, amount, method, reason, reference } = req.body;
+      const amountValue = parseFloat(amount);
+
+      if (isNaN(id)) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'Invalid student ID' });
+      }
+      if (!['fee', 'security'].includes(kind)) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: "Refund kind must be 'fee' or 'security'" });
+      }
+      if (isNaN(amountValue) || amountValue <= 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'Invalid refund amount' });
+      }
+      if (!PAYMENT_METHODS.includes(method)) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'Invalid refund method' });
+      }
+      if (!reason || !String(reason).trim()) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'A reason is required for a refund' });
+      }
+
+      const historyRes = history_id
+        ? await client.query('SELECT * FROM student_membership_history WHERE id = $1 AND student_id = $2 FOR UPDATE', [parseInt(history_id, 10), id])
+        : await client.query('SELECT * FROM student_membership_history WHERE student_id = $1 ORDER BY id DESC LIMIT 1 FOR UPDATE', [id]);
+      if (historyRes.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ message: 'Membership record not found for this student' });
+      }
+      const history = historyRes.rows[0];
+
+      const available = kind === 'security'
+        ? parseFloat(history.security_money) || 0
+        : -(parseFloat(history.due_amount) || 0);
+      if (amountValue > available + 0.01) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          message: kind === 'security'
+            ? `Refund of ${amountValue.toFixed(2)} exceeds the security money held (${available.toFixed(2)}).`
+            : `Refund of ${amountValue.toFixed(2)} exceeds the amount paid in excess (${Math.max(available, 0).toFixed(2)}). Reduce the fee first to refund an unused period.`
+        });
+      }
+
+      const refund = await recordLedgerEntry(client, {
+        studentId: id,
+        historyId: history.id,
+        amount: -amountValue,
+        method,
+        type: kind === 'security' ? 'security_refund' : 'refund',
+        collectedBy: req.session.user.id,
+        reference,
+        reason: String(reason).trim(),
+      });
+      await syncHistoryTotals(client, history.id);
+
+      await client.query('COMMIT');
+      await recordAudit(pool, req, {
+        action: kind === 'security' ? 'refund_security' : 'refund_fee', entityType: 'student_payment', entityId: refund.id,
+        branchId: history.branch_id, after: refund,
+      });
+      res.json({ message: 'Refund recorded', refund: { ...refund, amount: parseFloat(refund.amount) } });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error recording refund:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
+
+  /**
+   * @route   GET /api/students/:id/seat-history
+   * @desc    Seat/shift periods of a student, newest first. The current ones have no ended_on.
+   * @access  Admin or Staff.
+   */
+  router.get('/:id/seat-history', checkAdminOrStaff, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const result = await pool.query(`
+        SELECT h.*, b.name AS branch_name, u.username AS created_by_name
+        FROM seat_assignment_history h
+        LEFT JOIN branches b ON b.id = h.branch_id
+        LEFT JOIN users u ON u.id = h.created_by
+        WHERE h.student_id = $1
+        ORDER BY h.started_on DESC, h.id DESC
+      `, [id]);
+      res.json({ history: result.rows });
+    } catch (err) {
+      console.error('Error fetching seat history:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/students/:id/transfer
+   * @desc    Move a student to another seat and/or shifts in the middle of a
+   *          membership. The old periods are closed and new ones opened today.
+   *          fee_difference (positive = charge, negative = credit) is added to
+   *          the fee of the current period; amount_collected is booked as a
+   *          payment against it with a receipt. A credit shows as paid in
+   *          excess and can then be refunded, but cannot take the fee after
+   *          discount below zero. A non-zero fee_difference needs override_fees
+   *          and fee_override_reason, and when the period has installments a
+   *          new installments schedule for the changed fee.
+   * @access  Admin or Staff with 'manage_library_students' permission.
+   */
+  router.post('/:id/transfer', checkPermissions(['manage_library_students']), async (req, res) => {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const id = parseInt(req.params.id, 10);
+      const { seat_id, shift_ids, fee_difference, amount_collected, method, reference, note, fee_override_reason } = req.body;
+      const seatIdNum = seat_id ? parseInt(seat_id, 10) : null;
+      const shiftIdsNum = Array.isArray(shift_ids) ? [...new Set(shift_ids.map(sId => parseInt(sId, 10)))] : [];
+      const feeDifference = parseFloat(fee_difference || 0);
+      const collected = parseFloat(amount_collected || 0);
+
+      if (shiftIdsNum.length === 0 || shiftIdsNum.some(isNaN)) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'Select at least one shift' });
+      }
+      if (isNaN(feeDifference) || isNaN(collected) || collected < 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'Invalid fee difference or amount collected' });
+      }
+      if (collected > 0 && !PAYMENT_METHODS.includes(method)) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'Invalid payment method' });
+      }
+
+      const studentRes = await client.query('SELECT * FROM students WHERE id = $1 FOR UPDATE', [id]);
+      if (studentRes.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ message: 'Student not found' });
+      }
+      const studentBefore = studentRes.rows[0];
+      const historyRes = await client.query(
+        'SELECT * FROM student_membership_history WHERE student_id = $1 ORDER BY id DESC LIMIT 1 FOR UPDATE',
+        [id]
+      );
+      if (historyRes.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ message: 'Membership record not found for this student' });
+      }
+      const history = historyRes.rows[0];
+
+      const feeOverrideReason = fee_override_reason ? String(fee_override_reason).trim() : '';
+      let schedule = null;
+      if (feeDifference !== 0) {
+        const feeError = feeOverrideError(req, feeOverrideReason);
+        if (feeError) {
+          await client.query('ROLLBACK');
+          return res.status(400).json({ message: feeError });
+        }
+        const netFee = (parseFloat(history.total_fee) || 0) + feeDifference - (parseFloat(history.discount) || 0);
+        if (netFee < 0) {
+          await client.query('ROLLBACK');
+          return res.status(400).json({ message: `The credit would take the fee after discount below zero (${netFee.toFixed(2)})` });
+        }
+        // A changed fee no longer matches the period's installments, so they have to be redone.
+        const existing = await client.query('SELECT 1 FROM fee_installments WHERE history_id = $1 LIMIT 1', [history.id]);
+        if (existing.rows.length > 0) {
+          schedule = parseInstallments(req.body.installments, netFee);
+          if (!schedule.error && schedule.installments.length === 0) {
+            schedule.error = `This membership is paid in installments. Enter new installments adding up to ${netFee.toFixed(2)}`;
+          }
+          if (schedule.error) {
+            await client.query('ROLLBACK');
+            return res.status(400).json({ message: schedule.error });
+          }
+        }
+      }
+
+      const currentRes = await client.query('SELECT seat_id, shift_id FROM seat_assignments WHERE student_id = $1', [id]);
+      const unchanged = currentRes.rows.length === shiftIdsNum.length
+        && currentRes.rows.every(row => row.seat_id === seatIdNum && shiftIdsNum.includes(row.shift_id));
+      if (unchanged) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'The student already has this seat and these shifts' });
+      }
+
+      const shiftError = await validateShiftAssignment(client, {
+        seatId: seatIdNum, shiftIds: shiftIdsNum, branchId: studentBefore.branch_id, studentId: id,
+      });
+      if (shiftError) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: shiftError });
+      }
+
+      const releasedSeats = await client.query('DELETE FROM seat_assignments WHERE student_id = $1 RETURNING seat_id', [id]);
+      for (const shiftId of shiftIdsNum) {
+        await client.query(
+          'INSERT INTO seat_assignments (seat_id, shift_id, student_id) VALUES ($1, $2, $3)',
+          [seatIdNum, shiftId, id]
+        );
+      }
+      await syncSeatHistory(client, id, { reason: 'transfer', note: note || null, userId: req.session.user.id });
+
+      await client.query(
+        `UPDATE student_membership_history
+         SET seat_id = $1, shift_id = $2, shift_ids = $3, total_fee = COALESCE(total_fee, 0) + $4
+         WHERE id = $5`,
+        [seatIdNum, shiftIdsNum[0], shiftIdsNum, feeDifference, history.id]
+      );
+      await client.query(
+        'UPDATE students SET total_fee = COALESCE(total_fee, 0) + $1 WHERE id = $2',
+        [feeDifference, id]
+      );
+      if (feeDifference !== 0) {
+        await recordFeeQuote(client, history.id, { ...history, fee_override_reason: feeOverrideReason });
+      }
+      if (schedule) {
+        await saveInstallments(client, {
+          historyId: history.id, studentId: id, branchId: history.branch_id, installments: schedule.installments,
+        });
+      }
+
+      let receipt = null;
+      if (collected > 0) {
+        await recordLedgerEntry(client, {
+          studentId: id,
+          historyId: history.id,
+          amount: collected,
+          method,
+          type: 'payment',
+          collectedBy: req.session.user.id,
+          reference,
+          note: 'Seat/shift transfer',
+        });
+      }
+      await syncHistoryTotals(client, history.id);
+      if (collected > 0) {
+        receipt = await issueReceipt(client, {
+          historyId: history.id,
+          cash: method === 'cash' ? collected : 0,
+          online: method === 'online' ? collected : 0,
+          issuedBy: req.session.user.id,
+        });
+      }
+
+      const updated = await client.query('SELECT * FROM students WHERE id = $1', [id]);
+      await client.query('COMMIT');
+      offerFreedSeats(pool, releasedSeats.rows.map(row => row.seat_id));
+      await recordAudit(pool, req, {
+        action: 'transfer', entityType: 'student', entityId: id, branchId: studentBefore.branch_id,
+        before: { ...studentBefore, assignments: currentRes.rows },
+        after: { ...updated.rows[0], seat_id: seatIdNum, shift_ids: shiftIdsNum, fee_difference: feeDifference, amount_collected: collected },
+      });
+      res.json({ message: 'Student transferred', receipt });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error transferring student:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
+
+  /**
+   * @route   GET /api/students/:id/pauses
+   * @desc    Pause history of a student, newest first. An open pause has no resumed_on.
+   * @access  Admin or Staff.
+   */
+  router.get('/:id/pauses', checkAdminOrStaff, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const result = await pool.query(`
+        SELECT p.*, cu.username AS created_by_name, ru.username AS resumed_by_name
+        FROM membership_pauses p
+        LEFT JOIN users cu ON cu.id = p.created_by
+        LEFT JOIN users ru ON ru.id = p.resumed_by
+        WHERE p.student_id = $1
+        ORDER BY p.paused_on DESC, p.id DESC
+      `, [id]);
+      res.json({ pauses: result.rows });
+    } catch (err) {
+      console.error('Error fetching pauses:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   GET /api/students/:id/installments
+   * @desc    Installments of every membership period of a student, latest
+   *          period first, each with what is left to pay and whether it is overdue.
+   * @access  Admin or Staff.
+   */
+  router.get('/:id/installments', checkAdminOrStaff, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const result = await pool.query(`
+        SELECT fi.id, fi.history_id, fi.installment_no, TO_CHAR(fi.due_date, 'YYYY-MM-DD') AS due_date,
+               fi.amount::float AS amount, fi.paid_amount::float AS paid_amount,
+               (fi.amount - fi.paid_amount)::float AS remaining, fi.status,
+               ${overdueCondition('fi')} AS is_overdue,
+               TO_CHAR(fi.last_reminded_on, 'YYYY-MM-DD') AS last_reminded_on,
+               TO_CHAR(smh.membership_start, 'YYYY-MM-DD') AS membership_start,
+               TO_CHAR(smh.membership_end, 'YYYY-MM-DD') AS membership_end
+        FROM fee_installments fi
+        JOIN student_membership_history smh ON smh.id = fi.history_id
+        WHERE fi.student_id = $1
+        ORDER BY fi.history_id DESC, fi.due_date, fi.installment_no
+      `, [id]);
+      res.json({ installments: result.rows });
+    } catch (err) {
+      console.error('Error fetching installments:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   GET /api/students/:id/referrals
+   * @desc    Who referred the student and the referral credits they earned,
+   *          with the renewal each used credit went to.
+   * @access  Admin or Staff.
+   */
+  router.get('/:id/referrals', checkAdminOrStaff, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const referrer = await pool.query(`
+        SELECT r.id, r.name, r.phone
+        FROM students s
+        JOIN students r ON r.id = s.referred_by
+        WHERE s.id = $1
+      `, [id]);
+      const credits = await pool.query(`
+        SELECT rc.id, rc.referred_student_id, rs.name AS referred_student_name,
+               rc.amount::float AS amount, rc.status, rc.created_at, rc.used_at,
+               TO_CHAR(smh.membership_start, 'YYYY-MM-DD') AS used_on_membership_start
+        FROM referral_credits rc
+        LEFT JOIN students rs ON rs.id = rc.referred_student_id
+        LEFT JOIN student_membership_history smh ON smh.id = rc.used_history_id
+        WHERE rc.referrer_id = $1
+        ORDER BY rc.created_at DESC, rc.id DESC
+      `, [id]);
+      res.json({ referrer: referrer.rows[0] || null, credits: credits.rows });
+    } catch (err) {
+      console.error('Error fetching referrals:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/students/:id/pause
+   * @desc    Freeze a membership from paused_on (today, the default, or earlier;
+   *          pauses cannot be scheduled ahead). seat_action
+   *          'hold' keeps the seat, 'release' frees it for others; without it
+   *          the pause_seat_policy setting decides. Paused students are left
+   *          out of expiry lists and reminders.
+   * @access  Admin or Staff with 'manage_library_students' permission.
+   */
+  router.post('/:id/pause', checkPermissions(['manage_library_students']), async (req, res) => {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const id = parseInt(req.params.id, 10);
+      const { paused_on, expected_resume_on, seat_action, reason } = req.body;
+      const todayRes = await client.query(`SELECT TO_CHAR(CURRENT_DATE, 'YYYY-MM-DD') AS today`);
+      const today = todayRes.rows[0].today;
+      const pausedOn = paused_on || today;
+
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(pausedOn) || (expected_resume_on && !/^\d{4}-\d{2}-\d{2}$/.test(expected_resume_on))) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'Invalid date. Use YYYY-MM-DD' });
+      }
+      if (expected_resume_on && expected_resume_on < pausedOn) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'Expected resume date must be on or after the pause date' });
+      }
+      if (pausedOn > today) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'A pause cannot start in the future. Record it on the day it starts' });
+      }
+      if (seat_action && !SEAT_POLICIES.includes(seat_action)) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: `Seat action must be one of: ${SEAT_POLICIES.join(', ')}` });
+      }
+
+      const studentRes = await client.query('SELECT * FROM students WHERE id = $1 FOR UPDATE', [id]);
+      if (studentRes.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ message: 'Student not found' });
+      }
+      const student = studentRes.rows[0];
+      const openPause = await client.query('SELECT id FROM membership_pauses WHERE student_id = $1 AND resumed_on IS NULL', [id]);
+      if (openPause.rows.length > 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'This membership is already paused' });
+      }
+      const endCheck = await client.query('SELECT $1::date > $2::date AS ended', [pausedOn, student.membership_end]);
+      if (endCheck.rows[0].ended) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'The membership has already ended by the pause date' });
+      }
+
+      const seatAction = seat_action || await readSeatPolicy(client);
+      let released = [];
+      if (seatAction === 'release') {
+        const releasedRes = await client.query('DELETE FROM seat_assignments WHERE student_id = $1 RETURNING seat_id, shift_id', [id]);
+        released = releasedRes.rows;
+        await syncSeatHistory(client, id, { reason: 'paused', note: reason || null, userId: req.session.user.id });
+      }
+
+      const latestHistory = await client.query(
+        'SELECT id FROM student_membership_history WHERE student_id = $1 ORDER BY id DESC LIMIT 1',
+        [id]
+      );
+      const pause = await client.query(
+        `INSERT INTO membership_pauses (
+          student_id, history_id, branch_id, paused_on, expected_resume_on, seat_action,
+          released_assignments, previous_membership_end, reason, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        RETURNING *`,
+        [
+          id, latestHistory.rows.length > 0 ? latestHistory.rows[0].id : null, student.branch_id, pausedOn,
+          expected_resume_on || null, seatAction, released.length > 0 ? JSON.stringify(released) : null,
+          student.membership_end, reason || null, req.session.user.id,
+        ]
+      );
+
+      await client.query('COMMIT');
+      offerFreedSeats(pool, released.map(row => row.seat_id));
+      await recordAudit(pool, req, {
+        action: 'pause', entityType: 'student', entityId: id, branchId: student.branch_id, after: pause.rows[0],
+      });
+      res.status(201).json({ message: 'Membership paused', pause: pause.rows[0] });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error pausing membership:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
+
+  /**
+   * @route   POST /api/students/:id/resume
+   * @desc    End the open pause on resumed_on (today, the default, or earlier) and push
+   *          membership_end out by the days paused, on the student and on the
+   *          current membership period. The pause row keeps the days paused
+   *          and the old end date. A released seat is given back when it is
+   *          still free; otherwise the student needs a new seat.
+   * @access  Admin or Staff with 'manage_library_students' permission.
+   */
+  router.post('/:id/resume', checkPermissions(['manage_library_students']), async (req, res) => {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const id = parseInt(req.params.id, 10);
+      // Today as the database sees it; the UTC date of the server is a day behind before 05:30 IST.
+      const todayRes = await client.query(`SELECT TO_CHAR(CURRENT_DATE, 'YYYY-MM-DD') AS today`);
+      const today = todayRes.rows[0].today;
+      const resumedOn = req.body.resumed_on || today;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(resumedOn)) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'Invalid resume date. Use YYYY-MM-DD' });
+      }
+      if (resumedOn > today) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'A resume cannot be dated in the future. Record it on the day the student is back' });
+      }
+
+      const pauseRes = await client.query(
+        `SELECT *, ($2::date - paused_on) AS days FROM membership_pauses
+         WHERE student_id = $1 AND resumed_on IS NULL FOR UPDATE`,
+        [id, resumedOn]
+      );
+      if (pauseRes.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ message: 'This membership is not paused' });
+      }
+      const pause = pauseRes.rows[0];
+      const daysPaused = parseInt(pause.days, 10);
+      if (daysPaused < 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: 'Resume date cannot be before the pause date' });
+      }
+
+      const beforeRes = await client.query('SELECT * FROM students WHERE id = $1 FOR UPDATE', [id]);
+      const updated = await client.query(
+        `UPDATE students
+         SET membership_end = membership_end + $1::int,
+             status = CASE WHEN membership_end + $1::int < CURRENT_DATE THEN 'expired' ELSE 'active' END
+         WHERE id = $2
+         RETURNING *`,
+        [daysPaused, id]
+      );
+      await client.query(
+        `UPDATE student_membership_history SET membership_end = $1, status = $2, changed_at = NOW()
+         WHERE id = (SELECT id FROM student_membership_history WHERE student_id = $3 ORDER BY id DESC LIMIT 1)`,
+        [updated.rows[0].membership_end, updated.rows[0].status, id]
+      );
+
+      let seatRestored = null;
+      const released = pause.released_assignments || [];
+      if (released.length > 0) {
+        const seatId = released[0].seat_id;
+        const shiftIds = released.map(row => row.shift_id);
+        const shiftError = await validateShiftAssignment(client, {
+          seatId, shiftIds, branchId: updated.rows[0].branch_id, studentId: id,
+        });
+        seatRestored = !shiftError;
+        if (seatRestored) {
+          for (const shiftId of shiftIds) {
+            await client.query(
+              'INSERT INTO seat_assignments (seat_id, shift_id, student_id) VALUES ($1, $2, $3)',
+              [seatId, shiftId, id]
+            );
+          }
+          await syncSeatHistory(client, id, { reason: 'resumed', userId: req.session.user.id });
+        }
+      }
+
+      const resumed = await client.query(
+        `UPDATE membership_pauses SET resumed_on = $1, days_paused = $2, resumed_by = $3
+         WHERE id = $4 RETURNING *`,
+        [resumedOn, daysPaused, req.session.user.id, pause.id]
+      );
+
+      await client.query('COMMIT');
+      await recordAudit(pool, req, {
+        action: 'resume', entityType: 'student', entityId: id, branchId: updated.rows[0].branch_id,
+        before: beforeRes.rows[0], after: { ...updated.rows[0], pause: resumed.rows[0] },
+      });
+      res.json({
+        message: seatRestored === false
+          ? 'Membership resumed. The old seat is no longer free, please assign a new one.'
+          : 'Membership resumed',
+        pause: resumed.rows[0],
+        membership_end: updated.rows[0].membership_end,
+        seat_restored: seatRestored,
+      });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error resuming membership:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
+
   router.get('/:id', checkAdminOrStaff, async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
@@ -392,6 +1191,7 @@ module.exports = (pool) => {
           s.*,
           b.name AS branch_name,
           l.locker_number,
+          TO_CHAR(s.date_of_birth, 'YYYY-MM-DD') AS date_of_birth_on,
           CASE
             WHEN s.membership_end < CURRENT_DATE THEN 'expired'
             ELSE 'active'
@@ -413,6 +1213,10 @@ module.exports = (pool) => {
         LEFT JOIN schedules sch ON sa.shift_id = sch.id
         WHERE sa.student_id = $1
       `, [id]);
+      const activePause = await pool.query(
+        'SELECT * FROM membership_pauses WHERE student_id = $1 AND resumed_on IS NULL',
+        [id]
+      );
       res.json({
         ...studentData,
         membership_start: new Date(studentData.membership_start).toISOString().split('T')[0],
@@ -426,10 +1230,12 @@ module.exports = (pool) => {
         discount: parseFloat(studentData.discount || 0),
         remark: studentData.remark || '',
         preparing_for: studentData.preparing_for || '',
+        date_of_birth: studentData.date_of_birth_on,
         profile_image_url: studentData.profile_image_url || '',
         aadhaar_front_url: studentData.aadhaar_front_url || '',
         aadhaar_back_url: studentData.aadhaar_back_url || '',
         assignments: assignments.rows,
+        active_pause: activePause.rows[0] || null,
         locker_number: studentData.locker_number || null,
       });
     } catch (err) {
@@ -462,6 +1268,9 @@ module.exports = (pool) => {
           s.aadhaar_back_url,
           s.membership_end,
           s.discount,
+          s.total_fee,
+          s.amount_paid,
+          s.due_amount,
           l.locker_number,
           CASE
             WHEN s.membership_end < CURRENT_DATE THEN 'expired'
@@ -480,6 +1289,10 @@ module.exports = (pool) => {
         params.push(`%${search}%`);
         paramIndex++;
       }
+      const branchScope = branchScopeCondition(req, 's.branch_id', params);
+      if (branchScope) {
+        query += ` AND ${branchScope}`;
+      }
       
       if (statusFilter && statusFilter !== 'all') {
         if (statusFilter === 'active') {
@@ -499,199 +1312,490 @@ module.exports = (pool) => {
     }
   });
 
-  router.post('/', checkPermissions(['manage_library_students']), async (req, res) => {
-    const client = await pool.connect();
-    try {
-      await client.query('BEGIN');
+  const formatStudentResponse = (student) => ({
+    ...student,
+    total_fee: parseFloat(student.total_fee || 0),
+    amount_paid: parseFloat(student.amount_paid || 0),
+    due_amount: parseFloat(student.due_amount || 0),
+    cash: parseFloat(student.cash || 0),
+    online: parseFloat(student.online || 0),
+    security_money: parseFloat(student.security_money || 0),
+    discount: parseFloat(student.discount || 0),
+    remark: student.remark || '',
+    profile_image_url: student.profile_image_url || '',
+    aadhaar_front_url: student.aadhaar_front_url || '',
+    aadhaar_back_url: student.aadhaar_back_url || '',
+  });
 
-      const {
-        name, email, phone, address, branch_id, membership_start, membership_end,
-        total_fee, amount_paid, shift_ids, seat_id, cash, online, security_money, remark, profile_image_url,
-        registration_number, father_name, aadhar_number, locker_id, aadhaar_front_url, aadhaar_back_url, discount, preparing_for
-      } = req.body;
+  /**
+   * Validates a new-student payload against the database (branch, seat/shift
+   * collisions, locker availability). Shared by POST / and POST /import so both
+   * paths apply the same rules. Returns { error } or { values }.
+   */
+  const validateNewStudent = async (client, body) => {
+    const {
+      name, email, phone, address, branch_id, membership_start, membership_end,
+      total_fee, amount_paid, shift_ids, seat_id, cash, online, security_money, remark, profile_image_url,
+      registration_number, father_name, aadhar_number, locker_id, aadhaar_front_url, aadhaar_back_url, discount, preparing_for,
+      waitlist_id, date_of_birth
+    } = body;
+
+    if (!name || !branch_id || !membership_start || !membership_end) {
+      return { error: 'Required fields missing (name, branch_id, membership_start, membership_end)' };
+    }
 
-      console.log('Received request body for POST /students:', req.body);
+    const branchIdNum = parseInt(branch_id, 10);
+    const seatIdNum = seat_id ? parseInt(seat_id, 10) : null;
+    const lockerIdNum = locker_id ? parseInt(locker_id, 10) : null;
+    const shiftIdsNum = shift_ids && Array.isArray(shift_ids) ? shift_ids.map(id => parseInt(id, 10)) : [];
+    // Set when admitting someone from the seat waitlist; checked below.
+    const waitlistIdNum = waitlist_id ? parseInt(waitlist_id, 10) : null;
+
+    const feeValue = parseFloat(total_fee || 0);
+    const paidValue = parseFloat(amount_paid || 0);
+    const discountValue = parseFloat(discount || 0);
+    if (isNaN(feeValue) || feeValue < 0) {
+      return { error: 'Total fee must be a valid non-negative number' };
+    }
+    if (isNaN(paidValue) || paidValue < 0) {
+      return { error: 'Amount paid must be a valid non-negative number' };
+    }
+    if (isNaN(discountValue) || discountValue < 0) {
+      return { error: 'Discount must be a valid non-negative number' };
+    }
 
-      if (!name || !branch_id || !membership_start || !membership_end) {
-        console.error('Validation failed: Missing required fields');
-        await client.query('ROLLBACK');
-        return res.status(400).json({ message: 'Required fields missing (name, branch_id, membership_start, membership_end)' });
+    const cashValue = cash !== undefined ? parseFloat(cash) : 0;
+    const onlineValue = online !== undefined ? parseFloat(online) : 0;
+    const securityMoneyValue = security_money !== undefined ? parseFloat(security_money) : 0;
+
+    if (isNaN(cashValue) || cashValue < 0) {
+      return { error: 'Cash must be a valid non-negative number' };
+    }
+    if (isNaN(onlineValue) || onlineValue < 0) {
+      return { error: 'Online payment must be a valid non-negative number' };
+    }
+    if (isNaN(securityMoneyValue) || securityMoneyValue < 0) {
+      return { error: 'Security money must be a valid non-negative number' };
+    }
+
+    const branchCheck = await client.query('SELECT 1 FROM branches WHERE id = $1', [branchIdNum]);
+    if (branchCheck.rows.length === 0) {
+      return { error: `Branch with ID ${branch_id} does not exist` };
+    }
+
+    if (seatIdNum && shiftIdsNum.length > 0) {
+      const seatCheck = await client.query('SELECT 1 FROM seats WHERE id = $1', [seatIdNum]);
+      if (seatCheck.rows.length === 0) {
+        return { error: `Seat with ID ${seatIdNum} does not exist` };
       }
+    }
 
-      const branchIdNum = parseInt(branch_id, 10);
-      const seatIdNum = seat_id ? parseInt(seat_id, 10) : null;
-      const lockerIdNum = locker_id ? parseInt(locker_id, 10) : null;
-      const shiftIdsNum = shift_ids && Array.isArray(shift_ids) ? shift_ids.map(id => parseInt(id, 10)) : [];
+    // The entry must be this person's and still open. Only an offer of this
+    // very seat lets them use the seat hold made for them.
+    let holdWaitlistId = null;
+    if (waitlistIdNum) {
+      const entryRes = await client.query('SELECT * FROM seat_waitlist WHERE id = $1 FOR UPDATE', [waitlistIdNum]);
+      const entry = entryRes.rows[0];
+      const digits = (value) => String(value || '').replace(/\D/g, '').slice(-10);
+      if (!entry || !['waiting', 'offered'].includes(entry.status)) {
+        return { error: 'This waitlist entry is no longer open' };
+      }
+      if (entry.branch_id !== branchIdNum) {
+        return { error: 'This waitlist entry is for another branch' };
+      }
+      if (digits(entry.phone) !== digits(phone)) {
+        return { error: `This waitlist entry belongs to ${entry.name} (${entry.phone})` };
+      }
+      if (entry.status === 'offered' && seatIdNum && entry.offered_seat_id === seatIdNum) {
+        holdWaitlistId = entry.id;
+      }
+    }
 
-      const feeValue = parseFloat(total_fee || 0);
-      const paidValue = parseFloat(amount_paid || 0);
-      const discountValue = parseFloat(discount || 0);
-      if (isNaN(feeValue) || feeValue < 0) {
-        console.error('Validation failed: Total fee invalid', { total_fee });
-        await client.query('ROLLBACK');
-        return res.status(400).json({ message: 'Total fee must be a valid non-negative number' });
+    const shiftError = await validateShiftAssignment(client, {
+      seatId: seatIdNum, shiftIds: shiftIdsNum, branchId: branchIdNum, waitlistId: holdWaitlistId,
+    });
+    if (shiftError) {
+      return { error: shiftError };
+    }
+
+    if (lockerIdNum) {
+      const lockerCheck = await client.query('SELECT is_assigned FROM locker WHERE id = $1', [lockerIdNum]);
+      if (lockerCheck.rows.length === 0) {
+        return { error: `locker with ID ${lockerIdNum} does not exist` };
       }
-      if (isNaN(paidValue) || paidValue < 0) {
-        console.error('Validation failed: Amount paid invalid', { amount_paid });
-        await client.query('ROLLBACK');
-        return res.status(400).json({ message: 'Amount paid must be a valid non-negative number' });
+      if (lockerCheck.rows[0].is_assigned) {
+        return { error: `locker with ID ${lockerIdNum} is already assigned` };
       }
-      if (isNaN(discountValue) || discountValue < 0) {
-        console.error('Validation failed: Discount invalid', { discount });
-        await client.query('ROLLBACK');
-        return res.status(400).json({ message: 'Discount must be a valid non-negative number' });
+    }
+
+    return {
+      values: {
+        name, email, phone, address, membership_start, membership_end,
+        remark, profile_image_url, aadhaar_front_url, aadhaar_back_url,
+        registration_number, father_name, aadhar_number, preparing_for, date_of_birth,
+        branchIdNum, seatIdNum, lockerIdNum, shiftIdsNum, waitlistIdNum,
+        feeValue, paidValue, discountValue, cashValue, onlineValue, securityMoneyValue,
+        dueAmount: feeValue - discountValue - paidValue,
       }
+    };
+  };
+
+  /**
+   * Inserts a validated student together with its locker, seat assignments and
+   * the initial student_membership_history row and the ledger entries for the
+   * money taken. Must run inside a transaction. Returns { student, historyId }.
+   */
+  const createStudent = async (client, values, collectedBy = null) => {
+    const {
+      name, email, phone, address, membership_start, membership_end,
+      remark, profile_image_url, aadhaar_front_url, aadhaar_back_url,
+      registration_number, father_name, aadhar_number, preparing_for, date_of_birth,
+      branchIdNum, seatIdNum, lockerIdNum, shiftIdsNum, waitlistIdNum,
+      feeValue, paidValue, discountValue, cashValue, onlineValue, securityMoneyValue, dueAmount
+    } = values;
+
+    const status = new Date(membership_end) < new Date() ? 'expired' : 'active';
+
+    const result = await client.query(
+      `INSERT INTO students (
+        name, email, phone, address, branch_id, membership_start, membership_end,
+        total_fee, amount_paid, due_amount, cash, online, security_money, remark, 
+        profile_image_url, aadhaar_front_url, aadhaar_back_url, status, locker_id,
+        registration_number, father_name, aadhar_number, discount, is_active, created_at, preparing_for, date_of_birth
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, NOW(), $25, $26
+      ) RETURNING *`,
+      [
+        name, email, phone, address, branchIdNum, membership_start, membership_end,
+        feeValue, paidValue, dueAmount, cashValue, onlineValue, securityMoneyValue, remark || null, 
+        profile_image_url || null, aadhaar_front_url || null, aadhaar_back_url || null, status, lockerIdNum,
+        registration_number || null, father_name || null, aadhar_number || null, discountValue, true,
+        preparing_for || null, date_of_birth || null
+      ]
+    );
+    const student = result.rows[0];
+
+    if (lockerIdNum) {
+      await client.query(
+        'UPDATE locker SET is_assigned = true, student_id = $1 WHERE id = $2',
+        [student.id, lockerIdNum]
+      );
+    }
 
-      const cashValue = cash !== undefined ? parseFloat(cash) : 0;
-      const onlineValue = online !== undefined ? parseFloat(online) : 0;
-      const securityMoneyValue = security_money !== undefined ? parseFloat(security_money) : 0;
+    let firstShiftId = null;
+    if (shiftIdsNum.length > 0) {
+      for (const shiftId of shiftIdsNum) {
+        await client.query(
+          'INSERT INTO seat_assignments (seat_id, shift_id, student_id) VALUES ($1, $2, $3)',
+          [seatIdNum, shiftId, student.id]
+        );
+        if (!firstShiftId) firstShiftId = shiftId;
+      }
+    }
+
+    await syncSeatHistory(client, student.id, { reason: 'admission', userId: collectedBy });
+
+    if (waitlistIdNum) {
+      await client.query(
+        `UPDATE seat_waitlist SET status = 'admitted', student_id = $1, updated_at = NOW()
+         WHERE id = $2 AND status IN ('waiting', 'offered')`,
+        [student.id, waitlistIdNum]
+      );
+    }
+
+    const historyResult = await client.query(
+      `INSERT INTO student_membership_history (
+        student_id, name, email, phone, address,
+        membership_start, membership_end, status,
+        total_fee, amount_paid, due_amount,
+        cash, online, security_money, remark,
+        seat_id, shift_id, branch_id,
+        registration_number, father_name, aadhar_number,
+        profile_image_url, aadhaar_front_url, aadhaar_back_url,
+        locker_id, discount, shift_ids, changed_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, NOW())
+      RETURNING id`,
+      [
+        student.id, student.name, student.email, student.phone, student.address,
+        student.membership_start, student.membership_end, student.status,
+        student.total_fee, student.amount_paid, student.due_amount,
+        student.cash, student.online, student.security_money, student.remark || '',
+        seatIdNum, firstShiftId, branchIdNum,
+        student.registration_number, student.father_name, student.aadhar_number,
+        student.profile_image_url || '', student.aadhaar_front_url || '', student.aadhaar_back_url || '',
+        lockerIdNum, student.discount, shiftIdsNum
+      ]
+    );
+    const historyId = historyResult.rows[0].id;
+
+    await recordInitialPayments(client, {
+      studentId: student.id,
+      historyId,
+      cash: cashValue,
+      online: onlineValue,
+      securityMoney: securityMoneyValue,
+      collectedBy,
+      note: 'Admission',
+    });
+    await syncHistoryTotals(client, historyId);
+
+    const refreshed = await client.query('SELECT * FROM students WHERE id = $1', [student.id]);
+    return { student: refreshed.rows[0], historyId };
+  };
+
+  /**
+   * @route   POST /api/students
+   * @desc    Admit a student. With duration_months the fee, discount and end
+   *          date come from the fee plan; a different amount (or none given
+   *          as a duration) needs override_fees and fee_override_reason.
+   *          coupon_code, referrer_phone and sibling_phone add promotions.
+   * @access  manage_library_students.
+   */
+  router.post('/', checkPermissions(['manage_library_students']), async (req, res) => {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
 
-      if (isNaN(cashValue) || cashValue < 0) {
-        console.error('Validation failed: Cash invalid', { cash });
+      console.log('Received request body for POST /students:', req.body);
+
+      const priced = await applyFeeQuote(client, req, req.body);
+      if (priced.error) {
         await client.query('ROLLBACK');
-        return res.status(400).json({ message: 'Cash must be a valid non-negative number' });
+        return res.status(400).json({ message: priced.error });
       }
-      if (isNaN(onlineValue) || onlineValue < 0) {
-        console.error('Validation failed: Online invalid', { online });
+
+      const { error, values } = await validateNewStudent(client, priced.body);
+      if (error) {
+        console.error('Validation failed:', error);
         await client.query('ROLLBACK');
-        return res.status(400).json({ message: 'Online payment must be a valid non-negative number' });
+        return res.status(400).json({ message: error });
       }
-      if (isNaN(securityMoneyValue) || securityMoneyValue < 0) {
-        console.error('Validation failed: Security money invalid', { security_money });
+
+      const schedule = parseInstallments(req.body.installments, values.feeValue - values.discountValue);
+      if (schedule.error) {
         await client.query('ROLLBACK');
-        return res.status(400).json({ message: 'Security money must be a valid non-negative number' });
+        return res.status(400).json({ message: schedule.error });
       }
 
-      const dueAmount = feeValue - discountValue - paidValue;
+      const { student, historyId } = await createStudent(client, values, req.session.user.id);
+      await recordFeeQuote(client, historyId, priced.feeQuote);
+      await recordPromotions(client, { historyId, studentId: student.id, promotions: priced.feeQuote.promotions });
+      await saveInstallments(client, {
+        historyId, studentId: student.id, branchId: student.branch_id, installments: schedule.installments,
+      });
+      const receipt = await issueReceipt(client, {
+        historyId,
+        cash: student.cash,
+        online: student.online,
+        securityMoney: student.security_money,
+        issuedBy: req.session.user.id,
+      });
+      await queueTemplatedMessages(client, {
+        event: 'admission_welcome', studentId: student.id, key: student.id, createdBy: req.session.user.id,
+      });
 
-      if (seatIdNum && shiftIdsNum.length > 0) {
-        const seatCheck = await client.query('SELECT 1 FROM seats WHERE id = $1', [seatIdNum]);
-        if (seatCheck.rows.length === 0) {
-          console.error('Validation failed: Seat does not exist', { seatIdNum });
-          await client.query('ROLLBACK');
-          return res.status(400).json({ message: `Seat with ID ${seatIdNum} does not exist` });
-        }
+      await client.query('COMMIT');
 
-        for (const shiftId of shiftIdsNum) {
-          const shiftCheck = await client.query('SELECT 1 FROM schedules WHERE id = $1', [shiftId]);
-          if (shiftCheck.rows.length === 0) {
-            console.error('Validation failed: Shift does not exist', { shiftId });
-            await client.query('ROLLBACK');
-            return res.status(400).json({ message: `Shift with ID ${shiftId} does not exist` });
-          }
-        }
+      await recordAudit(pool, req, {
+        action: 'create', entityType: 'student', entityId: student.id, branchId: student.branch_id, after: student,
+      });
+      res.status(201).json({ student: formatStudentResponse(student), receipt });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error adding student:', err.stack);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
 
-        for (const shiftId of shiftIdsNum) {
-          const checkAssignment = await client.query(
-            'SELECT 1 FROM seat_assignments WHERE seat_id = $1 AND shift_id = $2',
-            [seatIdNum, shiftId]
-          );
-          if (checkAssignment.rows.length > 0) {
-            console.error('Validation failed: Seat already assigned for shift', { seatIdNum, shiftId });
-            await client.query('ROLLBACK');
-            return res.status(400).json({ message: `Seat is already assigned for shift ${shiftId}` });
-          }
-        }
-      }
+  /**
+   * Maps a spreadsheet row (branch name/code, seat number, shift titles, locker
+   * number) onto the ids that validateNewStudent expects. Returns { error } or { body }.
+   */
+  const resolveImportRow = async (client, row, branches) => {
+    let branch = null;
+    if (row.branch_id) {
+      branch = branches.find(b => b.id === parseInt(row.branch_id, 10));
+    } else if (row.branch) {
+      const key = String(row.branch).trim().toLowerCase();
+      branch = branches.find(b => b.name.toLowerCase() === key || (b.code && b.code.toLowerCase() === key));
+    }
+    if (!branch) {
+      return { error: `Unknown branch "${row.branch || row.branch_id || ''}"` };
+    }
 
-      if (lockerIdNum) {
-        const lockerCheck = await client.query('SELECT is_assigned FROM locker WHERE id = $1', [lockerIdNum]);
-        if (lockerCheck.rows.length === 0) {
-          console.error('Validation failed: locker does not exist', { lockerIdNum });
-          await client.query('ROLLBACK');
-          return res.status(400).json({ message: `locker with ID ${lockerIdNum} does not exist` });
-        }
-        if (lockerCheck.rows[0].is_assigned) {
-          console.error('Validation failed: locker already assigned', { lockerIdNum });
-          await client.query('ROLLBACK');
-          return res.status(400).json({ message: `locker with ID ${lockerIdNum} is already assigned` });
-        }
+    for (const field of ['membership_start', 'membership_end']) {
+      if (row[field] && !/^\d{4}-\d{2}-\d{2}$/.test(row[field])) {
+        return { error: `Invalid ${field} "${row[field]}", use YYYY-MM-DD` };
       }
+    }
 
-      const status = new Date(membership_end) < new Date() ? 'expired' : 'active';
+    if (!row.phone) {
+      return { error: 'Phone is required' };
+    }
+    const existingStudent = await client.query('SELECT id FROM students WHERE phone = $1', [String(row.phone)]);
+    if (existingStudent.rows.length > 0) {
+      return { error: 'A student with this phone number already exists.' };
+    }
 
-      const result = await client.query(
-        `INSERT INTO students (
-          name, email, phone, address, branch_id, membership_start, membership_end,
-          total_fee, amount_paid, due_amount, cash, online, security_money, remark, 
-          profile_image_url, aadhaar_front_url, aadhaar_back_url, status, locker_id,
-          registration_number, father_name, aadhar_number, discount, is_active, created_at, preparing_for
-        ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, NOW(), $25
-        ) RETURNING *`,
-        [
-          name, email, phone, address, branchIdNum, membership_start, membership_end,
-          feeValue, paidValue, dueAmount, cashValue, onlineValue, securityMoneyValue, remark || null, 
-          profile_image_url || null, aadhaar_front_url || null, aadhaar_back_url || null, status, lockerIdNum,
-          registration_number || null, father_name || null, aadhar_number || null, discountValue, true,
-          preparing_for || null
-        ]
+    const shiftTitles = Array.isArray(row.shifts)
+      ? row.shifts
+      : String(row.shifts || '').split(',').map(s => s.trim()).filter(s => s);
+    const shiftIds = [];
+    for (const title of shiftTitles) {
+      // Shifts are per branch (NULL = every branch), so only the row's branch is searched.
+      const shift = await client.query(
+        'SELECT id FROM schedules WHERE LOWER(title) = LOWER($1) AND (branch_id IS NULL OR branch_id = $2)',
+        [title, branch.id]
       );
-      const student = result.rows[0];
-
-      if (lockerIdNum) {
-        await client.query(
-          'UPDATE locker SET is_assigned = true, student_id = $1 WHERE id = $2',
-          [student.id, lockerIdNum]
-        );
+      if (shift.rows.length === 0) {
+        return { error: `Shift "${title}" does not exist in branch ${branch.name}` };
       }
+      if (shift.rows.length > 1) {
+        return { error: `More than one shift is called "${title}" in branch ${branch.name}; rename one of them` };
+      }
+      shiftIds.push(shift.rows[0].id);
+    }
 
-      let firstShiftId = null;
-      if (shiftIdsNum.length > 0) {
-        for (const shiftId of shiftIdsNum) {
-          await client.query(
-            'INSERT INTO seat_assignments (seat_id, shift_id, student_id) VALUES ($1, $2, $3)',
-            [seatIdNum, shiftId, student.id]
-          );
-          if (!firstShiftId) firstShiftId = shiftId;
-        }
+    let seatId = null;
+    if (row.seat_number) {
+      if (shiftIds.length === 0) {
+        return { error: `Seat ${row.seat_number} given without any shifts` };
       }
+      const seat = await client.query(
+        'SELECT id FROM seats WHERE seat_number = $1 AND branch_id = $2',
+        [String(row.seat_number).trim(), branch.id]
+      );
+      if (seat.rows.length === 0) {
+        return { error: `Seat ${row.seat_number} does not exist in branch ${branch.name}` };
+      }
+      seatId = seat.rows[0].id;
+    }
 
-      await client.query(
-        `INSERT INTO student_membership_history (
-          student_id, name, email, phone, address,
-          membership_start, membership_end, status,
-          total_fee, amount_paid, due_amount,
-          cash, online, security_money, remark,
-          seat_id, shift_id, branch_id,
-          registration_number, father_name, aadhar_number,
-          profile_image_url, aadhaar_front_url, aadhaar_back_url,
-          locker_id, discount, changed_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, NOW())`,
-        [
-          student.id, student.name, student.email, student.phone, student.address,
-          student.membership_start, student.membership_end, student.status,
-          student.total_fee, student.amount_paid, student.due_amount,
-          student.cash, student.online, student.security_money, student.remark || '',
-          seatIdNum, firstShiftId, branchIdNum,
-          student.registration_number, student.father_name, student.aadhar_number,
-          student.profile_image_url || '', student.aadhaar_front_url || '', student.aadhaar_back_url || '',
-          lockerIdNum, student.discount
-        ]
+    let lockerId = null;
+    if (row.locker_number) {
+      const locker = await client.query(
+        'SELECT id FROM locker WHERE locker_number = $1 AND branch_id = $2',
+        [String(row.locker_number).trim(), branch.id]
       );
+      if (locker.rows.length === 0) {
+        return { error: `Locker ${row.locker_number} does not exist in branch ${branch.name}` };
+      }
+      lockerId = locker.rows[0].id;
+    }
 
-      await client.query('COMMIT');
+    const cash = parseFloat(row.cash || 0);
+    const online = parseFloat(row.online || 0);
+
+    return {
+      body: {
+        name: row.name,
+        email: row.email || null,
+        phone: String(row.phone),
+        address: row.address || null,
+        registration_number: row.registration_number,
+        father_name: row.father_name,
+        aadhar_number: row.aadhar_number ? String(row.aadhar_number) : null,
+        branch_id: branch.id,
+        membership_start: row.membership_start,
+        membership_end: row.membership_end,
+        total_fee: row.total_fee,
+        discount: row.discount,
+        cash,
+        online,
+        amount_paid: cash + online,
+        security_money: row.security_money,
+        shift_ids: shiftIds,
+        seat_id: seatId,
+        locker_id: lockerId,
+        remark: row.remark,
+        preparing_for: row.preparing_for,
+        duration_months: row.duration_months,
+        fee_override_reason: row.fee_override_reason,
+      }
+    };
+  };
+
+  /**
+   * @route   POST /api/students/import
+   * @desc    Bulk-create students from spreadsheet rows. With dry_run (the default)
+   *          every row is inserted inside a transaction that is rolled back, so the
+   *          report reflects collisions between rows of the same file as well.
+   *          Otherwise valid rows are committed together and invalid rows skipped.
+   *          Fees are checked as on admission: a row with duration_months is
+   *          priced from the fee plan, and a different or hand-typed fee needs
+   *          override_fees and the row's fee_override_reason.
+   * @access  Admin or Staff with 'manage_library_students' permission.
+   */
+  router.post('/import', checkPermissions(['manage_library_students']), async (req, res) => {
+    const { rows, dry_run } = req.body;
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(400).json({ message: 'rows must be a non-empty array' });
+    }
+    if (rows.length > 1000) {
+      return res.status(400).json({ message: 'A single import is limited to 1000 rows' });
+    }
+    const dryRun = dry_run !== false;
 
-      res.status(201).json({
-        student: {
-          ...student,
-          total_fee: parseFloat(student.total_fee || 0),
-          amount_paid: parseFloat(student.amount_paid || 0),
-          due_amount: parseFloat(student.due_amount || 0),
-          cash: parseFloat(student.cash || 0),
-          online: parseFloat(student.online || 0),
-          security_money: parseFloat(student.security_money || 0),
-          discount: parseFloat(student.discount || 0),
-          remark: student.remark || '',
-          profile_image_url: student.profile_image_url || '',
-          aadhaar_front_url: student.aadhaar_front_url || '',
-          aadhaar_back_url: student.aadhaar_back_url || '',
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const branchesResult = await client.query('SELECT id, name, code FROM branches');
+      // Rows naming a branch the user cannot access are reported as unknown branches.
+      const branches = branchesResult.rows.filter(branch => canAccessBranch(req, branch.id));
+
+      const report = [];
+      for (let i = 0; i < rows.length; i++) {
+        const row = rows[i] || {};
+        const entry = { row_number: row.row_number || i + 1, name: row.name || '', phone: row.phone || '' };
+
+        await client.query('SAVEPOINT import_row');
+        try {
+          const resolved = await resolveImportRow(client, row, branches);
+          const priced = resolved.error ? resolved : await applyFeeQuote(client, req, resolved.body);
+          const { error, values } = priced.error ? priced : await validateNewStudent(client, priced.body);
+          if (error) {
+            await client.query('ROLLBACK TO SAVEPOINT import_row');
+            report.push({ ...entry, status: 'error', message: error });
+            continue;
+          }
+          const { student, historyId } = await createStudent(client, values, req.session.user.id);
+          await recordFeeQuote(client, historyId, priced.feeQuote);
+          await client.query('RELEASE SAVEPOINT import_row');
+          report.push({ ...entry, status: 'valid', student_id: dryRun ? null : student.id, branch_id: student.branch_id });
+        } catch (rowErr) {
+          await client.query('ROLLBACK TO SAVEPOINT import_row');
+          report.push({ ...entry, status: 'error', message: rowErr.message });
         }
+      }
+
+      const validCount = report.filter(r => r.status === 'valid').length;
+      await client.query(dryRun ? 'ROLLBACK' : 'COMMIT');
+      console.log(`[students.js] Import ${dryRun ? 'dry run' : 'committed'}: ${validCount}/${rows.length} valid rows`);
+
+      if (dryRun) {
+        skipAudit(req);
+      } else {
+        for (const entry of report.filter(r => r.status === 'valid')) {
+          await recordAudit(pool, req, {
+            action: 'import', entityType: 'student', entityId: entry.student_id, branchId: entry.branch_id,
+            after: { row_number: entry.row_number, name: entry.name, phone: entry.phone },
+          });
+        }
+      }
+
+      res.json({
+        dry_run: dryRun,
+        total: rows.length,
+        valid: validCount,
+        invalid: rows.length - validCount,
+        rows: report.map(({ branch_id, ...entry }) => entry),
       });
     } catch (err) {
       await client.query('ROLLBACK');
-      console.error('Error adding student:', err.stack);
-      res.status(500).json({ message: 'Server error', error: err.message });
+      console.error('Error importing students:', err.stack);
+      res.status(500).json({ message: 'Server error during import', error: err.message });
     } finally {
       client.release();
     }
@@ -707,7 +1811,7 @@ module.exports = (pool) => {
         name, email, phone, address, branch_id, membership_start, membership_end,
         total_fee, amount_paid, shift_ids, seat_id, cash, online, security_money, remark,
         registration_number, father_name, aadhar_number, profile_image_url, locker_id,
-        aadhaar_front_url, aadhaar_back_url, discount, preparing_for
+        aadhaar_front_url, aadhaar_back_url, discount, preparing_for, date_of_birth
       } = req.body;
       
       if (!name || !phone || !address || !branch_id || !membership_start || !membership_end) {
@@ -725,6 +1829,14 @@ module.exports = (pool) => {
       const dueAmountValue = feeValue - discountValue - paidValue;
       const status = new Date(membership_end) < new Date() ? 'expired' : 'active';
 
+      const shiftError = await validateShiftAssignment(client, {
+        seatId: seatIdNum, shiftIds: shiftIdsNum, branchId: branch_id, studentId: id,
+      });
+      if (shiftError) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: shiftError });
+      }
+
       if (lockerIdNum) {
         const lockerCheck = await client.query('SELECT is_assigned, student_id FROM locker WHERE id = $1', [lockerIdNum]);
         if (lockerCheck.rows.length === 0) {
@@ -737,8 +1849,24 @@ module.exports = (pool) => {
         }
       }
 
-      const previouslockerCheck = await client.query('SELECT locker_id FROM students WHERE id = $1', [id]);
-      const previouslockerId = previouslockerCheck.rows[0].locker_id;
+      const previouslockerCheck = await client.query('SELECT * FROM students WHERE id = $1', [id]);
+      if (previouslockerCheck.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ message: 'Student not found' });
+      }
+      const studentBefore = previouslockerCheck.rows[0];
+      const feeChanged =
+        Math.abs(feeValue - (parseFloat(studentBefore.total_fee) || 0)) > 0.005 ||
+        Math.abs(discountValue - (parseFloat(studentBefore.discount) || 0)) > 0.005;
+      const feeOverrideReason = req.body.fee_override_reason ? String(req.body.fee_override_reason).trim() : '';
+      if (feeChanged) {
+        const feeError = feeOverrideError(req, feeOverrideReason);
+        if (feeError) {
+          await client.query('ROLLBACK');
+          return res.status(400).json({ message: feeError });
+        }
+      }
+      const previouslockerId = studentBefore.locker_id;
       if (previouslockerId) {
         await client.query('UPDATE locker SET is_assigned = false, student_id = NULL WHERE id = $1', [previouslockerId]);
       }
@@ -750,8 +1878,9 @@ module.exports = (pool) => {
              amount_paid = $9, due_amount = $10, cash = $11, online = $12, 
              security_money = $13, remark = $14, status = $15,
              registration_number = $16, father_name = $17, aadhar_number = $18, 
-             profile_image_url = $19, locker_id = $20, aadhaar_front_url = $21, aadhaar_back_url = $22, discount = $23, preparing_for = $24
-         WHERE id = $25
+             profile_image_url = $19, locker_id = $20, aadhaar_front_url = $21, aadhaar_back_url = $22, discount = $23, preparing_for = $24,
+             date_of_birth = $25
+         WHERE id = $26
          RETURNING *`,
         [
           name, email, phone, address, branch_id, membership_start, membership_end,
@@ -759,7 +1888,7 @@ module.exports = (pool) => {
           security_money, remark || null, status, 
           registration_number || null, father_name || null, aadhar_number || null, 
           profile_image_url || null, lockerIdNum, aadhaar_front_url || null, aadhaar_back_url || null, discountValue,
-          preparing_for || null,
+          preparing_for || null, date_of_birth || null,
           id
         ]
       );
@@ -779,7 +1908,7 @@ module.exports = (pool) => {
       }
 
       let firstShiftId = null;
-      await client.query('DELETE FROM seat_assignments WHERE student_id = $1', [id]);
+      const releasedSeats = await client.query('DELETE FROM seat_assignments WHERE student_id = $1 RETURNING seat_id', [id]);
       if (shiftIdsNum.length > 0) {
         for (const shiftId of shiftIdsNum) {
           await client.query(
@@ -789,14 +1918,31 @@ module.exports = (pool) => {
           if (!firstShiftId) firstShiftId = shiftId;
         }
       }
+      await syncSeatHistory(client, id, { reason: 'update', userId: req.session.user.id });
       
+      const latestHistory = await client.query(
+        'SELECT id FROM student_membership_history WHERE student_id = $1 ORDER BY id DESC LIMIT 1',
+        [updatedStudent.id]
+      );
+      const latestHistoryId = latestHistory.rows.length > 0 ? latestHistory.rows[0].id : null;
+      if (latestHistoryId) {
+        // Payments edited on the form are booked as adjustments so the ledger stays the source of truth.
+        await adjustToTotals(client, {
+          historyId: latestHistoryId,
+          cash: updatedStudent.cash,
+          online: updatedStudent.online,
+          securityMoney: updatedStudent.security_money,
+          collectedBy: req.session.user.id,
+        });
+      }
+
       await client.query(
         `UPDATE student_membership_history
          SET name = $1, email = $2, phone = $3, address = $4, membership_start = $5, membership_end = $6, status = $7,
              total_fee = $8, amount_paid = $9, due_amount = $10, cash = $11, online = $12, security_money = $13,
              remark = $14, seat_id = $15, shift_id = $16, branch_id = $17, registration_number = $18,
              father_name = $19, aadhar_number = $20, profile_image_url = $21, 
-             aadhaar_front_url = $22, aadhaar_back_url = $23, locker_id = $24, discount = $25, preparing_for = $26, changed_at = NOW()
+             aadhaar_front_url = $22, aadhaar_back_url = $23, locker_id = $24, discount = $25, preparing_for = $26, shift_ids = $28, changed_at = NOW()
          WHERE id = (SELECT id FROM student_membership_history WHERE student_id = $27 ORDER BY id DESC LIMIT 1)`,
           [
             updatedStudent.name, updatedStudent.email, updatedStudent.phone, updatedStudent.address,
@@ -807,11 +1953,32 @@ module.exports = (pool) => {
             updatedStudent.father_name, updatedStudent.aadhar_number, updatedStudent.profile_image_url || '',
             updatedStudent.aadhaar_front_url || '', updatedStudent.aadhaar_back_url || '', lockerIdNum, updatedStudent.discount,
             updatedStudent.preparing_for || '',
-            updatedStudent.id
+            updatedStudent.id, shiftIdsNum
           ]
       );
+
+      if (latestHistoryId && feeChanged) {
+        // Keep how the period was priced and record why its fee was changed.
+        const quoteRes = await client.query(
+          `SELECT fee_plan_id, fee_offer_id, duration_months, quoted_fee, quoted_discount
+           FROM student_membership_history WHERE id = $1`,
+          [latestHistoryId]
+        );
+        await recordFeeQuote(client, latestHistoryId, { ...quoteRes.rows[0], fee_override_reason: feeOverrideReason });
+      }
+
+      if (latestHistoryId) {
+        await syncHistoryTotals(client, latestHistoryId);
+        const refreshed = await client.query('SELECT * FROM students WHERE id = $1', [updatedStudent.id]);
+        Object.assign(updatedStudent, refreshed.rows[0]);
+      }
       
       await client.query('COMMIT');
+      offerFreedSeats(pool, releasedSeats.rows.map(row => row.seat_id));
+      await recordAudit(pool, req, {
+        action: 'update', entityType: 'student', entityId: id, branchId: updatedStudent.branch_id,
+        before: studentBefore, after: updatedStudent,
+      });
       res.json({ student: {
         ...updatedStudent,
         total_fee: parseFloat(updatedStudent.total_fee || 0),
@@ -838,13 +2005,18 @@ module.exports = (pool) => {
   router.delete('/:id', checkAdminOrStaff, async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
-      await pool.query('DELETE FROM seat_assignments WHERE student_id = $1', [id]);
+      const releasedSeats = await pool.query('DELETE FROM seat_assignments WHERE student_id = $1 RETURNING seat_id', [id]);
       await pool.query('UPDATE locker SET is_assigned = false, student_id = NULL WHERE student_id = $1', [id]);
+      await pool.query('DELETE FROM student_transactions WHERE student_id = $1', [id]);
       await pool.query('DELETE FROM student_membership_history WHERE student_id = $1', [id]);
       const del = await pool.query('DELETE FROM students WHERE id = $1 RETURNING *', [id]);
       if (!del.rows[0]) {
         return res.status(404).json({ message: 'Student not found' });
       }
+      offerFreedSeats(pool, releasedSeats.rows.map(row => row.seat_id));
+      await recordAudit(pool, req, {
+        action: 'delete', entityType: 'student', entityId: id, branchId: del.rows[0].branch_id, before: del.rows[0],
+      });
       return res.json({ message: 'Student deleted', student: del.rows[0] });
     } catch (err) {
       console.error('DELETE /students/:id error:', err);
@@ -873,6 +2045,12 @@ module.exports = (pool) => {
             totalExpenseQuery += ` AND e.branch_id = $3`;
             params.push(branchIdNum);
         }
+        const historyScope = branchScopeCondition(req, 'h.branch_id', params);
+        if (historyScope) {
+            totalCollectionQuery += ` AND ${historyScope}`;
+            totalDueQuery += ` AND ${historyScope}`;
+            totalExpenseQuery += ` AND ${historyScope.replace('h.branch_id', 'e.branch_id')}`;
+        }
 
         const totalCollectionResult = await pool.query(totalCollectionQuery, params);
         const totalDueResult = await pool.query(totalDueQuery, params);
@@ -894,18 +2072,31 @@ module.exports = (pool) => {
     }
   });
 
+  /**
+   * @route   POST /api/students/:id/renew
+   * @desc    Start a new membership period. Priced from the fee plan the same
+   *          way as an admission; referral credits the student has earned are
+   *          taken off.
+   * @access  Admin or staff.
+   */
   router.post('/:id/renew', checkAdminOrStaff, async (req, res) => {
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
       const id = parseInt(req.params.id, 10);
 
+      const priced = await applyFeeQuote(client, req, req.body, id);
+      if (priced.error) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: priced.error });
+      }
+
       const {
         name, registration_number, father_name, aadhar_number, address,
         membership_start, membership_end, email, phone, branch_id,
         shift_ids, seat_id, total_fee, cash, online, security_money, remark,
         profile_image_url, aadhaar_front_url, aadhaar_back_url, locker_id, discount, preparing_for
-      } = req.body;
+      } = priced.body;
 
       if (!membership_start || !membership_end || !name || !phone || !branch_id) {
         await client.query('ROLLBACK');
@@ -926,17 +2117,18 @@ module.exports = (pool) => {
       const due_amount = feeValue - discountValue - amount_paid;
       const status = new Date(membership_end) < new Date() ? 'expired' : 'active';
 
-      if (seatIdNum && shiftIdsNum.length > 0) {
-        for (const shiftId of shiftIdsNum) {
-          const checkAssignment = await client.query(
-            'SELECT 1 FROM seat_assignments WHERE seat_id = $1 AND shift_id = $2 AND student_id != $3',
-            [seatIdNum, shiftId, id]
-          );
-          if (checkAssignment.rows.length > 0) {
-            await client.query('ROLLBACK');
-            return res.status(400).json({ message: `Seat is already assigned for shift ${shiftId}` });
-          }
-        }
+      const schedule = parseInstallments(req.body.installments, feeValue - discountValue);
+      if (schedule.error) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: schedule.error });
+      }
+
+      const shiftError = await validateShiftAssignment(client, {
+        seatId: seatIdNum, shiftIds: shiftIdsNum, branchId: branchIdNum, studentId: id,
+      });
+      if (shiftError) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: shiftError });
       }
 
       if (lockerIdNum) {
@@ -951,6 +2143,8 @@ module.exports = (pool) => {
         }
       }
       
+      const beforeRes = await client.query('SELECT * FROM students WHERE id = $1', [id]);
+
       // ✅ FIX: The missing UPDATE query is added here.
       const upd = await client.query(
         `UPDATE students 
@@ -991,7 +2185,7 @@ module.exports = (pool) => {
       }
 
       let firstShiftId = null;
-      await client.query('DELETE FROM seat_assignments WHERE student_id = $1', [id]);
+      const releasedSeats = await client.query('DELETE FROM seat_assignments WHERE student_id = $1 RETURNING seat_id', [id]);
       if (shiftIdsNum.length > 0) {
         for (const shiftId of shiftIdsNum) {
           await client.query(
@@ -1001,8 +2195,9 @@ module.exports = (pool) => {
           if (!firstShiftId) firstShiftId = shiftId;
         }
       }
+      await syncSeatHistory(client, id, { reason: 'renewal', userId: req.session.user.id });
 
-      await client.query(
+      const historyResult = await client.query(
         `INSERT INTO student_membership_history (
           student_id, name, email, phone, address,
           membership_start, membership_end, status,
@@ -1011,8 +2206,9 @@ module.exports = (pool) => {
           seat_id, shift_id, branch_id,
           registration_number, father_name, aadhar_number,
           profile_image_url, aadhaar_front_url, aadhaar_back_url,
-          locker_id, discount, changed_at, preparing_for
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, NOW(), $27)`,
+          locker_id, discount, changed_at, preparing_for, shift_ids
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, NOW(), $27, $28)
+        RETURNING id`,
         [
           updated.id, updated.name, updated.email, updated.phone, updated.address,
           updated.membership_start, updated.membership_end, updated.status,
@@ -1022,13 +2218,44 @@ module.exports = (pool) => {
           updated.registration_number, updated.father_name, updated.aadhar_number,
           updated.profile_image_url || '', updated.aadhaar_front_url || '', updated.aadhaar_back_url || '',
           lockerIdNum, updated.discount,
-          updated.preparing_for || null
+          updated.preparing_for || null, shiftIdsNum
         ]
       );
 
+      const historyId = historyResult.rows[0].id;
+      await recordFeeQuote(client, historyId, priced.feeQuote);
+      await recordPromotions(client, { historyId, studentId: id, promotions: priced.feeQuote.promotions });
+      await recordInitialPayments(client, {
+        studentId: id,
+        historyId,
+        cash: cashValue,
+        online: onlineValue,
+        securityMoney: securityMoneyValue,
+        collectedBy: req.session.user.id,
+        note: 'Renewal',
+      });
+      await syncHistoryTotals(client, historyId);
+      await saveInstallments(client, {
+        historyId, studentId: id, branchId: branchIdNum, installments: schedule.installments,
+      });
+
+      const receipt = await issueReceipt(client, {
+        historyId,
+        cash: cashValue,
+        online: onlineValue,
+        securityMoney: securityMoneyValue,
+        issuedBy: req.session.user.id,
+      });
+
       await client.query('COMMIT');
+      offerFreedSeats(pool, releasedSeats.rows.map(row => row.seat_id));
+      await recordAudit(pool, req, {
+        action: 'renew', entityType: 'student', entityId: id, branchId: branchIdNum,
+        before: beforeRes.rows[0], after: updated,
+      });
       res.json({
         message: 'Membership renewed',
+        receipt,
         student: {
           ...updated,
           total_fee: parseFloat(updated.total_fee || 0),
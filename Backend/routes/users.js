@@ -1,4 +1,49 @@
 const { checkAdmin } = require('./auth');
+const { hashPassword, verifyPassword, validateNewPassword } = require('../utils/passwords');
+const { recordAudit } = require('../utils/audit');
+const { ROLE_PERMISSIONS_SQL, resolvePermissions, parsePermissionList } = require('../utils/roles');
+const { invalidateUserSessions } = require('../utils/sessions');
+
+// null (or a missing value) leaves the user unrestricted; otherwise a list of branch ids.
+const parseAllowedBranchIds = (value) => {
+  if (value === undefined || value === null) {
+    return { branchIds: null };
+  }
+  if (!Array.isArray(value)) {
+    return { error: 'allowedBranchIds must be an array of branch IDs or null.' };
+  }
+  const branchIds = [...new Set(value.map(id => parseInt(id, 10)))];
+  if (branchIds.some(id => isNaN(id))) {
+    return { error: 'allowedBranchIds must be an array of branch IDs or null.' };
+  }
+  return { branchIds };
+};
+
+// Role assignment plus per-user overrides: `permissions` are granted on top of
+// the role, `revoked_permissions` are taken away from it.
+const parseAccess = async (db, body) => {
+  const grants = parsePermissionList(body.permissions);
+  if (grants.error) return { error: grants.error };
+  const revokes = parsePermissionList(body.revoked_permissions, 'revokedPermissions');
+  if (revokes.error) return { error: revokes.error };
+
+  let roleId = null;
+  if (body.role_id !== undefined && body.role_id !== null && body.role_id !== '') {
+    roleId = parseInt(body.role_id, 10);
+    const role = isNaN(roleId) ? { rows: [] } : await db.query('SELECT id FROM roles WHERE id = $1', [roleId]);
+    if (role.rows.length === 0) {
+      return { error: 'Selected role does not exist.' };
+    }
+  }
+  return { roleId, permissions: grants.permissions, revokedPermissions: revokes.permissions };
+};
+
+const ACCESS_COLUMNS = `id, username, role, role_id, permissions, revoked_permissions, ${ROLE_PERMISSIONS_SQL}`;
+
+const withEffectivePermissions = (user) => {
+  const { role_permissions, ...rest } = user;
+  return { ...rest, effective_permissions: resolvePermissions(role_permissions, user.permissions, user.revoked_permissions) };
+};
 
 module.exports = (pool) => {
   const router = require('express').Router();
@@ -31,6 +76,7 @@ module.exports = (pool) => {
       }
 
       const { full_name, email, current_password, new_password } = req.body;
+      const before = await pool.query('SELECT id, username, full_name, email, role FROM users WHERE id = $1', [req.session.user.id]);
 
       if (email) {
         const emailCheck = await pool.query(
@@ -44,8 +90,13 @@ module.exports = (pool) => {
       }
 
       if (current_password && new_password) {
+        const validationError = validateNewPassword(new_password);
+        if (validationError) {
+          return res.status(400).json({ message: validationError });
+        }
+
         const userResult = await pool.query('SELECT password FROM users WHERE id = $1', [req.session.user.id]);
-        const isPasswordValid = (current_password === userResult.rows[0].password);
+        const { valid: isPasswordValid } = await verifyPassword(current_password, userResult.rows[0].password);
 
         if (!isPasswordValid) {
           return res.status(400).json({ message: 'Current password is incorrect' });
@@ -55,10 +106,16 @@ module.exports = (pool) => {
           `UPDATE users SET 
            full_name = COALESCE($1, full_name),
            email = COALESCE($2, email),
-           password = $3
+           password = $3,
+           must_change_password = FALSE
            WHERE id = $4 RETURNING id, username, full_name, email, role`,
-          [full_name, email, new_password, req.session.user.id]
+          [full_name, email, await hashPassword(new_password), req.session.user.id]
         );
+        req.session.user.mustChangePassword = false;
+        await recordAudit(pool, req, {
+          action: 'update_profile', entityType: 'user', entityId: req.session.user.id,
+          before: { ...before.rows[0], password_changed: false }, after: { ...result.rows[0], password_changed: true },
+        });
 
         return res.json({
           message: 'Profile updated successfully',
@@ -72,6 +129,10 @@ module.exports = (pool) => {
            WHERE id = $3 RETURNING id, username, full_name, email, role`,
           [full_name, email, req.session.user.id]
         );
+        await recordAudit(pool, req, {
+          action: 'update_profile', entityType: 'user', entityId: req.session.user.id,
+          before: before.rows[0], after: result.rows[0],
+        });
 
         return res.json({
           message: 'Profile updated successfully',
@@ -85,7 +146,7 @@ module.exports = (pool) => {
 
   router.post('/', checkAdmin, async (req, res) => {
     try {
-      const { username, password, role, full_name, email, permissions } = req.body;
+      const { username, password, role, full_name, email, allowed_branch_ids } = req.body;
 
       if (!username || !password || !role) {
         return res.status(400).json({ message: 'Username, password, and role are required' });
@@ -94,18 +155,37 @@ module.exports = (pool) => {
         return res.status(400).json({ message: 'Invalid role. Must be "admin" or "staff"' });
       }
 
+      const passwordError = validateNewPassword(password);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError.replace('New password', 'Password') });
+      }
+
+      const { branchIds, error: branchError } = parseAllowedBranchIds(allowed_branch_ids);
+      if (branchError) {
+        return res.status(400).json({ message: branchError });
+      }
+
+      const access = await parseAccess(pool, role === 'admin' ? {} : req.body);
+      if (access.error) {
+        return res.status(400).json({ message: access.error });
+      }
+
       const existingUser = await pool.query('SELECT * FROM users WHERE username = $1', [username]);
       if (existingUser.rows.length > 0) {
         return res.status(400).json({ message: 'Username already exists' });
       }
 
       const result = await pool.query(
-        `INSERT INTO users (username, password, role, full_name, email, permissions) 
-         VALUES ($1, $2, $3, $4, $5, $6) 
-         RETURNING id, username, role, permissions`,
-        [username, password, role, full_name || '', email || '', permissions || []]
+        `INSERT INTO users (username, password, role, full_name, email, role_id, permissions, revoked_permissions, allowed_branch_ids) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) 
+         RETURNING id, username, role, role_id, permissions, revoked_permissions, allowed_branch_ids`,
+        [
+          username, await hashPassword(password), role, full_name || '', email || '',
+          access.roleId, access.permissions, access.revokedPermissions, branchIds
+        ]
       );
 
+      await recordAudit(pool, req, { action: 'create', entityType: 'user', entityId: result.rows[0].id, after: result.rows[0] });
       res.status(201).json({
         message: 'User created successfully',
         user: result.rows[0]
@@ -118,8 +198,12 @@ module.exports = (pool) => {
 
   router.get('/', checkAdmin, async (req, res) => {
     try {
-      const result = await pool.query('SELECT id, username, role, permissions FROM users');
-      res.json(result.rows);
+      const result = await pool.query(
+        `SELECT ${ACCESS_COLUMNS}, allowed_branch_ids,
+                (SELECT r.name FROM roles r WHERE r.id = users.role_id) AS role_name
+         FROM users ORDER BY username`
+      );
+      res.json(result.rows.map(withEffectivePermissions));
     } catch (err) {
       res.status(500).json({ message: 'Server error', error: err.message });
     }
@@ -128,7 +212,7 @@ module.exports = (pool) => {
   router.delete('/:id', checkAdmin, async (req, res) => {
     try {
       const { id } = req.params;
-      const userToDelete = await pool.query('SELECT role FROM users WHERE id = $1', [id]);
+      const userToDelete = await pool.query('SELECT id, username, role, full_name, email, permissions FROM users WHERE id = $1', [id]);
       if (userToDelete.rows.length === 0) {
         return res.status(404).json({ message: 'User not found' });
       }
@@ -139,6 +223,7 @@ module.exports = (pool) => {
         }
       }
       await pool.query('DELETE FROM users WHERE id = $1', [id]);
+      await recordAudit(pool, req, { action: 'delete', entityType: 'user', entityId: parseInt(id, 10), before: userToDelete.rows[0] });
       res.json({ message: 'User deleted successfully' });
     } catch (err) {
       res.status(500).json({ message: 'Server error', error: err.message });
@@ -146,50 +231,56 @@ module.exports = (pool) => {
   });
 
   // ✅ FIX: Update user permissions and invalidate their session to force re-login
+  // Body: roleId (null for none), permissions granted on top of the role and
+  // revokedPermissions taken away from it.
   router.put('/:id/permissions', checkAdmin, async (req, res) => {
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
       const userIdToUpdate = parseInt(req.params.id, 10);
-      const { permissions } = req.body;
 
-      if (!Array.isArray(permissions)) {
+      if (!Array.isArray(req.body.permissions)) {
+        await client.query('ROLLBACK');
         return res.status(400).json({ message: 'Permissions must be an array of strings.' });
       }
+      const access = await parseAccess(client, req.body);
+      if (access.error) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: access.error });
+      }
 
+      const before = await client.query(`SELECT ${ACCESS_COLUMNS} FROM users WHERE id = $1`, [userIdToUpdate]);
       const result = await client.query(
-        'UPDATE users SET permissions = $1 WHERE id = $2 RETURNING id, username, role, permissions',
-        [permissions, userIdToUpdate]
+        `UPDATE users SET role_id = $1, permissions = $2, revoked_permissions = $3 WHERE id = $4
+         RETURNING ${ACCESS_COLUMNS}`,
+        [access.roleId, access.permissions, access.revokedPermissions, userIdToUpdate]
       );
 
       if (result.rows.length === 0) {
         await client.query('ROLLBACK');
         return res.status(404).json({ message: 'User not found.' });
       }
+      const updatedUser = withEffectivePermissions(result.rows[0]);
 
       // If the admin is editing their own permissions, update their session
       if (req.session.user.id === userIdToUpdate) {
-        req.session.user.permissions = permissions;
-        console.log(`[users.js] Admin updated their own permissions in session:`, permissions);
+        req.session.user.roleId = updatedUser.role_id;
+        req.session.user.permissions = updatedUser.effective_permissions;
+        console.log(`[users.js] Admin updated their own permissions in session:`, updatedUser.effective_permissions);
       } else {
         // If an admin is editing another user, invalidate that user's sessions to force re-login
         console.log(`[users.js] Admin updating permissions for user ID ${userIdToUpdate}. Invalidating their sessions.`);
-        // The "sess" column in connect-pg-simple stores session data as a JSON object.
-        // We find all sessions where the sess->'user'->>'id' matches the user being updated and delete them.
-        const deleteSessionQuery = `
-          DELETE FROM session
-          WHERE (sess->'user'->>'id')::integer = $1
-        `;
-        const deleteResult = await client.query(deleteSessionQuery, [userIdToUpdate]);
-        if (deleteResult.rowCount > 0) {
-          console.log(`[users.js] Invalidated ${deleteResult.rowCount} session(s) for user ID ${userIdToUpdate}.`);
-        }
+        await invalidateUserSessions(client, userIdToUpdate);
       }
 
       await client.query('COMMIT');
+      await recordAudit(pool, req, {
+        action: 'update_permissions', entityType: 'user', entityId: userIdToUpdate,
+        before: before.rows[0] && withEffectivePermissions(before.rows[0]), after: updatedUser,
+      });
       res.json({
         message: 'User permissions updated successfully. The user may need to log in again to see changes.',
-        user: result.rows[0],
+        user: updatedUser,
       });
     } catch (err) {
       await client.query('ROLLBACK');
@@ -200,5 +291,52 @@ module.exports = (pool) => {
     }
   });
 
+  /**
+   * @route   PUT /api/users/:id/branches
+   * @desc    Limit a staff user to the given branches (null lifts the limit).
+   *          Like permission changes, the user's sessions are invalidated.
+   * @access  Admin.
+   */
+  router.put('/:id/branches', checkAdmin, async (req, res) => {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const userIdToUpdate = parseInt(req.params.id, 10);
+      const { branchIds, error } = parseAllowedBranchIds(req.body.allowed_branch_ids);
+      if (error) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ message: error });
+      }
+
+      const before = await client.query('SELECT id, username, role, allowed_branch_ids FROM users WHERE id = $1', [userIdToUpdate]);
+      const result = await client.query(
+        'UPDATE users SET allowed_branch_ids = $1 WHERE id = $2 RETURNING id, username, role, allowed_branch_ids',
+        [branchIds, userIdToUpdate]
+      );
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ message: 'User not found.' });
+      }
+
+      if (req.session.user.id === userIdToUpdate) {
+        req.session.user.allowedBranchIds = branchIds;
+      } else {
+        await invalidateUserSessions(client, userIdToUpdate);
+      }
+
+      await client.query('COMMIT');
+      await recordAudit(pool, req, {
+        action: 'update_branches', entityType: 'user', entityId: userIdToUpdate, before: before.rows[0], after: result.rows[0],
+      });
+      res.json({ message: 'Allowed branches updated successfully.', user: result.rows[0] });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error updating user branches:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    } finally {
+      client.release();
+    }
+  });
+
   return router;
 };
\ No newline at end of file
@@ -0,0 +1,133 @@
+module.exports = (pool) => {
+  const router = require('express').Router();
+  const { checkPermissions } = require('./auth');
+  const { recordAudit } = require('../utils/audit');
+  const { branchScopeCondition, checkBranchAccess, checkRecordBranch } = require('../utils/branchAccess');
+  const { offerFreedSeats, processWaitlist } = require('../utils/waitlist');
+
+  const ACTIVE_STATUSES = ['waiting', 'offered'];
+  const STATUSES = [...ACTIVE_STATUSES, 'admitted', 'expired', 'cancelled'];
+
+  router.use(checkBranchAccess);
+  router.param('id', checkRecordBranch(pool, 'SELECT branch_id FROM seat_waitlist WHERE id = $1'));
+
+  /**
+   * @route   GET /api/waitlist?branchId=&shiftId=&status=
+   * @desc    Waitlist entries in queue order. Defaults to the open ones
+   *          (waiting or offered); status=all returns every entry.
+   * @access  manage_library_students.
+   */
+  router.get('/', checkPermissions(['manage_library_students']), async (req, res) => {
+    try {
+      const { branchId, shiftId, status } = req.query;
+      const params = [];
+      const conditions = [];
+      if (branchId) {
+        params.push(parseInt(branchId, 10));
+        conditions.push(`w.branch_id = $${params.length}`);
+      }
+      if (shiftId) {
+        params.push(parseInt(shiftId, 10));
+        conditions.push(`$${params.length} = ANY(w.shift_ids)`);
+      }
+      if (status !== 'all') {
+        params.push(STATUSES.includes(status) ? [status] : ACTIVE_STATUSES);
+        conditions.push(`w.status = ANY($${params.length})`);
+      }
+      const branchScope = branchScopeCondition(req, 'w.branch_id', params);
+      if (branchScope) {
+        conditions.push(branchScope);
+      }
+
+      const result = await pool.query(`
+        SELECT w.*, b.name AS branch_name, st.seat_number AS offered_seat_number,
+               ARRAY(SELECT sch.title FROM schedules sch WHERE sch.id = ANY(w.shift_ids) ORDER BY sch.title) AS shift_titles
+        FROM seat_waitlist w
+        LEFT JOIN branches b ON b.id = w.branch_id
+        LEFT JOIN seats st ON st.id = w.offered_seat_id
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY w.created_at, w.id
+      `, params);
+      res.json({ waitlist: result.rows });
+    } catch (err) {
+      console.error('Error fetching waitlist:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   POST /api/waitlist
+   * @desc    Put someone on the waitlist for one or more shifts of a branch.
+   *          If a matching seat is already free it is offered straight away.
+   * @access  manage_library_students.
+   */
+  router.post('/', checkPermissions(['manage_library_students']), async (req, res) => {
+    try {
+      const { branch_id, name, phone, email, shift_ids, notes } = req.body;
+      const branchId = parseInt(branch_id, 10);
+      const shiftIds = Array.isArray(shift_ids) ? [...new Set(shift_ids.map(id => parseInt(id, 10)))] : [];
+      if (isNaN(branchId) || !name || !String(name).trim() || !phone) {
+        return res.status(400).json({ message: 'Branch, name and phone are required' });
+      }
+      if (shiftIds.length === 0 || shiftIds.some(isNaN)) {
+        return res.status(400).json({ message: 'Select at least one shift' });
+      }
+      const shifts = await pool.query(
+        'SELECT id FROM schedules WHERE id = ANY($1::int[]) AND (branch_id IS NULL OR branch_id = $2)',
+        [shiftIds, branchId]
+      );
+      if (shifts.rows.length !== shiftIds.length) {
+        return res.status(400).json({ message: 'One or more shifts do not exist in this branch' });
+      }
+
+      const result = await pool.query(
+        `INSERT INTO seat_waitlist (branch_id, name, phone, email, shift_ids, notes, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+        [branchId, String(name).trim(), String(phone).trim(), email || null, shiftIds, notes || null, req.session.user.id]
+      );
+      await recordAudit(pool, req, {
+        action: 'create', entityType: 'waitlist', entityId: result.rows[0].id, branchId, after: result.rows[0],
+      });
+
+      const offers = await processWaitlist(pool, branchId);
+      const entry = offers.find(offer => offer.id === result.rows[0].id) || result.rows[0];
+      res.status(201).json({ entry });
+    } catch (err) {
+      console.error('Error adding to waitlist:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  /**
+   * @route   DELETE /api/waitlist/:id
+   * @desc    Cancel an open entry. A seat held for it is offered to the next person.
+   * @access  manage_library_students.
+   */
+  router.delete('/:id', checkPermissions(['manage_library_students']), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const before = await pool.query('SELECT * FROM seat_waitlist WHERE id = $1', [id]);
+      const result = await pool.query(
+        `UPDATE seat_waitlist SET status = 'cancelled', updated_at = NOW()
+         WHERE id = $1 AND status = ANY($2) RETURNING *`,
+        [id, ACTIVE_STATUSES]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ message: 'Open waitlist entry not found' });
+      }
+      await recordAudit(pool, req, {
+        action: 'cancel', entityType: 'waitlist', entityId: id, branchId: result.rows[0].branch_id,
+        before: before.rows[0], after: result.rows[0],
+      });
+      if (before.rows[0].status === 'offered') {
+        offerFreedSeats(pool, [before.rows[0].offered_seat_id]);
+      }
+      res.json({ message: 'Removed from waitlist' });
+    } catch (err) {
+      console.error('Error cancelling waitlist entry:', err);
+      res.status(500).json({ message: 'Server error', error: err.message });
+    }
+  });
+
+  return router;
+};
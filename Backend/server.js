@@ -14,6 +14,8 @@ require('dotenv').config();
 
 const { setupCronJobs } = require('./utils/cronJobs');
 const { sendExpirationReminder } = require('./utils/email');
+const { hashPassword } = require('./utils/passwords');
+const { auditRequests } = require('./utils/audit');
 
 const app = express();
 
@@ -86,6 +88,9 @@ app.use(session({
   cookie: { maxAge: 24 * 60 * 60 * 1000, httpOnly: true, secure: process.env.NODE_ENV === 'production', sameSite: 'lax' },
 }));
 
+// Logs every successful mutating API call that its route did not audit itself.
+app.use('/api', auditRequests(pool));
+
 cloudinary.config({
   cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
   api_key: process.env.CLOUDINARY_API_KEY,
@@ -235,6 +240,15 @@ const hostelCollectionRoutes = initializeRoute('./routes/hostelCollections', poo
 const branchesRoutes = initializeRoute('./routes/branches', pool);
 const productsRoutes = initializeRoute('./routes/products', pool);
 const lockersRoutes = initializeRoute('./routes/lockers', pool);
+const receiptsRoutes = initializeRoute('./routes/receipts', pool);
+const auditLogsRoutes = initializeRoute('./routes/auditLogs', pool);
+const rolesRoutes = initializeRoute('./routes/roles', pool);
+const waitlistRoutes = initializeRoute('./routes/waitlist', pool);
+const feePlansRoutes = initializeRoute('./routes/feePlans', pool);
+const messagesRoutes = initializeRoute('./routes/messages', pool);
+const messageTemplatesRoutes = initializeRoute('./routes/messageTemplates', pool);
+const reminderRulesRoutes = initializeRoute('./routes/reminderRules', pool);
+const campaignsRoutes = initializeRoute('./routes/campaigns', pool);
 
 // Public routes (no authentication required)
 app.use('/api/auth', authRoutes);
@@ -278,8 +292,13 @@ app.use('/api/users', authenticateUser, userRoutes);
 app.use('/api/students', authenticateUser, studentRouter);
 app.use('/api/schedules', authenticateUser, scheduleRoutes);
 app.use('/api/seats', authenticateUser, seatsRoutes);
+app.use('/api/waitlist', authenticateUser, waitlistRoutes);
+app.use('/api/fee-plans', authenticateUser, feePlansRoutes);
+app.use('/api/messages', authenticateUser, messagesRoutes);
+app.use('/api/campaigns', authenticateUser, campaignsRoutes);
 app.use('/api/branches', authenticateUser, branchesRoutes); 
 app.use('/api/lockers', authenticateUser, lockersRoutes);
+app.use('/api/receipts', authenticateUser, receiptsRoutes);
 
 // Other routes that can keep their global permissions
 app.use('/api/transactions', authenticateUser, checkPermission('view_transactions'), transactionsRoutes);
@@ -291,6 +310,10 @@ app.use('/api/hostel/students', authenticateUser, checkPermission('manage_hostel
 app.use('/api/hostel/collections', authenticateUser, checkPermission('view_hostel_collections'), hostelCollectionRoutes);
 app.use('/api/products', authenticateUser, checkPermission('manage_products'), productsRoutes); 
 app.use('/api/settings', authenticateUser, checkAdmin, settingsRoutes);
+app.use('/api/audit-logs', authenticateUser, checkAdmin, auditLogsRoutes);
+app.use('/api/message-templates', authenticateUser, checkAdmin, messageTemplatesRoutes);
+app.use('/api/reminder-rules', authenticateUser, checkAdmin, reminderRulesRoutes);
+app.use('/api/roles', authenticateUser, checkAdmin, rolesRoutes);
 
 app.get('/api/test-email', async (req, res) => {
   try {
@@ -399,9 +422,10 @@ async function createDefaultAdmin() {
     const userCountResult = await pool.query("SELECT COUNT(*) FROM users WHERE role = 'admin'");
     if (parseInt(userCountResult.rows[0].count) === 0) {
       const plainPassword = process.env.DEFAULT_ADMIN_PASSWORD || 'admin';
+      // The default credentials are well known, so the admin must pick a new password on first login.
       await pool.query(
-        'INSERT INTO users (username, password, role, full_name, email) VALUES ($1, $2, $3, $4, $5)',
-        [process.env.DEFAULT_ADMIN_USERNAME || 'admin', plainPassword, 'admin', 'Default Admin', 'admin@example.com']
+        'INSERT INTO users (username, password, role, full_name, email, must_change_password) VALUES ($1, $2, $3, $4, $5, TRUE)',
+        [process.env.DEFAULT_ADMIN_USERNAME || 'admin', await hashPassword(plainPassword), 'admin', 'Default Admin', 'admin@example.com']
       );
       logger.info('Default admin user created.');
     } else {
@@ -0,0 +1,122 @@
+// Audit trail of who changed what. Routes call recordAudit after a change has
+// been committed, passing the row before and after the change; the changed
+// fields are stored as a { field: { from, to } } diff next to both snapshots.
+// Mutating requests that do not record their own entry are still logged by
+// auditRequests with the (redacted) request body.
+// Audit failures are logged and never fail the request itself.
+
+const REDACTED_KEYS = ['password', 'current_password', 'new_password', 'totp_code', 'recovery_code', 'totp_secret'];
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+const redact = (data) => {
+  if (Array.isArray(data)) {
+    return data.map(redact);
+  }
+  if (data && typeof data === 'object' && !(data instanceof Date)) {
+    const copy = {};
+    for (const [key, value] of Object.entries(data)) {
+      copy[key] = REDACTED_KEYS.includes(key) ? '[redacted]' : redact(value);
+    }
+    return copy;
+  }
+  return data;
+};
+
+// Compares values the way they show up in the UI, so 500 and '500.00' or a Date
+// and its ISO string do not count as changes.
+const normalize = (value) => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  if (!isNaN(value) && !isNaN(parseFloat(value))) return String(parseFloat(value));
+  return String(value);
+};
+
+/**
+ * Returns { field: { from, to } } for every field that differs, or null when
+ * nothing changed. Fields missing from `after` are treated as unchanged.
+ */
+const diffObjects = (before, after) => {
+  if (!before || !after) return null;
+  const changes = {};
+  for (const key of Object.keys(after)) {
+    if (normalize(before[key]) !== normalize(after[key])) {
+      changes[key] = { from: before[key] ?? null, to: after[key] ?? null };
+    }
+  }
+  return Object.keys(changes).length > 0 ? redact(changes) : null;
+};
+
+/**
+ * Writes one audit_logs row for the request's user.
+ * `before`/`after` are plain row objects (either may be null for creates/deletes).
+ */
+const recordAudit = async (db, req, { action, entityType, entityId = null, branchId = null, before = null, after = null }) => {
+  req.auditRecorded = true;
+  try {
+    const user = req.session && req.session.user;
+    const changes = diffObjects(before, after);
+    await db.query(
+      `INSERT INTO audit_logs (
+        user_id, username, action, entity_type, entity_id, branch_id,
+        before_data, after_data, changes, ip_address, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())`,
+      [
+        user ? user.id : null,
+        user ? user.username : null,
+        action,
+        entityType,
+        entityId,
+        branchId,
+        before ? JSON.stringify(redact(before)) : null,
+        after ? JSON.stringify(redact(after)) : null,
+        changes ? JSON.stringify(changes) : null,
+        req.ip || null,
+      ]
+    );
+  } catch (err) {
+    console.error(`[AUDIT] Failed to record ${action} on ${entityType} ${entityId ?? ''}:`, err.message);
+  }
+};
+
+// For POST routes that did not change anything (e.g. dry runs).
+const skipAudit = (req) => {
+  req.auditRecorded = true;
+};
+
+/**
+ * Fallback for mutating routes without their own recordAudit call. Logs the
+ * request body once the response finished successfully. Entity type and id are
+ * taken from the URL: /api/hostel/students/12/renew -> hostel_students, 12, renew.
+ */
+const auditRequests = (pool) => (req, res, next) => {
+  if (!MUTATING_METHODS.includes(req.method)) {
+    return next();
+  }
+  res.on('finish', () => {
+    if (req.auditRecorded || res.statusCode >= 400) {
+      return;
+    }
+    const segments = req.originalUrl.split('?')[0].replace(/^\/api\//, '').split('/').filter(Boolean);
+    const idIndex = segments.findIndex(segment => /^\d+$/.test(segment));
+    const typeSegments = idIndex === -1 ? segments : segments.slice(0, idIndex);
+    const actionSegments = idIndex === -1 ? [] : segments.slice(idIndex + 1);
+    const defaultAction = { POST: 'create', PUT: 'update', PATCH: 'update', DELETE: 'delete' }[req.method];
+
+    recordAudit(pool, req, {
+      action: actionSegments.length > 0 ? actionSegments.join('_') : defaultAction,
+      entityType: typeSegments.join('_').replace(/-/g, '_') || 'unknown',
+      entityId: idIndex === -1 ? null : parseInt(segments[idIndex], 10),
+      branchId: req.body && req.body.branch_id ? parseInt(req.body.branch_id, 10) || null : null,
+      after: req.body && Object.keys(req.body).length > 0 ? req.body : null,
+    });
+  });
+  return next();
+};
+
+module.exports = {
+  diffObjects,
+  recordAudit,
+  skipAudit,
+  auditRequests,
+};
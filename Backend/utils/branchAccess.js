@@ -0,0 +1,83 @@
+// Branch scoping for staff users. users.allowed_branch_ids lists the branches a
+// user may work with; NULL means every branch. Admins are never restricted.
+// The list is copied into the session user as allowedBranchIds at login.
+
+const FORBIDDEN_BRANCH = { message: 'Forbidden - No access to this branch' };
+
+/**
+ * Returns the branch ids the session user is limited to, or null when the
+ * user may see every branch.
+ */
+const getAllowedBranchIds = (req) => {
+  const user = req.session && req.session.user;
+  if (!user || user.role === 'admin' || !Array.isArray(user.allowedBranchIds)) {
+    return null;
+  }
+  return user.allowedBranchIds.map(id => parseInt(id, 10));
+};
+
+const canAccessBranch = (req, branchId) => {
+  const allowed = getAllowedBranchIds(req);
+  if (!allowed) return true;
+  const id = parseInt(branchId, 10);
+  return !isNaN(id) && allowed.includes(id);
+};
+
+/**
+ * SQL condition limiting `column` to the user's branches, or null when the
+ * user is unrestricted. The id list is pushed onto `params`.
+ */
+const branchScopeCondition = (req, column, params) => {
+  const allowed = getAllowedBranchIds(req);
+  if (!allowed) return null;
+  params.push(allowed);
+  return `${column} = ANY($${params.length}::int[])`;
+};
+
+/**
+ * Router middleware rejecting requests that name a branch outside the user's
+ * list, whether as ?branchId= or as branch_id in the body.
+ */
+const checkBranchAccess = (req, res, next) => {
+  const requested = [
+    req.query.branchId,
+    req.query.branch_id,
+    req.body && req.body.branch_id,
+    req.body && req.body.branchId,
+  ].filter(value => value !== undefined && value !== null && value !== '');
+
+  if (requested.some(branchId => !canAccessBranch(req, branchId))) {
+    return res.status(403).json(FORBIDDEN_BRANCH);
+  }
+  return next();
+};
+
+/**
+ * Builds a router.param handler that looks up the branch of the record named
+ * by the route parameter and rejects it when the user has no access to it.
+ * `branchQuery` selects a single branch_id column for the id in $1.
+ */
+const checkRecordBranch = (pool, branchQuery) => async (req, res, next, value) => {
+  if (!getAllowedBranchIds(req) || !/^\d+$/.test(value)) {
+    return next();
+  }
+  try {
+    const result = await pool.query(branchQuery, [parseInt(value, 10)]);
+    // Missing records are left to the route so it can answer 404 as before.
+    if (result.rows.length > 0 && !canAccessBranch(req, result.rows[0].branch_id)) {
+      return res.status(403).json(FORBIDDEN_BRANCH);
+    }
+    return next();
+  } catch (err) {
+    console.error('Error checking branch access:', err);
+    return res.status(500).json({ message: 'Server error', error: err.message });
+  }
+};
+
+module.exports = {
+  getAllowedBranchIds,
+  canAccessBranch,
+  branchScopeCondition,
+  checkBranchAccess,
+  checkRecordBranch,
+};
@@ -0,0 +1,177 @@
+// Campaigns: one message broadcast to the students matching a set of filters
+// (branch, membership status and how recently it ended or how soon it ends,
+// what they are preparing for, whether they owe money). Messages go through
+// the notification outbox like reminders, spread out at the campaign's
+// per_minute rate. Students who opted out (students.campaign_opt_out) or have
+// no address on the channel are skipped. Every student matched gets a
+// campaign_recipients row, linked to their outbox message or with the reason
+// they were skipped, which is the campaign's results report.
+
+const { BATCH_SIZE, enqueueNotification } = require('./notifications');
+const { PLACEHOLDERS, placeholdersIn, recipientFor, renderMessage, studentVariables } = require('./messageTemplates');
+
+const MEMBERSHIPS = ['active', 'expiring', 'expired'];
+// The outbox worker sends at most BATCH_SIZE messages a minute, reminders included.
+const MAX_PER_MINUTE = BATCH_SIZE;
+const DEFAULT_PER_MINUTE = 20;
+
+// Placeholders that come from the student alone; the others belong to an event.
+const CAMPAIGN_PLACEHOLDER_KEYS = [
+  'name', 'phone', 'email', 'registration_number', 'branch_name', 'seat_number', 'shift',
+  'membership_start', 'membership_end', 'days_left', 'due_amount',
+];
+const CAMPAIGN_PLACEHOLDERS = PLACEHOLDERS.filter(placeholder => CAMPAIGN_PLACEHOLDER_KEYS.includes(placeholder.key));
+
+const invalidPlaceholders = (text) =>
+  [...new Set(placeholdersIn(text).filter(key => !CAMPAIGN_PLACEHOLDER_KEYS.includes(key)))];
+
+/**
+ * Validates the audience filters of a request body. membership is active,
+ * expiring (within days) or expired (within the last days, or ever without
+ * days). Returns { error } or { filters }.
+ */
+const parseFilters = (body) => {
+  const { branch_id, membership, days, preparing_for, due_only } = body;
+  const branchId = branch_id ? parseInt(branch_id, 10) : null;
+  if (branch_id && isNaN(branchId)) {
+    return { error: 'Invalid branch' };
+  }
+  if (membership && !MEMBERSHIPS.includes(membership)) {
+    return { error: `Membership must be one of ${MEMBERSHIPS.join(', ')}` };
+  }
+  let dayCount = null;
+  if (days !== undefined && days !== null && days !== '') {
+    dayCount = Number(days);
+    if (!Number.isInteger(dayCount) || dayCount < 0) {
+      return { error: 'Days must be a whole number' };
+    }
+  }
+  if (membership === 'expiring' && dayCount === null) {
+    return { error: 'Enter within how many days the memberships expire' };
+  }
+  return {
+    filters: {
+      branch_id: branchId,
+      membership: membership || null,
+      days: membership === 'active' || !membership ? null : dayCount,
+      preparing_for: preparing_for && String(preparing_for).trim() ? String(preparing_for).trim() : null,
+      due_only: Boolean(due_only),
+    },
+  };
+};
+
+/**
+ * Students matching the filters, by name, with what is needed to tell whether
+ * they can be reached. allowedBranchIds limits them to a staff user's branches.
+ */
+const findAudience = async (db, filters, allowedBranchIds = null) => {
+  const params = [];
+  const conditions = [];
+  const addCondition = (sql, value) => {
+    params.push(value);
+    conditions.push(sql.replace(/\?/g, `$${params.length}`));
+  };
+
+  if (filters.branch_id) addCondition('s.branch_id = ?', filters.branch_id);
+  if (allowedBranchIds) addCondition('s.branch_id = ANY(?::int[])', allowedBranchIds);
+  if (filters.membership === 'active') {
+    conditions.push('s.membership_end >= CURRENT_DATE');
+  } else if (filters.membership === 'expiring') {
+    addCondition('s.membership_end BETWEEN CURRENT_DATE AND CURRENT_DATE + ?::int', filters.days);
+  } else if (filters.membership === 'expired') {
+    conditions.push('s.membership_end < CURRENT_DATE');
+    if (filters.days !== null) addCondition('s.membership_end >= CURRENT_DATE - ?::int', filters.days);
+  }
+  if (filters.preparing_for) addCondition(`s.preparing_for ILIKE '%' || ? || '%'`, filters.preparing_for);
+  if (filters.due_only) conditions.push('s.due_amount > 0');
+
+  const result = await db.query(
+    `SELECT s.id, s.name, s.phone, s.email, s.campaign_opt_out
+     FROM students s
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY s.name, s.id`,
+    params
+  );
+  return result.rows;
+};
+
+// Why a student gets no message on the channel, or null when they get one.
+const skipReason = (channel, student) => {
+  if (student.campaign_opt_out) return 'opted_out';
+  if (!recipientFor(channel, student)) return 'no_contact';
+  return null;
+};
+
+/**
+ * Counts of an audience on a channel: { matched, opted_out, no_contact,
+ * recipients }, recipients being the students who will get the message.
+ */
+const summarizeAudience = (audience, channel) => {
+  const summary = { matched: audience.length, opted_out: 0, no_contact: 0, recipients: 0 };
+  for (const student of audience) {
+    const reason = skipReason(channel, student);
+    if (reason) summary[reason] += 1;
+    else summary.recipients += 1;
+  }
+  return summary;
+};
+
+/**
+ * Renders the campaign's message for one student: { template, payload } as
+ * the outbox stores it, plus the variables used.
+ */
+const renderCampaignMessage = async (db, campaign, studentId) => {
+  const variables = await studentVariables(db, studentId);
+  if (!variables) return null;
+  return { variables, ...renderMessage({ ...campaign, event: 'campaign' }, variables) };
+};
+
+/**
+ * Queues the campaign to its audience and records every student matched.
+ * The n-th message is held back n / per_minute minutes. Returns the counts of
+ * summarizeAudience.
+ */
+const queueCampaign = async (db, campaign, audience) => {
+  const summary = summarizeAudience(audience, campaign.channel);
+  let position = 0;
+  for (const student of audience) {
+    const reason = skipReason(campaign.channel, student);
+    let outboxId = null;
+    if (!reason) {
+      const { variables, template, payload } = await renderCampaignMessage(db, campaign, student.id);
+      const message = await enqueueNotification(db, {
+        channel: campaign.channel,
+        recipient: recipientFor(campaign.channel, variables),
+        template,
+        payload,
+        kind: 'campaign',
+        idempotencyKey: `campaign:${campaign.id}:${student.id}`,
+        studentId: student.id,
+        branchId: variables.branch_id,
+        createdBy: campaign.created_by,
+        delaySeconds: Math.floor(position / campaign.per_minute) * 60,
+      });
+      outboxId = message ? message.id : null;
+      position += 1;
+    }
+    await db.query(
+      `INSERT INTO campaign_recipients (campaign_id, student_id, outbox_id, skip_reason)
+       VALUES ($1, $2, $3, $4)`,
+      [campaign.id, student.id, outboxId, reason]
+    );
+  }
+  return summary;
+};
+
+module.exports = {
+  MEMBERSHIPS,
+  MAX_PER_MINUTE,
+  DEFAULT_PER_MINUTE,
+  CAMPAIGN_PLACEHOLDERS,
+  invalidPlaceholders,
+  parseFilters,
+  findAudience,
+  summarizeAudience,
+  renderCampaignMessage,
+  queueCampaign,
+};
@@ -1,67 +1,74 @@
 const cron = require('node-cron');
-const { sendExpirationReminder } = require('./email');
-const { sendWhatsAppMessage } = require('./whatsapp');
+const { runWaitlistMaintenance } = require('./waitlist');
+const { queueInstallmentReminders } = require('./installments');
+const { processOutbox } = require('./notifications');
+const { queueBirthdayMessages } = require('./messageTemplates');
+const { runReminderRules } = require('./reminderRules');
 
 const setupCronJobs = (pool) => {
-  // Schedule a daily task at 10 AM to send expiration reminders
-  cron.schedule('0 16 * * *', async () => {
+  // Every hour: run the reminder rules whose send window is open
+  cron.schedule('0 * * * *', async () => {
     try {
-      console.log('Running expiration reminder cron job...');
-
-      // Get settings
-      const settingsResult = await pool.query('SELECT * FROM settings');
-      const settings = {};
-      settingsResult.rows.forEach(row => {
-        settings[row.key] = row.value;
-      });
-
-      const daysBefore = parseInt(settings.days_before_expiration);
-      if (!daysBefore || isNaN(daysBefore)) {
-        console.log('Days before expiration not set or invalid');
-        return;
-      }
-
-      const brevoTemplateId = settings.brevo_template_id;
-      if (!brevoTemplateId) {
-        console.log('Brevo template ID not set');
-        return;
+      const results = await runReminderRules(pool);
+      for (const result of results) {
+        if (result.fired > 0) {
+          console.log(`Reminder rule "${result.rule}": fired for ${result.fired}, queued ${result.queued} message(s)`);
+        }
       }
+    } catch (err) {
+      console.error('Error in reminder rules cron job:', err);
+    }
+  }, {
+    timezone: 'Asia/Kolkata'
+  });
 
-      // Calculate the date range
-      const currentDate = new Date();
-      const targetDate = new Date();
-      targetDate.setDate(targetDate.getDate() + daysBefore);
-
-      const currentDateString = currentDate.toISOString().split('T')[0];
-      const targetDateString = targetDate.toISOString().split('T')[0];
+  // Daily: remind students of installments coming due or overdue
+  cron.schedule('5 16 * * *', async () => {
+    try {
+      const queued = await queueInstallmentReminders(pool);
+      console.log(`Queued ${queued} installment reminder(s)`);
+    } catch (err) {
+      console.error('Error in installment reminder cron job:', err);
+    }
+  }, {
+    timezone: 'Asia/Kolkata'
+  });
 
-      // Get students whose membership ends within the date range
-      const studentsResult = await pool.query(
-        "SELECT * FROM students WHERE membership_end BETWEEN $1 AND $2 AND status = 'active'",
-        [currentDateString, targetDateString]
-      );
-      const students = studentsResult.rows;
+  // Daily: birthday wishes, where a birthday template exists
+  cron.schedule('10 16 * * *', async () => {
+    try {
+      const queued = await queueBirthdayMessages(pool);
+      console.log(`Queued ${queued} birthday wish(es)`);
+    } catch (err) {
+      console.error('Error in birthday message cron job:', err);
+    }
+  }, {
+    timezone: 'Asia/Kolkata'
+  });
 
-      if (students.length === 0) {
-        console.log('No students with memberships expiring between', currentDateString, 'and', targetDateString);
-        return;
+  // Every hour: expire lapsed waitlist offers and pass freed seats to the next in line
+  cron.schedule('15 * * * *', async () => {
+    try {
+      const offers = await runWaitlistMaintenance(pool);
+      if (offers.length > 0) {
+        console.log(`Offered seats to ${offers.length} waitlisted student(s)`);
       }
+    } catch (err) {
+      console.error('Error in waitlist cron job:', err);
+    }
+  }, {
+    timezone: 'Asia/Kolkata'
+  });
 
-      for (const student of students) {
-        // Send Brevo email
-        await sendExpirationReminder(student, brevoTemplateId);
-
-        // Send WhatsApp message
-        if (student.phone) {
-          let formattedPhone = student.phone.trim();
-          if (!formattedPhone.startsWith('+')) {
-            formattedPhone = `+91${formattedPhone.replace(/\D/g, '')}`;
-          }
-          await sendWhatsAppMessage(formattedPhone);
-        }
+  // Every minute: deliver queued notifications and retry failed ones that are due
+  cron.schedule('* * * * *', async () => {
+    try {
+      const { sent, failed } = await processOutbox(pool);
+      if (sent > 0 || failed > 0) {
+        console.log(`Outbox: ${sent} sent, ${failed} given up`);
       }
     } catch (err) {
-      console.error('Error in expiration reminder cron job:', err);
+      console.error('Error in notification outbox cron job:', err);
     }
   }, {
     timezone: 'Asia/Kolkata'
@@ -1,24 +1,32 @@
 const SibApiV3Sdk = require('@sendinblue/client');
 
-const sendExpirationReminder = async (student, templateId) => {
+// Sends a Brevo template email and returns Brevo's message id.
+const sendTemplateEmail = async (to, templateId, params = {}) => {
   try {
     const apiInstance = new SibApiV3Sdk.TransactionalEmailsApi();
     apiInstance.setApiKey(SibApiV3Sdk.TransactionalEmailsApiApiKeys.apiKey, process.env.BREVO_API_KEY);
 
     const sendSmtpEmail = new SibApiV3Sdk.SendSmtpEmail();
-    sendSmtpEmail.to = [{ email: student.email }];
+    sendSmtpEmail.to = [{ email: to }];
     sendSmtpEmail.templateId = parseInt(templateId);
-    sendSmtpEmail.params = {
-      NAME: student.name,
-      MEMBERSHIP_END: student.membership_end,
-    };
+    sendSmtpEmail.params = params;
 
-    await apiInstance.sendTransacEmail(sendSmtpEmail);
-    console.log(`Email sent to ${student.email}`);
+    const response = await apiInstance.sendTransacEmail(sendSmtpEmail);
+    console.log(`Email sent to ${to}`);
+    return response && response.body ? response.body.messageId : null;
   } catch (err) {
-    console.error(`Failed to send email to ${student.email}:`, err);
+    console.error(`Failed to send email to ${to}:`, err);
     throw err;
   }
 };
 
-module.exports = { sendExpirationReminder };
\ No newline at end of file
+// Template params of the membership expiry email.
+const expirationReminderParams = (student) => ({
+  NAME: student.name,
+  MEMBERSHIP_END: student.membership_end,
+});
+
+const sendExpirationReminder = (student, templateId) =>
+  sendTemplateEmail(student.email, templateId, expirationReminderParams(student));
+
+module.exports = { sendTemplateEmail, expirationReminderParams, sendExpirationReminder };
\ No newline at end of file
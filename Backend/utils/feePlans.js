@@ -0,0 +1,218 @@
+// Fee plans and offers. A plan prices a shift combination for a number of
+// months in a branch (branch_id NULL = every branch); a branch plan wins over a
+// global one. Without a plan the fee falls back to the shifts' schedules.fee
+// per month. The best running offer is then taken off as the discount.
+// Promotions (coupon, referral credits, sibling discount) are added to that
+// discount. Admission and renewal charge the quote unless a user allowed to
+// override fees enters a different amount together with a reason.
+
+const { evaluatePromotions } = require('./promotions');
+
+const OVERRIDE_PERMISSION = 'override_fees';
+const DISCOUNT_TYPES = ['percent', 'flat'];
+
+const round = (value) => Math.round(value * 100) / 100;
+
+const canOverrideFees = (req) =>
+  req.session.user.role === 'admin' || (req.session.user.permissions || []).includes(OVERRIDE_PERMISSION);
+
+/**
+ * Why the user cannot set a fee other than the one worked out from the fee
+ * plan, or null when they hold override_fees and gave a reason.
+ */
+const feeOverrideError = (req, reason) => {
+  if (!canOverrideFees(req)) {
+    return 'You are not allowed to change the fee worked out from the fee plan';
+  }
+  if (!reason) {
+    return 'A reason is required when overriding the fee';
+  }
+  return null;
+};
+
+const offerDiscount = (offer, amount) => {
+  const value = parseFloat(offer.discount_value);
+  const discount = offer.discount_type === 'flat' ? value : (amount * value) / 100;
+  return round(Math.min(discount, amount));
+};
+
+/**
+ * Prices a membership: the matching plan (or the per-shift fallback), the
+ * locker add-on, the best offer running on startDate, the promotions and the
+ * end date. startDate is YYYY-MM-DD; shiftIds are matched against plans as a
+ * set. studentId is the renewing student (null on admission). A promotion
+ * that cannot be used is left out and explained in promotion_error.
+ */
+const quoteFee = async (db, {
+  branchId, shiftIds, months, startDate, withLocker,
+  studentId = null, couponCode = '', referrerPhone = '', siblingPhone = '',
+}) => {
+  const planResult = await db.query(
+    `SELECT * FROM fee_plans
+     WHERE is_active AND duration_months = $1 AND (branch_id IS NULL OR branch_id = $2)
+       AND shift_ids @> $3::int[] AND shift_ids <@ $3::int[]
+     ORDER BY branch_id NULLS LAST, id DESC
+     LIMIT 1`,
+    [months, branchId, shiftIds]
+  );
+  const plan = planResult.rows[0] || null;
+
+  let baseFee;
+  if (plan) {
+    baseFee = parseFloat(plan.fee);
+  } else {
+    const shiftFees = await db.query(
+      'SELECT COALESCE(SUM(fee), 0) AS monthly FROM schedules WHERE id = ANY($1::int[])',
+      [shiftIds]
+    );
+    baseFee = round(parseFloat(shiftFees.rows[0].monthly) * months);
+  }
+  const lockerFee = plan && withLocker ? parseFloat(plan.locker_fee) : 0;
+  const totalFee = round(baseFee + lockerFee);
+
+  const offers = await db.query(
+    `SELECT * FROM fee_offers
+     WHERE is_active AND (branch_id IS NULL OR branch_id = $1)
+       AND $2::date BETWEEN valid_from AND valid_to AND min_months <= $3`,
+    [branchId, startDate, months]
+  );
+  let offer = null;
+  let discount = 0;
+  for (const candidate of offers.rows) {
+    const candidateDiscount = offerDiscount(candidate, totalFee);
+    if (candidateDiscount > discount) {
+      offer = candidate;
+      discount = candidateDiscount;
+    }
+  }
+
+  const promotions = await evaluatePromotions(db, {
+    branchId, studentId, couponCode, referrerPhone, siblingPhone, amount: totalFee - discount,
+  });
+  const offerDiscountValue = discount;
+  if (!promotions.error) {
+    discount = round(discount + promotions.total);
+  }
+
+  const end = await db.query(
+    `SELECT TO_CHAR($1::date + make_interval(months => $2), 'YYYY-MM-DD') AS membership_end`,
+    [startDate, months]
+  );
+
+  return {
+    fee_plan_id: plan ? plan.id : null,
+    plan_name: plan ? plan.name : null,
+    duration_months: months,
+    base_fee: baseFee,
+    locker_fee: lockerFee,
+    total_fee: totalFee,
+    discount,
+    fee_offer_id: offer ? offer.id : null,
+    offer_name: offer ? offer.name : null,
+    offer_discount: offerDiscountValue,
+    promotions: promotions.error ? null : promotions,
+    promotion_error: promotions.error || null,
+    security_deposit: plan ? parseFloat(plan.security_deposit) : 0,
+    membership_start: startDate,
+    membership_end: end.rows[0].membership_end,
+  };
+};
+
+/**
+ * Fills total_fee, discount and membership_end of an admission/renewal body
+ * from the quote for its duration_months (with its coupon_code, referrer_phone
+ * and sibling_phone) and checks any override. studentId is set on renewal.
+ * Returns { error } or { body, feeQuote } where feeQuote is what
+ * recordFeeQuote stores and feeQuote.promotions what recordPromotions does.
+ */
+const applyFeeQuote = async (db, req, body, studentId = null) => {
+  const reason = body.fee_override_reason ? String(body.fee_override_reason).trim() : '';
+  const overrideError = () => {
+    const error = feeOverrideError(req, reason);
+    return error ? { error } : null;
+  };
+
+  if (body.duration_months === undefined || body.duration_months === null || body.duration_months === '') {
+    // No duration means the fee was typed in by hand.
+    const error = overrideError();
+    if (error) return error;
+    return { body, feeQuote: { fee_override_reason: reason } };
+  }
+
+  const months = parseInt(body.duration_months, 10);
+  if (isNaN(months) || months <= 0) {
+    return { error: 'Duration must be a positive number of months' };
+  }
+  if (!body.membership_start || !/^\d{4}-\d{2}-\d{2}$/.test(body.membership_start)) {
+    return { error: 'Membership start must be a date (YYYY-MM-DD)' };
+  }
+
+  const quote = await quoteFee(db, {
+    branchId: parseInt(body.branch_id, 10) || null,
+    shiftIds: Array.isArray(body.shift_ids) ? body.shift_ids.map(id => parseInt(id, 10)) : [],
+    months,
+    startDate: body.membership_start,
+    withLocker: Boolean(body.locker_id),
+    studentId,
+    couponCode: body.coupon_code,
+    referrerPhone: body.referrer_phone,
+    siblingPhone: body.sibling_phone,
+  });
+  if (quote.promotion_error) {
+    return { error: quote.promotion_error };
+  }
+
+  const priced = {
+    ...body,
+    total_fee: body.total_fee !== undefined && body.total_fee !== null && body.total_fee !== '' ? body.total_fee : quote.total_fee,
+    discount: body.discount !== undefined && body.discount !== null && body.discount !== '' ? body.discount : quote.discount,
+    membership_end: body.membership_end || quote.membership_end,
+  };
+  const overridden =
+    Math.abs(parseFloat(priced.total_fee) - quote.total_fee) > 0.005 ||
+    Math.abs(parseFloat(priced.discount) - quote.discount) > 0.005 ||
+    priced.membership_end !== quote.membership_end;
+  if (overridden) {
+    const error = overrideError();
+    if (error) return error;
+  }
+
+  return {
+    body: priced,
+    feeQuote: {
+      fee_plan_id: quote.fee_plan_id,
+      fee_offer_id: quote.fee_offer_id,
+      duration_months: months,
+      quoted_fee: quote.total_fee,
+      quoted_discount: quote.discount,
+      fee_override_reason: overridden ? reason : '',
+      promotions: quote.promotions,
+    },
+  };
+};
+
+// Stores how the fee of a membership period was worked out on its history row.
+const recordFeeQuote = async (db, historyId, feeQuote) => {
+  await db.query(
+    `UPDATE student_membership_history
+     SET fee_plan_id = $1, fee_offer_id = $2, duration_months = $3,
+         quoted_fee = $4, quoted_discount = $5, fee_override_reason = $6
+     WHERE id = $7`,
+    [
+      feeQuote.fee_plan_id || null, feeQuote.fee_offer_id || null, feeQuote.duration_months || null,
+      feeQuote.quoted_fee !== undefined ? feeQuote.quoted_fee : null,
+      feeQuote.quoted_discount !== undefined ? feeQuote.quoted_discount : null,
+      feeQuote.fee_override_reason || null, historyId,
+    ]
+  );
+};
+
+module.exports = {
+  OVERRIDE_PERMISSION,
+  DISCOUNT_TYPES,
+  canOverrideFees,
+  feeOverrideError,
+  quoteFee,
+  applyFeeQuote,
+  recordFeeQuote,
+};
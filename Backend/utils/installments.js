@@ -0,0 +1,171 @@
+// Installment plans. A membership period (student_membership_history row) can
+// have its fee after discount split into fee_installments with due dates.
+// Whatever has been paid on the period is allocated to the installments in due
+// date order, so paid_amount/status follow the ledger: allocateInstallments
+// runs from syncHistoryTotals. An installment with something left to pay after
+// its due date is overdue.
+
+const { notPausedCondition } = require('./pauses');
+const { toWhatsAppNumber } = require('./whatsapp');
+const { enqueueNotification } = require('./notifications');
+const { queueTemplatedMessages } = require('./messageTemplates');
+
+const REMINDER_DAYS_SETTING = 'installment_reminder_days';
+const TEMPLATE_SETTING = 'installment_whatsapp_template';
+const DEFAULT_REMINDER_DAYS = 3;
+const DEFAULT_TEMPLATE = 'installment_reminder';
+// Overdue installments are reminded again after this many days.
+const REPEAT_DAYS = 7;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * SQL condition that is true when the installment aliased `alias` is overdue.
+ */
+const overdueCondition = (alias) => `(${alias}.status <> 'paid' AND ${alias}.due_date < CURRENT_DATE)`;
+
+/**
+ * Validates an installment list from a request body against the fee after
+ * discount. Returns { error } or { installments } sorted by due date; an
+ * empty list means no schedule.
+ */
+const parseInstallments = (value, netFee) => {
+  if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) {
+    return { installments: [] };
+  }
+  if (!Array.isArray(value)) {
+    return { error: 'Installments must be a list of { due_date, amount }' };
+  }
+  const installments = [];
+  for (const item of value) {
+    const amount = parseFloat(item && item.amount);
+    if (!item || !DATE_PATTERN.test(item.due_date || '')) {
+      return { error: 'Every installment needs a due date (YYYY-MM-DD)' };
+    }
+    if (isNaN(amount) || amount <= 0) {
+      return { error: 'Every installment amount must be greater than zero' };
+    }
+    installments.push({ due_date: item.due_date, amount: Math.round(amount * 100) / 100 });
+  }
+  installments.sort((a, b) => a.due_date.localeCompare(b.due_date));
+  const total = installments.reduce((sum, item) => sum + item.amount, 0);
+  if (Math.abs(total - netFee) > 0.01) {
+    return { error: `Installments add up to ${total.toFixed(2)} but the fee after discount is ${netFee.toFixed(2)}` };
+  }
+  return { installments };
+};
+
+/**
+ * Spreads the amount paid on a history row over its installments, earliest
+ * due first, and updates paid_amount and status.
+ */
+const allocateInstallments = async (db, historyId) => {
+  const history = await db.query('SELECT amount_paid FROM student_membership_history WHERE id = $1', [historyId]);
+  if (history.rows.length === 0) return;
+  let remaining = Math.max(parseFloat(history.rows[0].amount_paid || 0), 0);
+
+  const installments = await db.query(
+    'SELECT id, amount FROM fee_installments WHERE history_id = $1 ORDER BY due_date, installment_no',
+    [historyId]
+  );
+  for (const installment of installments.rows) {
+    const amount = parseFloat(installment.amount);
+    const paid = Math.min(amount, remaining);
+    remaining = Math.max(remaining - paid, 0);
+    const status = paid >= amount - 0.005 ? 'paid' : paid > 0 ? 'partial' : 'pending';
+    await db.query(
+      'UPDATE fee_installments SET paid_amount = $1, status = $2 WHERE id = $3',
+      [Math.round(paid * 100) / 100, status, installment.id]
+    );
+  }
+};
+
+/**
+ * Replaces the installment schedule of a history row and allocates what has
+ * already been paid on it.
+ */
+const saveInstallments = async (db, { historyId, studentId, branchId, installments }) => {
+  await db.query('DELETE FROM fee_installments WHERE history_id = $1', [historyId]);
+  for (const [index, installment] of installments.entries()) {
+    await db.query(
+      `INSERT INTO fee_installments (history_id, student_id, branch_id, installment_no, due_date, amount)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [historyId, studentId, branchId, index + 1, installment.due_date, installment.amount]
+    );
+  }
+  await allocateInstallments(db, historyId);
+};
+
+const readSettings = async (db) => {
+  const result = await db.query(
+    'SELECT key, value FROM settings WHERE key = ANY($1)',
+    [[REMINDER_DAYS_SETTING, TEMPLATE_SETTING]]
+  );
+  const settings = Object.fromEntries(result.rows.map(row => [row.key, row.value]));
+  const days = parseInt(settings[REMINDER_DAYS_SETTING], 10);
+  return {
+    reminderDays: isNaN(days) || days < 0 ? DEFAULT_REMINDER_DAYS : days,
+    template: settings[TEMPLATE_SETTING] || DEFAULT_TEMPLATE,
+  };
+};
+
+/**
+ * Queues WhatsApp reminders about installments due within the reminder
+ * window: once before the due date, once after it is missed and then every
+ * REPEAT_DAYS while it stays unpaid. Returns the number of reminders queued.
+ */
+const queueInstallmentReminders = async (pool) => {
+  const { reminderDays, template } = await readSettings(pool);
+  const due = await pool.query(
+    `SELECT fi.*, s.name, s.phone, TO_CHAR(CURRENT_DATE, 'YYYY-MM-DD') AS today
+     FROM fee_installments fi
+     JOIN students s ON s.id = fi.student_id
+     WHERE fi.status <> 'paid'
+       AND fi.due_date <= CURRENT_DATE + $1::int
+       AND s.is_active AND ${notPausedCondition('s')}
+       AND (fi.last_reminded_on IS NULL
+            OR (fi.due_date < CURRENT_DATE AND fi.last_reminded_on <= fi.due_date)
+            OR fi.last_reminded_on <= CURRENT_DATE - $2::int)`,
+    [reminderDays, REPEAT_DAYS]
+  );
+
+  let queued = 0;
+  for (const installment of due.rows) {
+    const left = (parseFloat(installment.amount) - parseFloat(installment.paid_amount)).toFixed(2);
+    const dueOn = new Date(installment.due_date).toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata' });
+    // A due_reminder template takes over its channel; WhatsApp falls back to the setting's template
+    const templated = await queueTemplatedMessages(pool, {
+      event: 'due_reminder',
+      kind: 'installment_reminder',
+      studentId: installment.student_id,
+      key: `${installment.id}:${installment.today}`,
+      extra: { due_amount: left, due_date: dueOn },
+    });
+    queued += templated.queued;
+    if (installment.phone && !templated.channels.includes('whatsapp')) {
+      const message = await enqueueNotification(pool, {
+        channel: 'whatsapp',
+        recipient: toWhatsAppNumber(installment.phone),
+        template,
+        payload: { parameters: [installment.name, left, dueOn] },
+        kind: 'installment_reminder',
+        idempotencyKey: `installment_reminder:${installment.id}:${installment.today}`,
+        studentId: installment.student_id,
+        branchId: installment.branch_id,
+      });
+      if (message) queued += 1;
+    }
+    await pool.query('UPDATE fee_installments SET last_reminded_on = CURRENT_DATE WHERE id = $1', [installment.id]);
+  }
+  return queued;
+};
+
+module.exports = {
+  REMINDER_DAYS_SETTING,
+  TEMPLATE_SETTING,
+  overdueCondition,
+  parseInstallments,
+  allocateInstallments,
+  saveInstallments,
+  queueInstallmentReminders,
+};
@@ -0,0 +1,138 @@
+// Payment ledger on top of student_transactions. Every rupee received is one
+// row; the cash/online/amount_paid/due_amount/security_money figures on
+// student_membership_history (and, for the current period, on students) are
+// recomputed from these rows and never edited directly.
+// All helpers expect a client that is inside a transaction.
+
+const { allocateInstallments } = require('./installments');
+
+const PAYMENT_METHODS = ['cash', 'online'];
+
+// Entry types that move security money rather than fee money.
+const SECURITY_TYPES = ['security_deposit', 'security_reversal', 'security_refund'];
+
+// Compensating entry type used when an entry of the given type is reversed.
+const REVERSAL_TYPES = {
+  payment: 'reversal',
+  adjustment: 'reversal',
+  security_deposit: 'security_reversal',
+};
+
+// Entry types that make up the fee money collected. Reversals and refunds are
+// stored as negative amounts, so summing these gives the net collection.
+const COLLECTION_TYPES = ['payment', 'adjustment', 'reversal', 'refund'];
+
+const recordLedgerEntry = async (client, {
+  studentId, historyId = null, amount, method, type = 'payment',
+  date = null, collectedBy = null, reference = null, note = null,
+  reversalOf = null, reason = null,
+}) => {
+  const result = await client.query(
+    `INSERT INTO student_transactions (
+      student_id, history_id, amount, date, type, method, collected_by, reference, note, reversal_of, reason, created_at
+    ) VALUES ($1, $2, $3, COALESCE($4::date, CURRENT_DATE), $5, $6, $7, $8, $9, $10, $11, NOW())
+    RETURNING *`,
+    [studentId, historyId, amount, date, type, method, collectedBy, reference || null, note || null, reversalOf, reason || null]
+  );
+  return result.rows[0];
+};
+
+/**
+ * Records the cash, online and security money taken at admission or renewal
+ * as separate ledger entries. Zero amounts are skipped.
+ */
+const recordInitialPayments = async (client, { studentId, historyId, cash, online, securityMoney, collectedBy, note }) => {
+  const entries = [
+    { amount: parseFloat(cash) || 0, method: 'cash', type: 'payment' },
+    { amount: parseFloat(online) || 0, method: 'online', type: 'payment' },
+    { amount: parseFloat(securityMoney) || 0, method: 'cash', type: 'security_deposit' },
+  ];
+  for (const entry of entries) {
+    if (entry.amount !== 0) {
+      await recordLedgerEntry(client, { studentId, historyId, collectedBy, note, ...entry });
+    }
+  }
+};
+
+/**
+ * Recomputes the paid/due figures of a history row from its ledger entries.
+ * When the row is the student's current period the same figures are copied
+ * onto the students row, and the paid amount is spread over the period's
+ * installments. Returns the updated history row.
+ */
+const syncHistoryTotals = async (client, historyId) => {
+  const sums = await client.query(
+    `SELECT
+       COALESCE(SUM(amount) FILTER (WHERE method = 'cash' AND type <> ALL($2)), 0) AS cash,
+       COALESCE(SUM(amount) FILTER (WHERE method = 'online' AND type <> ALL($2)), 0) AS online,
+       COALESCE(SUM(amount) FILTER (WHERE type = ANY($2)), 0) AS security_money
+     FROM student_transactions
+     WHERE history_id = $1`,
+    [historyId, SECURITY_TYPES]
+  );
+  const cash = parseFloat(sums.rows[0].cash);
+  const online = parseFloat(sums.rows[0].online);
+  const securityMoney = parseFloat(sums.rows[0].security_money);
+
+  const historyRes = await client.query(
+    `UPDATE student_membership_history
+     SET cash = $1, online = $2, amount_paid = $3,
+         due_amount = COALESCE(total_fee, 0) - COALESCE(discount, 0) - $3,
+         security_money = $4
+     WHERE id = $5
+     RETURNING *`,
+    [cash, online, cash + online, securityMoney, historyId]
+  );
+  const history = historyRes.rows[0];
+  if (!history) {
+    throw new Error(`History record ${historyId} not found`);
+  }
+
+  await client.query(
+    `UPDATE students
+     SET cash = $1, online = $2, amount_paid = $3, due_amount = $4, security_money = $5
+     WHERE id = $6
+       AND $7 = (SELECT MAX(id) FROM student_membership_history WHERE student_id = $6)`,
+    [history.cash, history.online, history.amount_paid, history.due_amount, history.security_money, history.student_id, history.id]
+  );
+  await allocateInstallments(client, history.id);
+
+  return history;
+};
+
+/**
+ * Brings the ledger of a history row in line with figures typed into the edit
+ * form by recording the difference as adjustment entries.
+ */
+const adjustToTotals = async (client, { historyId, cash, online, securityMoney, collectedBy }) => {
+  const current = await client.query(
+    'SELECT student_id, cash, online, security_money FROM student_membership_history WHERE id = $1',
+    [historyId]
+  );
+  if (current.rows.length === 0) {
+    return;
+  }
+  const row = current.rows[0];
+  const deltas = [
+    { amount: (parseFloat(cash) || 0) - (parseFloat(row.cash) || 0), method: 'cash', type: 'adjustment' },
+    { amount: (parseFloat(online) || 0) - (parseFloat(row.online) || 0), method: 'online', type: 'adjustment' },
+    { amount: (parseFloat(securityMoney) || 0) - (parseFloat(row.security_money) || 0), method: 'cash', type: 'security_deposit' },
+  ];
+  for (const delta of deltas) {
+    if (Math.abs(delta.amount) >= 0.005) {
+      await recordLedgerEntry(client, {
+        studentId: row.student_id, historyId, collectedBy, note: 'Edited from student form', ...delta,
+      });
+    }
+  }
+};
+
+module.exports = {
+  PAYMENT_METHODS,
+  REVERSAL_TYPES,
+  COLLECTION_TYPES,
+  recordLedgerEntry,
+  recordInitialPayments,
+  syncHistoryTotals,
+  adjustToTotals,
+};
@@ -0,0 +1,94 @@
+// Progressive login lockout, with separate failure counters per username and
+// per IP address in login_failures, so changing IP does not give more guesses
+// at one account and one IP cannot work through many usernames. Once a
+// counter is past its free attempts, every further failure locks it for
+// BASE_LOCK_MINUTES, doubling each time up to MAX_LOCK_MINUTES; a login is
+// refused while either its username or its IP is locked. A successful login
+// clears the username's counter. The IP's counter is only forgotten after a
+// quiet RESET_HOURS, so logging in to one account does not reset it.
+
+const LIMITS = {
+  username: { freeAttempts: 5 },
+  // Higher, since several people may log in from the same library network.
+  ip: { freeAttempts: 20 },
+};
+const BASE_LOCK_MINUTES = 1;
+const MAX_LOCK_MINUTES = 60;
+const RESET_HOURS = 24;
+
+const normalizeUsername = (username) => String(username || '').trim().toLowerCase();
+
+const counterKeys = (username, ipAddress) => [
+  ['username', normalizeUsername(username)],
+  ['ip', String(ipAddress || '')],
+];
+
+const lockMinutesFor = (scope, failedCount) => {
+  const { freeAttempts } = LIMITS[scope];
+  if (failedCount < freeAttempts) {
+    return 0;
+  }
+  return Math.min(BASE_LOCK_MINUTES * 2 ** (failedCount - freeAttempts), MAX_LOCK_MINUTES);
+};
+
+/**
+ * Returns the number of seconds the username or the IP is still locked for
+ * (whichever is longer), or 0.
+ */
+const getLockoutSeconds = async (pool, username, ipAddress) => {
+  const keys = counterKeys(username, ipAddress);
+  const result = await pool.query(
+    `SELECT MAX(CEIL(EXTRACT(EPOCH FROM (locked_until - NOW())))) AS seconds
+     FROM login_failures
+     WHERE ((scope = $1 AND key = $2) OR (scope = $3 AND key = $4)) AND locked_until > NOW()`,
+    keys.flat()
+  );
+  return result.rows[0].seconds ? parseInt(result.rows[0].seconds, 10) : 0;
+};
+
+/**
+ * Counts a failed login against both the username and the IP, and applies
+ * the next lock period to each counter past its free attempts. Returns the
+ * longest lock in minutes (0 when neither is locked).
+ */
+const recordFailedLogin = async (pool, username, ipAddress) => {
+  let lockMinutes = 0;
+  for (const [scope, key] of counterKeys(username, ipAddress)) {
+    const result = await pool.query(
+      `INSERT INTO login_failures (scope, key, failed_count, last_failed_at)
+       VALUES ($1, $2, 1, NOW())
+       ON CONFLICT (scope, key)
+       DO UPDATE SET
+         failed_count = CASE
+           WHEN login_failures.last_failed_at < NOW() - make_interval(hours => $3::int) THEN 1
+           ELSE login_failures.failed_count + 1
+         END,
+         last_failed_at = NOW()
+       RETURNING failed_count`,
+      [scope, key, RESET_HOURS]
+    );
+    const minutes = lockMinutesFor(scope, result.rows[0].failed_count);
+    if (minutes > 0) {
+      await pool.query(
+        `UPDATE login_failures SET locked_until = NOW() + make_interval(mins => $3::int)
+         WHERE scope = $1 AND key = $2`,
+        [scope, key, minutes]
+      );
+      lockMinutes = Math.max(lockMinutes, minutes);
+    }
+  }
+  return lockMinutes;
+};
+
+const clearFailedLogins = async (pool, username) => {
+  await pool.query(
+    `DELETE FROM login_failures WHERE scope = 'username' AND key = $1`,
+    [normalizeUsername(username)]
+  );
+};
+
+module.exports = {
+  getLockoutSeconds,
+  recordFailedLogin,
+  clearFailedLogins,
+};
@@ -0,0 +1,237 @@
+// In-app message templates. Each event (admission welcome, payment receipt,
+// expiry reminder, ...) can have a template per channel, for every branch or
+// overriding it for one branch. Bodies use {{placeholders}} filled from the
+// student (see studentVariables) plus values particular to the event. Hostel
+// residents get their own values (hostelStudentVariables) and only templates
+// for every branch, since branch templates belong to library branches.
+//
+// An event with no active template for a channel sends nothing on it, except
+// where an older hard-wired reminder still applies (expiry and installment
+// reminders), which then keeps working as before.
+
+const { toWhatsAppNumber } = require('./whatsapp');
+const { CHANNELS } = require('./providers');
+const { enqueueNotification } = require('./notifications');
+
+const EVENTS = [
+  { key: 'admission_welcome', label: 'Admission welcome' },
+  { key: 'payment_receipt', label: 'Payment receipt' },
+  { key: 'expiry_reminder', label: 'Expiry in N days' },
+  { key: 'expired', label: 'Membership expired' },
+  { key: 'due_reminder', label: 'Due reminder' },
+  { key: 'birthday', label: 'Birthday' },
+  { key: 'hostel_stay_ending', label: 'Hostel stay ending' },
+];
+const EVENT_KEYS = EVENTS.map(event => event.key);
+
+const PLACEHOLDERS = [
+  { key: 'name', label: 'Student name' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'email', label: 'Email' },
+  { key: 'registration_number', label: 'Registration number' },
+  { key: 'branch_name', label: 'Branch' },
+  { key: 'seat_number', label: 'Seat number(s)' },
+  { key: 'shift', label: 'Shift(s)' },
+  { key: 'membership_start', label: 'Membership start' },
+  { key: 'membership_end', label: 'Membership end' },
+  { key: 'days_left', label: 'Days until membership end' },
+  { key: 'due_amount', label: 'Amount due' },
+  { key: 'due_date', label: 'Installment due date (due reminder)' },
+  { key: 'amount_paid', label: 'Amount received (payment receipt)' },
+  { key: 'receipt_number', label: 'Receipt number (payment receipt)' },
+  { key: 'room_number', label: 'Room number (hostel)' },
+  { key: 'stay_end', label: 'Stay end (hostel)' },
+];
+const PLACEHOLDER_KEYS = PLACEHOLDERS.map(placeholder => placeholder.key);
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Placeholder names in the order they appear, repeats included.
+const placeholdersIn = (text) => Array.from(String(text || '').matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+
+const unknownPlaceholders = (text) =>
+  [...new Set(placeholdersIn(text).filter(key => !PLACEHOLDER_KEYS.includes(key)))];
+
+// Unknown placeholders are left as typed so a preview shows the mistake.
+const renderTemplate = (text, variables) =>
+  String(text || '').replace(PLACEHOLDER_PATTERN, (match, key) => {
+    if (!PLACEHOLDER_KEYS.includes(key)) return match;
+    const value = variables[key];
+    return value === null || value === undefined ? '' : String(value);
+  });
+
+/**
+ * Placeholder values for a student. `extra` adds or overrides values of the
+ * event, e.g. the receipt number. Returns null when the student does not exist.
+ */
+const studentVariables = async (db, studentId, extra = {}) => {
+  const result = await db.query(
+    `SELECT s.id, s.name, s.phone, s.email, s.registration_number, s.branch_id, b.name AS branch_name,
+            TO_CHAR(s.membership_start, 'DD/MM/YYYY') AS membership_start,
+            TO_CHAR(s.membership_end, 'DD/MM/YYYY') AS membership_end,
+            s.membership_end - CURRENT_DATE AS days_left,
+            COALESCE(s.due_amount, 0) AS due_amount,
+            (SELECT string_agg(DISTINCT seats.seat_number, ', ')
+             FROM seat_assignments sa JOIN seats ON seats.id = sa.seat_id
+             WHERE sa.student_id = s.id) AS seat_number,
+            (SELECT string_agg(DISTINCT sch.title, ', ')
+             FROM seat_assignments sa JOIN schedules sch ON sch.id = sa.shift_id
+             WHERE sa.student_id = s.id) AS shift
+     FROM students s
+     LEFT JOIN branches b ON b.id = s.branch_id
+     WHERE s.id = $1`,
+    [studentId]
+  );
+  if (result.rows.length === 0) return null;
+  const student = result.rows[0];
+  return {
+    ...student,
+    due_amount: parseFloat(student.due_amount).toFixed(2),
+    ...extra,
+  };
+};
+
+/**
+ * Placeholder values for a hostel resident, from their latest stay. Returns
+ * null when the resident does not exist.
+ */
+const hostelStudentVariables = async (db, hostelStudentId, extra = {}) => {
+  const result = await db.query(
+    `SELECT s.id, s.name, s.phone_number AS phone, s.registration_number, b.name AS branch_name,
+            COALESCE(hsh.room_number, s.room_number) AS room_number,
+            TO_CHAR(hsh.stay_end_date, 'DD/MM/YYYY') AS stay_end,
+            hsh.stay_end_date - CURRENT_DATE AS days_left,
+            COALESCE(hsh.due_amount, 0) AS due_amount
+     FROM hostel_students s
+     LEFT JOIN hostel_branches b ON b.id = s.branch_id
+     LEFT JOIN LATERAL (
+       SELECT * FROM hostel_student_history
+       WHERE student_id = s.id
+       ORDER BY stay_end_date DESC, created_at DESC
+       LIMIT 1
+     ) hsh ON TRUE
+     WHERE s.id = $1`,
+    [hostelStudentId]
+  );
+  if (result.rows.length === 0) return null;
+  const resident = result.rows[0];
+  return {
+    ...resident,
+    branch_id: null,
+    due_amount: parseFloat(resident.due_amount).toFixed(2),
+    ...extra,
+  };
+};
+
+/**
+ * The active template for an event and channel: the branch's own if it has
+ * one, otherwise the one for every branch. Returns null when there is none.
+ */
+const findTemplate = async (db, event, channel, branchId) => {
+  const result = await db.query(
+    `SELECT * FROM message_templates
+     WHERE event = $1 AND channel = $2 AND is_active AND (branch_id = $3 OR branch_id IS NULL)
+     ORDER BY branch_id NULLS LAST
+     LIMIT 1`,
+    [event, channel, branchId || null]
+  );
+  return result.rows[0] || null;
+};
+
+const recipientFor = (channel, variables) => {
+  if (channel === 'email') return variables.email || null;
+  return variables.phone ? toWhatsAppNumber(variables.phone) : null;
+};
+
+/**
+ * Renders a template for the given values into what the outbox stores:
+ * { template, payload }. With a provider template the body placeholders become
+ * its parameters in order; without one the rendered text is sent as is.
+ */
+const renderMessage = (template, variables) => {
+  const subject = renderTemplate(template.subject, variables);
+  const text = renderTemplate(template.body, variables);
+  if (template.provider_template) {
+    return {
+      template: template.provider_template,
+      payload: {
+        subject,
+        text,
+        parameters: placeholdersIn(template.body).map(key => renderTemplate(`{{${key}}}`, variables)),
+        params: Object.fromEntries(PLACEHOLDER_KEYS.map(key => [key, renderTemplate(`{{${key}}}`, variables)])),
+      },
+    };
+  }
+  return { template: template.event, payload: { subject, text, text_only: true } };
+};
+
+/**
+ * Queues the event's message to a student (or, with hostelStudentId, a hostel
+ * resident) on every channel, of `channels`, that has an active template and
+ * a recipient. Keys are `${kind}:${channel}:${key}`, so the same event is never
+ * queued twice. Returns { channels, queued }: the channels that had a
+ * template, so a caller can fall back to an older reminder on the others, and
+ * how many messages were newly queued.
+ */
+const queueTemplatedMessages = async (db, {
+  event, studentId = null, hostelStudentId = null, extra = {}, key, kind = event, channels = CHANNELS, createdBy = null,
+}) => {
+  const outcome = { channels: [], queued: 0 };
+  const variables = hostelStudentId
+    ? await hostelStudentVariables(db, hostelStudentId, extra)
+    : await studentVariables(db, studentId, extra);
+  if (!variables) return outcome;
+  for (const channel of channels) {
+    const template = await findTemplate(db, event, channel, variables.branch_id);
+    if (!template) continue;
+    outcome.channels.push(channel);
+    const recipient = recipientFor(channel, variables);
+    if (!recipient) continue;
+    const message = await enqueueNotification(db, {
+      ...renderMessage(template, variables),
+      channel,
+      recipient,
+      kind,
+      idempotencyKey: `${kind}:${channel}:${key}`,
+      studentId,
+      branchId: variables.branch_id,
+      createdBy,
+    });
+    if (message) outcome.queued += 1;
+  }
+  return outcome;
+};
+
+// Daily: birthday wishes to active students, once a year.
+const queueBirthdayMessages = async (pool) => {
+  const birthdays = await pool.query(
+    `SELECT id, EXTRACT(YEAR FROM CURRENT_DATE)::int AS year
+     FROM students
+     WHERE is_active AND date_of_birth IS NOT NULL
+       AND EXTRACT(MONTH FROM date_of_birth) = EXTRACT(MONTH FROM CURRENT_DATE)
+       AND EXTRACT(DAY FROM date_of_birth) = EXTRACT(DAY FROM CURRENT_DATE)`
+  );
+  let queued = 0;
+  for (const student of birthdays.rows) {
+    const outcome = await queueTemplatedMessages(pool, {
+      event: 'birthday', studentId: student.id, key: `${student.id}:${student.year}`,
+    });
+    queued += outcome.queued;
+  }
+  return queued;
+};
+
+module.exports = {
+  EVENTS,
+  EVENT_KEYS,
+  PLACEHOLDERS,
+  placeholdersIn,
+  unknownPlaceholders,
+  renderTemplate,
+  studentVariables,
+  hostelStudentVariables,
+  recipientFor,
+  renderMessage,
+  queueTemplatedMessages,
+  queueBirthdayMessages,
+};
@@ -0,0 +1,158 @@
+// Notification outbox. Reminders are not sent inline: they are queued in
+// notification_outbox and delivered by processOutbox, which the cron worker
+// runs every minute. A failed delivery is retried with exponential backoff
+// until max_attempts, then marked failed for someone to resend from the
+// Messages page. Each message has an idempotency key (e.g. the student and
+// membership end of an expiry reminder), so queueing it again is a no-op.
+// Delivery goes through the provider chosen for the channel in Settings.
+
+const { CHANNELS, getProviders, sendWithProvider } = require('./providers');
+
+const STATUSES = ['pending', 'sending', 'sent', 'failed'];
+// First retry after a minute, doubling up to six hours.
+const BASE_BACKOFF_SECONDS = 60;
+const MAX_BACKOFF_SECONDS = 6 * 60 * 60;
+// A message left in 'sending' this long (worker crashed mid-send) is retried.
+const STALE_LOCK_MINUTES = 10;
+const BATCH_SIZE = 50;
+
+const backoffSeconds = (attempts) =>
+  Math.min(BASE_BACKOFF_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_SECONDS);
+
+/**
+ * Queues a message. payload is { parameters: [...] } for WhatsApp templates
+ * and { params: {...} } for email templates, optionally with the rendered
+ * { subject, text } for providers without templates; text_only sends that
+ * text everywhere. delaySeconds holds the first attempt back, e.g. to spread a
+ * campaign out. Returns the new row, or null when a message with the same
+ * idempotency key was already queued.
+ */
+const enqueueNotification = async (db, {
+  channel, recipient, template, payload = {}, kind, idempotencyKey,
+  studentId = null, branchId = null, resendOf = null, createdBy = null, delaySeconds = 0,
+}) => {
+  if (!CHANNELS.includes(channel)) {
+    throw new Error(`Unknown notification channel ${channel}`);
+  }
+  const result = await db.query(
+    `INSERT INTO notification_outbox
+       (channel, recipient, template, payload, kind, idempotency_key, student_id, branch_id, resend_of, created_by,
+        next_attempt_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW() + make_interval(secs => $11))
+     ON CONFLICT (idempotency_key) DO NOTHING
+     RETURNING *`,
+    [
+      channel, recipient, template, JSON.stringify(payload), kind, idempotencyKey, studentId, branchId, resendOf, createdBy,
+      delaySeconds,
+    ]
+  );
+  return result.rows[0] || null;
+};
+
+// Sends one outbox row and returns the provider's message id.
+const deliver = (provider, message) => {
+  if (!provider) {
+    throw new Error(`No provider for channel ${message.channel}`);
+  }
+  const payload = message.payload || {};
+  return sendWithProvider(provider, {
+    id: message.id,
+    channel: message.channel,
+    to: message.recipient,
+    template: message.template,
+    parameters: payload.parameters,
+    params: payload.params,
+    subject: payload.subject,
+    text: payload.text,
+    textOnly: Boolean(payload.text_only),
+  });
+};
+
+/**
+ * Delivers the messages that are due, at most BATCH_SIZE per run. Rows are
+ * claimed with SKIP LOCKED so overlapping runs never send a message twice.
+ * Returns { sent, failed } counts for this run.
+ */
+const processOutbox = async (pool) => {
+  await pool.query(
+    `UPDATE notification_outbox SET status = 'pending', locked_at = NULL
+     WHERE status = 'sending' AND locked_at < NOW() - make_interval(mins => $1)`,
+    [STALE_LOCK_MINUTES]
+  );
+  const claimed = await pool.query(
+    `UPDATE notification_outbox SET status = 'sending', locked_at = NOW()
+     WHERE id IN (
+       SELECT id FROM notification_outbox
+       WHERE status = 'pending' AND next_attempt_at <= NOW()
+       ORDER BY next_attempt_at, id
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [BATCH_SIZE]
+  );
+
+  const counts = { sent: 0, failed: 0 };
+  if (claimed.rows.length === 0) return counts;
+  const providers = await getProviders(pool);
+  for (const message of claimed.rows) {
+    const attempts = message.attempts + 1;
+    const provider = providers[message.channel];
+    try {
+      const providerMessageId = await deliver(provider, message);
+      await pool.query(
+        `UPDATE notification_outbox
+         SET status = 'sent', attempts = $1, provider = $2, provider_message_id = $3, last_error = NULL,
+             sent_at = NOW(), locked_at = NULL
+         WHERE id = $4`,
+        [attempts, provider.name, providerMessageId, message.id]
+      );
+      counts.sent += 1;
+    } catch (err) {
+      const giveUp = attempts >= message.max_attempts;
+      await pool.query(
+        `UPDATE notification_outbox
+         SET status = $1, attempts = $2, provider = $3, last_error = $4, locked_at = NULL,
+             next_attempt_at = NOW() + make_interval(secs => $5)
+         WHERE id = $6`,
+        [
+          giveUp ? 'failed' : 'pending', attempts, provider ? provider.name : null,
+          String(err.message || err).slice(0, 1000), backoffSeconds(attempts), message.id,
+        ]
+      );
+      if (giveUp) counts.failed += 1;
+    }
+  }
+  return counts;
+};
+
+/**
+ * Queues a copy of a message to be sent again now, linked to the original by
+ * resend_of. Returns the new row or null when the message does not exist.
+ */
+const resendNotification = async (db, id, userId) => {
+  const original = await db.query('SELECT * FROM notification_outbox WHERE id = $1', [id]);
+  if (original.rows.length === 0) return null;
+  const message = original.rows[0];
+  return enqueueNotification(db, {
+    channel: message.channel,
+    recipient: message.recipient,
+    template: message.template,
+    payload: message.payload,
+    kind: message.kind,
+    idempotencyKey: `resend:${message.id}:${Date.now()}`,
+    studentId: message.student_id,
+    branchId: message.branch_id,
+    resendOf: message.id,
+    createdBy: userId,
+  });
+};
+
+module.exports = {
+  CHANNELS,
+  STATUSES,
+  BATCH_SIZE,
+  enqueueNotification,
+  processOutbox,
+  resendNotification,
+};
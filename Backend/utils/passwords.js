@@ -0,0 +1,48 @@
+// Password hashing helpers. Rows created before hashing was introduced still
+// hold the plaintext password; verifyPassword accepts those and reports that
+// the row should be upgraded to a hash.
+
+const bcrypt = require('bcrypt');
+
+const BCRYPT_ROUNDS = 10;
+const MIN_PASSWORD_LENGTH = 8;
+
+const isPasswordHash = (stored) => typeof stored === 'string' && /^\$2[aby]\$\d{2}\$/.test(stored);
+
+const hashPassword = (password) => bcrypt.hash(password, BCRYPT_ROUNDS);
+
+/**
+ * Checks a password against the stored value.
+ * Returns { valid, needsUpgrade } where needsUpgrade is true for a correct
+ * password that is still stored in plaintext.
+ */
+const verifyPassword = async (password, stored) => {
+  if (!password || !stored) {
+    return { valid: false, needsUpgrade: false };
+  }
+  if (isPasswordHash(stored)) {
+    return { valid: await bcrypt.compare(password, stored), needsUpgrade: false };
+  }
+  const valid = password === stored;
+  return { valid, needsUpgrade: valid };
+};
+
+/**
+ * Returns an error message when the new password is not acceptable, otherwise null.
+ */
+const validateNewPassword = (password) => {
+  if (!password || typeof password !== 'string') {
+    return 'New password is required';
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `New password must be at least ${MIN_PASSWORD_LENGTH} characters long`;
+  }
+  return null;
+};
+
+module.exports = {
+  isPasswordHash,
+  hashPassword,
+  verifyPassword,
+  validateNewPassword,
+};
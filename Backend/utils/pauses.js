@@ -0,0 +1,27 @@
+// Membership pauses. A student on a pause has a membership_pauses row with
+// resumed_on NULL. While paused the seat is either held (assignments stay) or
+// released (assignments are removed and kept on the pause row so they can be
+// restored). Resuming pushes membership_end out by the days paused.
+
+const SEAT_POLICY_SETTING = 'pause_seat_policy';
+const SEAT_POLICIES = ['hold', 'release'];
+const DEFAULT_SEAT_POLICY = 'hold';
+
+/**
+ * SQL condition that is true when the student aliased `alias` is not on a pause.
+ */
+const notPausedCondition = (alias) =>
+  `NOT EXISTS (SELECT 1 FROM membership_pauses mp WHERE mp.student_id = ${alias}.id AND mp.resumed_on IS NULL)`;
+
+const readSeatPolicy = async (db) => {
+  const result = await db.query('SELECT value FROM settings WHERE key = $1', [SEAT_POLICY_SETTING]);
+  const value = result.rows.length > 0 ? result.rows[0].value : null;
+  return SEAT_POLICIES.includes(value) ? value : DEFAULT_SEAT_POLICY;
+};
+
+module.exports = {
+  SEAT_POLICY_SETTING,
+  SEAT_POLICIES,
+  notPausedCondition,
+  readSeatPolicy,
+};
@@ -0,0 +1,202 @@
+// Promotions on top of the fee quote. A coupon code takes a percentage or flat
+// amount off, within its validity dates, branch and usage limit. A new
+// student can name the student who referred them (by phone): the referrer
+// earns a credit that is taken off their next renewal. A student whose sibling
+// already studies here (also by phone) gets the sibling discount percentage.
+// Each is applied to what is left after the fee offer and the ones before it.
+
+const REFERRAL_CREDIT_SETTING = 'referral_credit_amount';
+const SIBLING_DISCOUNT_SETTING = 'sibling_discount_percent';
+
+const round = (value) => Math.round(value * 100) / 100;
+
+// Last ten digits of a phone number, so +91/0 prefixes and spaces still match.
+const phoneKey = (phone) => String(phone || '').replace(/\D/g, '').slice(-10);
+
+const findStudentByPhone = async (db, phone) => {
+  const key = phoneKey(phone);
+  if (key.length < 10) return null;
+  const result = await db.query(
+    `SELECT id, name, membership_end FROM students
+     WHERE RIGHT(regexp_replace(phone, '\\D', '', 'g'), 10) = $1
+     ORDER BY membership_end DESC NULLS LAST, id DESC
+     LIMIT 1`,
+    [key]
+  );
+  return result.rows[0] || null;
+};
+
+const readSettings = async (db) => {
+  const result = await db.query(
+    'SELECT key, value FROM settings WHERE key = ANY($1)',
+    [[REFERRAL_CREDIT_SETTING, SIBLING_DISCOUNT_SETTING]]
+  );
+  const settings = Object.fromEntries(result.rows.map(row => [row.key, row.value]));
+  const credit = parseFloat(settings[REFERRAL_CREDIT_SETTING]);
+  const sibling = parseFloat(settings[SIBLING_DISCOUNT_SETTING]);
+  return {
+    referralCredit: isNaN(credit) || credit < 0 ? 0 : credit,
+    siblingPercent: isNaN(sibling) || sibling < 0 ? 0 : Math.min(sibling, 100),
+  };
+};
+
+/**
+ * Works out the promotions for a membership priced at `amount` (after the fee
+ * offer). studentId is the renewing student, null on admission. Returns
+ * { error } for a code or phone that cannot be used, otherwise the discounts:
+ * { coupon_id, coupon_code, coupon_discount, referrer_id, referrer_name,
+ *   referral_credit_ids, referral_discount, sibling_student_id, sibling_name,
+ *   sibling_discount, total }.
+ */
+const evaluatePromotions = async (db, { branchId, studentId, couponCode, referrerPhone, siblingPhone, amount }) => {
+  const promotions = {
+    coupon_id: null, coupon_code: null, coupon_discount: 0,
+    referrer_id: null, referrer_name: null,
+    referral_credit_ids: [], referral_discount: 0,
+    sibling_student_id: null, sibling_name: null, sibling_discount: 0,
+    total: 0,
+  };
+  let remaining = Math.max(amount, 0);
+  const code = couponCode ? String(couponCode).trim() : '';
+
+  if (code) {
+    // Inside the admission/renewal transaction the row lock holds off other
+    // redemptions of the coupon until this one is recorded, so the usage
+    // count below cannot go stale.
+    const couponResult = await db.query('SELECT * FROM coupons WHERE UPPER(code) = UPPER($1) FOR UPDATE', [code]);
+    const coupon = couponResult.rows[0];
+    if (!coupon || !coupon.is_active) {
+      return { error: `Coupon ${code} does not exist` };
+    }
+    if (coupon.branch_id && coupon.branch_id !== branchId) {
+      return { error: `Coupon ${coupon.code} is not valid in this branch` };
+    }
+    const validity = await db.query(
+      'SELECT CURRENT_DATE BETWEEN $1::date AND $2::date AS valid',
+      [coupon.valid_from, coupon.valid_to]
+    );
+    if (!validity.rows[0].valid) {
+      return { error: `Coupon ${coupon.code} is not valid today` };
+    }
+    const usage = await db.query('SELECT COUNT(*)::int AS times_used FROM coupon_redemptions WHERE coupon_id = $1', [coupon.id]);
+    if (coupon.max_uses !== null && usage.rows[0].times_used >= coupon.max_uses) {
+      return { error: `Coupon ${coupon.code} has been used the maximum number of times` };
+    }
+    if (studentId) {
+      const used = await db.query(
+        'SELECT 1 FROM coupon_redemptions WHERE coupon_id = $1 AND student_id = $2',
+        [coupon.id, studentId]
+      );
+      if (used.rows.length > 0) {
+        return { error: `Coupon ${coupon.code} has already been used by this student` };
+      }
+    }
+    const value = parseFloat(coupon.discount_value);
+    const discount = round(Math.min(coupon.discount_type === 'flat' ? value : (remaining * value) / 100, remaining));
+    promotions.coupon_id = coupon.id;
+    promotions.coupon_code = coupon.code;
+    promotions.coupon_discount = discount;
+    remaining -= discount;
+  }
+
+  const settings = await readSettings(db);
+
+  if (siblingPhone) {
+    const sibling = await findStudentByPhone(db, siblingPhone);
+    if (!sibling || (studentId && sibling.id === studentId)) {
+      return { error: 'No other student found with the sibling phone number' };
+    }
+    promotions.sibling_student_id = sibling.id;
+    promotions.sibling_name = sibling.name;
+    promotions.sibling_discount = round((remaining * settings.siblingPercent) / 100);
+    remaining -= promotions.sibling_discount;
+  }
+
+  if (referrerPhone) {
+    if (studentId) {
+      return { error: 'A referrer can only be recorded on admission' };
+    }
+    const referrer = await findStudentByPhone(db, referrerPhone);
+    if (!referrer) {
+      return { error: 'No student found with the referrer phone number' };
+    }
+    promotions.referrer_id = referrer.id;
+    promotions.referrer_name = referrer.name;
+  }
+
+  if (studentId) {
+    // Whole credits, oldest first, as far as they fit in what is left to pay.
+    // Locked so a concurrent renewal cannot spend the same credits.
+    const credits = await db.query(
+      `SELECT id, amount FROM referral_credits WHERE referrer_id = $1 AND status = 'available'
+       ORDER BY created_at, id FOR UPDATE`,
+      [studentId]
+    );
+    for (const credit of credits.rows) {
+      const value = parseFloat(credit.amount);
+      if (value > remaining + 0.005) break;
+      promotions.referral_credit_ids.push(credit.id);
+      promotions.referral_discount = round(promotions.referral_discount + value);
+      remaining -= value;
+    }
+  }
+
+  promotions.total = round(promotions.coupon_discount + promotions.sibling_discount + promotions.referral_discount);
+  return promotions;
+};
+
+/**
+ * Records the promotions of a membership period: the coupon redemption, the
+ * referral credits spent, the referral link and the referrer's new credit.
+ * Throws when a credit was spent elsewhere in the meantime, so the caller's
+ * transaction rolls back instead of giving the discount twice.
+ */
+const recordPromotions = async (db, { historyId, studentId, promotions }) => {
+  if (!promotions) return;
+  await db.query(
+    `UPDATE student_membership_history
+     SET coupon_id = $1, coupon_discount = $2, referral_discount = $3, sibling_student_id = $4, sibling_discount = $5
+     WHERE id = $6`,
+    [
+      promotions.coupon_id, promotions.coupon_discount || null, promotions.referral_discount || null,
+      promotions.sibling_student_id, promotions.sibling_discount || null, historyId,
+    ]
+  );
+  if (promotions.coupon_id) {
+    await db.query(
+      'INSERT INTO coupon_redemptions (coupon_id, student_id, history_id, discount) VALUES ($1, $2, $3, $4)',
+      [promotions.coupon_id, studentId, historyId, promotions.coupon_discount]
+    );
+  }
+  if (promotions.referral_credit_ids.length > 0) {
+    const spent = await db.query(
+      `UPDATE referral_credits SET status = 'used', used_history_id = $1, used_at = NOW()
+       WHERE id = ANY($2::int[]) AND status = 'available'`,
+      [historyId, promotions.referral_credit_ids]
+    );
+    if (spent.rowCount !== promotions.referral_credit_ids.length) {
+      throw new Error('Referral credits were already used by another renewal; please try again');
+    }
+  }
+  if (promotions.referrer_id) {
+    await db.query(
+      'UPDATE students SET referred_by = $1 WHERE id = $2 AND referred_by IS NULL',
+      [promotions.referrer_id, studentId]
+    );
+    const { referralCredit } = await readSettings(db);
+    if (referralCredit > 0) {
+      await db.query(
+        `INSERT INTO referral_credits (referrer_id, referred_student_id, amount, earned_history_id)
+         VALUES ($1, $2, $3, $4)`,
+        [promotions.referrer_id, studentId, referralCredit, historyId]
+      );
+    }
+  }
+};
+
+module.exports = {
+  REFERRAL_CREDIT_SETTING,
+  SIBLING_DISCOUNT_SETTING,
+  evaluatePromotions,
+  recordPromotions,
+};
@@ -0,0 +1,48 @@
+// Brevo (Sendinblue) for email and SMS. A numeric template is a Brevo email
+// template filled with the message params; anything else, and every text-only
+// message, is sent as the rendered subject and text. SMS always sends the text.
+
+const SibApiV3Sdk = require('@sendinblue/client');
+const { sendTemplateEmail } = require('../email');
+
+const sendTextEmail = async (message) => {
+  const apiInstance = new SibApiV3Sdk.TransactionalEmailsApi();
+  apiInstance.setApiKey(SibApiV3Sdk.TransactionalEmailsApiApiKeys.apiKey, process.env.BREVO_API_KEY);
+
+  const email = new SibApiV3Sdk.SendSmtpEmail();
+  email.sender = { email: process.env.BREVO_SENDER_EMAIL, name: process.env.BREVO_SENDER_NAME || 'Library' };
+  email.to = [{ email: message.to }];
+  email.subject = message.subject;
+  email.textContent = message.text;
+
+  const response = await apiInstance.sendTransacEmail(email);
+  return response && response.body ? response.body.messageId : null;
+};
+
+const sendSms = async (message) => {
+  const apiInstance = new SibApiV3Sdk.TransactionalSMSApi();
+  apiInstance.setApiKey(SibApiV3Sdk.TransactionalSMSApiApiKeys.apiKey, process.env.BREVO_API_KEY);
+
+  const sms = new SibApiV3Sdk.SendTransacSms();
+  sms.sender = process.env.BREVO_SMS_SENDER || 'LIBRARY';
+  sms.recipient = String(message.to).replace(/\D/g, '');
+  sms.content = message.text;
+
+  const response = await apiInstance.sendTransacSms(sms);
+  return response && response.body && response.body.messageId !== undefined ? String(response.body.messageId) : null;
+};
+
+module.exports = {
+  name: 'brevo',
+  label: 'Brevo',
+  channels: ['email', 'sms'],
+  send: async (message) => {
+    if (message.channel === 'sms') {
+      return sendSms(message);
+    }
+    if (!message.textOnly && /^\d+$/.test(String(message.template))) {
+      return sendTemplateEmail(message.to, message.template, message.params);
+    }
+    return sendTextEmail(message);
+  },
+};
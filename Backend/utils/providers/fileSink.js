@@ -0,0 +1,20 @@
+// Development stand-in for every channel: each message is written as a JSON
+// file to MESSAGE_SINK_DIR (default Backend/message-sink) instead of being
+// sent, so reminders can be tried out without live accounts.
+
+const fs = require('fs/promises');
+const path = require('path');
+
+const SINK_DIR = process.env.MESSAGE_SINK_DIR || path.join(__dirname, '..', '..', 'message-sink');
+
+module.exports = {
+  name: 'file',
+  label: 'File sink (development)',
+  channels: ['email', 'sms', 'whatsapp'],
+  send: async (message) => {
+    await fs.mkdir(SINK_DIR, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.channel}-${message.id || 'test'}.json`;
+    await fs.writeFile(path.join(SINK_DIR, fileName), JSON.stringify(message, null, 2));
+    return `file:${fileName}`;
+  },
+};
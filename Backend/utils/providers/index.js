@@ -0,0 +1,89 @@
+// Messaging providers. Every provider exports { name, label, channels, send },
+// where send(message) delivers one message and returns the provider's message
+// id. Which provider handles a channel is chosen in Settings (email_provider,
+// sms_provider, whatsapp_provider).
+//
+// message: { id, channel, to, template, parameters, params, subject, text, textOnly }.
+// parameters/params are the template values for providers with remote
+// templates (Meta, Brevo); subject/text are what the others send, and what
+// every provider sends when textOnly is set.
+
+const brevo = require('./brevo');
+const metaWhatsApp = require('./metaWhatsApp');
+const smtp = require('./smtp');
+const fileSink = require('./fileSink');
+
+const CHANNELS = ['whatsapp', 'email', 'sms'];
+
+const PROVIDERS = Object.fromEntries([brevo, metaWhatsApp, smtp, fileSink].map(provider => [provider.name, provider]));
+
+const PROVIDER_SETTINGS = {
+  email: 'email_provider',
+  sms: 'sms_provider',
+  whatsapp: 'whatsapp_provider',
+};
+
+const DEFAULT_PROVIDERS = {
+  email: 'brevo',
+  sms: 'brevo',
+  whatsapp: 'meta_whatsapp',
+};
+
+// Providers the settings page can offer per channel.
+const providerOptions = () =>
+  Object.fromEntries(CHANNELS.map(channel => [
+    channel,
+    Object.values(PROVIDERS)
+      .filter(provider => provider.channels.includes(channel))
+      .map(provider => ({ name: provider.name, label: provider.label })),
+  ]));
+
+const isValidProvider = (channel, name) => Boolean(PROVIDERS[name] && PROVIDERS[name].channels.includes(channel));
+
+/**
+ * The provider chosen for each channel, falling back to the default when the
+ * setting is missing or names a provider that cannot handle the channel.
+ */
+const getProviders = async (db) => {
+  const result = await db.query(
+    'SELECT key, value FROM settings WHERE key = ANY($1)',
+    [Object.values(PROVIDER_SETTINGS)]
+  );
+  const settings = Object.fromEntries(result.rows.map(row => [row.key, row.value]));
+  return Object.fromEntries(CHANNELS.map(channel => {
+    const name = settings[PROVIDER_SETTINGS[channel]];
+    return [channel, PROVIDERS[isValidProvider(channel, name) ? name : DEFAULT_PROVIDERS[channel]]];
+  }));
+};
+
+// Plain text of a message for providers without remote templates.
+const fallbackText = ({ template, parameters, params }) => {
+  const values = parameters && parameters.length > 0
+    ? parameters.map(String)
+    : Object.entries(params || {}).map(([key, value]) => `${key}: ${value}`);
+  return values.length > 0 ? `${template}\n${values.join('\n')}` : String(template);
+};
+
+/**
+ * Sends a message through a provider. Fills in subject and text when the
+ * message has none. Returns the provider's message id.
+ */
+const sendWithProvider = async (provider, message) => {
+  const normalized = {
+    ...message,
+    parameters: message.parameters || [],
+    params: message.params || {},
+    subject: message.subject || String(message.template),
+    text: message.text || fallbackText(message),
+  };
+  return provider.send(normalized);
+};
+
+module.exports = {
+  CHANNELS,
+  PROVIDER_SETTINGS,
+  providerOptions,
+  isValidProvider,
+  getProviders,
+  sendWithProvider,
+};
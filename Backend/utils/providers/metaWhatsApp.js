@@ -0,0 +1,17 @@
+// WhatsApp Cloud API (Meta Graph). Sends approved templates; the message
+// parameters fill the template body placeholders in order. Text-only messages
+// (in-app templates without an approved template) go out as plain text.
+
+const { sendWhatsAppMessage, sendWhatsAppText } = require('../whatsapp');
+
+module.exports = {
+  name: 'meta_whatsapp',
+  label: 'Meta WhatsApp Cloud',
+  channels: ['whatsapp'],
+  send: async (message) => {
+    const response = message.textOnly
+      ? await sendWhatsAppText(message.to, message.text)
+      : await sendWhatsAppMessage(message.to, message.template, message.parameters);
+    return response && response.messages && response.messages[0] ? response.messages[0].id : null;
+  },
+};
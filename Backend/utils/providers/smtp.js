@@ -0,0 +1,37 @@
+// Plain SMTP email through nodemailer, configured with SMTP_HOST, SMTP_PORT,
+// SMTP_SECURE, SMTP_USER, SMTP_PASS and SMTP_FROM. Sends the rendered
+// subject and text; remote (Brevo) templates do not apply here.
+
+const nodemailer = require('nodemailer');
+
+let transporter = null;
+
+const getTransporter = () => {
+  if (!transporter) {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is not set');
+    }
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    });
+  }
+  return transporter;
+};
+
+module.exports = {
+  name: 'smtp',
+  label: 'SMTP server',
+  channels: ['email'],
+  send: async (message) => {
+    const info = await getTransporter().sendMail({
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+    return info.messageId || null;
+  },
+};
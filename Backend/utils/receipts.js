@@ -0,0 +1,172 @@
+const { queueTemplatedMessages } = require('./messageTemplates');
+
+// Receipt numbering is per prefix (the branch code, or SHV for branches
+// without one) and per calendar year, e.g. SHV-2026-000123. Branches sharing a
+// prefix share its counter, so receipt numbers stay unique. Both helpers must
+// be called with a client that is inside a transaction so a rolled back
+// payment never consumes a receipt number.
+
+const nextReceiptNumber = async (client, branchId) => {
+  const year = new Date().getFullYear();
+  let prefix = 'SHV';
+  if (branchId) {
+    const branchRes = await client.query('SELECT code FROM branches WHERE id = $1', [branchId]);
+    if (branchRes.rows.length > 0 && branchRes.rows[0].code && branchRes.rows[0].code.trim()) {
+      prefix = branchRes.rows[0].code.trim().toUpperCase();
+    }
+  }
+
+  // The upsert takes a row lock on the (prefix, year) counter, so concurrent
+  // payments with the same prefix are serialised and the sequence has no gaps.
+  const seqRes = await client.query(
+    `INSERT INTO receipt_sequences (prefix, year, last_number)
+     VALUES ($1, $2, 1)
+     ON CONFLICT (prefix, year) DO UPDATE SET last_number = receipt_sequences.last_number + 1
+     RETURNING last_number`,
+    [prefix, year]
+  );
+  const number = seqRes.rows[0].last_number;
+  return `${prefix}-${year}-${String(number).padStart(6, '0')}`;
+};
+
+/**
+ * Issues a receipt for a payment recorded against a student_membership_history
+ * row. The student, period and seat details are copied onto the receipt so a
+ * reprint always matches the original even if the student is edited later.
+ * Must be called after the payment's ledger entries are recorded.
+ * Returns null when nothing was received.
+ */
+const issueReceipt = async (client, { historyId, cash = 0, online = 0, securityMoney = 0, issuedBy = null }) => {
+  const cashValue = parseFloat(cash) || 0;
+  const onlineValue = parseFloat(online) || 0;
+  const securityMoneyValue = parseFloat(securityMoney) || 0;
+  if (cashValue + onlineValue + securityMoneyValue <= 0) {
+    return null;
+  }
+
+  const historyRes = await client.query(
+    `SELECT smh.*, s.seat_number, sch.title AS shift_title,
+            (SELECT MAX(id) FROM student_membership_history WHERE student_id = smh.student_id) AS latest_history_id
+     FROM student_membership_history smh
+     LEFT JOIN seats s ON smh.seat_id = s.id
+     LEFT JOIN schedules sch ON smh.shift_id = sch.id
+     WHERE smh.id = $1`,
+    [historyId]
+  );
+  if (historyRes.rows.length === 0) {
+    throw new Error(`History record ${historyId} not found for receipt`);
+  }
+  const history = historyRes.rows[0];
+
+  // History rows only keep the first shift. For the current membership the
+  // seat assignments are still in place, so list every shift from there.
+  let shiftTitles = history.shift_title || null;
+  if (history.id === history.latest_history_id) {
+    const shiftsRes = await client.query(
+      `SELECT string_agg(DISTINCT sch.title, ', ') AS titles
+       FROM seat_assignments sa
+       JOIN schedules sch ON sa.shift_id = sch.id
+       WHERE sa.student_id = $1`,
+      [history.student_id]
+    );
+    shiftTitles = shiftsRes.rows[0].titles || shiftTitles;
+  }
+
+  const receiptNumber = await nextReceiptNumber(client, history.branch_id);
+
+  const receiptRes = await client.query(
+    `INSERT INTO receipts (
+      receipt_number, branch_id, student_id, history_id,
+      student_name, phone, registration_number,
+      membership_start, membership_end, shift_titles, seat_number,
+      total_fee, discount, cash, online, amount, security_money, due_amount,
+      issued_by, issued_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, NOW())
+    RETURNING *`,
+    [
+      receiptNumber, history.branch_id, history.student_id, history.id,
+      history.name, history.phone, history.registration_number,
+      history.membership_start, history.membership_end, shiftTitles, history.seat_number,
+      parseFloat(history.total_fee || 0), parseFloat(history.discount || 0),
+      cashValue, onlineValue, cashValue + onlineValue, securityMoneyValue,
+      parseFloat(history.due_amount || 0),
+      issuedBy
+    ]
+  );
+  const receipt = receiptRes.rows[0];
+
+  // Link the ledger entries booked with this payment to the receipt, so that
+  // reversing one of them voids it. NOW() is the transaction's start time,
+  // which recordLedgerEntry also stamps on created_at.
+  await client.query(
+    `UPDATE student_transactions SET receipt_id = $1
+     WHERE history_id = $2 AND receipt_id IS NULL AND created_at = NOW()
+       AND type IN ('payment', 'security_deposit')`,
+    [receipt.id, history.id]
+  );
+
+  // Queued in the same transaction, so a rolled back payment sends nothing
+  await queueTemplatedMessages(client, {
+    event: 'payment_receipt',
+    studentId: receipt.student_id,
+    key: receipt.id,
+    createdBy: issuedBy,
+    extra: {
+      receipt_number: receipt.receipt_number,
+      amount_paid: parseFloat(receipt.amount).toFixed(2),
+      due_amount: parseFloat(receipt.due_amount).toFixed(2),
+    },
+  });
+  return receipt;
+};
+
+/**
+ * Called after one of a receipt's ledger entries is reversed. When all of
+ * them are reversed the receipt is voided. Otherwise it is voided and replaced
+ * by a new receipt for the payments that still stand, which the remaining
+ * entries are moved to. Returns the replacement receipt, or null.
+ */
+const voidReversedReceipt = async (client, receiptId, { reason, issuedBy = null }) => {
+  const receiptRes = await client.query('SELECT * FROM receipts WHERE id = $1 FOR UPDATE', [receiptId]);
+  const receipt = receiptRes.rows[0];
+  if (!receipt || receipt.voided_at) {
+    return null;
+  }
+
+  const remainingRes = await client.query(
+    `SELECT
+       COALESCE(SUM(amount) FILTER (WHERE type = 'payment' AND method = 'cash'), 0) AS cash,
+       COALESCE(SUM(amount) FILTER (WHERE type = 'payment' AND method = 'online'), 0) AS online,
+       COALESCE(SUM(amount) FILTER (WHERE type = 'security_deposit'), 0) AS security_money
+     FROM student_transactions e
+     WHERE e.receipt_id = $1
+       AND NOT EXISTS (SELECT 1 FROM student_transactions r WHERE r.reversal_of = e.id)`,
+    [receiptId]
+  );
+  const remaining = remainingRes.rows[0];
+  const replacement = receipt.history_id
+    ? await issueReceipt(client, {
+      historyId: receipt.history_id,
+      cash: remaining.cash,
+      online: remaining.online,
+      securityMoney: remaining.security_money,
+      issuedBy,
+    })
+    : null;
+
+  if (replacement) {
+    await client.query(
+      `UPDATE student_transactions e SET receipt_id = $2
+       WHERE e.receipt_id = $1
+         AND NOT EXISTS (SELECT 1 FROM student_transactions r WHERE r.reversal_of = e.id)`,
+      [receiptId, replacement.id]
+    );
+  }
+  await client.query(
+    'UPDATE receipts SET voided_at = NOW(), void_reason = $2, replaced_by = $3 WHERE id = $1',
+    [receiptId, reason, replacement ? replacement.id : null]
+  );
+  return replacement;
+};
+
+module.exports = { issueReceipt, voidReversedReceipt };
@@ -0,0 +1,207 @@
+// Reminder rules. Each rule picks who to remind (its trigger and days), which
+// template event to send, on which channels, in which branches and during
+// which hours (Asia/Kolkata). The scheduler runs every rule hourly; a rule
+// fires at most once per student and occurrence (e.g. membership end date),
+// recorded in reminder_rule_runs, so later runs in the window skip them.
+
+const { expirationReminderParams } = require('./email');
+const { toWhatsAppNumber } = require('./whatsapp');
+const { notPausedCondition } = require('./pauses');
+const { enqueueNotification } = require('./notifications');
+const { queueTemplatedMessages } = require('./messageTemplates');
+
+// EXPIRY_TEMPLATE_SETTING: WhatsApp template of expiry reminders without an
+// in-app template. hello_world (Meta's sample) takes no parameters; any other
+// template gets the name and membership end date.
+const EXPIRY_TEMPLATE_SETTING = 'expiry_whatsapp_template';
+const DEFAULT_EXPIRY_TEMPLATE = 'hello_world';
+
+const TRIGGERS = [
+  { key: 'before_expiry', label: 'N days before expiry', usesDays: true },
+  { key: 'expiry_day', label: 'On expiry day', usesDays: false },
+  { key: 'after_expiry', label: 'N days after expiry', usesDays: true },
+  { key: 'due_amount', label: 'Amount due N days after membership start', usesDays: true },
+  { key: 'hostel_stay_ending', label: 'N days before hostel stay ends', usesDays: true },
+];
+const TRIGGER_KEYS = TRIGGERS.map(trigger => trigger.key);
+
+/**
+ * Who a rule reminds today. Rows are { student_id, hostel_student_id,
+ * occurrence }; occurrence ties a firing to one membership period or stay.
+ * Day-based triggers match everyone within or past N days rather than exactly
+ * N days, so a missed run, a late admission or an edited rule still reminds
+ * them; reminder_rule_runs keeps it to once per occurrence.
+ * Library rules are limited to the rule's branches; hostel rules to its
+ * hostel branches. An empty branch list means every branch.
+ */
+const findTargets = async (db, rule) => {
+  const branchIds = rule.branch_ids && rule.branch_ids.length > 0 ? rule.branch_ids : null;
+  const days = rule.days || 0;
+  if (rule.trigger === 'hostel_stay_ending') {
+    const result = await db.query(
+      `SELECT NULL::int AS student_id, s.id AS hostel_student_id, TO_CHAR(hsh.stay_end_date, 'YYYY-MM-DD') AS occurrence
+       FROM hostel_students s
+       JOIN LATERAL (
+         SELECT stay_end_date FROM hostel_student_history
+         WHERE student_id = s.id
+         ORDER BY stay_end_date DESC, created_at DESC
+         LIMIT 1
+       ) hsh ON TRUE
+       WHERE hsh.stay_end_date BETWEEN CURRENT_DATE AND CURRENT_DATE + $1::int
+         AND ($2::int[] IS NULL OR s.branch_id = ANY($2::int[]))`,
+      [days, branchIds]
+    );
+    return result.rows;
+  }
+
+  const conditions = {
+    before_expiry: ['s.membership_end BETWEEN CURRENT_DATE AND CURRENT_DATE + $1::int', 'membership_end'],
+    expiry_day: ['s.membership_end = CURRENT_DATE', 'membership_end'],
+    after_expiry: ['s.membership_end <= CURRENT_DATE - $1::int', 'membership_end'],
+    due_amount: ['s.due_amount > 0 AND s.membership_start <= CURRENT_DATE - $1::int', 'membership_start'],
+  };
+  const [condition, occurrenceColumn] = conditions[rule.trigger];
+  const result = await db.query(
+    `SELECT s.id AS student_id, NULL::int AS hostel_student_id, TO_CHAR(s.${occurrenceColumn}, 'YYYY-MM-DD') AS occurrence
+     FROM students s
+     WHERE ${condition}
+       AND s.is_active AND ${notPausedCondition('s')}
+       AND ($2::int[] IS NULL OR s.branch_id = ANY($2::int[]))`,
+    [days, branchIds]
+  );
+  return result.rows;
+};
+
+/**
+ * Expiry reminders from before in-app templates: the Brevo template in
+ * settings.brevo_template_id for email and EXPIRY_TEMPLATE_SETTING for
+ * WhatsApp, on the rule's channels that have no template.
+ */
+const queueSettingsExpiryReminder = async (db, { settings, studentId, channels, key }) => {
+  const studentRes = await db.query(
+    `SELECT *, TO_CHAR(membership_end, 'YYYY-MM-DD') AS membership_end_on FROM students WHERE id = $1`,
+    [studentId]
+  );
+  const student = studentRes.rows[0];
+  if (!student) return 0;
+  const common = { kind: 'expiry_reminder', studentId: student.id, branchId: student.branch_id };
+  let queued = 0;
+  if (channels.includes('email') && settings.brevo_template_id && student.email) {
+    const email = await enqueueNotification(db, {
+      ...common,
+      channel: 'email',
+      recipient: student.email,
+      template: settings.brevo_template_id,
+      payload: { params: expirationReminderParams({ ...student, membership_end: student.membership_end_on }) },
+      idempotencyKey: `expiry_reminder:email:${key}`,
+    });
+    if (email) queued += 1;
+  }
+  if (channels.includes('whatsapp') && student.phone) {
+    const template = settings[EXPIRY_TEMPLATE_SETTING] || DEFAULT_EXPIRY_TEMPLATE;
+    const whatsapp = await enqueueNotification(db, {
+      ...common,
+      channel: 'whatsapp',
+      recipient: toWhatsAppNumber(student.phone),
+      template,
+      payload: template === DEFAULT_EXPIRY_TEMPLATE ? {} : { parameters: [student.name, student.membership_end_on] },
+      idempotencyKey: `expiry_reminder:whatsapp:${key}`,
+    });
+    if (whatsapp) queued += 1;
+  }
+  return queued;
+};
+
+/**
+ * Fires one rule for one target inside a transaction: records the run, then
+ * queues the messages. Returns the number queued, or null when the rule had
+ * already fired for this target and occurrence.
+ */
+const fireRule = async (pool, rule, target, settings) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const run = await client.query(
+      `INSERT INTO reminder_rule_runs (rule_id, student_id, hostel_student_id, occurrence)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT DO NOTHING
+       RETURNING id`,
+      [rule.id, target.student_id, target.hostel_student_id, target.occurrence]
+    );
+    if (run.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const subject = target.hostel_student_id || target.student_id;
+    const key = `${subject}:${target.occurrence}:rule${rule.id}`;
+    const templated = await queueTemplatedMessages(client, {
+      event: rule.event,
+      studentId: target.student_id,
+      hostelStudentId: target.hostel_student_id,
+      channels: rule.channels,
+      key,
+    });
+    let queued = templated.queued;
+    if (rule.event === 'expiry_reminder' && target.student_id) {
+      queued += await queueSettingsExpiryReminder(client, {
+        settings,
+        studentId: target.student_id,
+        channels: rule.channels.filter(channel => !templated.channels.includes(channel)),
+        key,
+      });
+    }
+
+    await client.query('UPDATE reminder_rule_runs SET queued = $1 WHERE id = $2', [queued, run.rows[0].id]);
+    await client.query('COMMIT');
+    return queued;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Runs every active rule whose send window includes the current hour in
+ * Asia/Kolkata. Returns [{ rule, fired, queued }] for the rules that ran. A
+ * failing rule is logged and does not stop the others.
+ */
+const runReminderRules = async (pool) => {
+  const rulesRes = await pool.query(
+    `SELECT * FROM reminder_rules
+     WHERE is_active
+       AND EXTRACT(HOUR FROM NOW() AT TIME ZONE 'Asia/Kolkata') >= send_from_hour
+       AND EXTRACT(HOUR FROM NOW() AT TIME ZONE 'Asia/Kolkata') < send_to_hour
+     ORDER BY id`
+  );
+  if (rulesRes.rows.length === 0) return [];
+  const settingsRes = await pool.query('SELECT key, value FROM settings');
+  const settings = Object.fromEntries(settingsRes.rows.map(row => [row.key, row.value]));
+
+  const results = [];
+  for (const rule of rulesRes.rows) {
+    try {
+      const targets = await findTargets(pool, rule);
+      const summary = { rule: rule.name, fired: 0, queued: 0 };
+      for (const target of targets) {
+        const queued = await fireRule(pool, rule, target, settings);
+        if (queued === null) continue;
+        summary.fired += 1;
+        summary.queued += queued;
+      }
+      results.push(summary);
+    } catch (err) {
+      console.error(`Error running reminder rule ${rule.id} (${rule.name}):`, err);
+    }
+  }
+  return results;
+};
+
+module.exports = {
+  EXPIRY_TEMPLATE_SETTING,
+  TRIGGERS,
+  TRIGGER_KEYS,
+  runReminderRules,
+};
@@ -0,0 +1,46 @@
+// Named roles bundle permissions for staff users. A user's effective
+// permissions are the permissions of their role plus the per-user grants in
+// users.permissions, minus the per-user removals in users.revoked_permissions.
+
+// Mirrors Frontend/src/config/permission.ts.
+const KNOWN_PERMISSIONS = [
+  'manage_library_students', 'manage_schedules', 'manage_seats', 'view_collections', 'manage_refunds',
+  'manage_fee_plans', 'override_fees', 'manage_messages', 'send_campaigns',
+  'manage_hostel_students', 'manage_hostel_branches', 'view_hostel_collections',
+  'manage_branches', 'manage_products', 'manage_expenses', 'view_transactions', 'view_reports',
+];
+
+// Select expression for the permissions of the user's role; usable in both
+// SELECT ... FROM users and UPDATE users ... RETURNING.
+const ROLE_PERMISSIONS_SQL = '(SELECT r.permissions FROM roles r WHERE r.id = users.role_id) AS role_permissions';
+
+const resolvePermissions = (rolePermissions, grantedPermissions, revokedPermissions) => {
+  const revoked = new Set(revokedPermissions || []);
+  const effective = new Set([...(rolePermissions || []), ...(grantedPermissions || [])]);
+  return [...effective].filter(permission => !revoked.has(permission));
+};
+
+/**
+ * Validates a permission list from a request body. Returns { permissions } or
+ * { error } for anything that is not an array of known permission ids.
+ */
+const parsePermissionList = (value, field = 'permissions') => {
+  if (value === undefined || value === null) {
+    return { permissions: [] };
+  }
+  if (!Array.isArray(value) || value.some(permission => typeof permission !== 'string')) {
+    return { error: `${field} must be an array of permission names.` };
+  }
+  const unknown = value.filter(permission => !KNOWN_PERMISSIONS.includes(permission));
+  if (unknown.length > 0) {
+    return { error: `Unknown permission(s): ${unknown.join(', ')}` };
+  }
+  return { permissions: [...new Set(value)] };
+};
+
+module.exports = {
+  KNOWN_PERMISSIONS,
+  ROLE_PERMISSIONS_SQL,
+  resolvePermissions,
+  parsePermissionList,
+};
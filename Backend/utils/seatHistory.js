@@ -0,0 +1,61 @@
+// Seat/shift assignment periods. seat_assignments only says who sits where
+// right now; seat_assignment_history keeps one row per seat + shift a student
+// held, with the day it started and the day it ended (NULL while current).
+// Call syncSeatHistory after changing a student's seat_assignments, inside the
+// same transaction, so the open periods always mirror the live assignments.
+
+/**
+ * Closes the student's open periods that are no longer in seat_assignments and
+ * opens one for every assignment that has no open period yet. Assignments that
+ * did not change keep their original start date.
+ */
+const syncSeatHistory = async (db, studentId, { reason, note = null, userId = null }) => {
+  const current = await db.query(
+    'SELECT seat_id, shift_id FROM seat_assignments WHERE student_id = $1',
+    [studentId]
+  );
+  const open = await db.query(
+    'SELECT id, seat_id, shift_id FROM seat_assignment_history WHERE student_id = $1 AND ended_on IS NULL',
+    [studentId]
+  );
+  const key = (row) => `${row.seat_id}:${row.shift_id}`;
+  const currentKeys = new Set(current.rows.map(key));
+  const openKeys = new Set(open.rows.map(key));
+
+  const closing = open.rows.filter(row => !currentKeys.has(key(row))).map(row => row.id);
+  if (closing.length > 0) {
+    await db.query(
+      `UPDATE seat_assignment_history SET ended_on = CURRENT_DATE, end_reason = $2
+       WHERE id = ANY($1::int[])`,
+      [closing, reason]
+    );
+  }
+
+  for (const row of current.rows.filter(assignment => !openKeys.has(key(assignment)))) {
+    await db.query(
+      `INSERT INTO seat_assignment_history (
+        student_id, seat_id, seat_number, shift_id, shift_title, branch_id, started_on, start_reason, note, created_by
+      )
+      SELECT s.id, st.id, st.seat_number, sch.id, sch.title, s.branch_id, CURRENT_DATE, $4, $5, $6
+      FROM students s
+      LEFT JOIN seats st ON st.id = $2
+      LEFT JOIN schedules sch ON sch.id = $3
+      WHERE s.id = $1`,
+      [studentId, row.seat_id, row.shift_id, reason, note, userId]
+    );
+  }
+};
+
+/**
+ * Closes every open period on a seat, e.g. before the seat is deleted. Runs
+ * without a student because the seat's occupants all lose it at once.
+ */
+const closeSeatPeriods = async (db, seatId, reason) => {
+  await db.query(
+    `UPDATE seat_assignment_history SET ended_on = CURRENT_DATE, end_reason = $2
+     WHERE seat_id = $1 AND ended_on IS NULL`,
+    [seatId, reason]
+  );
+};
+
+module.exports = { syncSeatHistory, closeSeatPeriods };
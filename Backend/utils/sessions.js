@@ -0,0 +1,19 @@
+// Deletes stored sessions so the affected users have to log in again and pick
+// up changed permissions, roles or branches. connect-pg-simple keeps the
+// session data as JSON in "session".sess.
+const invalidateUserSessions = async (db, userIds) => {
+  const ids = (Array.isArray(userIds) ? userIds : [userIds]).map(id => parseInt(id, 10));
+  if (ids.length === 0) {
+    return 0;
+  }
+  const result = await db.query(
+    `DELETE FROM session WHERE (sess->'user'->>'id')::integer = ANY($1::int[])`,
+    [ids]
+  );
+  if (result.rowCount > 0) {
+    console.log(`[SESSIONS] Invalidated ${result.rowCount} session(s) for user ID(s) ${ids.join(', ')}.`);
+  }
+  return result.rowCount;
+};
+
+module.exports = { invalidateUserSessions };
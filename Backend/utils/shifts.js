@@ -0,0 +1,184 @@
+// Shift timing rules. A shift (schedules row) runs from start_time to end_time
+// on the listed days_of_week (0 = Sunday ... 6 = Saturday; NULL/empty = every
+// day). An end time before the start time means the shift runs past midnight.
+// branch_id limits the shift to one branch (NULL = all branches) and capacity
+// caps how many students can hold it (NULL = no limit).
+
+const TIMING_COLUMNS = ['id', 'title', 'start_time', 'end_time', 'days_of_week', 'branch_id', 'capacity'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+// Select list of the columns shiftsOverlap and validateShiftAssignment need.
+const shiftTimingColumns = (alias = null) =>
+  TIMING_COLUMNS.map(column => (alias ? `${alias}.${column}` : column)).join(', ');
+
+const toMinutes = (time) => {
+  const [hours, minutes] = String(time).split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minute ranges a shift covers within a day; overnight shifts are split in two.
+const timeRanges = (shift) => {
+  const start = toMinutes(shift.start_time);
+  const end = toMinutes(shift.end_time);
+  return end > start ? [[start, end]] : [[start, MINUTES_PER_DAY], [0, end]];
+};
+
+const sharesDay = (a, b) => {
+  const daysA = a.days_of_week || [];
+  const daysB = b.days_of_week || [];
+  return daysA.length === 0 || daysB.length === 0 || daysA.some(day => daysB.includes(day));
+};
+
+/**
+ * True when two shifts run at the same time on some day. A shift always
+ * overlaps itself; shifts without a time range only clash with themselves.
+ */
+const shiftsOverlap = (a, b) => {
+  if (a.id === b.id) return true;
+  if (!a.start_time || !a.end_time || !b.start_time || !b.end_time || !sharesDay(a, b)) {
+    return false;
+  }
+  return timeRanges(a).some(([startA, endA]) =>
+    timeRanges(b).some(([startB, endB]) => startA < endB && startB < endA)
+  );
+};
+
+/**
+ * Validates the timing fields of a shift create/update body. With `partial`
+ * only the fields present are checked. Returns { values } holding the
+ * parsed fields that were sent, or { error }.
+ */
+const parseShiftTiming = (body, { partial = false } = {}) => {
+  const values = {};
+  const has = (key) => body[key] !== undefined;
+
+  for (const key of ['start_time', 'end_time']) {
+    if (!has(key)) continue;
+    if (body[key] === null || body[key] === '') {
+      values[key] = null;
+    } else if (!TIME_PATTERN.test(body[key])) {
+      return { error: `Invalid ${key}, use HH:MM` };
+    } else {
+      values[key] = body[key];
+    }
+  }
+  if (!partial && !values.start_time !== !values.end_time) {
+    return { error: 'Both start_time and end_time are required for a time range' };
+  }
+  if (values.start_time && values.end_time && values.start_time === values.end_time) {
+    return { error: 'start_time and end_time cannot be the same' };
+  }
+
+  if (has('days_of_week')) {
+    if (body.days_of_week === null) {
+      values.days_of_week = null;
+    } else {
+      const days = Array.isArray(body.days_of_week) ? body.days_of_week.map(day => parseInt(day, 10)) : null;
+      if (!days || days.some(day => isNaN(day) || day < 0 || day > 6)) {
+        return { error: 'days_of_week must be a list of numbers from 0 (Sunday) to 6 (Saturday)' };
+      }
+      values.days_of_week = days.length > 0 ? [...new Set(days)].sort() : null;
+    }
+  }
+
+  if (has('branch_id')) {
+    const branchId = body.branch_id === null || body.branch_id === '' ? null : parseInt(body.branch_id, 10);
+    if (Number.isNaN(branchId)) {
+      return { error: 'Invalid branch_id' };
+    }
+    values.branch_id = branchId;
+  }
+
+  if (has('capacity')) {
+    const capacity = body.capacity === null || body.capacity === '' ? null : parseInt(body.capacity, 10);
+    if (Number.isNaN(capacity) || (capacity !== null && capacity < 1)) {
+      return { error: 'Capacity must be a positive whole number' };
+    }
+    values.capacity = capacity;
+  }
+
+  return { values };
+};
+
+/**
+ * Checks that a student can take `shiftIds` on `seatId` in `branchId`: the
+ * shifts exist and belong to the branch, none is at capacity, and the seat is
+ * not held by anyone else in a shift overlapping any of them, nor held for a
+ * waitlisted person. `studentId` (when editing or renewing) excludes the
+ * student's own current assignments and `waitlistId` (when admitting from the
+ * waitlist) the hold made for that entry. Returns an error message or null.
+ */
+const validateShiftAssignment = async (db, { seatId, shiftIds, branchId, studentId = null, waitlistId = null }) => {
+  if (!shiftIds || shiftIds.length === 0) return null;
+
+  const requested = await db.query(
+    `SELECT ${shiftTimingColumns()} FROM schedules WHERE id = ANY($1::int[])`,
+    [shiftIds]
+  );
+  const missing = shiftIds.find(id => !requested.rows.some(shift => shift.id === id));
+  if (missing !== undefined) {
+    return `Shift with ID ${missing} does not exist`;
+  }
+
+  for (const shift of requested.rows) {
+    if (shift.branch_id && branchId && shift.branch_id !== parseInt(branchId, 10)) {
+      return `Shift "${shift.title}" belongs to another branch`;
+    }
+  }
+
+  const counts = await db.query(
+    `SELECT shift_id, COUNT(DISTINCT student_id)::int AS students
+     FROM seat_assignments
+     WHERE shift_id = ANY($1::int[]) AND ($2::int IS NULL OR student_id <> $2)
+     GROUP BY shift_id`,
+    [shiftIds, studentId]
+  );
+  for (const shift of requested.rows) {
+    const taken = counts.rows.find(row => row.shift_id === shift.id)?.students || 0;
+    if (shift.capacity && taken >= shift.capacity) {
+      return `Shift "${shift.title}" is full (capacity ${shift.capacity})`;
+    }
+  }
+
+  if (seatId) {
+    const existing = await db.query(
+      `SELECT ${shiftTimingColumns('sch')}
+       FROM seat_assignments sa
+       JOIN schedules sch ON sch.id = sa.shift_id
+       WHERE sa.seat_id = $1 AND ($2::int IS NULL OR sa.student_id <> $2)`,
+      [seatId, studentId]
+    );
+    for (const shift of requested.rows) {
+      const clash = existing.rows.find(taken => shiftsOverlap(shift, taken));
+      if (clash) {
+        return clash.id === shift.id
+          ? `Seat is already assigned for shift "${shift.title}"`
+          : `Seat is taken in shift "${clash.title}", which overlaps "${shift.title}"`;
+      }
+    }
+
+    const holds = await db.query(
+      `SELECT w.name AS holder_name, w.offer_expires_at, ${shiftTimingColumns('sch')}
+       FROM seat_waitlist w
+       JOIN schedules sch ON sch.id = ANY(w.shift_ids)
+       WHERE w.status = 'offered' AND w.offered_seat_id = $1 AND w.offer_expires_at > NOW()
+         AND ($2::int IS NULL OR w.id <> $2)`,
+      [seatId, waitlistId]
+    );
+    const hold = holds.rows.find(held => requested.rows.some(shift => shiftsOverlap(shift, held)));
+    if (hold) {
+      const until = new Date(hold.offer_expires_at).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' });
+      return `Seat is held for ${hold.holder_name} from the waitlist until ${until}`;
+    }
+  }
+
+  return null;
+};
+
+module.exports = {
+  shiftTimingColumns,
+  shiftsOverlap,
+  parseShiftTiming,
+  validateShiftAssignment,
+};
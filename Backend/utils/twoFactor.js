@@ -0,0 +1,83 @@
+// TOTP two-factor authentication helpers. Secrets are Base32 strings stored on
+// users.totp_secret; recovery codes are stored as SHA-256 hashes in
+// user_recovery_codes and can each be used once.
+
+const crypto = require('crypto');
+const { generateSecret, generateURI, verify } = require('otplib');
+const QRCode = require('qrcode');
+
+const ISSUER = 'Shiv Library';
+const RECOVERY_CODE_COUNT = 10;
+// Accept the previous and next 30 second window to allow for clock drift.
+const EPOCH_TOLERANCE_SECONDS = 30;
+
+const REQUIRE_ADMIN_SETTING = 'require_admin_two_factor';
+
+const hashRecoveryCode = (code) =>
+  crypto.createHash('sha256').update(String(code).replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+
+/**
+ * Creates a new secret plus the otpauth:// URL and a QR code (data URL)
+ * for authenticator apps.
+ */
+const createEnrollment = async (username) => {
+  const secret = generateSecret();
+  const otpauthUrl = generateURI({ issuer: ISSUER, label: username, secret });
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+  return { secret, otpauthUrl, qrCode };
+};
+
+const verifyTotp = async (secret, token) => {
+  const cleaned = String(token || '').replace(/\s/g, '');
+  if (!secret || !/^\d{6}$/.test(cleaned)) {
+    return false;
+  }
+  const result = await verify({ secret, token: cleaned, epochTolerance: EPOCH_TOLERANCE_SECONDS });
+  return result.valid;
+};
+
+/**
+ * Replaces the user's recovery codes and returns the new plaintext codes.
+ * They are only shown once; the table keeps the hashes.
+ */
+const regenerateRecoveryCodes = async (client, userId) => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  await client.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+  for (const code of codes) {
+    await client.query(
+      'INSERT INTO user_recovery_codes (user_id, code_hash) VALUES ($1, $2)',
+      [userId, hashRecoveryCode(code)]
+    );
+  }
+  return codes;
+};
+
+/**
+ * Marks a matching unused recovery code as used. Returns true when one was consumed.
+ */
+const consumeRecoveryCode = async (client, userId, code) => {
+  const result = await client.query(
+    `UPDATE user_recovery_codes SET used_at = NOW()
+     WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+     RETURNING id`,
+    [userId, hashRecoveryCode(code)]
+  );
+  return result.rows.length > 0;
+};
+
+const isAdminTwoFactorRequired = async (client) => {
+  const result = await client.query('SELECT value FROM settings WHERE key = $1', [REQUIRE_ADMIN_SETTING]);
+  return result.rows.length > 0 && result.rows[0].value === 'true';
+};
+
+module.exports = {
+  REQUIRE_ADMIN_SETTING,
+  createEnrollment,
+  verifyTotp,
+  regenerateRecoveryCodes,
+  consumeRecoveryCode,
+  isAdminTwoFactorRequired,
+};
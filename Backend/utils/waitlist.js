@@ -0,0 +1,180 @@
+// Seat waitlist. People waiting for a branch/shift combination are kept in
+// seat_waitlist (status 'waiting'). When seat assignments are released the
+// oldest waiting entry that fits a freed seat is offered it: the entry becomes
+// 'offered', the seat is held for them for `waitlist_hold_hours` and they are
+// notified on WhatsApp. Admitting them marks the entry 'admitted'; an offer
+// that runs out becomes 'expired' and the seat goes to the next in line.
+
+const { notPausedCondition } = require('./pauses');
+const { syncSeatHistory } = require('./seatHistory');
+const { validateShiftAssignment } = require('./shifts');
+const { toWhatsAppNumber } = require('./whatsapp');
+const { enqueueNotification } = require('./notifications');
+
+const HOLD_HOURS_SETTING = 'waitlist_hold_hours';
+const TEMPLATE_SETTING = 'waitlist_whatsapp_template';
+const RELEASE_GRACE_SETTING = 'seat_release_grace_days';
+const DEFAULT_HOLD_HOURS = 24;
+const DEFAULT_TEMPLATE = 'seat_available';
+
+const readSettings = async (db) => {
+  const result = await db.query(
+    'SELECT key, value FROM settings WHERE key = ANY($1)',
+    [[HOLD_HOURS_SETTING, TEMPLATE_SETTING]]
+  );
+  const settings = Object.fromEntries(result.rows.map(row => [row.key, row.value]));
+  return {
+    holdHours: parseInt(settings[HOLD_HOURS_SETTING], 10) || DEFAULT_HOLD_HOURS,
+    template: settings[TEMPLATE_SETTING] || DEFAULT_TEMPLATE,
+  };
+};
+
+const notifyOffer = async (db, entry, seat, template) => {
+  if (!entry.phone) return;
+  const until = new Date(entry.offer_expires_at).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' });
+  await enqueueNotification(db, {
+    channel: 'whatsapp',
+    recipient: toWhatsAppNumber(entry.phone),
+    template,
+    payload: { parameters: [entry.name, seat.seat_number, until] },
+    kind: 'waitlist_offer',
+    idempotencyKey: `waitlist_offer:${entry.id}:${new Date(entry.offer_expires_at).getTime()}`,
+    studentId: entry.student_id || null,
+    branchId: entry.branch_id,
+  });
+};
+
+// First key of the advisory lock serialising waitlist runs; the second is the branch.
+const WAITLIST_LOCK_CLASS = 7301;
+
+/**
+ * Offers free seats of a branch to its waitlist, oldest entry first. Only
+ * `seatIds` are considered when given, otherwise every seat of the branch.
+ * Runs in a transaction holding the branch's advisory lock, so overlapping
+ * runs (from the cron and from routes that free seats) never offer the same
+ * seat twice. Returns the entries that received an offer.
+ */
+const processWaitlist = async (pool, branchId, seatIds = null) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock($1, $2)', [WAITLIST_LOCK_CLASS, branchId]);
+
+    const waiting = await client.query(
+      "SELECT * FROM seat_waitlist WHERE branch_id = $1 AND status = 'waiting' ORDER BY created_at, id",
+      [branchId]
+    );
+    if (waiting.rows.length === 0) {
+      await client.query('COMMIT');
+      return [];
+    }
+
+    const seats = await client.query(
+      `SELECT id, seat_number FROM seats
+       WHERE branch_id = $1 AND ($2::int[] IS NULL OR id = ANY($2::int[]))
+       ORDER BY seat_number`,
+      [branchId, seatIds]
+    );
+    const { holdHours, template } = await readSettings(client);
+    const offers = [];
+
+    for (const entry of waiting.rows) {
+      for (const seat of seats.rows) {
+        // Holds made earlier in this loop, or by runs that finished before the
+        // lock was granted, are seen here, so one seat is never offered twice.
+        const error = await validateShiftAssignment(client, { seatId: seat.id, shiftIds: entry.shift_ids, branchId });
+        if (error) continue;
+
+        const offered = await client.query(
+          `UPDATE seat_waitlist
+           SET status = 'offered', offered_seat_id = $1, offered_at = NOW(),
+               offer_expires_at = NOW() + make_interval(hours => $2), updated_at = NOW()
+           WHERE id = $3 AND status = 'waiting'
+           RETURNING *`,
+          [seat.id, holdHours, entry.id]
+        );
+        if (offered.rows.length > 0) {
+          offers.push(offered.rows[0]);
+          await notifyOffer(client, offered.rows[0], seat, template);
+        }
+        break;
+      }
+    }
+    await client.query('COMMIT');
+    return offers;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Call after committing a change that released seat assignments. Runs the
+ * waitlist of each affected branch for the freed seats. Never throws; failures
+ * are logged so the caller's response is not affected.
+ */
+const offerFreedSeats = async (pool, seatIds) => {
+  try {
+    const ids = [...new Set((seatIds || []).filter(Boolean))];
+    if (ids.length === 0) return [];
+    const seats = await pool.query('SELECT id, branch_id FROM seats WHERE id = ANY($1::int[])', [ids]);
+    const byBranch = new Map();
+    seats.rows.forEach(seat => {
+      if (!seat.branch_id) return;
+      byBranch.set(seat.branch_id, [...(byBranch.get(seat.branch_id) || []), seat.id]);
+    });
+    const offers = [];
+    for (const [branchId, branchSeatIds] of byBranch) {
+      offers.push(...await processWaitlist(pool, branchId, branchSeatIds));
+    }
+    return offers;
+  } catch (err) {
+    console.error('Error offering freed seats to the waitlist:', err);
+    return [];
+  }
+};
+
+/**
+ * Expires offers whose hold ran out and passes the seats on. When
+ * `seat_release_grace_days` is set, also releases the seats of memberships
+ * that ended more than that many days ago, unless the student is on a pause.
+ * Run periodically by the cron.
+ */
+const runWaitlistMaintenance = async (pool) => {
+  const expired = await pool.query(
+    `UPDATE seat_waitlist SET status = 'expired', updated_at = NOW()
+     WHERE status = 'offered' AND offer_expires_at <= NOW()
+     RETURNING offered_seat_id`
+  );
+  const freedSeatIds = expired.rows.map(row => row.offered_seat_id);
+
+  const grace = await pool.query('SELECT value FROM settings WHERE key = $1', [RELEASE_GRACE_SETTING]);
+  const graceDays = grace.rows.length > 0 ? parseInt(grace.rows[0].value, 10) : NaN;
+  if (!isNaN(graceDays) && graceDays >= 0) {
+    const released = await pool.query(
+      `DELETE FROM seat_assignments sa
+       USING students s
+       WHERE sa.student_id = s.id AND s.membership_end < CURRENT_DATE - $1::int
+         AND ${notPausedCondition('s')}
+       RETURNING sa.seat_id, sa.student_id`,
+      [graceDays]
+    );
+    freedSeatIds.push(...released.rows.map(row => row.seat_id));
+    for (const studentId of new Set(released.rows.map(row => row.student_id))) {
+      await syncSeatHistory(pool, studentId, { reason: 'expired' });
+    }
+  }
+
+  return offerFreedSeats(pool, freedSeatIds);
+};
+
+module.exports = {
+  HOLD_HOURS_SETTING,
+  TEMPLATE_SETTING,
+  RELEASE_GRACE_SETTING,
+  processWaitlist,
+  offerFreedSeats,
+  runWaitlistMaintenance,
+};
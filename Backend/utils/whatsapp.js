@@ -3,7 +3,15 @@ const axios = require('axios');
 const WHATSAPP_PHONE_ID = process.env.WHATSAPP_PHONE_ID;
 const WHATSAPP_TOKEN = process.env.WHATSAPP_TOKEN;
 
-async function sendWhatsAppMessage(to, templateName = 'hello_world') {
+// Numbers are stored as typed; bare 10-digit numbers are Indian.
+function toWhatsAppNumber(phone) {
+  const trimmed = String(phone || '').trim();
+  return trimmed.startsWith('+') ? trimmed : `+91${trimmed.replace(/\D/g, '')}`;
+}
+
+// `parameters` fill the template's body placeholders {{1}}, {{2}}, ... in order.
+// Throws when the API rejects the message so the outbox can retry it.
+async function sendWhatsAppMessage(to, templateName = 'hello_world', parameters = []) {
   try {
     const response = await axios.post(
       `https://graph.facebook.com/v19.0/${WHATSAPP_PHONE_ID}/messages`,
@@ -13,7 +21,13 @@ async function sendWhatsAppMessage(to, templateName = 'hello_world') {
         type: 'template',
         template: {
           name: templateName,
-          language: { code: 'en_US' }
+          language: { code: 'en_US' },
+          ...(parameters.length > 0 && {
+            components: [{
+              type: 'body',
+              parameters: parameters.map(text => ({ type: 'text', text: String(text) }))
+            }]
+          })
         }
       },
       {
@@ -26,8 +40,38 @@ async function sendWhatsAppMessage(to, templateName = 'hello_world') {
     console.log(`WhatsApp message sent to ${to}`);
     return response.data;
   } catch (error) {
+    const details = error.response?.data?.error?.message || error.message;
     console.error('Failed to send WhatsApp message:', error.response?.data || error.message);
+    throw new Error(details);
+  }
+}
+
+// Free-form text. Meta only delivers it inside the 24-hour window after the
+// student last wrote to us; outside it the API rejects the message.
+async function sendWhatsAppText(to, body) {
+  try {
+    const response = await axios.post(
+      `https://graph.facebook.com/v19.0/${WHATSAPP_PHONE_ID}/messages`,
+      {
+        messaging_product: 'whatsapp',
+        to,
+        type: 'text',
+        text: { body: String(body) }
+      },
+      {
+        headers: {
+          Authorization: `Bearer ${WHATSAPP_TOKEN}`,
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+    console.log(`WhatsApp text sent to ${to}`);
+    return response.data;
+  } catch (error) {
+    const details = error.response?.data?.error?.message || error.message;
+    console.error('Failed to send WhatsApp text:', error.response?.data || error.message);
+    throw new Error(details);
   }
 }
 
-module.exports = { sendWhatsAppMessage };
\ No newline at end of file
+module.exports = { sendWhatsAppMessage, sendWhatsAppText, toWhatsAppNumber };
\ No newline at end of file
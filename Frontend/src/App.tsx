@@ -13,6 +13,7 @@ import ExpiredMemberships from './pages/ExpiredMemberships';
 import StudentDetails from './pages/StudentDetails';
 import Schedule from './pages/Schedule';
 import Settings from './pages/Settings';
+import AuditLog from './pages/AuditLog';
 import AdminRoute from './components/AdminRoute';
 import AddUserForm from './components/AddUserForm';
 import AddStudentForm from './components/AddStudentForm';
@@ -28,6 +29,10 @@ import TransactionsPage from './pages/TransactionsPage';
 import CollectionDue from './pages/CollectionDue';
 import Expenses from './pages/Expenses';
 import ProfitLoss from './pages/ProfitLoss';
+import SeatUtilization from './pages/SeatUtilization';
+import FeePlans from './pages/FeePlans';
+import Messages from './pages/Messages';
+import Campaigns from './pages/Campaigns';
 import HostelCollectionDue from './pages/HostelCollectionDue';
 import ExpiredHostelMemberships from './pages/ExpiredHostelMemberships';
 import ManageBranches from './pages/ManageBranches'; 
@@ -37,13 +42,18 @@ import ActiveHostelStudents from './pages/ActiveHostelStudents';
 import InactiveStudents from './pages/InactiveStudents';
 import LockerManagement from './pages/LockerManagement';
 import PublicStudentRegistration from './pages/PublicStudentRegistration';
+import ImportStudents from './pages/ImportStudents';
+import ChangePassword from './pages/ChangePassword';
+import TwoFactorSetup from './pages/TwoFactorSetup';
 
 const queryClient = new QueryClient();
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { isLoading, isAuthenticated } = useAuth();
+  const { isLoading, isAuthenticated, user } = useAuth();
   if (isLoading) return <div>Loading...</div>;
   if (!isAuthenticated) return <Navigate to="/login" />;
+  if (user?.mustChangePassword) return <Navigate to="/change-password" />;
+  if (user?.twoFactorSetupRequired) return <Navigate to="/two-factor-setup" />;
   return children;
 }
 
@@ -52,6 +62,8 @@ function AppRoutes() {
     <Routes>
       <Route path="/login" element={<Login />} />
       <Route path="/register" element={<PublicStudentRegistration />} />
+      <Route path="/change-password" element={<ChangePassword />} />
+      <Route path="/two-factor-setup" element={<TwoFactorSetup />} />
       <Route path="/" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
       
       <Route path="/hostel-dashboard" element={<ProtectedRoute><HostelDashboard /></ProtectedRoute>} />
@@ -59,6 +71,7 @@ function AppRoutes() {
 
       <Route path="/students" element={<ProtectedRoute><AllStudents /></ProtectedRoute>} />
       <Route path="/students/add" element={<ProtectedRoute><AddStudentForm /></ProtectedRoute>} />
+      <Route path="/students/import" element={<ProtectedRoute><ImportStudents /></ProtectedRoute>} />
       <Route path="/students/:id" element={<ProtectedRoute><StudentDetails /></ProtectedRoute>} />
       <Route path="/students/:id/edit" element={<ProtectedRoute><EditStudentForm /></ProtectedRoute>} />
       <Route path="/active-students" element={<ProtectedRoute><ActiveStudents /></ProtectedRoute>} />
@@ -72,6 +85,7 @@ function AppRoutes() {
       <Route path="/seats" element={<ProtectedRoute><SeatsPage /></ProtectedRoute>} />
       <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
       <Route path="/users/new" element={<AdminRoute><AddUserForm /></AdminRoute>} />
+      <Route path="/audit-log" element={<AdminRoute><AuditLog /></AdminRoute>} />
       <Route path="/hostel" element={<ProtectedRoute><HostelPage /></ProtectedRoute>} />
       <Route path="/hostel/branches/:branchId/students" element={<ProtectedRoute><BranchStudentsPage /></ProtectedRoute>} />
       <Route path="/hostel/students/:id" element={<ProtectedRoute><HostelStudentDetails /></ProtectedRoute>} />
@@ -82,6 +96,10 @@ function AppRoutes() {
       <Route path="/collections" element={<ProtectedRoute><CollectionDue /></ProtectedRoute>} />
       <Route path="/expenses" element={<ProtectedRoute><Expenses /></ProtectedRoute>} />
       <Route path="/profit-loss" element={<ProtectedRoute><ProfitLoss /></ProtectedRoute>} />
+      <Route path="/seat-utilization" element={<ProtectedRoute><SeatUtilization /></ProtectedRoute>} />
+      <Route path="/fee-plans" element={<ProtectedRoute><FeePlans /></ProtectedRoute>} />
+      <Route path="/messages" element={<ProtectedRoute><Messages /></ProtectedRoute>} />
+      <Route path="/campaigns" element={<ProtectedRoute><Campaigns /></ProtectedRoute>} />
       <Route path="/branches" element={<ProtectedRoute><ManageBranches /></ProtectedRoute>} /> 
       <Route path="/products" element={<ProtectedRoute><ProductsPage /></ProtectedRoute>} /> 
       <Route path="/lockers" element={<ProtectedRoute><LockerManagement /></ProtectedRoute>} />
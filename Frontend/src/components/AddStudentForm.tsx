@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { toast } from 'sonner';
-import api from '../services/api';
+import api, { InstallmentInput, SeatSuggestion, SeatZone } from '../services/api';
 import Select from 'react-select';
+import FeeQuoteFields from './FeeQuoteFields';
+import PromotionFields, { PromotionCodes } from './PromotionFields';
+import InstallmentPlanEditor from './InstallmentPlanEditor';
+import { useFeeQuote } from '../hooks/use-fee-quote';
 
 // Interface for a Branch
 interface Branch {
@@ -24,6 +28,7 @@ interface Schedule {
   time: string;
   eventDate: string;
   fee: number;
+  branchId?: number | null;
 }
 
 // Interface for a Locker
@@ -75,24 +80,38 @@ interface FormData {
   aadhaarBackUrl: string | null;
   discount: string;
   preparingFor?: string;
+  dateOfBirth: string;
 }
 
+// Reads a numeric query parameter, e.g. the seat chosen on the seat map.
+const numericParam = (params: URLSearchParams, name: string): number | null => {
+  const value = parseInt(params.get(name) || '', 10);
+  return Number.isNaN(value) ? null : value;
+};
+
 const AddStudentForm: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Prefilled from the seat map (branch, seat, shift) or the waitlist (also name, phone and waitlist entry)
+  const prefillShiftIds = (searchParams.get('shiftIds') || searchParams.get('shiftId') || '')
+    .split(',')
+    .map(value => parseInt(value, 10))
+    .filter(value => !Number.isNaN(value));
+  const waitlistId = numericParam(searchParams, 'waitlistId');
   // State for form data
   const [formData, setFormData] = useState<FormData>({
-    name: '',
+    name: searchParams.get('name') || '',
     registrationNumber: '',
     fatherName: '',
     aadharNumber: '',
-    email: '',
-    phone: '',
+    email: searchParams.get('email') || '',
+    phone: searchParams.get('phone') || '',
     address: '',
-    branchId: null,
+    branchId: numericParam(searchParams, 'branchId'),
     membershipStart: '',
     membershipEnd: '',
-    seatId: null,
-    shiftIds: [],
+    seatId: numericParam(searchParams, 'seatId'),
+    shiftIds: prefillShiftIds,
     lockerId: null,
     totalFee: '0',
     cash: '',
@@ -107,6 +126,7 @@ const AddStudentForm: React.FC = () => {
     aadhaarBackUrl: null,
     discount: '0',
     preparingFor: '',
+    dateOfBirth: '',
   });
 
   // State for data fetched from API
@@ -122,6 +142,34 @@ const AddStudentForm: React.FC = () => {
   const [loadingLockers, setLoadingLockers] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Seat suggestion preferences and results
+  const [preferredZone, setPreferredZone] = useState<SeatZone | ''>('');
+  const [nearSeatId, setNearSeatId] = useState<number | null>(null);
+  const [suggestions, setSuggestions] = useState<SeatSuggestion[]>([]);
+  const [loadingSuggestions, setLoadingSuggestions] = useState(false);
+
+  // Fee plan duration and the authorised override of the quoted fee
+  const [durationMonths, setDurationMonths] = useState(1);
+  const [feeOverride, setFeeOverride] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
+  // Empty = the fee is due in one go
+  const [installments, setInstallments] = useState<InstallmentInput[]>([]);
+  const [promotionCodes, setPromotionCodes] = useState<PromotionCodes>({});
+  const {
+    quote: feeQuote, durations, canOverride, isFetching: loadingQuote, error: quoteError,
+  } = useFeeQuote(
+    formData.branchId !== null && formData.membershipStart
+      ? {
+          branchId: formData.branchId,
+          shiftIds: formData.shiftIds,
+          months: durationMonths,
+          startDate: formData.membershipStart,
+          withLocker: formData.lockerId !== null,
+          ...promotionCodes,
+        }
+      : null
+  );
+
   // Effect to fetch initial data (branches and all shifts) when component mounts
   useEffect(() => {
     const fetchInitialData = async () => {
@@ -204,6 +252,58 @@ const AddStudentForm: React.FC = () => {
     fetchAvailableShiftsForSeat();
   }, [formData.seatId, shifts]);
 
+  // Fee, discount and end date come from the fee plan unless overridden
+  useEffect(() => {
+    if (!feeQuote || feeOverride) return;
+    setFormData(prev => ({
+      ...prev,
+      totalFee: feeQuote.totalFee.toString(),
+      discount: feeQuote.discount.toString(),
+      membershipEnd: feeQuote.membershipEnd,
+      securityMoney: prev.securityMoney || (feeQuote.securityDeposit > 0 ? feeQuote.securityDeposit.toString() : ''),
+    }));
+  }, [feeQuote, feeOverride]);
+
+  // Clear stale suggestions when the branch or requested shifts change
+  useEffect(() => {
+    setSuggestions([]);
+    setNearSeatId(null);
+  }, [formData.branchId]);
+
+  useEffect(() => {
+    setSuggestions([]);
+  }, [formData.shiftIds]);
+
+  // Ask the server for seats free in all chosen shifts and take the best one
+  const handleSuggestSeat = async () => {
+    if (formData.branchId === null || formData.shiftIds.length === 0) {
+      toast.error('Select a branch and at least one shift first');
+      return;
+    }
+    setLoadingSuggestions(true);
+    try {
+      const response = await api.getSeatSuggestions({
+        branchId: formData.branchId,
+        shiftIds: formData.shiftIds,
+        zone: preferredZone || null,
+        nearSeatId,
+      });
+      if (response.suggestions.length === 0) {
+        toast.error('No seat is free in all the selected shifts');
+        return;
+      }
+      const best = response.suggestions[0];
+      // Keep the chosen shifts; picking a seat from the dropdown would clear them
+      setFormData(prev => ({ ...prev, seatId: best.seatId }));
+      toast.success(`Seat ${best.seatNumber} selected (${response.totalFree} free)`);
+      setSuggestions(response.suggestions);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to suggest a seat');
+    } finally {
+      setLoadingSuggestions(false);
+    }
+  };
+
   // Handle changes to standard input fields
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -220,7 +320,6 @@ const AddStudentForm: React.FC = () => {
         seatId: null,
         shiftIds: [],
         lockerId: null,
-        totalFee: '0',
       }));
     } else if (name === 'seatId') {
       const value = option ? option.value : null;
@@ -228,30 +327,10 @@ const AddStudentForm: React.FC = () => {
         ...prev,
         seatId: value,
         shiftIds: [],
-        totalFee: '0',
       }));
     } else if (name === 'shiftIds') {
         const selectedShiftIds = option ? option.map((opt: { value: number }) => opt.value) : [];
-        
-        setFormData(prev => {
-            let newTotalFee = prev.totalFee;
-            // Auto-calculate fee only if exactly one shift is selected
-            if (selectedShiftIds.length === 1) {
-                const selectedShift = shifts.find(shift => shift.id === selectedShiftIds[0]);
-                newTotalFee = selectedShift ? selectedShift.fee.toString() : '0';
-            } 
-            // If transitioning from one shift to multiple or zero, reset fee to prompt manual entry
-            else if (prev.shiftIds.length === 1 && selectedShiftIds.length !== 1) {
-                newTotalFee = '0';
-            }
-            // Otherwise, keep the user's manually entered fee
-        
-            return {
-                ...prev,
-                shiftIds: selectedShiftIds,
-                totalFee: newTotalFee
-            };
-        });
+        setFormData(prev => ({ ...prev, shiftIds: selectedShiftIds }));
     } else {
       const value = option ? option.value : null;
       setFormData(prev => ({ ...prev, [name]: value }));
@@ -328,7 +407,9 @@ const AddStudentForm: React.FC = () => {
     })),
   ];
 
-  const shiftOptions: ShiftOption[] = shifts.map(shift => {
+  // Shifts tied to another branch are not offered
+  const branchShifts = shifts.filter(shift => !shift.branchId || shift.branchId === formData.branchId);
+  const shiftOptions: ShiftOption[] = branchShifts.map(shift => {
     const isAvailable = availableShifts.some(s => s.id === shift.id);
     const label = formData.seatId !== null
       ? `${shift.title} - [Fee: ${shift.fee}] ${isAvailable ? '(Available)' : '(Assigned)'}`
@@ -352,6 +433,19 @@ const AddStudentForm: React.FC = () => {
       toast.error('Please fill in all required fields (Name, Phone, Branch, Membership Start, Membership End)');
       return;
     }
+    if (feeOverride && !overrideReason.trim()) {
+      toast.error('Enter the reason for overriding the fee');
+      return;
+    }
+    if (feeQuote?.promotionError) {
+      toast.error(feeQuote.promotionError);
+      return;
+    }
+    const installmentTotal = installments.reduce((sum, item) => sum + item.amount, 0);
+    if (installments.length > 0 && Math.abs(installmentTotal - effectiveTotalFee) > 0.01) {
+      toast.error('Installments must add up to the fee after discount');
+      return;
+    }
 
     try {
       // Upload images and get their URLs
@@ -399,12 +493,18 @@ const AddStudentForm: React.FC = () => {
         discount: parseFloat(formData.discount) || 0,
         remark: formData.remark || undefined,
         preparingFor: formData.preparingFor || undefined,
+        dateOfBirth: formData.dateOfBirth || null,
         profileImageUrl: imageUrl || undefined,
         aadhaarFrontUrl: aadhaarFrontUrl || undefined,
         aadhaarBackUrl: aadhaarBackUrl || undefined,
         seatId: formData.seatId !== null ? formData.seatId : undefined,
         shiftIds: formData.shiftIds,
         lockerId: formData.lockerId !== null ? formData.lockerId : undefined,
+        waitlistId: waitlistId ?? undefined,
+        durationMonths,
+        feeOverrideReason: feeOverride ? overrideReason.trim() : undefined,
+        installments: installments.length > 0 ? installments : undefined,
+        ...promotionCodes,
       };
 
       await api.addStudent(studentData);
@@ -422,7 +522,7 @@ const AddStudentForm: React.FC = () => {
   const totalAmountPaid = cashAmount + onlineAmount;
   const effectiveTotalFee = (parseFloat(formData.totalFee) || 0) - (parseFloat(formData.discount) || 0);
   const dueAmount = effectiveTotalFee - totalAmountPaid;
-  const isFeeReadOnly = formData.shiftIds.length === 1;
+  const isFeeReadOnly = !feeOverride;
 
   return (
     <div className="max-w-2xl mx-auto p-6">
@@ -561,7 +661,10 @@ const AddStudentForm: React.FC = () => {
             name="membershipEnd"
             value={formData.membershipEnd}
             onChange={handleChange}
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-300"
+            readOnly={isFeeReadOnly}
+            className={`w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-300 ${
+                isFeeReadOnly ? 'bg-gray-100' : ''
+            }`}
             required
           />
         </div>
@@ -594,6 +697,67 @@ const AddStudentForm: React.FC = () => {
             isDisabled={shifts.length === 0}
           />
         </div>
+        {formData.branchId !== null && (
+          <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label htmlFor="preferredZone" className="block text-xs font-medium text-gray-600 mb-1">
+                  Preferred zone
+                </label>
+                <select
+                  id="preferredZone"
+                  value={preferredZone}
+                  onChange={(e) => setPreferredZone(e.target.value as SeatZone | '')}
+                  className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="">Any</option>
+                  <option value="ac">AC</option>
+                  <option value="non_ac">Non-AC</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="nearSeatId" className="block text-xs font-medium text-gray-600 mb-1">
+                  Near seat (friend)
+                </label>
+                <select
+                  id="nearSeatId"
+                  value={nearSeatId ?? ''}
+                  onChange={(e) => setNearSeatId(e.target.value ? parseInt(e.target.value, 10) : null)}
+                  className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="">None</option>
+                  {seats.map(seat => (
+                    <option key={seat.id} value={seat.id}>{seat.seatNumber}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="button"
+                onClick={handleSuggestSeat}
+                disabled={loadingSuggestions || formData.shiftIds.length === 0}
+                className="px-3 py-1.5 bg-purple-100 text-purple-700 rounded-lg text-sm hover:bg-purple-200 disabled:opacity-50"
+              >
+                {loadingSuggestions ? 'Finding...' : 'Suggest Seat'}
+              </button>
+            </div>
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {suggestions.map(suggestion => (
+                  <button
+                    key={suggestion.seatId}
+                    type="button"
+                    title={suggestion.reasons.join(', ')}
+                    onClick={() => setFormData(prev => ({ ...prev, seatId: suggestion.seatId }))}
+                    className={`px-2 py-1 rounded-md border text-xs ${formData.seatId === suggestion.seatId ? 'bg-purple-600 text-white border-purple-600' : 'bg-white hover:bg-gray-50'}`}
+                  >
+                    Seat {suggestion.seatNumber}
+                    {suggestion.reasons.length > 0 && <span className="opacity-75"> · {suggestion.reasons[0]}</span>}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
         <div>
           <label htmlFor="lockerId" className="block text-sm font-medium text-gray-700 mb-1">
             Select Locker
@@ -608,9 +772,29 @@ const AddStudentForm: React.FC = () => {
             isDisabled={!formData.branchId || lockers.length === 0}
           />
         </div>
+        <FeeQuoteFields
+          quote={feeQuote}
+          durations={durations}
+          canOverride={canOverride}
+          isFetching={loadingQuote}
+          error={quoteError}
+          months={durationMonths}
+          onMonthsChange={setDurationMonths}
+          override={feeOverride}
+          onOverrideChange={setFeeOverride}
+          reason={overrideReason}
+          onReasonChange={setOverrideReason}
+        />
+        <PromotionFields
+          value={promotionCodes}
+          onChange={setPromotionCodes}
+          withReferrer
+          promotions={feeQuote?.promotions ?? null}
+          error={feeQuote?.promotionError ?? null}
+        />
         <div>
           <label htmlFor="totalFee" className="block text-sm font-medium text-gray-700 mb-1">
-            {isFeeReadOnly ? 'Total Fee (Auto-calculated) *' : 'Total Fee *'}
+            {isFeeReadOnly ? 'Total Fee (From fee plan) *' : 'Total Fee *'}
           </label>
           <input
             type="number"
@@ -636,9 +820,18 @@ const AddStudentForm: React.FC = () => {
             onChange={handleChange}
             step="0.01"
             min="0"
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-300"
+            readOnly={isFeeReadOnly}
+            className={`w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-300 ${
+                isFeeReadOnly ? 'bg-gray-100' : ''
+            }`}
           />
         </div>
+        <InstallmentPlanEditor
+          netFee={effectiveTotalFee}
+          startDate={formData.membershipStart}
+          value={installments}
+          onChange={setInstallments}
+        />
         <div>
           <label htmlFor="cash" className="block text-sm font-medium text-gray-700 mb-1">
             Cash Payment
@@ -710,6 +903,19 @@ const AddStudentForm: React.FC = () => {
             className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-gray-100"
           />
         </div>
+        <div>
+          <label htmlFor="dateOfBirth" className="block text-sm font-medium text-gray-700 mb-1">
+            Date of Birth
+          </label>
+          <input
+            type="date"
+            id="dateOfBirth"
+            name="dateOfBirth"
+            value={formData.dateOfBirth}
+            onChange={handleChange}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-300"
+          />
+        </div>
         <div>
           <label htmlFor="preparingFor" className="block text-sm font-medium text-gray-700 mb-1">
             Preparing For
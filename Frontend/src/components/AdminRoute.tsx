@@ -11,6 +11,12 @@ const AdminRoute: React.FC<AdminRouteProps> = ({ children }) => {
   if (!user || user.role !== 'admin') {
     return <Navigate to="/login" />;
   }
+  if (user.mustChangePassword) {
+    return <Navigate to="/change-password" />;
+  }
+  if (user.twoFactorSetupRequired) {
+    return <Navigate to="/two-factor-setup" />;
+  }
   return <>{children}</>;
 };
 
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import api, { Coupon, CouponInput } from '../services/api';
+
+interface CouponsPanelProps {
+  branchFilter?: number;
+  branches: { id: number; name: string }[];
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyCoupon = (): CouponInput => ({
+  code: '', description: '', branchId: null, discountType: 'percent', discountValue: 0,
+  validFrom: today(), validTo: today(), maxUses: null, isActive: true,
+});
+
+const money = (value: string | number) => `Rs. ${Number(value).toFixed(2)}`;
+
+// Coupon codes entered at admission or renewal, with how often each was used.
+const CouponsPanel: React.FC<CouponsPanelProps> = ({ branchFilter, branches }) => {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<CouponInput>(emptyCoupon());
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [open, setOpen] = useState(false);
+
+  const couponsQuery = useQuery({ queryKey: ['coupons', branchFilter], queryFn: () => api.getCoupons(branchFilter) });
+
+  const saveCoupon = useMutation({
+    mutationFn: () => (editingId ? api.updateCoupon(editingId, form) : api.addCoupon(form)),
+    onSuccess: () => {
+      toast.success(editingId ? 'Coupon updated' : 'Coupon added');
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['coupons'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to save coupon'),
+  });
+
+  const deleteCoupon = useMutation({
+    mutationFn: (id: number) => api.deleteCoupon(id),
+    onSuccess: () => {
+      toast.success('Coupon deleted');
+      queryClient.invalidateQueries({ queryKey: ['coupons'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to delete coupon'),
+  });
+
+  const openCoupon = (coupon?: Coupon) => {
+    setEditingId(coupon ? coupon.id : null);
+    setForm(coupon ? {
+      code: coupon.code,
+      description: coupon.description || '',
+      branchId: coupon.branchId,
+      discountType: coupon.discountType,
+      discountValue: Number(coupon.discountValue),
+      validFrom: coupon.validFrom,
+      validTo: coupon.validTo,
+      maxUses: coupon.maxUses,
+      isActive: coupon.isActive,
+    } : { ...emptyCoupon(), branchId: branchFilter ?? null });
+    setOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!form.code.trim() || !form.validFrom || !form.validTo) {
+      toast.error('Enter the code and validity dates');
+      return;
+    }
+    if (form.validTo < form.validFrom) {
+      toast.error('Valid to must be on or after valid from');
+      return;
+    }
+    saveCoupon.mutate();
+  };
+
+  const coupons = couponsQuery.data?.coupons || [];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Coupons</h2>
+        <Button size="sm" onClick={() => openCoupon()} className="flex items-center gap-1"><Plus size={14} /> Add Coupon</Button>
+      </div>
+      {couponsQuery.isLoading ? <div>Loading...</div> : coupons.length === 0 ? (
+        <div className="text-sm text-gray-500">No coupons.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4">Code</th>
+                <th className="py-2 pr-4">Branch</th>
+                <th className="py-2 pr-4">Discount</th>
+                <th className="py-2 pr-4">Valid</th>
+                <th className="py-2 pr-4">Used</th>
+                <th className="py-2 pr-4 text-right">Given</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {coupons.map(coupon => (
+                <tr key={coupon.id} className={`border-b last:border-0 ${coupon.isActive ? '' : 'text-gray-400'}`}>
+                  <td className="py-2 pr-4">
+                    <div className="font-medium font-mono">{coupon.code}{!coupon.isActive && ' (inactive)'}</div>
+                    {coupon.description && <div className="text-xs text-gray-500">{coupon.description}</div>}
+                  </td>
+                  <td className="py-2 pr-4">{coupon.branchName || 'All branches'}</td>
+                  <td className="py-2 pr-4">
+                    {coupon.discountType === 'percent' ? `${Number(coupon.discountValue)}%` : money(coupon.discountValue)}
+                  </td>
+                  <td className="py-2 pr-4">{coupon.validFrom} – {coupon.validTo}</td>
+                  <td className="py-2 pr-4">{coupon.timesUsed}{coupon.maxUses !== null && ` / ${coupon.maxUses}`}</td>
+                  <td className="py-2 pr-4 text-right">{money(coupon.totalDiscount)}</td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <Button size="sm" variant="ghost" onClick={() => openCoupon(coupon)}><Edit size={14} /></Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => window.confirm(`Delete the coupon ${coupon.code}?`) && deleteCoupon.mutate(coupon.id)}
+                    >
+                      <Trash2 size={14} className="text-red-500" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Coupon' : 'Add Coupon'}</DialogTitle>
+            <DialogDescription>
+              Redeemable between the dates, once per student, up to the usage limit. Applied after any offer.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="couponCode" className="text-sm text-gray-600">Code</label>
+                <Input id="couponCode" placeholder="e.g. DIWALI20" value={form.code} onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })} />
+              </div>
+              <div>
+                <label htmlFor="couponBranch" className="text-sm text-gray-600">Branch</label>
+                <select
+                  id="couponBranch"
+                  value={form.branchId ?? ''}
+                  onChange={(e) => setForm({ ...form, branchId: e.target.value ? Number(e.target.value) : null })}
+                  className="w-full h-10 px-3 border rounded-md bg-white text-sm"
+                >
+                  <option value="">All branches</option>
+                  {branches.map(branch => <option key={branch.id} value={branch.id}>{branch.name}</option>)}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="couponDescription" className="text-sm text-gray-600">Description</label>
+              <Input id="couponDescription" placeholder="e.g. Diwali promotion" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="couponType" className="text-sm text-gray-600">Discount type</label>
+                <select
+                  id="couponType"
+                  value={form.discountType}
+                  onChange={(e) => setForm({ ...form, discountType: e.target.value as CouponInput['discountType'] })}
+                  className="w-full h-10 px-3 border rounded-md bg-white text-sm"
+                >
+                  <option value="percent">Percentage</option>
+                  <option value="flat">Flat amount</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="couponValue" className="text-sm text-gray-600">Discount</label>
+                <Input id="couponValue" type="number" min={0} value={form.discountValue} onChange={(e) => setForm({ ...form, discountValue: Number(e.target.value) })} />
+              </div>
+              <div>
+                <label htmlFor="couponFrom" className="text-sm text-gray-600">Valid from</label>
+                <Input id="couponFrom" type="date" value={form.validFrom} onChange={(e) => setForm({ ...form, validFrom: e.target.value })} />
+              </div>
+              <div>
+                <label htmlFor="couponTo" className="text-sm text-gray-600">Valid to</label>
+                <Input id="couponTo" type="date" value={form.validTo} onChange={(e) => setForm({ ...form, validTo: e.target.value })} />
+              </div>
+              <div>
+                <label htmlFor="couponMaxUses" className="text-sm text-gray-600">Usage limit</label>
+                <Input
+                  id="couponMaxUses"
+                  type="number"
+                  min={1}
+                  placeholder="Unlimited"
+                  value={form.maxUses ?? ''}
+                  onChange={(e) => setForm({ ...form, maxUses: e.target.value ? Number(e.target.value) : null })}
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={form.isActive} onChange={(e) => setForm({ ...form, isActive: e.target.checked })} />
+              Active
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saveCoupon.isPending}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CouponsPanel;
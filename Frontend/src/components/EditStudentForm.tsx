@@ -29,6 +29,7 @@ interface Student {
   discount?: number | null;
   remark: string | null;
   preparingFor?: string | null;
+  dateOfBirth?: string | null;
   profileImageUrl?: string | null;
   aadhaarFrontUrl?: string | null;
   aadhaarBackUrl?: string | null;
@@ -99,6 +100,7 @@ interface FormData {
   remark: string;
   discount: string;
   preparingFor?: string;
+  dateOfBirth: string;
   profileImage: File | null;
   profileImageUrl: string;
   aadhaarFrontImage: File | null;
@@ -129,9 +131,11 @@ interface UpdateStudentPayload {
   securityMoney: number;
   remark: string;
   preparingFor: string;
+  dateOfBirth: string | null;
   profileImageUrl: string;
   aadhaarFrontUrl: string;
   aadhaarBackUrl: string;
+  feeOverrideReason?: string;
 }
 
 const EditStudentForm: React.FC = () => {
@@ -158,6 +162,7 @@ const EditStudentForm: React.FC = () => {
     remark: '',
     discount: '0',
     preparingFor: '',
+    dateOfBirth: '',
     profileImage: null,
     profileImageUrl: '',
     aadhaarFrontImage: null,
@@ -172,6 +177,9 @@ const EditStudentForm: React.FC = () => {
   const [loadingSeats, setLoadingSeats] = useState(false);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
+  // Fee and discount as saved, so a change can be told apart and explained.
+  const [savedFee, setSavedFee] = useState({ totalFee: 0, discount: 0 });
+  const [feeOverrideReason, setFeeOverrideReason] = useState('');
 
   const studentId = id ? parseInt(id, 10) : NaN;
   if (isNaN(studentId)) {
@@ -212,6 +220,7 @@ const EditStudentForm: React.FC = () => {
           discount: student.discount ? student.discount.toString() : '0',
           remark: student.remark || '',
           preparingFor: student.preparingFor || '',
+          dateOfBirth: student.dateOfBirth || '',
           profileImage: null,
           profileImageUrl: student.profileImageUrl || '',
           aadhaarFrontImage: null,
@@ -219,6 +228,7 @@ const EditStudentForm: React.FC = () => {
           aadhaarBackImage: null,
           aadhaarBackUrl: student.aadhaarBackUrl || '',
         });
+        setSavedFee({ totalFee: student.totalFee || 0, discount: student.discount || 0 });
 
         const formattedSchedules = shiftsResponse.schedules.map((schedule: any) => ({
             ...schedule,
@@ -336,6 +346,10 @@ const EditStudentForm: React.FC = () => {
       toast.error('Please fill in all required fields: Name, Phone, Address, Branch, Membership Start, Membership End');
       return;
     }
+    if (feeChanged && !feeOverrideReason.trim()) {
+      toast.error('Enter a reason for changing the fee or discount');
+      return;
+    }
 
     setSubmitting(true);
     try {
@@ -385,9 +399,11 @@ const EditStudentForm: React.FC = () => {
         securityMoney: parseFloat(formData.securityMoney) || 0,
         remark: formData.remark || '',
         preparingFor: formData.preparingFor || '',
+        dateOfBirth: formData.dateOfBirth || null,
         profileImageUrl: profileImageUrl || '',
         aadhaarFrontUrl: aadhaarFrontUrl || '',
         aadhaarBackUrl: aadhaarBackUrl || '',
+        feeOverrideReason: feeChanged ? feeOverrideReason.trim() : undefined,
       };
 
       await api.updateStudent(studentId, payload);
@@ -435,6 +451,9 @@ const EditStudentForm: React.FC = () => {
   const effectiveTotalFee = (parseFloat(formData.totalFee) || 0) - (parseFloat(formData.discount) || 0);
   const dueAmount = effectiveTotalFee - totalAmountPaid;
   const isFeeReadOnly = formData.shiftIds.length === 1;
+  const feeChanged =
+    Math.abs((parseFloat(formData.totalFee) || 0) - savedFee.totalFee) > 0.005 ||
+    Math.abs((parseFloat(formData.discount) || 0) - savedFee.discount) > 0.005;
 
   if (loading) {
     return <div className="p-6 text-center">Loading...</div>;
@@ -633,6 +652,21 @@ const EditStudentForm: React.FC = () => {
             className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-300"
           />
         </div>
+        {feeChanged && (
+          <div>
+            <label htmlFor="feeOverrideReason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason for changing the fee
+            </label>
+            <input
+              type="text"
+              id="feeOverrideReason"
+              value={feeOverrideReason}
+              onChange={(e) => setFeeOverrideReason(e.target.value)}
+              placeholder="Needs the override fees permission"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-300"
+            />
+          </div>
+        )}
         <div>
           <label htmlFor="cash" className="block text-sm font-medium text-gray-700 mb-1">Cash Payment</label>
           <input
@@ -694,6 +728,17 @@ const EditStudentForm: React.FC = () => {
             className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-gray-100"
           />
         </div>
+        <div>
+          <label htmlFor="dateOfBirth" className="block text-sm font-medium text-gray-700 mb-1">Date of Birth</label>
+          <input
+            type="date"
+            id="dateOfBirth"
+            name="dateOfBirth"
+            value={formData.dateOfBirth}
+            onChange={handleChange}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-300"
+          />
+        </div>
         <div>
           <label htmlFor="preparingFor" className="block text-sm font-medium text-gray-700 mb-1">Preparing For</label>
           <input
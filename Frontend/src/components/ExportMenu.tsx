@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Download, FileSpreadsheet, FileText, FileDown } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ExportColumn, exportToCsv, exportToPdf, exportToXlsx } from '../lib/export';
+import logo from './logo.png';
+
+interface ExportMenuProps<T> {
+  title: string;
+  fileName: string;
+  columns: ExportColumn<T>[];
+  // Rows exactly as the page shows them: already filtered and sorted, not paginated.
+  rows: T[];
+  branchName?: string | null;
+  filters?: string[];
+}
+
+const ExportMenu = <T,>({ title, fileName, columns, rows, branchName, filters }: ExportMenuProps<T>) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: 'csv' | 'xlsx' | 'pdf') => {
+    if (rows.length === 0) {
+      toast.error('Nothing to export');
+      return;
+    }
+    const options = { title, fileName, branchName, filters, logoUrl: logo };
+    try {
+      setExporting(true);
+      if (format === 'csv') exportToCsv(columns, rows, options);
+      else if (format === 'xlsx') exportToXlsx(columns, rows, options);
+      else await exportToPdf(columns, rows, options);
+    } catch (error) {
+      console.error(`Failed to export ${format}:`, error);
+      toast.error(`Failed to export ${format.toUpperCase()}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={exporting} className="flex items-center gap-2">
+          <Download size={16} />
+          {exporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport('csv')}>
+          <FileText size={14} className="mr-2" /> CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+          <FileSpreadsheet size={14} className="mr-2" /> Excel (XLSX)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('pdf')}>
+          <FileDown size={14} className="mr-2" /> PDF
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { FeeQuote } from '../services/api';
+
+interface FeeQuoteFieldsProps {
+  quote: FeeQuote | null;
+  durations: number[];
+  canOverride: boolean;
+  isFetching: boolean;
+  error: Error | null;
+  months: number;
+  onMonthsChange: (months: number) => void;
+  override: boolean;
+  onOverrideChange: (override: boolean) => void;
+  reason: string;
+  onReasonChange: (reason: string) => void;
+}
+
+const money = (value: number) => `Rs. ${value.toFixed(2)}`;
+
+// Duration picker and the breakdown of the fee worked out from the fee plan,
+// with the override switch for users allowed to charge something else.
+const FeeQuoteFields: React.FC<FeeQuoteFieldsProps> = ({
+  quote, durations, canOverride, isFetching, error, months, onMonthsChange, override, onOverrideChange, reason, onReasonChange,
+}) => (
+  <div className="space-y-2">
+    <div>
+      <label htmlFor="durationMonths" className="block text-sm font-medium text-gray-700 mb-1">
+        Duration *
+      </label>
+      <select
+        id="durationMonths"
+        value={months}
+        onChange={(e) => onMonthsChange(Number(e.target.value))}
+        className="w-full h-10 px-3 border border-gray-300 rounded-lg bg-white text-sm"
+      >
+        {durations.map(duration => (
+          <option key={duration} value={duration}>{duration} month{duration === 1 ? '' : 's'}</option>
+        ))}
+      </select>
+    </div>
+    <div className="text-xs text-gray-600 rounded-md bg-gray-50 p-2">
+      {error ? (
+        <span className="text-red-500">{error.message || 'Could not work out the fee'}</span>
+      ) : !quote ? (
+        isFetching ? 'Working out the fee...' : 'Choose the branch and start date to work out the fee.'
+      ) : (
+        <>
+          {quote.planName ? `Plan "${quote.planName}"` : 'No plan for these shifts, shift fee × months'}
+          {`: ${money(quote.baseFee)}`}
+          {quote.lockerFee > 0 && ` + locker ${money(quote.lockerFee)}`}
+          {quote.offerName && ` · offer "${quote.offerName}" −${money(quote.offerDiscount)}`}
+          {quote.promotions && quote.promotions.total > 0 && ` · promotions −${money(quote.promotions.total)}`}
+          {quote.securityDeposit > 0 && ` · deposit ${money(quote.securityDeposit)}`}
+          {` · ends ${quote.membershipEnd}`}
+        </>
+      )}
+    </div>
+    {canOverride && (
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={override} onChange={(e) => onOverrideChange(e.target.checked)} />
+        Override fee, discount or end date
+      </label>
+    )}
+    {override && (
+      <input
+        type="text"
+        aria-label="Override reason"
+        placeholder="Reason for the override *"
+        value={reason}
+        onChange={(e) => onReasonChange(e.target.value)}
+        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-300"
+      />
+    )}
+  </div>
+);
+
+export default FeeQuoteFields;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { addMonths, format, parseISO } from 'date-fns';
+import { InstallmentInput } from '../services/api';
+
+interface InstallmentPlanEditorProps {
+  // Fee after discount that the installments have to add up to.
+  netFee: number;
+  // First due date when the schedule is generated (YYYY-MM-DD).
+  startDate: string;
+  value: InstallmentInput[];
+  onChange: (installments: InstallmentInput[]) => void;
+}
+
+const COUNTS = [2, 3, 4, 6];
+
+// Equal monthly installments from the start date; the last one takes the rounding.
+const splitEvenly = (netFee: number, startDate: string, count: number): InstallmentInput[] => {
+  const base = Math.floor((netFee / count) * 100) / 100;
+  const start = startDate ? parseISO(startDate) : new Date();
+  return Array.from({ length: count }, (_, index) => ({
+    dueDate: format(addMonths(start, index), 'yyyy-MM-dd'),
+    amount: index === count - 1 ? Math.round((netFee - base * (count - 1)) * 100) / 100 : base,
+  }));
+};
+
+// Optional split of a membership fee into dated installments.
+const InstallmentPlanEditor: React.FC<InstallmentPlanEditorProps> = ({ netFee, startDate, value, onChange }) => {
+  const total = value.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
+  const mismatch = value.length > 0 && Math.abs(total - netFee) > 0.01;
+
+  const updateRow = (index: number, changes: Partial<InstallmentInput>) => {
+    onChange(value.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label htmlFor="installmentCount" className="block text-sm font-medium text-gray-700 mb-1">
+          Payment Schedule
+        </label>
+        <select
+          id="installmentCount"
+          value={value.length}
+          onChange={(e) => {
+            const count = Number(e.target.value);
+            onChange(count > 0 ? splitEvenly(netFee, startDate, count) : []);
+          }}
+          disabled={netFee <= 0}
+          className="w-full h-10 px-3 border border-gray-300 rounded-lg bg-white text-sm"
+        >
+          <option value={0}>Single payment</option>
+          {COUNTS.map(count => <option key={count} value={count}>{count} installments</option>)}
+        </select>
+      </div>
+      {value.length > 0 && (
+        <div className="space-y-2">
+          {value.map((item, index) => (
+            <div key={index} className="grid grid-cols-[2rem_1fr_1fr] gap-2 items-center">
+              <span className="text-sm text-gray-500">#{index + 1}</span>
+              <input
+                type="date"
+                aria-label={`Installment ${index + 1} due date`}
+                value={item.dueDate}
+                onChange={(e) => updateRow(index, { dueDate: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <input
+                type="number"
+                aria-label={`Installment ${index + 1} amount`}
+                value={item.amount}
+                min="0"
+                step="0.01"
+                onChange={(e) => updateRow(index, { amount: parseFloat(e.target.value) || 0 })}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+          ))}
+          <div className="flex items-center justify-between text-xs">
+            <span className={mismatch ? 'text-red-600' : 'text-gray-500'}>
+              Total ₹{total.toFixed(2)} of ₹{netFee.toFixed(2)}
+            </span>
+            <button
+              type="button"
+              onClick={() => onChange(splitEvenly(netFee, startDate, value.length))}
+              className="text-purple-600 hover:text-purple-800"
+            >
+              Split evenly again
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InstallmentPlanEditor;
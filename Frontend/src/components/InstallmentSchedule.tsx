@@ -0,0 +1,84 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import api, { FeeInstallment } from '../services/api';
+
+interface InstallmentScheduleProps {
+  studentId: number;
+}
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-IN', { dateStyle: 'medium' }) : '';
+
+const statusBadge = (installment: FeeInstallment) => {
+  if (installment.isOverdue) return { label: 'Overdue', className: 'bg-red-100 text-red-700' };
+  if (installment.status === 'paid') return { label: 'Paid', className: 'bg-green-100 text-green-700' };
+  if (installment.status === 'partial') return { label: 'Part paid', className: 'bg-amber-100 text-amber-700' };
+  return { label: 'Upcoming', className: 'bg-gray-100 text-gray-700' };
+};
+
+// Installments of each membership period, latest period first.
+const InstallmentSchedule: React.FC<InstallmentScheduleProps> = ({ studentId }) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['installments', studentId],
+    queryFn: () => api.getStudentInstallments(studentId),
+  });
+
+  if (isLoading) return <div className="text-sm text-gray-500">Loading installments...</div>;
+  if (error) return <div className="text-sm text-red-500">Error loading installments: {(error as Error).message}</div>;
+
+  const installments = data?.installments || [];
+  if (installments.length === 0) return <div className="text-sm text-gray-500">No installment plan; fees are due in one payment.</div>;
+
+  const periods = installments.reduce((groups, installment) => {
+    const last = groups[groups.length - 1];
+    if (last && last[0].historyId === installment.historyId) {
+      last.push(installment);
+    } else {
+      groups.push([installment]);
+    }
+    return groups;
+  }, [] as FeeInstallment[][]);
+
+  return (
+    <div className="space-y-4">
+      {periods.map(period => (
+        <div key={period[0].historyId}>
+          <div className="text-sm font-medium text-gray-700 mb-1">
+            Membership {formatDate(period[0].membershipStart)} – {formatDate(period[0].membershipEnd)}
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-1 pr-4">#</th>
+                <th className="py-1 pr-4">Due</th>
+                <th className="py-1 pr-4 text-right">Amount</th>
+                <th className="py-1 pr-4 text-right">Paid</th>
+                <th className="py-1 pr-4 text-right">Left</th>
+                <th className="py-1">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {period.map(installment => {
+                const badge = statusBadge(installment);
+                return (
+                  <tr key={installment.id} className="border-b last:border-0">
+                    <td className="py-1 pr-4">{installment.installmentNo}</td>
+                    <td className="py-1 pr-4">{formatDate(installment.dueDate)}</td>
+                    <td className="py-1 pr-4 text-right">₹{installment.amount.toFixed(2)}</td>
+                    <td className="py-1 pr-4 text-right">₹{installment.paidAmount.toFixed(2)}</td>
+                    <td className="py-1 pr-4 text-right">₹{installment.remaining.toFixed(2)}</td>
+                    <td className="py-1">
+                      <span className={`px-2 py-0.5 rounded text-xs ${badge.className}`}>{badge.label}</span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default InstallmentSchedule;
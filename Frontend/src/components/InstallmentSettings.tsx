@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import api from '../services/api';
+
+interface InstallmentSettingsData {
+  installmentReminderDays?: string;
+  installmentWhatsappTemplate?: string;
+}
+
+// Admin card for installment reminders: how many days before the due date the
+// first WhatsApp goes out and which template is used.
+const InstallmentSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { data: settings, isLoading, error } = useQuery<InstallmentSettingsData>({
+    queryKey: ['settings'],
+    queryFn: api.getSettings,
+  });
+  const [form, setForm] = useState({ reminderDays: '3', template: '' });
+
+  useEffect(() => {
+    if (settings) {
+      setForm({
+        reminderDays: settings.installmentReminderDays ?? '3',
+        template: settings.installmentWhatsappTemplate || '',
+      });
+    }
+  }, [settings]);
+
+  const mutation = useMutation({
+    mutationFn: () => api.updateSettings({
+      installmentReminderDays: parseInt(form.reminderDays, 10),
+      installmentWhatsappTemplate: form.template.trim() || undefined,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      toast.success('Installment settings updated');
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to update installment settings'),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const reminderDays = parseInt(form.reminderDays, 10);
+    if (isNaN(reminderDays) || reminderDays < 0) {
+      toast.error('Reminder days must be zero or more');
+      return;
+    }
+    mutation.mutate();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-xl font-semibold mb-4">Installment Reminders</h3>
+      {isLoading ? <div>Loading...</div> : error ? <div>Error...</div> : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="installmentReminderDays">Remind Before Due Date (Days)</label>
+            <Input
+              id="installmentReminderDays"
+              type="number"
+              min={0}
+              value={form.reminderDays}
+              onChange={(e) => setForm({ ...form, reminderDays: e.target.value })}
+            />
+            <p className="text-xs text-gray-500 mt-1">Overdue installments are reminded again every week until paid.</p>
+          </div>
+          <div>
+            <label htmlFor="installmentWhatsappTemplate">WhatsApp Template</label>
+            <Input
+              id="installmentWhatsappTemplate"
+              placeholder="installment_reminder"
+              value={form.template}
+              onChange={(e) => setForm({ ...form, template: e.target.value })}
+            />
+            <p className="text-xs text-gray-500 mt-1">Body parameters: name, amount left, due date.</p>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={mutation.isPending}>Save Installment Settings</Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default InstallmentSettings;
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { PauseCircle, PlayCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import api, { MembershipPause, PauseSeatAction } from '../services/api';
+
+interface MembershipPausesProps {
+  studentId: number;
+  activePause: MembershipPause | null;
+  // Called after a pause or resume so the page can reload the membership dates.
+  onChange: () => void;
+}
+
+// Local date; toISOString would give the UTC date, a day behind before 05:30 IST.
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-IN', { dateStyle: 'medium' }) : '';
+
+// Pause (freeze) and resume actions for a membership plus its pause history.
+const MembershipPauses: React.FC<MembershipPausesProps> = ({ studentId, activePause, onChange }) => {
+  const queryClient = useQueryClient();
+  const [pauseOpen, setPauseOpen] = useState(false);
+  const [resumeOpen, setResumeOpen] = useState(false);
+  const [form, setForm] = useState({ pausedOn: today(), expectedResumeOn: '', seatAction: '' as PauseSeatAction | '', reason: '' });
+  const [resumedOn, setResumedOn] = useState(today());
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['pauses', studentId],
+    queryFn: () => api.getStudentPauses(studentId),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['pauses', studentId] });
+    queryClient.invalidateQueries({ queryKey: ['seatHistory'] });
+    onChange();
+  };
+
+  const pauseMutation = useMutation({
+    mutationFn: () => api.pauseStudent(studentId, {
+      pausedOn: form.pausedOn,
+      expectedResumeOn: form.expectedResumeOn || undefined,
+      seatAction: form.seatAction || undefined,
+      reason: form.reason.trim() || undefined,
+    }),
+    onSuccess: () => {
+      toast.success('Membership paused');
+      setPauseOpen(false);
+      refresh();
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to pause membership'),
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: () => api.resumeStudent(studentId, resumedOn),
+    onSuccess: (result) => {
+      if (result.seatRestored === false) {
+        toast.warning(result.message);
+      } else {
+        toast.success(`Membership resumed, now ends on ${formatDate(result.membershipEnd)}`);
+      }
+      setResumeOpen(false);
+      refresh();
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to resume membership'),
+  });
+
+  const openPause = () => {
+    setForm({ pausedOn: today(), expectedResumeOn: '', seatAction: '', reason: '' });
+    setPauseOpen(true);
+  };
+
+  const openResume = () => {
+    setResumedOn(today());
+    setResumeOpen(true);
+  };
+
+  const handlePause = () => {
+    if (!form.pausedOn) {
+      toast.error('Select the pause date');
+      return;
+    }
+    if (form.pausedOn > today()) {
+      toast.error('A pause cannot start in the future');
+      return;
+    }
+    if (form.expectedResumeOn && form.expectedResumeOn < form.pausedOn) {
+      toast.error('Expected resume date must be on or after the pause date');
+      return;
+    }
+    pauseMutation.mutate();
+  };
+
+  const pauses = data?.pauses || [];
+  const resumeDays = activePause && resumedOn
+    ? Math.max(Math.round((new Date(resumedOn).getTime() - new Date(activePause.pausedOn).getTime()) / 86400000), 0)
+    : 0;
+
+  return (
+    <div>
+      {activePause ? (
+        <div className="flex flex-wrap items-center justify-between gap-3 p-3 mb-3 rounded-md bg-amber-50 border border-amber-200 text-sm">
+          <span>
+            Paused since {formatDate(activePause.pausedOn)}
+            {activePause.expectedResumeOn && `, expected back ${formatDate(activePause.expectedResumeOn)}`}
+            {' · '}seat {activePause.seatAction === 'release' ? 'released' : 'held'}
+          </span>
+          <Button size="sm" onClick={openResume} className="flex items-center gap-1">
+            <PlayCircle size={14} /> Resume
+          </Button>
+        </div>
+      ) : (
+        <Button size="sm" variant="outline" onClick={openPause} className="flex items-center gap-1 mb-3">
+          <PauseCircle size={14} /> Pause Membership
+        </Button>
+      )}
+
+      {isLoading ? (
+        <div className="text-sm text-gray-500">Loading pauses...</div>
+      ) : pauses.length === 0 ? (
+        <div className="text-sm text-gray-500">No pauses.</div>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {pauses.map(pause => (
+            <li key={pause.id} className="p-2 rounded-md bg-gray-50">
+              <div className="font-medium">
+                {formatDate(pause.pausedOn)} – {pause.resumedOn ? formatDate(pause.resumedOn) : 'paused'}
+                {pause.daysPaused !== null && ` · ${pause.daysPaused} day(s), end date moved from ${formatDate(pause.previousMembershipEnd)}`}
+              </div>
+              <div className="text-xs text-gray-500">
+                Seat {pause.seatAction === 'release' ? 'released' : 'held'}
+                {pause.reason && ` · ${pause.reason}`}
+                {pause.createdByName && ` · by ${pause.createdByName}`}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={pauseOpen} onOpenChange={setPauseOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Pause Membership</DialogTitle>
+            <DialogDescription>
+              The end date is pushed out by the paused days when the student resumes.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="pausedOn" className="text-sm text-gray-600">Pause from</label>
+                <Input id="pausedOn" type="date" max={today()} value={form.pausedOn} onChange={(e) => setForm({ ...form, pausedOn: e.target.value })} />
+              </div>
+              <div>
+                <label htmlFor="expectedResumeOn" className="text-sm text-gray-600">Expected back</label>
+                <Input id="expectedResumeOn" type="date" value={form.expectedResumeOn} onChange={(e) => setForm({ ...form, expectedResumeOn: e.target.value })} />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="pauseSeatAction" className="text-sm text-gray-600">Seat while paused</label>
+              <select
+                id="pauseSeatAction"
+                value={form.seatAction}
+                onChange={(e) => setForm({ ...form, seatAction: e.target.value as PauseSeatAction | '' })}
+                className="w-full h-10 px-3 border rounded-md bg-white text-sm"
+              >
+                <option value="">Library default</option>
+                <option value="hold">Hold the seat</option>
+                <option value="release">Release the seat for others</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="pauseReason" className="text-sm text-gray-600">Reason</label>
+              <Input id="pauseReason" placeholder="e.g. Going home for exams" value={form.reason} onChange={(e) => setForm({ ...form, reason: e.target.value })} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPauseOpen(false)}>Cancel</Button>
+            <Button onClick={handlePause} disabled={pauseMutation.isPending}>Pause</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={resumeOpen} onOpenChange={setResumeOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resume Membership</DialogTitle>
+            <DialogDescription>
+              The membership end date moves out by {resumeDays} day(s).
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <label htmlFor="resumedOn" className="text-sm text-gray-600">Back from</label>
+            <Input id="resumedOn" type="date" max={today()} value={resumedOn} onChange={(e) => setResumedOn(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResumeOpen(false)}>Cancel</Button>
+            <Button onClick={() => resumeMutation.mutate()} disabled={resumeMutation.isPending || !resumedOn}>Resume</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MembershipPauses;
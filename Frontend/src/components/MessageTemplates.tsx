@@ -0,0 +1,346 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import api, { MessageChannel, MessageTemplate, MessageTemplateInput, MessageTemplatePreview } from '../services/api';
+
+const CHANNEL_LABELS: Record<MessageChannel, string> = {
+  whatsapp: 'WhatsApp',
+  email: 'Email',
+  sms: 'SMS',
+};
+
+const emptyTemplate = (): MessageTemplateInput => ({
+  event: 'admission_welcome', channel: 'whatsapp', branchId: null,
+  subject: '', body: '', providerTemplate: '', isActive: true,
+});
+
+// Admin card for the in-app message templates: one per event and channel, for
+// every branch or one branch, with a live preview against a real student.
+const MessageTemplates: React.FC = () => {
+  const queryClient = useQueryClient();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [form, setForm] = useState<MessageTemplateInput>(emptyTemplate());
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [open, setOpen] = useState(false);
+  const [studentSearch, setStudentSearch] = useState('');
+  const [previewStudentId, setPreviewStudentId] = useState<number | null>(null);
+  const [preview, setPreview] = useState<MessageTemplatePreview | null>(null);
+
+  const templatesQuery = useQuery({ queryKey: ['messageTemplates'], queryFn: api.getMessageTemplates });
+  const { data: branches = [] } = useQuery({ queryKey: ['branches'], queryFn: api.getBranches });
+  const { data: studentsData } = useQuery({
+    queryKey: ['students', 'templatePreview'],
+    queryFn: () => api.getStudents(),
+    enabled: open,
+  });
+
+  // Re-render the preview shortly after the last keystroke
+  useEffect(() => {
+    if (!open || !previewStudentId || !form.body.trim()) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      api.previewMessageTemplate({
+        event: form.event, subject: form.subject, body: form.body, providerTemplate: form.providerTemplate, studentId: previewStudentId,
+      })
+        .then(result => { if (!cancelled) setPreview(result); })
+        .catch((err: Error) => { if (!cancelled) toast.error(err.message || 'Failed to preview template'); });
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, previewStudentId, form.event, form.subject, form.body, form.providerTemplate]);
+
+  const saveTemplate = useMutation({
+    mutationFn: () => (editingId ? api.updateMessageTemplate(editingId, form) : api.addMessageTemplate(form)),
+    onSuccess: () => {
+      toast.success(editingId ? 'Template updated' : 'Template added');
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['messageTemplates'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to save template'),
+  });
+
+  const deleteTemplate = useMutation({
+    mutationFn: (id: number) => api.deleteMessageTemplate(id),
+    onSuccess: () => {
+      toast.success('Template deleted');
+      queryClient.invalidateQueries({ queryKey: ['messageTemplates'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to delete template'),
+  });
+
+  const openTemplate = (template?: MessageTemplate) => {
+    setEditingId(template ? template.id : null);
+    setForm(template ? {
+      event: template.event,
+      channel: template.channel,
+      branchId: template.branchId,
+      subject: template.subject || '',
+      body: template.body,
+      providerTemplate: template.providerTemplate || '',
+      isActive: template.isActive,
+    } : emptyTemplate());
+    setOpen(true);
+  };
+
+  // Puts {{key}} at the cursor of the message text
+  const insertPlaceholder = (key: string) => {
+    const textarea = bodyRef.current;
+    const token = `{{${key}}}`;
+    const start = textarea ? textarea.selectionStart : form.body.length;
+    const end = textarea ? textarea.selectionEnd : form.body.length;
+    setForm({ ...form, body: form.body.slice(0, start) + token + form.body.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSave = () => {
+    if (!form.body.trim()) {
+      toast.error('Enter the message text');
+      return;
+    }
+    if (form.channel === 'email' && !form.subject.trim() && !form.providerTemplate.trim()) {
+      toast.error('Email templates need a subject');
+      return;
+    }
+    saveTemplate.mutate();
+  };
+
+  const templates = templatesQuery.data?.templates || [];
+  const events = templatesQuery.data?.events || [];
+  const placeholders = templatesQuery.data?.placeholders || [];
+  const eventLabel = (key: string) => events.find(event => event.key === key)?.label || key;
+  const search = studentSearch.trim().toLowerCase();
+  const matchingStudents = search
+    ? (studentsData?.students || [])
+      .filter(student => student.name.toLowerCase().includes(search) || (student.phone || '').includes(search))
+      .slice(0, 8)
+    : [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold">Message Templates</h3>
+        <Button size="sm" onClick={() => openTemplate()} className="flex items-center gap-1"><Plus size={14} /> Add Template</Button>
+      </div>
+      {templatesQuery.isLoading ? <div>Loading...</div> : templatesQuery.error ? <div>Error...</div> : templates.length === 0 ? (
+        <div className="text-sm text-gray-500">No templates. Reminders use the provider templates set above.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4">Event</th>
+                <th className="py-2 pr-4">Channel</th>
+                <th className="py-2 pr-4">Branch</th>
+                <th className="py-2 pr-4">Message</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {templates.map(template => (
+                <tr key={template.id} className={`border-b last:border-0 align-top ${template.isActive ? '' : 'text-gray-400'}`}>
+                  <td className="py-2 pr-4">{eventLabel(template.event)}{!template.isActive && ' (inactive)'}</td>
+                  <td className="py-2 pr-4">{CHANNEL_LABELS[template.channel]}</td>
+                  <td className="py-2 pr-4">{template.branchName || 'All branches'}</td>
+                  <td className="py-2 pr-4">
+                    {template.subject && <div className="font-medium">{template.subject}</div>}
+                    <div className="text-xs text-gray-500 line-clamp-2 whitespace-pre-line">{template.body}</div>
+                    {template.providerTemplate && <div className="text-xs text-gray-500">via {template.providerTemplate}</div>}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <Button size="sm" variant="ghost" onClick={() => openTemplate(template)}><Edit size={14} /></Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => window.confirm('Delete this template?') && deleteTemplate.mutate(template.id)}
+                    >
+                      <Trash2 size={14} className="text-red-500" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Template' : 'Add Template'}</DialogTitle>
+            <DialogDescription>
+              A branch template replaces the one for all branches. Placeholders are filled in when the message is queued.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label htmlFor="templateEvent" className="text-sm text-gray-600">Event</label>
+                  <select
+                    id="templateEvent"
+                    value={form.event}
+                    onChange={(e) => setForm({ ...form, event: e.target.value })}
+                    className="w-full h-10 px-3 border rounded-md bg-white text-sm"
+                  >
+                    {events.map(event => <option key={event.key} value={event.key}>{event.label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="templateChannel" className="text-sm text-gray-600">Channel</label>
+                  <select
+                    id="templateChannel"
+                    value={form.channel}
+                    onChange={(e) => setForm({ ...form, channel: e.target.value as MessageChannel })}
+                    className="w-full h-10 px-3 border rounded-md bg-white text-sm"
+                  >
+                    {(Object.keys(CHANNEL_LABELS) as MessageChannel[]).map(channel => (
+                      <option key={channel} value={channel}>{CHANNEL_LABELS[channel]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="templateBranch" className="text-sm text-gray-600">Branch</label>
+                  <select
+                    id="templateBranch"
+                    value={form.branchId ?? ''}
+                    onChange={(e) => setForm({ ...form, branchId: e.target.value ? Number(e.target.value) : null })}
+                    className="w-full h-10 px-3 border rounded-md bg-white text-sm"
+                  >
+                    <option value="">All branches</option>
+                    {branches.map(branch => <option key={branch.id} value={branch.id}>{branch.name}</option>)}
+                  </select>
+                </div>
+              </div>
+              {form.channel === 'email' && (
+                <div>
+                  <label htmlFor="templateSubject" className="text-sm text-gray-600">Subject</label>
+                  <Input id="templateSubject" value={form.subject} onChange={(e) => setForm({ ...form, subject: e.target.value })} />
+                </div>
+              )}
+              <div>
+                <label htmlFor="templateBody" className="text-sm text-gray-600">Message</label>
+                <Textarea
+                  id="templateBody"
+                  ref={bodyRef}
+                  rows={6}
+                  placeholder="Hi {{name}}, your membership ends on {{membership_end}}."
+                  value={form.body}
+                  onChange={(e) => setForm({ ...form, body: e.target.value })}
+                />
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {placeholders.map(placeholder => (
+                    <button
+                      key={placeholder.key}
+                      type="button"
+                      title={placeholder.label}
+                      onClick={() => insertPlaceholder(placeholder.key)}
+                      className="px-2 py-0.5 rounded bg-purple-50 text-purple-700 text-xs font-mono hover:bg-purple-100"
+                    >
+                      {`{{${placeholder.key}}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {form.channel !== 'sms' && (
+                <div>
+                  <label htmlFor="templateProvider" className="text-sm text-gray-600">
+                    {form.channel === 'whatsapp' ? 'Approved WhatsApp template (optional)' : 'Brevo template id (optional)'}
+                  </label>
+                  <Input
+                    id="templateProvider"
+                    value={form.providerTemplate}
+                    onChange={(e) => setForm({ ...form, providerTemplate: e.target.value })}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {form.channel === 'whatsapp'
+                      ? 'Sent with the message placeholders as its parameters, in order. Without one the text is sent as is, which WhatsApp only delivers within 24 hours of the student writing to you.'
+                      : 'Sent with every placeholder as a template param instead of the text above.'}
+                  </p>
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={form.isActive} onChange={(e) => setForm({ ...form, isActive: e.target.checked })} />
+                Active
+              </label>
+            </div>
+
+            <div className="space-y-3">
+              <div className="relative">
+                <label htmlFor="templatePreviewStudent" className="text-sm text-gray-600">Preview for student</label>
+                <Input
+                  id="templatePreviewStudent"
+                  placeholder="Search by name or phone"
+                  value={studentSearch}
+                  onChange={(e) => setStudentSearch(e.target.value)}
+                />
+                {matchingStudents.length > 0 && (
+                  <div className="absolute z-10 mt-1 w-full bg-white border rounded-md shadow">
+                    {matchingStudents.map(student => (
+                      <button
+                        key={student.id}
+                        type="button"
+                        className="block w-full text-left px-3 py-1.5 text-sm hover:bg-gray-100"
+                        onClick={() => {
+                          setPreviewStudentId(student.id);
+                          setStudentSearch('');
+                        }}
+                      >
+                        {student.name} <span className="text-xs text-gray-500">{student.phone}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="rounded-md border bg-gray-50 p-3 min-h-[10rem] text-sm">
+                {!previewStudentId ? (
+                  <div className="text-gray-500">Pick a student to see the message as they would get it.</div>
+                ) : !preview ? (
+                  <div className="text-gray-500">Type a message to preview it.</div>
+                ) : (
+                  <>
+                    <div className="text-xs text-gray-500 mb-2">
+                      To {preview.student.name} ({form.channel === 'email' ? preview.student.email || 'no email' : preview.student.phone || 'no phone'})
+                    </div>
+                    {form.channel === 'email' && <div className="font-medium mb-1">{preview.subject}</div>}
+                    <div className="whitespace-pre-line">{preview.text}</div>
+                    {preview.unknownPlaceholders.length > 0 && (
+                      <div className="text-xs text-red-600 mt-2">
+                        Unknown placeholder(s): {preview.unknownPlaceholders.map(key => `{{${key}}}`).join(', ')}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saveTemplate.isPending}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MessageTemplates;
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import api, { MessageChannel } from '../services/api';
+
+interface MessagingSettingsData {
+  emailProvider?: string;
+  smsProvider?: string;
+  whatsappProvider?: string;
+  expiryWhatsappTemplate?: string;
+}
+
+const CHANNEL_LABELS: Record<MessageChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+  whatsapp: 'WhatsApp',
+};
+
+const DEFAULT_PROVIDERS: Record<MessageChannel, string> = {
+  email: 'brevo',
+  sms: 'brevo',
+  whatsapp: 'meta_whatsapp',
+};
+
+// Admin card choosing which provider sends each channel, the WhatsApp template
+// of expiry reminders, and a test send through the saved provider.
+const MessagingSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { data: settings, isLoading, error } = useQuery<MessagingSettingsData>({
+    queryKey: ['settings'],
+    queryFn: api.getSettings,
+  });
+  const { data: options } = useQuery({
+    queryKey: ['messagingProviders'],
+    queryFn: api.getMessagingProviders,
+  });
+  const [providers, setProviders] = useState<Record<MessageChannel, string>>(DEFAULT_PROVIDERS);
+  const [expiryTemplate, setExpiryTemplate] = useState('hello_world');
+  const [test, setTest] = useState<{ channel: MessageChannel; to: string }>({ channel: 'email', to: '' });
+
+  useEffect(() => {
+    if (settings) {
+      setProviders({
+        email: settings.emailProvider || DEFAULT_PROVIDERS.email,
+        sms: settings.smsProvider || DEFAULT_PROVIDERS.sms,
+        whatsapp: settings.whatsappProvider || DEFAULT_PROVIDERS.whatsapp,
+      });
+      setExpiryTemplate(settings.expiryWhatsappTemplate || 'hello_world');
+    }
+  }, [settings]);
+
+  const mutation = useMutation({
+    mutationFn: () => api.updateSettings({
+      emailProvider: providers.email,
+      smsProvider: providers.sms,
+      whatsappProvider: providers.whatsapp,
+      expiryWhatsappTemplate: expiryTemplate.trim(),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      toast.success('Messaging settings updated');
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to update messaging settings'),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: () => api.sendTestMessage(test.channel, test.to.trim()),
+    onSuccess: (result) => toast.success(result.message),
+    onError: (err: Error) => toast.error(err.message || 'Failed to send test message'),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!expiryTemplate.trim()) {
+      toast.error('Expiry reminder template is required');
+      return;
+    }
+    mutation.mutate();
+  };
+
+  const handleTest = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!test.to.trim()) {
+      toast.error('Enter where to send the test message');
+      return;
+    }
+    testMutation.mutate();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-xl font-semibold mb-4">Messaging Providers</h3>
+      {isLoading ? <div>Loading...</div> : error ? <div>Error...</div> : (
+        <>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {(Object.keys(CHANNEL_LABELS) as MessageChannel[]).map(channel => (
+              <div key={channel}>
+                <label htmlFor={`${channel}Provider`}>{CHANNEL_LABELS[channel]} Provider</label>
+                <select
+                  id={`${channel}Provider`}
+                  value={providers[channel]}
+                  onChange={(e) => setProviders({ ...providers, [channel]: e.target.value })}
+                  className="w-full p-2 border rounded-md"
+                >
+                  {(options?.providers[channel] || [{ name: providers[channel], label: providers[channel] }]).map(option => (
+                    <option key={option.name} value={option.name}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <div>
+              <label htmlFor="expiryWhatsappTemplate">Expiry Reminder WhatsApp Template</label>
+              <Input
+                id="expiryWhatsappTemplate"
+                value={expiryTemplate}
+                onChange={(e) => setExpiryTemplate(e.target.value)}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Approved template name. Any template other than hello_world receives the student name and membership end date.
+              </p>
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={mutation.isPending}>Save Messaging Settings</Button>
+            </div>
+          </form>
+
+          <form onSubmit={handleTest} className="mt-6 pt-4 border-t space-y-2">
+            <h4 className="font-medium">Send a Test Message</h4>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <select
+                value={test.channel}
+                onChange={(e) => setTest({ ...test, channel: e.target.value as MessageChannel })}
+                className="p-2 border rounded-md"
+              >
+                {(Object.keys(CHANNEL_LABELS) as MessageChannel[]).map(channel => (
+                  <option key={channel} value={channel}>{CHANNEL_LABELS[channel]}</option>
+                ))}
+              </select>
+              <Input
+                placeholder={test.channel === 'email' ? 'Email address' : 'Phone number'}
+                value={test.to}
+                onChange={(e) => setTest({ ...test, to: e.target.value })}
+              />
+              <Button type="submit" variant="outline" disabled={testMutation.isPending}>Send Test</Button>
+            </div>
+            <p className="text-xs text-gray-500">Uses the saved provider for the channel.</p>
+          </form>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MessagingSettings;
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import api, { PauseSeatAction } from '../services/api';
+
+interface PauseSettingsData {
+  pauseSeatPolicy?: string;
+}
+
+// Admin card for what happens to a student's seat while the membership is paused
+// when staff do not choose for that pause.
+const PauseSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { data: settings, isLoading, error } = useQuery<PauseSettingsData>({
+    queryKey: ['settings'],
+    queryFn: api.getSettings,
+  });
+  const [seatPolicy, setSeatPolicy] = useState<PauseSeatAction>('hold');
+
+  useEffect(() => {
+    if (settings) {
+      setSeatPolicy(settings.pauseSeatPolicy === 'release' ? 'release' : 'hold');
+    }
+  }, [settings]);
+
+  const mutation = useMutation({
+    mutationFn: () => api.updateSettings({ pauseSeatPolicy: seatPolicy }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      toast.success('Pause settings updated');
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to update pause settings'),
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-xl font-semibold mb-4">Membership Pauses</h3>
+      {isLoading ? <div>Loading...</div> : error ? <div>Error...</div> : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            mutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div>
+            <label htmlFor="pauseSeatPolicy">Seat of a paused student</label>
+            <select
+              id="pauseSeatPolicy"
+              value={seatPolicy}
+              onChange={(e) => setSeatPolicy(e.target.value as PauseSeatAction)}
+              className="w-full h-10 px-3 border rounded-md bg-white text-sm"
+            >
+              <option value="hold">Hold it until they resume</option>
+              <option value="release">Release it for others (given back on resume if still free)</option>
+            </select>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={mutation.isPending}>Save Pause Settings</Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default PauseSettings;
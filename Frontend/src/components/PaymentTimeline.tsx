@@ -0,0 +1,269 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, RotateCcw, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import api, { StudentPayment } from '../services/api';
+import { useAuth } from '../context/AuthContext';
+
+interface PaymentTimelineProps {
+  studentId: number;
+  // Called after a reversal or refund so the page can reload its totals.
+  onChange?: () => void;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  payment: 'Payment',
+  adjustment: 'Adjustment',
+  security_deposit: 'Security Money',
+  reversal: 'Reversal',
+  security_reversal: 'Security Reversal',
+  refund: 'Fee Refund',
+  security_refund: 'Security Refund',
+};
+
+// Only money actually received can be reversed; the backend enforces the same rule.
+const REVERSIBLE_TYPES = ['payment', 'adjustment', 'security_deposit'];
+
+// Ledger entries of a student, newest first, one dot per entry.
+const PaymentTimeline: React.FC<PaymentTimelineProps> = ({ studentId, onChange }) => {
+  const { user } = useAuth();
+  const [payments, setPayments] = useState<StudentPayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [reversing, setReversing] = useState<StudentPayment | null>(null);
+  const [reverseReason, setReverseReason] = useState('');
+
+  const [refundOpen, setRefundOpen] = useState(false);
+  const [refundKind, setRefundKind] = useState<'fee' | 'security'>('security');
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundMethod, setRefundMethod] = useState<'cash' | 'online'>('cash');
+  const [refundReference, setRefundReference] = useState('');
+  const [refundReason, setRefundReason] = useState('');
+
+  const canRefund = !!user && (user.role === 'admin' || user.permissions.includes('manage_refunds'));
+
+  const fetchPayments = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await api.getStudentPayments(studentId);
+      setPayments(response.payments);
+    } catch (error) {
+      console.error('Failed to fetch payments:', (error as Error).message);
+      toast.error('Failed to fetch payment history');
+    } finally {
+      setLoading(false);
+    }
+  }, [studentId]);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  const handleReverse = async () => {
+    if (!reversing) return;
+    if (!reverseReason.trim()) {
+      toast.error('Please enter a reason for the reversal');
+      return;
+    }
+    try {
+      setSubmitting(true);
+      const { message } = await api.reverseStudentPayment(studentId, reversing.id, reverseReason.trim());
+      toast.success(message);
+      setReversing(null);
+      await fetchPayments();
+      onChange?.();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to reverse payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openRefund = () => {
+    setRefundKind('security');
+    setRefundAmount('');
+    setRefundMethod('cash');
+    setRefundReference('');
+    setRefundReason('');
+    setRefundOpen(true);
+  };
+
+  const handleRefund = async () => {
+    const amount = parseFloat(refundAmount);
+    if (isNaN(amount) || amount <= 0) {
+      toast.error('Please enter a valid refund amount');
+      return;
+    }
+    if (!refundReason.trim()) {
+      toast.error('Please enter a reason for the refund');
+      return;
+    }
+    try {
+      setSubmitting(true);
+      await api.refundStudent(studentId, {
+        kind: refundKind,
+        amount,
+        method: refundMethod,
+        reason: refundReason.trim(),
+        reference: refundReference.trim() || undefined,
+      });
+      toast.success('Refund recorded');
+      setRefundOpen(false);
+      await fetchPayments();
+      onChange?.();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to record refund');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center p-4"><Loader2 className="h-5 w-5 animate-spin mx-auto" /></div>;
+  }
+
+  return (
+    <div>
+      {canRefund && (
+        <div className="mb-3">
+          <Button variant="outline" size="sm" onClick={openRefund} className="flex items-center gap-2">
+            <RotateCcw size={14} /> Refund
+          </Button>
+        </div>
+      )}
+
+      {payments.length === 0 ? (
+        <p className="text-sm text-gray-500">No payments recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2">
+          {payments.map(payment => (
+            <li key={payment.id} className="mb-4 ml-4">
+              <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${payment.amount < 0 ? 'bg-red-500' : 'bg-green-500'}`} />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className={`font-semibold ${payment.amount < 0 ? 'text-red-600' : 'text-green-700'} ${payment.reversed ? 'line-through' : ''}`}>
+                  {payment.amount < 0 ? '-' : '+'}₹{Math.abs(payment.amount).toFixed(2)}
+                </span>
+                <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+                  {TYPE_LABELS[payment.type] || payment.type}
+                </span>
+                {payment.method && (
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${payment.method === 'cash' ? 'bg-blue-100 text-blue-800' : 'bg-purple-100 text-purple-800'}`}>
+                    {payment.method === 'cash' ? 'Cash' : 'Online'}
+                  </span>
+                )}
+                {payment.reversed && (
+                  <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">Reversed</span>
+                )}
+                <time className="text-xs text-gray-500">{payment.date}</time>
+                {canRefund && !payment.reversed && payment.amount > 0 && REVERSIBLE_TYPES.includes(payment.type) && (
+                  <button
+                    onClick={() => { setReversing(payment); setReverseReason(''); }}
+                    className="flex items-center gap-1 text-xs text-red-600 hover:text-red-800"
+                  >
+                    <Undo2 size={12} /> Reverse
+                  </button>
+                )}
+              </div>
+              <div className="text-xs text-gray-600 mt-1 space-y-0.5">
+                {payment.membershipStart && (
+                  <p>Period: {payment.membershipStart} to {payment.membershipEnd}</p>
+                )}
+                {payment.reference && <p>Reference/UTR: {payment.reference}</p>}
+                {payment.note && <p>Note: {payment.note}</p>}
+                {payment.reason && <p>Reason: {payment.reason}</p>}
+                {payment.collectedByName && <p>By: {payment.collectedByName}</p>}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <Dialog open={!!reversing} onOpenChange={(open) => { if (!open) setReversing(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reverse Payment</DialogTitle>
+            <DialogDescription>
+              {reversing && `Reverse ₹${reversing.amount.toFixed(2)} (${reversing.method || ''}) received on ${reversing.date}. A compensating entry is recorded; the original stays in the ledger.`}
+            </DialogDescription>
+          </DialogHeader>
+          <textarea
+            className="w-full border rounded px-3 py-2"
+            rows={3}
+            placeholder="Reason (required)"
+            value={reverseReason}
+            onChange={(e) => setReverseReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReversing(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleReverse} disabled={submitting}>
+              {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Reverse Payment'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={refundOpen} onOpenChange={setRefundOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund</DialogTitle>
+            <DialogDescription>
+              Refunds are booked against the current membership. A fee refund can only return money paid above the fee after discount.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="flex space-x-4 text-sm">
+              <label className="flex items-center"><input type="radio" checked={refundKind === 'security'} onChange={() => setRefundKind('security')} className="mr-2" />Security Money</label>
+              <label className="flex items-center"><input type="radio" checked={refundKind === 'fee'} onChange={() => setRefundKind('fee')} className="mr-2" />Fee</label>
+            </div>
+            <input
+              type="number"
+              className="w-full border rounded px-3 py-2"
+              placeholder="Amount"
+              min="0"
+              step="0.01"
+              value={refundAmount}
+              onChange={(e) => setRefundAmount(e.target.value)}
+            />
+            <div className="flex space-x-4 text-sm">
+              <label className="flex items-center"><input type="radio" checked={refundMethod === 'cash'} onChange={() => setRefundMethod('cash')} className="mr-2" />Cash</label>
+              <label className="flex items-center"><input type="radio" checked={refundMethod === 'online'} onChange={() => setRefundMethod('online')} className="mr-2" />Online</label>
+            </div>
+            {refundMethod === 'online' && (
+              <input
+                type="text"
+                className="w-full border rounded px-3 py-2"
+                placeholder="Reference / UTR number"
+                value={refundReference}
+                onChange={(e) => setRefundReference(e.target.value)}
+              />
+            )}
+            <textarea
+              className="w-full border rounded px-3 py-2"
+              rows={3}
+              placeholder="Reason (required)"
+              value={refundReason}
+              onChange={(e) => setRefundReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefundOpen(false)}>Cancel</Button>
+            <Button onClick={handleRefund} disabled={submitting}>
+              {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Record Refund'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PaymentTimeline;
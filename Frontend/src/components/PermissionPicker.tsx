@@ -0,0 +1,95 @@
+import React from 'react';
+import { Role } from '../services/api';
+import { permissionsByCategory } from '../config/permission';
+
+interface PermissionPickerProps {
+  // Used to keep checkbox ids unique when several pickers are on the page.
+  idPrefix: string;
+  roles: Role[];
+  roleId: number | null;
+  // The user's effective permissions: role permissions plus overrides.
+  permissions: string[];
+  onChange: (value: { roleId: number | null; permissions: string[] }) => void;
+}
+
+// Role selector plus permission checkboxes for a staff user. Choosing a role
+// ticks its permissions; ticking or unticking individual boxes afterwards
+// becomes a per-user override of that role.
+const PermissionPicker: React.FC<PermissionPickerProps> = ({ idPrefix, roles, roleId, permissions, onChange }) => {
+  const rolePermissions = roles.find(role => role.id === roleId)?.permissions || [];
+
+  const handleRoleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const nextRoleId = e.target.value ? Number(e.target.value) : null;
+    const nextRole = roles.find(role => role.id === nextRoleId);
+    onChange({ roleId: nextRoleId, permissions: nextRole ? [...nextRole.permissions] : [] });
+  };
+
+  const togglePermission = (permissionId: string) => {
+    onChange({
+      roleId,
+      permissions: permissions.includes(permissionId)
+        ? permissions.filter(p => p !== permissionId)
+        : [...permissions, permissionId],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor={`${idPrefix}-role`} className="font-medium">Role</label>
+        <select
+          id={`${idPrefix}-role`}
+          value={roleId ?? ''}
+          onChange={handleRoleChange}
+          className="w-full mt-1 p-2 border rounded-md"
+        >
+          <option value="">No role (individual permissions)</option>
+          {roles.map(role => <option key={role.id} value={role.id}>{role.name}</option>)}
+        </select>
+      </div>
+      <label className="font-medium">Permissions</label>
+      {Object.entries(permissionsByCategory).map(([category, perms]) => (
+        <div key={category}>
+          <h5 className="text-sm font-semibold text-gray-600 mb-2">{category}</h5>
+          <div className="space-y-2 border p-3 rounded-md">
+            {perms.map((p) => {
+              const fromRole = rolePermissions.includes(p.id);
+              const checked = permissions.includes(p.id);
+              return (
+                <div key={p.id}>
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id={`${idPrefix}-${p.id}`}
+                      checked={checked}
+                      onChange={() => togglePermission(p.id)}
+                      className="h-4 w-4 rounded"
+                    />
+                    <label htmlFor={`${idPrefix}-${p.id}`} className="ml-2 text-sm">
+                      {p.label}
+                    </label>
+                    {roleId !== null && fromRole !== checked && (
+                      <span className="ml-2 text-xs text-orange-600">{checked ? 'added' : 'removed from role'}</span>
+                    )}
+                  </div>
+                  {p.id === 'view_collections' && (
+                    <p className="pl-6 text-xs text-gray-500">
+                      Allows staff to see student dues and process payments, but not view total collection summaries.
+                    </p>
+                  )}
+                  {p.id === 'manage_library_students' && (
+                    <p className="pl-6 text-xs text-gray-500">
+                      (Includes access to branches, shifts, and lockers)
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PermissionPicker;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { FeePromotions, FeeQuoteQuery } from '../services/api';
+
+export type PromotionCodes = Pick<FeeQuoteQuery, 'couponCode' | 'referrerPhone' | 'siblingPhone'>;
+
+interface PromotionFieldsProps {
+  value: PromotionCodes;
+  onChange: (value: PromotionCodes) => void;
+  // Referrers are only recorded on admission.
+  withReferrer: boolean;
+  promotions: FeePromotions | null;
+  error: string | null;
+}
+
+const FIELDS: { key: keyof PromotionCodes; label: string; placeholder: string }[] = [
+  { key: 'couponCode', label: 'Coupon Code', placeholder: 'e.g. DIWALI20' },
+  { key: 'referrerPhone', label: 'Referred By (Phone)', placeholder: "Referrer's phone number" },
+  { key: 'siblingPhone', label: 'Sibling (Phone)', placeholder: "Sibling's phone number" },
+];
+
+// Coupon code, referrer and sibling inputs. Values are handed to the fee quote
+// when a field loses focus, so the quote is not refetched on every keystroke.
+const PromotionFields: React.FC<PromotionFieldsProps> = ({ value, onChange, withReferrer, promotions, error }) => {
+  const [draft, setDraft] = useState<PromotionCodes>(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    const trimmed = Object.fromEntries(
+      Object.entries(draft).map(([key, text]) => [key, text?.trim() || undefined])
+    ) as PromotionCodes;
+    if (FIELDS.some(({ key }) => (trimmed[key] || '') !== (value[key] || ''))) {
+      onChange(trimmed);
+    }
+  };
+
+  const applied = (key: keyof PromotionCodes) => {
+    if (!promotions || !value[key]) return null;
+    if (key === 'couponCode' && promotions.couponCode) return `−Rs. ${promotions.couponDiscount.toFixed(2)}`;
+    if (key === 'siblingPhone' && promotions.siblingName) {
+      return `${promotions.siblingName}, −Rs. ${promotions.siblingDiscount.toFixed(2)}`;
+    }
+    if (key === 'referrerPhone' && promotions.referrerName) return `${promotions.referrerName} earns a referral credit`;
+    return null;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className={`grid gap-2 ${withReferrer ? 'sm:grid-cols-3' : 'sm:grid-cols-2'}`}>
+        {FIELDS.filter(({ key }) => withReferrer || key !== 'referrerPhone').map(({ key, label, placeholder }) => (
+          <div key={key}>
+            <label htmlFor={key} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+            <input
+              id={key}
+              type={key === 'couponCode' ? 'text' : 'tel'}
+              value={draft[key] || ''}
+              placeholder={placeholder}
+              onChange={(e) => setDraft(prev => ({ ...prev, [key]: key === 'couponCode' ? e.target.value.toUpperCase() : e.target.value }))}
+              onBlur={commit}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  commit();
+                }
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-300"
+            />
+            {applied(key) && <p className="text-xs text-green-700 mt-1">{applied(key)}</p>}
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {promotions && promotions.referralDiscount > 0 && (
+        <p className="text-xs text-green-700">
+          Referral credit −Rs. {promotions.referralDiscount.toFixed(2)} applied
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PromotionFields;
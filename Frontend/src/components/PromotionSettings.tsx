@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import api from '../services/api';
+
+interface PromotionSettingsData {
+  referralCreditAmount?: string;
+  siblingDiscountPercent?: string;
+}
+
+// Admin card for the referral credit a referrer earns per admission and the
+// sibling discount percentage. Zero turns either off.
+const PromotionSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { data: settings, isLoading, error } = useQuery<PromotionSettingsData>({
+    queryKey: ['settings'],
+    queryFn: api.getSettings,
+  });
+  const [form, setForm] = useState({ referralCredit: '200', siblingPercent: '10' });
+
+  useEffect(() => {
+    if (settings) {
+      setForm({
+        referralCredit: settings.referralCreditAmount ?? '200',
+        siblingPercent: settings.siblingDiscountPercent ?? '10',
+      });
+    }
+  }, [settings]);
+
+  const mutation = useMutation({
+    mutationFn: () => api.updateSettings({
+      referralCreditAmount: parseFloat(form.referralCredit),
+      siblingDiscountPercent: parseFloat(form.siblingPercent),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      toast.success('Promotion settings updated');
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to update promotion settings'),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const referralCredit = parseFloat(form.referralCredit);
+    const siblingPercent = parseFloat(form.siblingPercent);
+    if (isNaN(referralCredit) || referralCredit < 0) {
+      toast.error('Referral credit must be zero or more');
+      return;
+    }
+    if (isNaN(siblingPercent) || siblingPercent < 0 || siblingPercent > 100) {
+      toast.error('Sibling discount must be between 0 and 100');
+      return;
+    }
+    mutation.mutate();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-xl font-semibold mb-4">Referrals & Siblings</h3>
+      {isLoading ? <div>Loading...</div> : error ? <div>Error...</div> : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="referralCreditAmount">Referral Credit (Rs.)</label>
+            <Input
+              id="referralCreditAmount"
+              type="number"
+              min={0}
+              value={form.referralCredit}
+              onChange={(e) => setForm({ ...form, referralCredit: e.target.value })}
+            />
+            <p className="text-xs text-gray-500 mt-1">Earned by the referrer for each admission, taken off their next renewal.</p>
+          </div>
+          <div>
+            <label htmlFor="siblingDiscountPercent">Sibling Discount (%)</label>
+            <Input
+              id="siblingDiscountPercent"
+              type="number"
+              min={0}
+              max={100}
+              value={form.siblingPercent}
+              onChange={(e) => setForm({ ...form, siblingPercent: e.target.value })}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={mutation.isPending}>Save Promotion Settings</Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default PromotionSettings;
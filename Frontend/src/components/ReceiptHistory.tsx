@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Download, History, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import api, { Receipt } from '../services/api';
+import { printReceipt } from '../lib/receipt';
+
+interface ReceiptHistoryProps {
+  studentId?: number;
+  historyId?: number;
+}
+
+const formatDateTime = (value: string | null | undefined) =>
+  value ? new Date(value).toLocaleString('en-IN') : 'N/A';
+
+// Lists the receipts issued for a student or a single collection record,
+// with download/reprint and the print history of each receipt.
+const ReceiptHistory: React.FC<ReceiptHistoryProps> = ({ studentId, historyId }) => {
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [printingId, setPrintingId] = useState<number | null>(null);
+  const [expanded, setExpanded] = useState<Receipt | null>(null);
+
+  useEffect(() => {
+    const fetchReceipts = async () => {
+      try {
+        setLoading(true);
+        const response = await api.getReceipts({ studentId, historyId });
+        setReceipts(response.receipts);
+      } catch (error) {
+        console.error('Failed to fetch receipts:', (error as Error).message);
+        toast.error('Failed to fetch receipts');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchReceipts();
+  }, [studentId, historyId]);
+
+  const handleDownload = async (receipt: Receipt) => {
+    try {
+      setPrintingId(receipt.id);
+      const updated = await printReceipt(receipt.id);
+      setReceipts(prev => prev.map(r => (r.id === updated.id ? { ...r, printCount: updated.printCount, lastPrintedAt: updated.lastPrintedAt } : r)));
+      if (expanded?.id === updated.id) setExpanded(updated);
+    } catch (error) {
+      console.error('Failed to download receipt:', (error as Error).message);
+      toast.error('Failed to download receipt');
+    } finally {
+      setPrintingId(null);
+    }
+  };
+
+  const handleShowPrints = async (receipt: Receipt) => {
+    if (expanded?.id === receipt.id) {
+      setExpanded(null);
+      return;
+    }
+    try {
+      const response = await api.getReceipt(receipt.id);
+      setExpanded(response.receipt);
+    } catch (error) {
+      console.error('Failed to fetch print history:', (error as Error).message);
+      toast.error('Failed to fetch print history');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center p-4"><Loader2 className="h-5 w-5 animate-spin mx-auto" /></div>;
+  }
+  if (receipts.length === 0) {
+    return <p className="text-sm text-gray-500">No receipts issued yet.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Receipt No.</th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Issued</th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Cash</th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Online</th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Security</th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Due After</th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Prints</th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {receipts.map(receipt => (
+            <React.Fragment key={receipt.id}>
+              <tr>
+                <td className="px-3 py-2 whitespace-nowrap font-medium text-gray-800">
+                  {receipt.receiptNumber}
+                  {receipt.voidedAt && (
+                    <span className="ml-2 text-xs font-semibold text-red-600" title={receipt.voidReason || undefined}>
+                      {receipt.replacedByNumber ? `Void, replaced by ${receipt.replacedByNumber}` : 'Void'}
+                    </span>
+                  )}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap text-gray-500">{formatDateTime(receipt.issuedAt)}</td>
+                <td className="px-3 py-2 whitespace-nowrap">₹{receipt.cash.toFixed(2)}</td>
+                <td className="px-3 py-2 whitespace-nowrap">₹{receipt.online.toFixed(2)}</td>
+                <td className="px-3 py-2 whitespace-nowrap">₹{receipt.securityMoney.toFixed(2)}</td>
+                <td className="px-3 py-2 whitespace-nowrap text-red-600">₹{receipt.dueAmount.toFixed(2)}</td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  <button onClick={() => handleShowPrints(receipt)} className="flex items-center gap-1 text-gray-600 hover:text-gray-800" title="Reprint history">
+                    <History size={14} /> {receipt.printCount}
+                  </button>
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  <button
+                    onClick={() => handleDownload(receipt)}
+                    disabled={printingId === receipt.id}
+                    className="flex items-center gap-1 text-purple-600 hover:text-purple-800 font-medium disabled:opacity-50"
+                  >
+                    {printingId === receipt.id ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+                    {receipt.printCount > 0 ? 'Reprint' : 'Download'}
+                  </button>
+                </td>
+              </tr>
+              {expanded?.id === receipt.id && (
+                <tr>
+                  <td colSpan={8} className="px-3 py-2 bg-gray-50">
+                    {expanded.prints && expanded.prints.length > 0 ? (
+                      <ul className="text-xs text-gray-600 space-y-1">
+                        {expanded.prints.map((print, index) => (
+                          <li key={print.id}>
+                            {index === 0 ? 'Original' : `Reprint ${index}`} — {formatDateTime(print.printedAt)}
+                            {print.printedByName ? ` by ${print.printedByName}` : ''}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-xs text-gray-500">Not printed yet.</p>
+                    )}
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ReceiptHistory;
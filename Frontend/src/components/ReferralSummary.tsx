@@ -0,0 +1,73 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import api from '../services/api';
+
+interface ReferralSummaryProps {
+  studentId: number;
+}
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-IN', { dateStyle: 'medium' }) : '';
+
+// Who referred the student and the credits they earned by referring others.
+const ReferralSummary: React.FC<ReferralSummaryProps> = ({ studentId }) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['referrals', studentId],
+    queryFn: () => api.getStudentReferrals(studentId),
+  });
+
+  if (isLoading) return <div className="text-sm text-gray-500">Loading referrals...</div>;
+  if (error) return <div className="text-sm text-red-500">Error loading referrals: {(error as Error).message}</div>;
+
+  const credits = data?.credits || [];
+  const available = credits.filter(credit => credit.status === 'available').reduce((sum, credit) => sum + credit.amount, 0);
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div>
+        Referred by:{' '}
+        {data?.referrer ? (
+          <Link to={`/students/${data.referrer.id}`} className="text-purple-600 hover:underline">
+            {data.referrer.name} ({data.referrer.phone})
+          </Link>
+        ) : (
+          <span className="text-gray-500">nobody</span>
+        )}
+      </div>
+      {credits.length === 0 ? (
+        <div className="text-gray-500">No referral credits earned.</div>
+      ) : (
+        <>
+          <div>Credit available for the next renewal: ₹{available.toFixed(2)}</div>
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-1 pr-4">Referred</th>
+                <th className="py-1 pr-4">Earned</th>
+                <th className="py-1 pr-4 text-right">Credit</th>
+                <th className="py-1">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {credits.map(credit => (
+                <tr key={credit.id} className="border-b last:border-0">
+                  <td className="py-1 pr-4">{credit.referredStudentName || 'Deleted student'}</td>
+                  <td className="py-1 pr-4">{formatDate(credit.createdAt)}</td>
+                  <td className="py-1 pr-4 text-right">₹{credit.amount.toFixed(2)}</td>
+                  <td className="py-1">
+                    {credit.status === 'used'
+                      ? `Used on renewal from ${formatDate(credit.usedOnMembershipStart)}`
+                      : 'Available'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReferralSummary;
@@ -0,0 +1,332 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Edit, History, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import api, { MessageChannel, ReminderRule, ReminderRuleInput, ReminderTrigger } from '../services/api';
+
+const CHANNEL_LABELS: Record<MessageChannel, string> = {
+  whatsapp: 'WhatsApp',
+  email: 'Email',
+  sms: 'SMS',
+};
+
+// The message a new rule sends until someone picks another
+const DEFAULT_EVENTS: Record<ReminderTrigger, string> = {
+  before_expiry: 'expiry_reminder',
+  expiry_day: 'expiry_reminder',
+  after_expiry: 'expired',
+  due_amount: 'due_reminder',
+  hostel_stay_ending: 'hostel_stay_ending',
+};
+
+const emptyRule = (): ReminderRuleInput => ({
+  name: '', trigger: 'before_expiry', days: 3, event: 'expiry_reminder', channels: ['whatsapp'],
+  branchIds: [], sendFromHour: 9, sendToHour: 20, isActive: true,
+});
+
+const hourLabel = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+// Admin card for the reminder rules the scheduler runs every hour, with the
+// record of whom each rule has reminded.
+const ReminderRules: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<ReminderRuleInput>(emptyRule());
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [open, setOpen] = useState(false);
+  const [historyRule, setHistoryRule] = useState<ReminderRule | null>(null);
+
+  const rulesQuery = useQuery({ queryKey: ['reminderRules'], queryFn: api.getReminderRules });
+  const { data: branches = [] } = useQuery({ queryKey: ['branches'], queryFn: api.getBranches });
+  const { data: hostelBranches = [] } = useQuery<{ id: number; name: string }[]>({
+    queryKey: ['hostelBranches'],
+    queryFn: api.getHostelBranches,
+  });
+  const runsQuery = useQuery({
+    queryKey: ['reminderRuleRuns', historyRule?.id],
+    queryFn: () => api.getReminderRuleRuns({ ruleId: historyRule!.id }),
+    enabled: historyRule !== null,
+  });
+
+  const saveRule = useMutation({
+    mutationFn: () => (editingId ? api.updateReminderRule(editingId, form) : api.addReminderRule(form)),
+    onSuccess: () => {
+      toast.success(editingId ? 'Rule updated' : 'Rule added');
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['reminderRules'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to save rule'),
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: (id: number) => api.deleteReminderRule(id),
+    onSuccess: () => {
+      toast.success('Rule deleted');
+      queryClient.invalidateQueries({ queryKey: ['reminderRules'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to delete rule'),
+  });
+
+  const openRule = (rule?: ReminderRule) => {
+    setEditingId(rule ? rule.id : null);
+    setForm(rule ? {
+      name: rule.name,
+      trigger: rule.trigger,
+      days: rule.days,
+      event: rule.event,
+      channels: rule.channels,
+      branchIds: rule.branchIds || [],
+      sendFromHour: rule.sendFromHour,
+      sendToHour: rule.sendToHour,
+      isActive: rule.isActive,
+    } : emptyRule());
+    setOpen(true);
+  };
+
+  const changeTrigger = (trigger: ReminderTrigger) => {
+    // Branch ids of library and hostel branches do not carry over
+    const switchesBranchKind = (trigger === 'hostel_stay_ending') !== (form.trigger === 'hostel_stay_ending');
+    setForm({
+      ...form,
+      trigger,
+      event: form.event === DEFAULT_EVENTS[form.trigger] ? DEFAULT_EVENTS[trigger] : form.event,
+      branchIds: switchesBranchKind ? [] : form.branchIds,
+    });
+  };
+
+  const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(item => item !== value) : [...list, value]);
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      toast.error('Enter a name for the rule');
+      return;
+    }
+    if (form.channels.length === 0) {
+      toast.error('Choose at least one channel');
+      return;
+    }
+    if (form.sendFromHour >= form.sendToHour) {
+      toast.error('The send window must start before it ends');
+      return;
+    }
+    saveRule.mutate();
+  };
+
+  const rules = rulesQuery.data?.rules || [];
+  const triggers = rulesQuery.data?.triggers || [];
+  const events = rulesQuery.data?.events || [];
+  const trigger = triggers.find(item => item.key === form.trigger);
+  const ruleBranches = form.trigger === 'hostel_stay_ending' ? hostelBranches : branches;
+  const describe = (rule: ReminderRule) =>
+    (triggers.find(item => item.key === rule.trigger)?.label || rule.trigger).replace('N', String(rule.days));
+  const branchNames = (rule: ReminderRule) => {
+    if (!rule.branchIds || rule.branchIds.length === 0) return 'All branches';
+    const list = rule.trigger === 'hostel_stay_ending' ? hostelBranches : branches;
+    return rule.branchIds.map(id => list.find(branch => branch.id === id)?.name || `#${id}`).join(', ');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold">Reminder Rules</h3>
+        <Button size="sm" onClick={() => openRule()} className="flex items-center gap-1"><Plus size={14} /> Add Rule</Button>
+      </div>
+      {rulesQuery.isLoading ? <div>Loading...</div> : rulesQuery.error ? <div>Error...</div> : rules.length === 0 ? (
+        <div className="text-sm text-gray-500">No rules. No reminders are sent automatically.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4">Rule</th>
+                <th className="py-2 pr-4">Sends</th>
+                <th className="py-2 pr-4">Branches</th>
+                <th className="py-2 pr-4">Window</th>
+                <th className="py-2 pr-4">Fired</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map(rule => (
+                <tr key={rule.id} className={`border-b last:border-0 align-top ${rule.isActive ? '' : 'text-gray-400'}`}>
+                  <td className="py-2 pr-4">
+                    <div className="font-medium">{rule.name}{!rule.isActive && ' (inactive)'}</div>
+                    <div className="text-xs text-gray-500">{describe(rule)}</div>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <div>{events.find(event => event.key === rule.event)?.label || rule.event}</div>
+                    <div className="text-xs text-gray-500">{rule.channels.map(channel => CHANNEL_LABELS[channel]).join(', ')}</div>
+                  </td>
+                  <td className="py-2 pr-4">{branchNames(rule)}</td>
+                  <td className="py-2 pr-4 whitespace-nowrap">{hourLabel(rule.sendFromHour)} – {hourLabel(rule.sendToHour)}</td>
+                  <td className="py-2 pr-4">
+                    <div>{rule.firedLast30Days} in 30 days</div>
+                    {rule.lastFiredAt && <div className="text-xs text-gray-500">Last {new Date(rule.lastFiredAt).toLocaleString()}</div>}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <Button size="sm" variant="ghost" title="Who it reminded" onClick={() => setHistoryRule(rule)}><History size={14} /></Button>
+                    <Button size="sm" variant="ghost" onClick={() => openRule(rule)}><Edit size={14} /></Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => window.confirm(`Delete the rule ${rule.name}?`) && deleteRule.mutate(rule.id)}
+                    >
+                      <Trash2 size={14} className="text-red-500" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Rule' : 'Add Rule'}</DialogTitle>
+            <DialogDescription>
+              Checked every hour inside the send window. Each student is reminded once per membership (or stay) by a rule,
+              using the message template of the chosen event.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <label htmlFor="ruleName" className="text-sm text-gray-600">Name</label>
+              <Input id="ruleName" placeholder="e.g. 7-day expiry reminder" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className={trigger?.usesDays ? 'col-span-2' : 'col-span-3'}>
+                <label htmlFor="ruleTrigger" className="text-sm text-gray-600">When</label>
+                <select
+                  id="ruleTrigger"
+                  value={form.trigger}
+                  onChange={(e) => changeTrigger(e.target.value as ReminderTrigger)}
+                  className="w-full h-10 px-3 border rounded-md bg-white text-sm"
+                >
+                  {triggers.map(item => <option key={item.key} value={item.key}>{item.label}</option>)}
+                </select>
+              </div>
+              {trigger?.usesDays && (
+                <div>
+                  <label htmlFor="ruleDays" className="text-sm text-gray-600">Days</label>
+                  <Input id="ruleDays" type="number" min={form.trigger === 'due_amount' ? 0 : 1} value={form.days} onChange={(e) => setForm({ ...form, days: Number(e.target.value) })} />
+                </div>
+              )}
+            </div>
+            <div>
+              <label htmlFor="ruleEvent" className="text-sm text-gray-600">Message</label>
+              <select
+                id="ruleEvent"
+                value={form.event}
+                onChange={(e) => setForm({ ...form, event: e.target.value })}
+                className="w-full h-10 px-3 border rounded-md bg-white text-sm"
+              >
+                {events.map(event => <option key={event.key} value={event.key}>{event.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <span className="text-sm text-gray-600">Channels</span>
+              <div className="flex gap-4 mt-1">
+                {(Object.keys(CHANNEL_LABELS) as MessageChannel[]).map(channel => (
+                  <label key={channel} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={form.channels.includes(channel)}
+                      onChange={() => setForm({ ...form, channels: toggle(form.channels, channel) })}
+                    />
+                    {CHANNEL_LABELS[channel]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <span className="text-sm text-gray-600">
+                {form.trigger === 'hostel_stay_ending' ? 'Hostel branches' : 'Branches'} (none ticked means all)
+              </span>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1">
+                {ruleBranches.map(branch => (
+                  <label key={branch.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={form.branchIds.includes(branch.id)}
+                      onChange={() => setForm({ ...form, branchIds: toggle(form.branchIds, branch.id) })}
+                    />
+                    {branch.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="ruleFrom" className="text-sm text-gray-600">Send from (hour)</label>
+                <Input id="ruleFrom" type="number" min={0} max={23} value={form.sendFromHour} onChange={(e) => setForm({ ...form, sendFromHour: Number(e.target.value) })} />
+              </div>
+              <div>
+                <label htmlFor="ruleTo" className="text-sm text-gray-600">Send until (hour)</label>
+                <Input id="ruleTo" type="number" min={1} max={24} value={form.sendToHour} onChange={(e) => setForm({ ...form, sendToHour: Number(e.target.value) })} />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={form.isActive} onChange={(e) => setForm({ ...form, isActive: e.target.checked })} />
+              Active
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saveRule.isPending}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={historyRule !== null} onOpenChange={(isOpen) => !isOpen && setHistoryRule(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{historyRule?.name}</DialogTitle>
+            <DialogDescription>The latest students this rule reminded ({historyRule?.timesFired ?? 0} in total).</DialogDescription>
+          </DialogHeader>
+          {runsQuery.isLoading ? <div>Loading...</div> : (runsQuery.data?.runs || []).length === 0 ? (
+            <div className="text-sm text-gray-500">This rule has not fired yet.</div>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4">Fired</th>
+                    <th className="py-2 pr-4">Student</th>
+                    <th className="py-2 pr-4">For</th>
+                    <th className="py-2 text-right">Messages</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(runsQuery.data?.runs || []).map(run => (
+                    <tr key={run.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4 whitespace-nowrap">{new Date(run.firedAt).toLocaleString()}</td>
+                      <td className="py-2 pr-4">
+                        {run.studentName || '—'}
+                        {run.hostelStudentId && <span className="text-xs text-gray-500"> (hostel)</span>}
+                      </td>
+                      <td className="py-2 pr-4">{run.occurrence}</td>
+                      <td className="py-2 text-right">{run.queued}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReminderRules;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import api, { Role } from '../services/api';
+import { allPermissions, permissionsByCategory } from '../config/permission';
+
+interface RoleForm {
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+const EMPTY_FORM: RoleForm = { name: '', description: '', permissions: [] };
+
+const permissionLabel = (id: string) => allPermissions.find(p => p.id === id)?.label || id;
+
+// Admin card for the named roles (Front Desk, Accountant, ...) that bundle
+// permissions for staff users.
+const RoleManagement: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { data, isLoading, error } = useQuery({ queryKey: ['roles'], queryFn: api.getRoles });
+  const [form, setForm] = useState<RoleForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    queryClient.invalidateQueries({ queryKey: ['roles'] });
+    queryClient.invalidateQueries({ queryKey: ['allUsers'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (values: RoleForm) => editingId ? api.updateRole(editingId, values) : api.createRole(values),
+    onSuccess: () => onSaved(editingId
+      ? 'Role updated. Users with this role will have to log in again.'
+      : 'Role created'),
+    onError: (error: Error) => toast.error(error.message || 'Failed to save role'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => api.deleteRole(id),
+    onSuccess: () => onSaved('Role deleted'),
+    onError: (error: Error) => toast.error(error.message || 'Failed to delete role'),
+  });
+
+  const handleEdit = (role: Role) => {
+    setEditingId(role.id);
+    setForm({ name: role.name, description: role.description || '', permissions: role.permissions });
+  };
+
+  const handleDelete = (role: Role) => {
+    const warning = role.userCount > 0
+      ? `Delete the role "${role.name}"? ${role.userCount} user(s) will keep only their individual permissions.`
+      : `Delete the role "${role.name}"?`;
+    if (window.confirm(warning)) {
+      deleteMutation.mutate(role.id);
+    }
+  };
+
+  const togglePermission = (permissionId: string) => {
+    setForm(prev => ({
+      ...prev,
+      permissions: prev.permissions.includes(permissionId)
+        ? prev.permissions.filter(p => p !== permissionId)
+        : [...prev.permissions, permissionId],
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      toast.error('Role name is required');
+      return;
+    }
+    saveMutation.mutate({ ...form, name: form.name.trim() });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-xl font-semibold mb-4">Roles</h3>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <h4 className="text-lg font-semibold">{editingId ? 'Edit Role' : 'Create Role'}</h4>
+          <div>
+            <label htmlFor="roleName">Name</label>
+            <Input id="roleName" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g. Front Desk" />
+          </div>
+          <div>
+            <label htmlFor="roleDescription">Description</label>
+            <Input id="roleDescription" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+          </div>
+          {Object.entries(permissionsByCategory).map(([category, perms]) => (
+            <div key={category}>
+              <h5 className="text-sm font-semibold text-gray-600 mb-2">{category}</h5>
+              <div className="space-y-2 border p-3 rounded-md">
+                {perms.map((p) => (
+                  <div key={p.id} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id={`role-${p.id}`}
+                      checked={form.permissions.includes(p.id)}
+                      onChange={() => togglePermission(p.id)}
+                      className="h-4 w-4 rounded"
+                    />
+                    <label htmlFor={`role-${p.id}`} className="ml-2 text-sm">{p.label}</label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button type="button" variant="outline" onClick={() => { setEditingId(null); setForm(EMPTY_FORM); }}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" disabled={saveMutation.isPending}>{editingId ? 'Save Role' : 'Create Role'}</Button>
+          </div>
+        </form>
+        <div>
+          <h4 className="text-lg font-semibold mb-2">All Roles</h4>
+          {isLoading ? <div>Loading...</div> : error ? <div>Error loading roles: {(error as Error).message}</div> : (
+            <ul className="space-y-3">
+              {data?.roles.length === 0 && <li className="text-sm text-gray-500">No roles yet.</li>}
+              {data?.roles.map((role) => (
+                <li key={role.id} className="flex justify-between items-start p-2 border rounded-md">
+                  <div>
+                    <p className="font-semibold">
+                      {role.name} <span className="text-xs text-gray-500">({role.userCount} user{role.userCount === 1 ? '' : 's'})</span>
+                    </p>
+                    {role.description && <p className="text-xs text-gray-600">{role.description}</p>}
+                    <p className="text-xs text-gray-500 max-w-xs">
+                      {role.permissions.length > 0 ? role.permissions.map(permissionLabel).join(', ') : 'No permissions'}
+                    </p>
+                  </div>
+                  <div className="flex">
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(role)}>
+                      <Pencil className="h-4 w-4 text-gray-600" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(role)}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RoleManagement;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Snowflake, Sun } from 'lucide-react';
+import { Seat, SeatLayout } from '../services/api';
+
+interface SeatMapProps {
+  layout: SeatLayout;
+  seats: Seat[];
+  // Colour by this shift only; null colours by how many shifts are taken.
+  shiftId: number | null;
+  selectedSeatId?: number | null;
+  onSeatClick: (seat: Seat) => void;
+}
+
+const occupancyClass = (seat: Seat, shiftId: number | null) => {
+  if (shiftId !== null) {
+    const shift = seat.shifts.find(s => s.shiftId === shiftId);
+    return shift?.isAssigned
+      ? 'bg-red-100 border-red-400 text-red-700'
+      : 'bg-green-100 border-green-400 text-green-800';
+  }
+  const taken = seat.shifts.filter(s => s.isAssigned).length;
+  if (taken === 0) return 'bg-green-100 border-green-400 text-green-800';
+  if (taken === seat.shifts.length) return 'bg-red-100 border-red-400 text-red-700';
+  return 'bg-amber-100 border-amber-400 text-amber-800';
+};
+
+// Floor plan of one branch, seats coloured by occupancy.
+const SeatMap: React.FC<SeatMapProps> = ({ layout, seats, shiftId, selectedSeatId, onSeatClick }) => {
+  const seatAt = new Map<string, Seat>();
+  seats.forEach(seat => {
+    if (seat.rowIndex != null && seat.colIndex != null) {
+      seatAt.set(`${seat.rowIndex}:${seat.colIndex}`, seat);
+    }
+  });
+  const unplaced = seats.filter(seat => seat.rowIndex == null || seat.colIndex == null);
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <div
+          className="grid gap-1 min-w-max"
+          style={{ gridTemplateColumns: `repeat(${layout.cols}, 3rem)` }}
+        >
+          {Array.from({ length: layout.rows * layout.cols }, (_, index) => {
+            const rowIndex = Math.floor(index / layout.cols);
+            const colIndex = index % layout.cols;
+            const seat = seatAt.get(`${rowIndex}:${colIndex}`);
+            if (!seat) {
+              return <div key={index} className="h-12 w-12" />;
+            }
+            const occupant = shiftId !== null ? seat.shifts.find(s => s.shiftId === shiftId)?.studentName : null;
+            return (
+              <button
+                key={index}
+                type="button"
+                onClick={() => onSeatClick(seat)}
+                title={occupant ? `Seat ${seat.seatNumber}: ${occupant}` : `Seat ${seat.seatNumber}`}
+                className={`relative h-12 w-12 rounded-md border-2 text-xs font-semibold flex items-center justify-center
+                  ${occupancyClass(seat, shiftId)}
+                  ${seat.zone === 'ac' ? 'ring-2 ring-blue-300' : ''}
+                  ${selectedSeatId === seat.id ? 'outline outline-2 outline-purple-600' : ''}`}
+              >
+                {seat.seatNumber}
+                {seat.zone === 'ac' && <Snowflake size={10} className="absolute top-0.5 left-0.5 text-blue-500" />}
+                {seat.isWindow && <Sun size={10} className="absolute top-0.5 right-0.5 text-yellow-600" />}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-green-100 border border-green-400" /> Free</span>
+        {shiftId === null && (
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-amber-100 border border-amber-400" /> Some shifts taken</span>
+        )}
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-red-100 border border-red-400" /> Occupied</span>
+        <span className="flex items-center gap-1"><Snowflake size={12} className="text-blue-500" /> AC zone</span>
+        <span className="flex items-center gap-1"><Sun size={12} className="text-yellow-600" /> Window seat</span>
+      </div>
+
+      {unplaced.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Not on the map yet: {unplaced.map(seat => seat.seatNumber).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SeatMap;
@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Snowflake, Sun, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import api, { Seat, SeatLayout, SeatPlacement, SeatZone } from '../services/api';
+
+interface SeatMapDesignerProps {
+  layout: SeatLayout;
+  // Seats of the branch being designed.
+  seats: Seat[];
+  onSaved: () => void;
+}
+
+type Placement = Omit<SeatPlacement, 'id'>;
+
+const MAX_SIZE = 50;
+
+// Lays out a branch's hall: pick a seat, then click a cell to put it there.
+// Empty cells are aisles. The selected seat's zone and window flag can be set.
+const SeatMapDesigner: React.FC<SeatMapDesignerProps> = ({ layout, seats, onSaved }) => {
+  const [rows, setRows] = useState(layout.rows);
+  const [cols, setCols] = useState(layout.cols);
+  const [placements, setPlacements] = useState<Record<number, Placement>>({});
+  const [selectedSeatId, setSelectedSeatId] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setRows(layout.rows);
+    setCols(layout.cols);
+    const initial: Record<number, Placement> = {};
+    seats.forEach(seat => {
+      if (seat.rowIndex != null && seat.colIndex != null) {
+        initial[seat.id] = {
+          rowIndex: seat.rowIndex,
+          colIndex: seat.colIndex,
+          zone: seat.zone ?? null,
+          isWindow: !!seat.isWindow,
+        };
+      }
+    });
+    setPlacements(initial);
+    setSelectedSeatId(null);
+  }, [layout, seats]);
+
+  const seatAt = (rowIndex: number, colIndex: number) => {
+    const entry = Object.entries(placements)
+      .find(([, p]) => p.rowIndex === rowIndex && p.colIndex === colIndex);
+    return entry ? seats.find(seat => seat.id === Number(entry[0])) : undefined;
+  };
+
+  const unplacedSeats = seats.filter(seat => !placements[seat.id]);
+  const selectedSeat = seats.find(seat => seat.id === selectedSeatId);
+  const selectedPlacement = selectedSeatId !== null ? placements[selectedSeatId] : undefined;
+
+  const handleCellClick = (rowIndex: number, colIndex: number) => {
+    const occupant = seatAt(rowIndex, colIndex);
+    if (occupant) {
+      setSelectedSeatId(occupant.id === selectedSeatId ? null : occupant.id);
+      return;
+    }
+    if (selectedSeatId === null) return;
+    setPlacements(prev => ({
+      ...prev,
+      [selectedSeatId]: {
+        zone: prev[selectedSeatId]?.zone ?? null,
+        isWindow: prev[selectedSeatId]?.isWindow ?? false,
+        rowIndex,
+        colIndex,
+      },
+    }));
+  };
+
+  const updateSelected = (changes: Partial<Placement>) => {
+    if (selectedSeatId === null || !placements[selectedSeatId]) return;
+    setPlacements(prev => ({ ...prev, [selectedSeatId]: { ...prev[selectedSeatId], ...changes } }));
+  };
+
+  const removeSelected = () => {
+    if (selectedSeatId === null) return;
+    setPlacements(prev => {
+      const next = { ...prev };
+      delete next[selectedSeatId];
+      return next;
+    });
+  };
+
+  // Places the remaining seats in the free cells, row by row.
+  const handleAutoPlace = () => {
+    const next = { ...placements };
+    const taken = new Set(Object.values(next).map(p => `${p.rowIndex}:${p.colIndex}`));
+    const queue = [...unplacedSeats].sort((a, b) => a.seatNumber.localeCompare(b.seatNumber, undefined, { numeric: true }));
+    for (let rowIndex = 0; rowIndex < rows && queue.length > 0; rowIndex++) {
+      for (let colIndex = 0; colIndex < cols && queue.length > 0; colIndex++) {
+        if (!taken.has(`${rowIndex}:${colIndex}`)) {
+          const seat = queue.shift()!;
+          next[seat.id] = { rowIndex, colIndex, zone: null, isWindow: false };
+        }
+      }
+    }
+    setPlacements(next);
+    if (queue.length > 0) {
+      toast.warning(`${queue.length} seat(s) did not fit. Enlarge the grid.`);
+    }
+  };
+
+  const handleSave = async () => {
+    const outside = Object.values(placements).some(p => p.rowIndex >= rows || p.colIndex >= cols);
+    if (outside) {
+      toast.error('Some seats are outside the grid. Enlarge the grid or move them first.');
+      return;
+    }
+    setSaving(true);
+    try {
+      await api.saveSeatLayout({
+        branchId: layout.branchId,
+        rows,
+        cols,
+        seats: Object.entries(placements).map(([id, p]) => ({ id: Number(id), ...p })),
+      });
+      toast.success('Seat map saved');
+      onSaved();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to save seat map');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const clampSize = (value: string) => Math.min(Math.max(parseInt(value, 10) || 1, 1), MAX_SIZE);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label htmlFor="layout-rows" className="block text-sm font-medium text-gray-700">Rows</label>
+          <input
+            id="layout-rows"
+            type="number"
+            min={1}
+            max={MAX_SIZE}
+            value={rows}
+            onChange={(e) => setRows(clampSize(e.target.value))}
+            className="w-20 border rounded-md p-2 text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="layout-cols" className="block text-sm font-medium text-gray-700">Columns</label>
+          <input
+            id="layout-cols"
+            type="number"
+            min={1}
+            max={MAX_SIZE}
+            value={cols}
+            onChange={(e) => setCols(clampSize(e.target.value))}
+            className="w-20 border rounded-md p-2 text-sm"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={handleAutoPlace}
+          disabled={unplacedSeats.length === 0}
+          className="flex items-center gap-1 border rounded-md px-3 py-2 text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Wand2 size={14} /> Place remaining seats
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-2 bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 disabled:opacity-50"
+        >
+          {saving && <Loader2 size={14} className="animate-spin" />} Save Map
+        </button>
+      </div>
+
+      {unplacedSeats.length > 0 && (
+        <div>
+          <p className="text-sm text-gray-600 mb-2">Seats not on the map (select one, then click an empty cell):</p>
+          <div className="flex flex-wrap gap-1">
+            {unplacedSeats.map(seat => (
+              <button
+                key={seat.id}
+                type="button"
+                onClick={() => setSelectedSeatId(seat.id === selectedSeatId ? null : seat.id)}
+                className={`h-9 min-w-9 px-2 rounded-md border text-xs ${seat.id === selectedSeatId ? 'bg-purple-600 text-white' : 'bg-white'}`}
+              >
+                {seat.seatNumber}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <div className="grid gap-1 min-w-max" style={{ gridTemplateColumns: `repeat(${cols}, 3rem)` }}>
+          {Array.from({ length: rows * cols }, (_, index) => {
+            const rowIndex = Math.floor(index / cols);
+            const colIndex = index % cols;
+            const seat = seatAt(rowIndex, colIndex);
+            const placement = seat ? placements[seat.id] : undefined;
+            return (
+              <button
+                key={index}
+                type="button"
+                onClick={() => handleCellClick(rowIndex, colIndex)}
+                className={`relative h-12 w-12 rounded-md text-xs font-semibold flex items-center justify-center ${
+                  seat
+                    ? `border-2 ${placement?.zone === 'ac' ? 'bg-blue-50 border-blue-400' : 'bg-white border-gray-400'} ${seat.id === selectedSeatId ? 'outline outline-2 outline-purple-600' : ''}`
+                    : 'border border-dashed border-gray-200 hover:bg-purple-50'
+                }`}
+              >
+                {seat?.seatNumber}
+                {placement?.zone === 'ac' && <Snowflake size={10} className="absolute top-0.5 left-0.5 text-blue-500" />}
+                {placement?.isWindow && <Sun size={10} className="absolute top-0.5 right-0.5 text-yellow-600" />}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {selectedSeat && selectedPlacement && (
+        <div className="flex flex-wrap items-center gap-4 border rounded-md p-3 bg-gray-50 text-sm">
+          <span className="font-semibold">Seat {selectedSeat.seatNumber}</span>
+          <label className="flex items-center gap-2">
+            Zone
+            <select
+              value={selectedPlacement.zone ?? ''}
+              onChange={(e) => updateSelected({ zone: (e.target.value || null) as SeatZone | null })}
+              className="border rounded-md p-1"
+            >
+              <option value="">—</option>
+              <option value="ac">AC</option>
+              <option value="non_ac">Non-AC</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={selectedPlacement.isWindow}
+              onChange={(e) => updateSelected({ isWindow: e.target.checked })}
+              className="h-4 w-4"
+            />
+            Window seat
+          </label>
+          <button type="button" onClick={removeSelected} className="text-red-600 hover:underline">Remove from map</button>
+          <span className="text-xs text-gray-500">Click an empty cell to move this seat.</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeatMapDesigner;
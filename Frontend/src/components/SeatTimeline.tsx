@@ -0,0 +1,63 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import api, { SeatPeriod } from '../services/api';
+
+// Exactly one of the two: a student's seats over time, or a seat's occupants over time.
+type SeatTimelineProps = { studentId: number; seatId?: never } | { seatId: number; studentId?: never };
+
+const REASON_LABELS: Record<string, string> = {
+  admission: 'Admission',
+  renewal: 'Renewal',
+  update: 'Edited',
+  transfer: 'Transfer',
+  deactivated: 'Deactivated',
+  expired: 'Released after expiry',
+  seat_removed: 'Seat removed',
+  paused: 'Paused',
+  resumed: 'Resumed',
+};
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-IN', { dateStyle: 'medium' }) : '';
+
+const reasonLabel = (reason: string | null) => (reason ? REASON_LABELS[reason] || reason : '');
+
+// Seat/shift periods, newest first. Current periods are highlighted.
+const SeatTimeline: React.FC<SeatTimelineProps> = ({ studentId, seatId }) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: studentId ? ['seatHistory', 'student', studentId] : ['seatHistory', 'seat', seatId],
+    queryFn: () => (studentId ? api.getStudentSeatHistory(studentId) : api.getSeatHistory(seatId as number)),
+  });
+
+  if (isLoading) return <div className="text-sm text-gray-500">Loading seat history...</div>;
+  if (error) return <div className="text-sm text-red-500">Error loading seat history: {(error as Error).message}</div>;
+
+  const periods: SeatPeriod[] = data?.history || [];
+  if (periods.length === 0) return <div className="text-sm text-gray-500">No seat history yet.</div>;
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {periods.map(period => (
+        <li key={period.id} className="mb-4 ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${period.endedOn ? 'bg-gray-300' : 'bg-green-500'}`}
+          />
+          <div className="text-sm font-medium text-gray-800">
+            {studentId
+              ? `Seat ${period.seatNumber || 'none'} · ${period.shiftTitle || 'No shift'}`
+              : `${period.studentName} · ${period.shiftTitle || 'No shift'}`}
+          </div>
+          <div className="text-xs text-gray-500">
+            {formatDate(period.startedOn)} – {period.endedOn ? formatDate(period.endedOn) : 'now'}
+            {period.startReason && ` · ${reasonLabel(period.startReason)}`}
+            {period.endReason && ` · ended: ${reasonLabel(period.endReason)}`}
+            {studentId && period.branchName && ` · ${period.branchName}`}
+          </div>
+          {period.note && <div className="text-xs text-gray-600 mt-0.5">{period.note}</div>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default SeatTimeline;
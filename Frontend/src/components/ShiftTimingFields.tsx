@@ -0,0 +1,88 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { WEEK_DAYS } from '../config/shifts';
+
+export interface ShiftTimingValue {
+  startTime: string;
+  endTime: string;
+  daysOfWeek: number[];
+  branchId: number | null;
+  capacity: string;
+}
+
+interface ShiftTimingFieldsProps {
+  idPrefix: string;
+  value: ShiftTimingValue;
+  branches: Array<{ id: number; name: string }>;
+  onChange: (value: ShiftTimingValue) => void;
+}
+
+// Time range, weekdays, branch and capacity inputs shared by the add and edit
+// shift dialogs.
+const ShiftTimingFields: React.FC<ShiftTimingFieldsProps> = ({ idPrefix, value, branches, onChange }) => {
+  const toggleDay = (day: number) => {
+    onChange({
+      ...value,
+      daysOfWeek: value.daysOfWeek.includes(day)
+        ? value.daysOfWeek.filter(d => d !== day)
+        : [...value.daysOfWeek, day].sort(),
+    });
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor={`${idPrefix}-start`} className="text-sm text-gray-600 dark:text-gray-400">Starts</label>
+          <Input id={`${idPrefix}-start`} type="time" value={value.startTime} onChange={(e) => onChange({ ...value, startTime: e.target.value })} />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-end`} className="text-sm text-gray-600 dark:text-gray-400">Ends</label>
+          <Input id={`${idPrefix}-end`} type="time" value={value.endTime} onChange={(e) => onChange({ ...value, endTime: e.target.value })} />
+        </div>
+      </div>
+      <div>
+        <span className="text-sm text-gray-600 dark:text-gray-400">Days (none selected = every day)</span>
+        <div className="flex flex-wrap gap-1 mt-1">
+          {WEEK_DAYS.map(day => (
+            <button
+              key={day.value}
+              type="button"
+              onClick={() => toggleDay(day.value)}
+              className={`px-2 py-1 rounded-md border text-xs ${value.daysOfWeek.includes(day.value) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white dark:bg-gray-700'}`}
+            >
+              {day.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor={`${idPrefix}-branch`} className="text-sm text-gray-600 dark:text-gray-400">Branch</label>
+          <select
+            id={`${idPrefix}-branch`}
+            value={value.branchId ?? ''}
+            onChange={(e) => onChange({ ...value, branchId: e.target.value ? Number(e.target.value) : null })}
+            className="w-full h-10 px-3 border rounded-md bg-white dark:bg-gray-700 text-sm"
+          >
+            <option value="">All branches</option>
+            {branches.map(branch => <option key={branch.id} value={branch.id}>{branch.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-capacity`} className="text-sm text-gray-600 dark:text-gray-400">Capacity</label>
+          <Input
+            id={`${idPrefix}-capacity`}
+            type="number"
+            min={1}
+            placeholder="No limit"
+            value={value.capacity}
+            onChange={(e) => onChange({ ...value, capacity: e.target.value })}
+          />
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ShiftTimingFields;
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Clock, Trash2, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import api, { WaitlistEntry } from '../services/api';
+
+interface ShiftWaitlistProps {
+  shiftId: number;
+}
+
+const EMPTY_FORM = { branchId: '', name: '', phone: '', notes: '', extraShiftIds: [] as number[] };
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' }) : '';
+
+// People waiting for a seat in this shift. Whoever is offered a freed seat
+// can be admitted straight into it from here.
+const ShiftWaitlist: React.FC<ShiftWaitlistProps> = ({ shiftId }) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['waitlist', shiftId],
+    queryFn: () => api.getWaitlist({ shiftId }),
+  });
+  const { data: branches = [] } = useQuery({ queryKey: ['branches'], queryFn: api.getBranches });
+  const { data: schedules } = useQuery({ queryKey: ['schedules'], queryFn: () => api.getSchedules() });
+  const otherShifts = (schedules?.schedules || []).filter(schedule =>
+    schedule.id !== shiftId && (!schedule.branchId || String(schedule.branchId) === form.branchId)
+  );
+
+  const addMutation = useMutation({
+    mutationFn: () => api.addToWaitlist({
+      branchId: Number(form.branchId),
+      name: form.name.trim(),
+      phone: form.phone.trim(),
+      notes: form.notes.trim() || undefined,
+      shiftIds: [shiftId, ...form.extraShiftIds],
+    }),
+    onSuccess: ({ entry }) => {
+      toast.success(entry.status === 'offered'
+        ? `Seat ${entry.offeredSeatNumber} is free and has been offered to ${entry.name}`
+        : `${entry.name} added to the waitlist`);
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to add to waitlist'),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: number) => api.removeFromWaitlist(id),
+    onSuccess: () => {
+      toast.success('Removed from waitlist');
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to remove from waitlist'),
+  });
+
+  const handleAdmit = (entry: WaitlistEntry) => {
+    const params = new URLSearchParams({
+      branchId: String(entry.branchId),
+      shiftIds: entry.shiftIds.join(','),
+      name: entry.name,
+      phone: entry.phone,
+      waitlistId: String(entry.id),
+    });
+    if (entry.offeredSeatId) params.set('seatId', String(entry.offeredSeatId));
+    if (entry.email) params.set('email', entry.email);
+    navigate(`/students/add?${params.toString()}`);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.branchId || !form.name.trim() || !form.phone.trim()) {
+      toast.error('Branch, name and phone are required');
+      return;
+    }
+    addMutation.mutate();
+  };
+
+  const toggleExtraShift = (id: number) => {
+    setForm(prev => ({
+      ...prev,
+      extraShiftIds: prev.extraShiftIds.includes(id)
+        ? prev.extraShiftIds.filter(s => s !== id)
+        : [...prev.extraShiftIds, id],
+    }));
+  };
+
+  const entries = data?.waitlist || [];
+
+  return (
+    <Card className="mt-6 bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-xl font-bold text-gray-800 dark:text-gray-200">
+          Waitlist ({entries.length})
+        </CardTitle>
+        <Button variant="outline" onClick={() => setShowForm(!showForm)} className="flex items-center gap-2">
+          <UserPlus size={16} />
+          {showForm ? 'Close' : 'Add to Waitlist'}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {showForm && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6 p-4 border rounded-md">
+            <select
+              value={form.branchId}
+              onChange={(e) => setForm({ ...form, branchId: e.target.value, extraShiftIds: [] })}
+              className="h-10 px-3 border rounded-md bg-white dark:bg-gray-700 text-sm"
+              aria-label="Branch"
+            >
+              <option value="">Select branch</option>
+              {branches.map(branch => <option key={branch.id} value={branch.id}>{branch.name}</option>)}
+            </select>
+            <Input placeholder="Name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            <Input placeholder="Phone" value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+            <Input placeholder="Notes (optional)" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+            {form.branchId && otherShifts.length > 0 && (
+              <div className="sm:col-span-2">
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Also needs these shifts on the same seat:</p>
+                <div className="flex flex-wrap gap-3">
+                  {otherShifts.map(schedule => (
+                    <label key={schedule.id} className="flex items-center gap-1 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={form.extraShiftIds.includes(schedule.id)}
+                        onChange={() => toggleExtraShift(schedule.id)}
+                        className="h-4 w-4"
+                      />
+                      {schedule.title}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="sm:col-span-2 flex justify-end">
+              <Button type="submit" disabled={addMutation.isPending}>Add to Waitlist</Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-4 text-gray-500 dark:text-gray-400">Loading waitlist...</div>
+        ) : error ? (
+          <div className="text-red-500">Error loading waitlist: {(error as Error).message}</div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-4 text-gray-500 dark:text-gray-400">Nobody is waiting for this shift.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Branch</TableHead>
+                <TableHead>Shifts</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry, index) => (
+                <TableRow key={entry.id}>
+                  <TableCell>{index + 1}</TableCell>
+                  <TableCell className="font-medium">
+                    {entry.name}
+                    {entry.notes && <div className="text-xs text-gray-500">{entry.notes}</div>}
+                  </TableCell>
+                  <TableCell>{entry.phone}</TableCell>
+                  <TableCell>{entry.branchName}</TableCell>
+                  <TableCell>{entry.shiftTitles.join(', ')}</TableCell>
+                  <TableCell>{formatDateTime(entry.createdAt)}</TableCell>
+                  <TableCell>
+                    {entry.status === 'offered' ? (
+                      <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold bg-amber-100 text-amber-800">
+                        <Clock size={12} /> Seat {entry.offeredSeatNumber} held until {formatDateTime(entry.offerExpiresAt)}
+                      </span>
+                    ) : (
+                      <span className="inline-block px-2 py-1 rounded-full text-xs font-semibold bg-gray-100 text-gray-700">
+                        Waiting
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button size="sm" variant="outline" onClick={() => handleAdmit(entry)}>Admit</Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        if (window.confirm(`Remove ${entry.name} from the waitlist?`)) removeMutation.mutate(entry.id);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ShiftWaitlist;
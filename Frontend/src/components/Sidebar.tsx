@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { Home, UserPlus, Building2, Calendar, Clock, Grid, DollarSign, Wallet, ShoppingBag, BarChart2, Settings, ChevronRight, UserCheck, AlertTriangle, Menu, X, LogOut, MapPin, Package, ToggleLeft, Archive } from 'lucide-react';
+import { Home, UserPlus, Building2, Calendar, Clock, Grid, DollarSign, Wallet, ShoppingBag, BarChart2, Settings, ChevronRight, UserCheck, AlertTriangle, Menu, X, LogOut, MapPin, Package, ToggleLeft, Archive, History, PieChart, Tag, MessageSquare, Megaphone } from 'lucide-react';
 import { useMediaQuery } from 'react-responsive';
 import logo from './logo.png';
 import { useAuth } from '../context/AuthContext';
@@ -44,13 +44,18 @@ const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, setIsCollapsed }) => {
     { path: '/schedule', icon: <Calendar size={20} />, label: 'Schedule', permission: 'manage_schedules' },
     { path: '/shifts', icon: <Clock size={20} />, label: 'Shifts', permission: 'manage_schedules' },
     { path: '/seats', icon: <Grid size={20} />, label: 'Seats', permission: 'manage_seats' },
+    { path: '/fee-plans', icon: <Tag size={20} />, label: 'Fee Plans', permission: 'manage_fee_plans' },
     { path: '/branches', icon: <MapPin size={20} />, label: 'Manage Branches', permission: 'manage_branches' },
     { path: '/products', icon: <Package size={20} />, label: 'Products', permission: 'manage_products' },
     { path: '/transactions', icon: <DollarSign size={20} />, label: 'Transactions', permission: 'view_transactions' },
     { path: '/collections', icon: <Wallet size={20} />, label: 'Collection & Due', permission: 'view_collections' },
+    { path: '/messages', icon: <MessageSquare size={20} />, label: 'Messages', permission: 'manage_messages' },
+    { path: '/campaigns', icon: <Megaphone size={20} />, label: 'Campaigns', permission: 'send_campaigns' },
     { path: '/expenses', icon: <ShoppingBag size={20} />, label: 'Expenses', permission: 'manage_expenses' },
     { path: '/profit-loss', icon: <BarChart2 size={20} />, label: 'Profit & Loss', permission: 'view_reports' },
+    { path: '/seat-utilization', icon: <PieChart size={20} />, label: 'Seat Utilization', permission: 'view_reports' },
     { path: '/lockers', icon: <Archive size={20} />, label: 'Lockers', permission: 'manage_lockers_or_staff' },
+    { path: '/audit-log', icon: <History size={20} />, label: 'Audit Log', permission: 'admin_only' },
     { path: '/settings', icon: <Settings size={20} />, label: 'Settings', permission: 'admin_only' },
   ];
 
@@ -153,6 +158,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, setIsCollapsed }) => {
                     {!effectiveIsCollapsed && item.hasDropdown && showStudentDropdown && item.label === 'Library Students' && (
                       <div className="ml-8 mt-1 space-y-1 animate-fade-in">
                         <Link to="/students/add" className={`block py-2 px-3 rounded-md text-sm font-medium ${isActive('/students/add') ? 'bg-purple-50 text-purple-600' : 'text-gray-700 hover:bg-gray-100'}`} onClick={() => isMobile && setIsSidebarOpen(false)}>Add Student</Link>
+                        <Link to="/students/import" className={`block py-2 px-3 rounded-md text-sm font-medium ${isActive('/students/import') ? 'bg-purple-50 text-purple-600' : 'text-gray-700 hover:bg-gray-100'}`} onClick={() => isMobile && setIsSidebarOpen(false)}>Import Students</Link>
                         <Link to="/students" className={`block py-2 px-3 rounded-md text-sm font-medium ${isActive('/students') && location.pathname.split('/').length === 2 ? 'bg-purple-50 text-purple-600' : 'text-gray-700 hover:bg-gray-100'}`} onClick={() => isMobile && setIsSidebarOpen(false)}>View All</Link>
                         <Link to="/active-students" className={`flex items-center py-2 px-3 rounded-md text-sm font-medium ${isActive('/active-students') ? 'bg-purple-50 text-purple-600' : 'text-gray-700 hover:bg-gray-100'}`} onClick={() => isMobile && setIsSidebarOpen(false)}><UserCheck size={14} className="mr-1.5" />Active Students</Link>
                         <Link to="/expired-memberships" className={`flex items-center py-2 px-3 rounded-md text-sm font-medium ${isActive('/expired-memberships')? 'bg-purple-50 text-purple-600' : 'text-gray-700 hover:bg-gray-100'}`} onClick={() => isMobile && setIsSidebarOpen(false)}><AlertTriangle size={14} className="mr-1.5" />Expired Members</Link>
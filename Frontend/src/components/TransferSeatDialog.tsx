@@ -0,0 +1,301 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import api, { InstallmentInput } from '../services/api';
+import InstallmentPlanEditor from './InstallmentPlanEditor';
+
+interface TransferSeatDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  student: {
+    id: number;
+    name: string;
+    branchId: number;
+    totalFee: number;
+    discount?: number | null;
+    membershipEnd: string;
+    assignments?: Array<{ seatId: number | null; shiftId: number }>;
+  };
+  // Called after a successful transfer so the page can reload the student.
+  onTransferred: () => void;
+}
+
+// Moves a student to another seat and/or shifts mid-membership. The suggested
+// fee difference is the change in the shifts' listed fees; staff can change it.
+// Any difference needs a reason (and the override fees permission), and an
+// installment plan is redone for the changed fee.
+const TransferSeatDialog: React.FC<TransferSeatDialogProps> = ({ open, onOpenChange, student, onTransferred }) => {
+  const assignments = student.assignments || [];
+  const currentSeatId = assignments.length > 0 ? assignments[0].seatId : null;
+  const currentShiftIds = useMemo(
+    () => (student.assignments || []).map(assignment => assignment.shiftId),
+    [student.assignments]
+  );
+
+  const [seatId, setSeatId] = useState('');
+  const [shiftIds, setShiftIds] = useState<number[]>([]);
+  const [feeDifference, setFeeDifference] = useState('');
+  const [amountCollected, setAmountCollected] = useState('');
+  const [method, setMethod] = useState<'cash' | 'online'>('cash');
+  const [note, setNote] = useState('');
+  const [feeOverrideReason, setFeeOverrideReason] = useState('');
+  const [installments, setInstallments] = useState<InstallmentInput[]>([]);
+
+  // Reset only when the dialog opens, not on every reload of the student.
+  const wasOpen = useRef(false);
+  useEffect(() => {
+    if (open && !wasOpen.current) {
+      setSeatId(currentSeatId ? String(currentSeatId) : '');
+      setShiftIds(currentShiftIds);
+      setFeeDifference('');
+      setAmountCollected('');
+      setMethod('cash');
+      setNote('');
+      setFeeOverrideReason('');
+      setInstallments([]);
+    }
+    wasOpen.current = open;
+  }, [open, currentSeatId, currentShiftIds]);
+
+  const { data: seatsData } = useQuery({
+    queryKey: ['seats', student.branchId],
+    queryFn: () => api.getSeats({ branchId: student.branchId }),
+    enabled: open,
+  });
+  const { data: schedulesData } = useQuery({
+    queryKey: ['schedules', student.branchId],
+    queryFn: () => api.getSchedules({ branchId: student.branchId }),
+    enabled: open,
+  });
+  const { data: installmentsData } = useQuery({
+    queryKey: ['studentInstallments', student.id],
+    queryFn: () => api.getStudentInstallments(student.id),
+    enabled: open,
+  });
+  const { data: suggestionsData } = useQuery({
+    queryKey: ['seatSuggestions', student.branchId, shiftIds, currentSeatId],
+    queryFn: () => api.getSeatSuggestions({ branchId: student.branchId, shiftIds, nearSeatId: currentSeatId }),
+    enabled: open && shiftIds.length > 0,
+  });
+
+  const seats = seatsData?.seats || [];
+  const schedules = schedulesData?.schedules || [];
+  const suggestions = suggestionsData?.suggestions || [];
+  const feeOf = (ids: number[]) =>
+    ids.reduce((sum, id) => sum + (Number(schedules.find(schedule => schedule.id === id)?.fee) || 0), 0);
+  const suggestedDifference = feeOf(shiftIds) - feeOf(currentShiftIds);
+  const difference = parseFloat(feeDifference) || 0;
+  const newNetFee = (student.totalFee || 0) + difference - (student.discount || 0);
+  // Installments of every period come back; only the current period's count.
+  const hasInstallments = (installmentsData?.installments || [])
+    .some(installment => installment.membershipEnd === student.membershipEnd.slice(0, 10));
+
+  const mutation = useMutation({
+    mutationFn: () => api.transferStudent(student.id, {
+      seatId: seatId ? Number(seatId) : null,
+      shiftIds,
+      feeDifference: feeDifference ? parseFloat(feeDifference) : 0,
+      amountCollected: amountCollected ? parseFloat(amountCollected) : 0,
+      method,
+      note: note.trim() || undefined,
+      feeOverrideReason: difference !== 0 ? feeOverrideReason.trim() : undefined,
+      installments: difference !== 0 && hasInstallments ? installments : undefined,
+    }),
+    onSuccess: ({ receipt }) => {
+      toast.success(receipt ? `Student transferred. Receipt ${receipt.receiptNumber} issued` : 'Student transferred');
+      onOpenChange(false);
+      onTransferred();
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to transfer student'),
+  });
+
+  const toggleShift = (id: number) => {
+    setShiftIds(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+  };
+
+  const handleSubmit = () => {
+    if (shiftIds.length === 0) {
+      toast.error('Select at least one shift');
+      return;
+    }
+    if (feeDifference && isNaN(parseFloat(feeDifference))) {
+      toast.error('Invalid fee difference');
+      return;
+    }
+    if (amountCollected && (isNaN(parseFloat(amountCollected)) || parseFloat(amountCollected) < 0)) {
+      toast.error('Invalid amount collected');
+      return;
+    }
+    if (difference !== 0 && newNetFee < 0) {
+      toast.error('The credit cannot take the fee after discount below zero');
+      return;
+    }
+    if (difference !== 0 && !feeOverrideReason.trim()) {
+      toast.error('Enter a reason for the fee difference');
+      return;
+    }
+    if (difference !== 0 && hasInstallments && installments.length === 0) {
+      toast.error('Redo the installment plan for the new fee');
+      return;
+    }
+    mutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Transfer Seat / Shift</DialogTitle>
+          <DialogDescription>
+            Move {student.name} for the rest of the current membership. The change takes effect today.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="transferSeat" className="text-sm text-gray-600">Seat</label>
+            <select
+              id="transferSeat"
+              value={seatId}
+              onChange={(e) => setSeatId(e.target.value)}
+              className="w-full h-10 px-3 border rounded-md bg-white text-sm"
+            >
+              <option value="">No seat</option>
+              {seats.map(seat => (
+                <option key={seat.id} value={seat.id}>
+                  {seat.seatNumber}{seat.id === currentSeatId ? ' (current)' : ''}
+                </option>
+              ))}
+            </select>
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 mt-2">
+                <span className="text-xs text-gray-500">Free nearby:</span>
+                {suggestions.map(suggestion => (
+                  <Button
+                    key={suggestion.seatId}
+                    type="button"
+                    size="sm"
+                    variant={String(suggestion.seatId) === seatId ? 'default' : 'outline'}
+                    onClick={() => setSeatId(String(suggestion.seatId))}
+                  >
+                    {suggestion.seatNumber}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <span className="text-sm text-gray-600">Shifts</span>
+            <div className="flex flex-wrap gap-3 mt-1">
+              {schedules.map(schedule => (
+                <label key={schedule.id} className="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={shiftIds.includes(schedule.id)}
+                    onChange={() => toggleShift(schedule.id)}
+                    className="h-4 w-4"
+                  />
+                  {schedule.title}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="transferFeeDifference" className="text-sm text-gray-600">Fee difference (Rs.)</label>
+              <Input
+                id="transferFeeDifference"
+                type="number"
+                step="0.01"
+                placeholder="0"
+                value={feeDifference}
+                onChange={(e) => setFeeDifference(e.target.value)}
+              />
+              {suggestedDifference !== 0 && (
+                <button
+                  type="button"
+                  onClick={() => setFeeDifference(String(suggestedDifference))}
+                  className="text-xs text-purple-600 hover:underline mt-1"
+                >
+                  Use shift fee difference ({suggestedDifference > 0 ? '+' : ''}{suggestedDifference.toFixed(2)})
+                </button>
+              )}
+              <p className="text-xs text-gray-500 mt-1">Positive charges more, negative credits the student.</p>
+            </div>
+            <div>
+              <label htmlFor="transferAmountCollected" className="text-sm text-gray-600">Collected now (Rs.)</label>
+              <Input
+                id="transferAmountCollected"
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="0"
+                value={amountCollected}
+                onChange={(e) => setAmountCollected(e.target.value)}
+              />
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value as 'cash' | 'online')}
+                className="w-full h-10 px-3 mt-2 border rounded-md bg-white text-sm"
+                aria-label="Payment method"
+              >
+                <option value="cash">Cash</option>
+                <option value="online">Online</option>
+              </select>
+            </div>
+          </div>
+
+          {difference !== 0 && (
+            <div>
+              <label htmlFor="transferFeeReason" className="text-sm text-gray-600">Reason for the fee difference</label>
+              <Input
+                id="transferFeeReason"
+                placeholder="Needs the override fees permission"
+                value={feeOverrideReason}
+                onChange={(e) => setFeeOverrideReason(e.target.value)}
+              />
+            </div>
+          )}
+
+          {difference !== 0 && hasInstallments && (
+            <InstallmentPlanEditor
+              netFee={newNetFee}
+              startDate={new Date().toISOString().slice(0, 10)}
+              value={installments}
+              onChange={setInstallments}
+            />
+          )}
+
+          <div>
+            <label htmlFor="transferNote" className="text-sm text-gray-600">Note</label>
+            <Input
+              id="transferNote"
+              placeholder="Reason for the transfer (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={mutation.isPending}>Transfer</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransferSeatDialog;
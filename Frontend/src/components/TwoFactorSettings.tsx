@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Copy, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import api, { TwoFactorEnrollment } from '../services/api';
+
+interface TwoFactorSettingsProps {
+  // Called once 2FA is enabled and the recovery codes have been acknowledged.
+  onEnabled?: () => void;
+}
+
+// Enrollment, recovery codes and disabling of TOTP two-factor authentication
+// for the logged-in admin.
+const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({ onEnabled }) => {
+  const queryClient = useQueryClient();
+  const { data: status, isLoading } = useQuery({
+    queryKey: ['twoFactorStatus'],
+    queryFn: api.getTwoFactorStatus,
+  });
+
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setSubmitting(true);
+      await action();
+      queryClient.invalidateQueries({ queryKey: ['twoFactorStatus'] });
+    } catch (error) {
+      toast.error((error as Error).message || 'Something went wrong');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSetup = () => run(async () => {
+    setEnrollment(await api.setupTwoFactor());
+    setCode('');
+  });
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const result = await api.enableTwoFactor(code.trim());
+      setEnrollment(null);
+      setCode('');
+      setRecoveryCodes(result.recoveryCodes);
+      toast.success('Two-factor authentication enabled');
+    });
+  };
+
+  const handleRegenerate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const result = await api.regenerateRecoveryCodes(code.trim());
+      setCode('');
+      setRecoveryCodes(result.recoveryCodes);
+      toast.success('New recovery codes generated');
+    });
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!window.confirm('Turn off two-factor authentication for your account?')) return;
+    run(async () => {
+      await api.disableTwoFactor(password);
+      setPassword('');
+      toast.success('Two-factor authentication disabled');
+    });
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  const handleCodesSaved = () => {
+    setRecoveryCodes(null);
+    onEnabled?.();
+  };
+
+  if (isLoading || !status) {
+    return <div className="text-center p-4"><Loader2 className="h-5 w-5 animate-spin mx-auto" /></div>;
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700">
+          Save these recovery codes somewhere safe. Each code can be used once to sign in if you lose
+          access to your authenticator app. They will not be shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 border rounded-md p-3">
+          {recoveryCodes.map(recoveryCode => <li key={recoveryCode}>{recoveryCode}</li>)}
+        </ul>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handleCopyCodes} className="flex items-center gap-2">
+            <Copy size={14} /> Copy
+          </Button>
+          <Button onClick={handleCodesSaved}>I have saved these codes</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (status.enabled) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-2 text-green-700">
+          <ShieldCheck size={18} />
+          <span className="font-medium">Two-factor authentication is on</span>
+        </div>
+        <p className="text-sm text-gray-600">{status.recoveryCodesRemaining} unused recovery code(s) left.</p>
+
+        <form onSubmit={handleRegenerate} className="space-y-2">
+          <label htmlFor="regenerateCode" className="text-sm font-medium">New recovery codes</label>
+          <div className="flex gap-2">
+            <Input
+              id="regenerateCode"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Authenticator code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+            />
+            <Button type="submit" variant="outline" disabled={submitting || !code.trim()}>Regenerate</Button>
+          </div>
+        </form>
+
+        {status.required ? (
+          <p className="text-xs text-gray-500">Two-factor authentication is required for all admin accounts and cannot be turned off.</p>
+        ) : (
+          <form onSubmit={handleDisable} className="space-y-2">
+            <label htmlFor="disablePassword" className="text-sm font-medium">Turn off</label>
+            <div className="flex gap-2">
+              <Input
+                id="disablePassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Current password"
+                autoComplete="current-password"
+              />
+              <Button type="submit" variant="destructive" disabled={submitting || !password} className="flex items-center gap-2">
+                <ShieldOff size={14} /> Disable
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  if (enrollment) {
+    return (
+      <form onSubmit={handleEnable} className="space-y-4">
+        <p className="text-sm text-gray-700">
+          Scan this QR code with an authenticator app (Google Authenticator, Microsoft Authenticator, Authy…),
+          then enter the 6-digit code it shows.
+        </p>
+        <img src={enrollment.qrCode} alt="Two-factor QR code" className="mx-auto h-48 w-48 border rounded-md" />
+        <p className="text-xs text-gray-500 text-center break-all">
+          Can't scan? Enter this key manually: <span className="font-mono">{enrollment.secret}</span>
+        </p>
+        <div className="flex gap-2">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+          />
+          <Button type="submit" disabled={submitting || !code.trim()}>
+            {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Verify & Enable'}
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-700">
+        Protect your admin account with a one-time code from an authenticator app in addition to your password.
+      </p>
+      {status.required && (
+        <p className="text-sm text-red-600">Two-factor authentication is required for admin accounts.</p>
+      )}
+      <div className="flex justify-end">
+        <Button onClick={handleSetup} disabled={submitting}>
+          {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Set up two-factor authentication'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import api from '../services/api';
+
+interface WaitlistSettingsData {
+  waitlistHoldHours?: string;
+  waitlistWhatsappTemplate?: string;
+  seatReleaseGraceDays?: string;
+}
+
+// Admin card for how long a freed seat is held for a waitlisted person, the
+// WhatsApp template used to tell them and when expired students lose their seat.
+const WaitlistSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { data: settings, isLoading, error } = useQuery<WaitlistSettingsData>({
+    queryKey: ['settings'],
+    queryFn: api.getSettings,
+  });
+  const [form, setForm] = useState({ holdHours: '24', template: '', graceDays: '' });
+
+  useEffect(() => {
+    if (settings) {
+      setForm({
+        holdHours: settings.waitlistHoldHours || '24',
+        template: settings.waitlistWhatsappTemplate || '',
+        graceDays: settings.seatReleaseGraceDays ?? '',
+      });
+    }
+  }, [settings]);
+
+  const mutation = useMutation({
+    mutationFn: () => api.updateSettings({
+      waitlistHoldHours: parseInt(form.holdHours, 10),
+      waitlistWhatsappTemplate: form.template.trim() || undefined,
+      seatReleaseGraceDays: form.graceDays === '' ? '' : parseInt(form.graceDays, 10),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      toast.success('Waitlist settings updated');
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to update waitlist settings'),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const holdHours = parseInt(form.holdHours, 10);
+    if (isNaN(holdHours) || holdHours < 1) {
+      toast.error('Hold time must be at least 1 hour');
+      return;
+    }
+    if (form.graceDays !== '' && (isNaN(parseInt(form.graceDays, 10)) || parseInt(form.graceDays, 10) < 0)) {
+      toast.error('Grace days must be zero or more');
+      return;
+    }
+    mutation.mutate();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="text-xl font-semibold mb-4">Seat Waitlist</h3>
+      {isLoading ? <div>Loading...</div> : error ? <div>Error...</div> : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="waitlistHoldHours">Hold a freed seat for (hours)</label>
+            <Input id="waitlistHoldHours" type="number" min={1} value={form.holdHours} onChange={(e) => setForm({ ...form, holdHours: e.target.value })} />
+          </div>
+          <div>
+            <label htmlFor="waitlistWhatsappTemplate">WhatsApp template for seat offers</label>
+            <Input id="waitlistWhatsappTemplate" placeholder="seat_available" value={form.template} onChange={(e) => setForm({ ...form, template: e.target.value })} />
+            <p className="text-xs text-gray-500 mt-1">Receives the name, seat number and hold expiry as {'{{1}}'}, {'{{2}}'} and {'{{3}}'}.</p>
+          </div>
+          <div>
+            <label htmlFor="seatReleaseGraceDays">Release seats of expired students after (days)</label>
+            <Input id="seatReleaseGraceDays" type="number" min={0} placeholder="Never" value={form.graceDays} onChange={(e) => setForm({ ...form, graceDays: e.target.value })} />
+            <p className="text-xs text-gray-500 mt-1">Leave empty to keep expired students' seats until staff free them.</p>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={mutation.isPending}>Save Waitlist Settings</Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default WaitlistSettings;
@@ -9,6 +9,11 @@ export const allPermissions: Permission[] = [
   { id: 'manage_schedules', label: 'Manage Schedules & Shifts', category: 'Library' },
   { id: 'manage_seats', label: 'Manage Seats', category: 'Library' },
   { id: 'view_collections', label: 'View Library Collections', category: 'Library' },
+  { id: 'manage_refunds', label: 'Reverse Payments & Issue Refunds', category: 'Library' },
+  { id: 'manage_fee_plans', label: 'Manage Fee Plans & Offers', category: 'Library' },
+  { id: 'override_fees', label: 'Override Plan Fees', category: 'Library' },
+  { id: 'manage_messages', label: 'View & Resend Messages', category: 'Library' },
+  { id: 'send_campaigns', label: 'Send Campaigns to Students', category: 'Library' },
   
   { id: 'manage_hostel_students', label: 'Manage Hostel Students', category: 'Hostel' },
   { id: 'manage_hostel_branches', label: 'Manage Hostel Branches', category: 'Hostel' },
@@ -19,4 +24,20 @@ export const allPermissions: Permission[] = [
   { id: 'manage_expenses', label: 'Manage Expenses', category: 'General' },
   { id: 'view_transactions', label: 'View Transactions', category: 'General' },
   { id: 'view_reports', label: 'View Profit & Loss', category: 'General' },
-];
\ No newline at end of file
+];
+
+export const permissionsByCategory = allPermissions.reduce((acc, permission) => {
+  const category = permission.category || 'General';
+  if (!acc[category]) {
+    acc[category] = [];
+  }
+  acc[category].push(permission);
+  return acc;
+}, {} as Record<string, Permission[]>);
+
+// Splits the permissions picked for a user into the overrides stored next to
+// their role: grants on top of the role and removals from it.
+export const toPermissionOverrides = (rolePermissions: string[], selected: string[]) => ({
+  permissions: selected.filter(permission => !rolePermissions.includes(permission)),
+  revokedPermissions: rolePermissions.filter(permission => !selected.includes(permission)),
+});
\ No newline at end of file
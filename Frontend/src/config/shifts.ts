@@ -0,0 +1,25 @@
+export const WEEK_DAYS = [
+  { value: 0, label: 'Sun' },
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+];
+
+// "06:00:00" -> "6:00 AM"
+export const formatShiftTime = (time: string | null | undefined): string => {
+  if (!time || !time.includes(':')) return '';
+  const [hour, minute] = time.split(':').map(Number);
+  const suffix = hour >= 12 ? 'PM' : 'AM';
+  return `${hour % 12 || 12}:${String(minute).padStart(2, '0')} ${suffix}`;
+};
+
+export const formatShiftRange = (startTime?: string | null, endTime?: string | null): string =>
+  startTime && endTime ? `${formatShiftTime(startTime)} – ${formatShiftTime(endTime)}` : '';
+
+export const formatShiftDays = (days?: number[] | null): string => {
+  if (!days || days.length === 0 || days.length === 7) return 'Every day';
+  return WEEK_DAYS.filter(day => days.includes(day.value)).map(day => day.label).join(', ');
+};
@@ -6,7 +6,13 @@ interface User {
   id: string;
   username: string;
   role: string;
+  roleId?: number | null;
+  // Effective permissions: the role's plus per-user overrides.
   permissions: string[];
+  // null when the user may work with every branch.
+  allowedBranchIds?: number[] | null;
+  mustChangePassword?: boolean;
+  twoFactorSetupRequired?: boolean;
 }
 
 interface AuthContextType {
@@ -16,6 +22,11 @@ interface AuthContextType {
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>; // ✅ NEW
   isLoading: boolean;
+  // Password accepted, waiting for the TOTP / recovery code step.
+  twoFactorPending: boolean;
+  beginTwoFactor: () => void;
+  verifyTwoFactor: (data: { totpCode?: string; recoveryCode?: string }) => Promise<{ user: User; recoveryCodesRemaining?: number }>;
+  cancelTwoFactor: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType>({
@@ -25,11 +36,16 @@ const AuthContext = createContext<AuthContextType>({
   logout: async () => {},
   refreshUser: async () => {},
   isLoading: false,
+  twoFactorPending: false,
+  beginTwoFactor: () => {},
+  verifyTwoFactor: async () => { throw new Error('AuthProvider is missing'); },
+  cancelTwoFactor: async () => {},
 });
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [twoFactorPending, setTwoFactorPending] = useState(false);
 
   // ✅ NEW FUNCTION: Refresh user session via /auth/refresh
   const refreshUser = async () => {
@@ -53,8 +69,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         if (data.isAuthenticated) {
           data.user.permissions = data.user.permissions || [];
           setUser(data.user);
+          setTwoFactorPending(false);
         } else {
           setUser(null);
+          setTwoFactorPending(!!data.twoFactorPending);
         }
       } catch (error) {
         console.error('Auth check failed:', error);
@@ -75,6 +93,28 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     setIsLoading(false);
   };
 
+  const beginTwoFactor = () => {
+    setUser(null);
+    setTwoFactorPending(true);
+  };
+
+  const verifyTwoFactor = async (data: { totpCode?: string; recoveryCode?: string }) => {
+    const result = await api.verifyTwoFactor(data);
+    login(result.user);
+    setTwoFactorPending(false);
+    return result;
+  };
+
+  // Drops the half-finished login on the server as well.
+  const cancelTwoFactor = async () => {
+    setTwoFactorPending(false);
+    try {
+      await api.logout();
+    } catch (error) {
+      console.error('Failed to cancel two-factor login:', error);
+    }
+  };
+
   const logout = async () => {
     setIsLoading(true);
     try {
@@ -96,6 +136,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         logout,
         refreshUser, // ✅ Provide function to components
         isLoading,
+        twoFactorPending,
+        beginTwoFactor,
+        verifyTwoFactor,
+        cancelTwoFactor,
       }}
     >
       {children}
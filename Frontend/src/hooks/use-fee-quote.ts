@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query';
+import api, { FeeQuoteQuery } from '../services/api';
+
+const DEFAULT_DURATIONS = [1, 3, 6, 12];
+
+// Fee quote for an admission or renewal form plus the durations to offer:
+// the usual ones and any the branch has a plan for. Pass null until the
+// branch and start date are known.
+export function useFeeQuote(query: FeeQuoteQuery | null) {
+  const quoteQuery = useQuery({
+    queryKey: ['feeQuote', query],
+    queryFn: () => api.getFeeQuote(query as FeeQuoteQuery),
+    enabled: query !== null,
+  });
+  const plansQuery = useQuery({
+    queryKey: ['feePlans', query?.branchId],
+    queryFn: () => api.getFeePlans(query?.branchId),
+    enabled: query !== null,
+  });
+
+  const planDurations = (plansQuery.data?.plans || []).filter(plan => plan.isActive).map(plan => plan.durationMonths);
+  const durations = [...new Set([...DEFAULT_DURATIONS, ...planDurations])].sort((a, b) => a - b);
+
+  return {
+    quote: query ? quoteQuery.data?.quote ?? null : null,
+    canOverride: quoteQuery.data?.canOverride ?? false,
+    isFetching: quoteQuery.isFetching,
+    error: quoteQuery.error as Error | null,
+    durations,
+  };
+}
@@ -0,0 +1,120 @@
+import * as XLSX from 'xlsx';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+  // Numeric columns flagged with `total` get summed into a closing "Total" row.
+  total?: boolean;
+}
+
+export interface ExportOptions {
+  title: string;
+  fileName: string;
+  branchName?: string | null;
+  // Human readable description of the active filters, printed under the title.
+  filters?: string[];
+  logoUrl?: string;
+}
+
+const toNumber = (value: unknown): number => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+const buildMatrix = <T,>(columns: ExportColumn<T>[], rows: T[]) => {
+  const body = rows.map(row => columns.map(col => {
+    const value = col.value(row);
+    return value === null || value === undefined ? '' : value;
+  }));
+  const hasTotals = columns.some(col => col.total);
+  const totals = hasTotals
+    ? columns.map((col, index) => {
+        if (index === 0) return 'Total';
+        return col.total ? rows.reduce((sum, row) => sum + toNumber(col.value(row)), 0) : '';
+      })
+    : null;
+  return { header: columns.map(col => col.header), body, totals };
+};
+
+const datedFileName = (fileName: string, extension: string) =>
+  `${fileName}-${new Date().toISOString().split('T')[0]}.${extension}`;
+
+export const exportToCsv = <T,>(columns: ExportColumn<T>[], rows: T[], options: ExportOptions) => {
+  const { header, body, totals } = buildMatrix(columns, rows);
+  const sheet = XLSX.utils.aoa_to_sheet(totals ? [header, ...body, totals] : [header, ...body]);
+  const csv = XLSX.utils.sheet_to_csv(sheet);
+  // The BOM makes Excel open the file as UTF-8 instead of mangling names.
+  const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = datedFileName(options.fileName, 'csv');
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+export const exportToXlsx = <T,>(columns: ExportColumn<T>[], rows: T[], options: ExportOptions) => {
+  const { header, body, totals } = buildMatrix(columns, rows);
+  const sheet = XLSX.utils.aoa_to_sheet(totals ? [header, ...body, totals] : [header, ...body]);
+  sheet['!cols'] = header.map(h => ({ wch: Math.max(12, h.length + 2) }));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, options.title.slice(0, 31));
+  XLSX.writeFile(workbook, datedFileName(options.fileName, 'xlsx'));
+};
+
+export const loadImageDataUrl = (src: string): Promise<string | null> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(null);
+      ctx.drawImage(img, 0, 0);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+
+export const exportToPdf = async <T,>(columns: ExportColumn<T>[], rows: T[], options: ExportOptions) => {
+  const { header, body, totals } = buildMatrix(columns, rows);
+  const doc = new jsPDF({ orientation: columns.length > 6 ? 'landscape' : 'portrait' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  let textX = 14;
+  if (options.logoUrl) {
+    const logo = await loadImageDataUrl(options.logoUrl);
+    if (logo) {
+      doc.addImage(logo, 'PNG', 14, 10, 18, 18);
+      textX = 36;
+    }
+  }
+  doc.setFontSize(16);
+  doc.text(options.branchName ? `SHIV LIBRARY - ${options.branchName}` : 'SHIV LIBRARY', textX, 17);
+  doc.setFontSize(11);
+  doc.text(options.title, textX, 24);
+  doc.setFontSize(8);
+  doc.text(`Generated ${new Date().toLocaleString()}`, pageWidth - 14, 17, { align: 'right' });
+
+  const filterLine = (options.filters || []).filter(f => f).join('  |  ');
+  if (filterLine) {
+    doc.text(filterLine, textX, 29);
+  }
+
+  autoTable(doc, {
+    startY: 34,
+    head: [header],
+    body: body.map(row => row.map(cell => String(cell))),
+    foot: totals ? [totals.map(cell => (typeof cell === 'number' ? cell.toFixed(2) : cell))] : undefined,
+    showFoot: 'lastPage',
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [124, 58, 237] },
+    footStyles: { fillColor: [243, 232, 255], textColor: 20, fontStyle: 'bold' },
+  });
+
+  doc.save(datedFileName(options.fileName, 'pdf'));
+};
@@ -0,0 +1,118 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import api, { Receipt } from '../services/api';
+import { loadImageDataUrl } from './export';
+import logo from '../components/logo.png';
+import signature from '../pages/SignatureDirector.jpg';
+
+const rupees = (value: number | null | undefined) => `Rs. ${(Number(value) || 0).toFixed(2)}`;
+
+const formatDate = (value: string | null | undefined) => {
+  if (!value) return 'N/A';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleDateString('en-IN');
+};
+
+// jspdf-autotable stores the last drawn table on the document without typing it.
+const lastTableY = (doc: jsPDF) => (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+/**
+ * Builds and downloads the A5 receipt PDF. `duplicate` marks reprints so the
+ * student copy can be told apart from the original; a voided receipt is
+ * marked void instead.
+ */
+export const downloadReceiptPdf = async (receipt: Receipt, duplicate = false) => {
+  const doc = new jsPDF({ format: 'a5' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  const logoData = await loadImageDataUrl(logo);
+  if (logoData) {
+    doc.addImage(logoData, 'PNG', 10, 8, 18, 18);
+  }
+  doc.setFontSize(15);
+  doc.text('SHIV LIBRARY', 32, 15);
+  doc.setFontSize(9);
+  doc.text(receipt.branchName || '', 32, 21);
+
+  doc.setFontSize(12);
+  doc.text('FEE RECEIPT', pageWidth - 10, 14, { align: 'right' });
+  doc.setFontSize(8);
+  doc.text(`No. ${receipt.receiptNumber}`, pageWidth - 10, 19, { align: 'right' });
+  doc.text(`Date: ${formatDate(receipt.issuedAt)}`, pageWidth - 10, 23, { align: 'right' });
+  if (receipt.voidedAt || duplicate) {
+    doc.setTextColor(200, 0, 0);
+    doc.text(receipt.voidedAt ? 'VOID - PAYMENT REVERSED' : 'DUPLICATE COPY', pageWidth - 10, 27, { align: 'right' });
+    doc.setTextColor(0, 0, 0);
+  }
+
+  autoTable(doc, {
+    startY: 32,
+    theme: 'plain',
+    styles: { fontSize: 9, cellPadding: 1.5 },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 40 } },
+    body: [
+      ['Student', receipt.studentName || 'N/A'],
+      ['Registration No.', receipt.registrationNumber || 'N/A'],
+      ['Phone', receipt.phone || 'N/A'],
+      ['Period', `${formatDate(receipt.membershipStart)} to ${formatDate(receipt.membershipEnd)}`],
+      ['Shift', receipt.shiftTitles || 'N/A'],
+      ['Seat', receipt.seatNumber || 'N/A'],
+    ],
+  });
+
+  autoTable(doc, {
+    startY: lastTableY(doc) + 4,
+    theme: 'grid',
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [124, 58, 237] },
+    columnStyles: { 1: { halign: 'right' } },
+    head: [['Particulars', 'Amount']],
+    body: [
+      ['Total Fee', rupees(receipt.totalFee)],
+      ['Discount', rupees(receipt.discount)],
+      ['Paid in Cash', rupees(receipt.cash)],
+      ['Paid Online', rupees(receipt.online)],
+      ['Security Money', rupees(receipt.securityMoney)],
+    ],
+    foot: [
+      ['Received with this receipt', rupees(receipt.amount + receipt.securityMoney)],
+      ['Due Remaining', rupees(receipt.dueAmount)],
+    ],
+    footStyles: { fillColor: [243, 232, 255], textColor: 20, fontStyle: 'bold', halign: 'right' },
+  });
+
+  if (receipt.voidedAt) {
+    doc.setFontSize(8);
+    doc.setTextColor(200, 0, 0);
+    doc.text(
+      `Voided on ${formatDate(receipt.voidedAt)}${receipt.voidReason ? `: ${receipt.voidReason}` : ''}`
+        + (receipt.replacedByNumber ? `. Replaced by ${receipt.replacedByNumber}` : ''),
+      10,
+      lastTableY(doc) + 5
+    );
+    doc.setTextColor(0, 0, 0);
+  }
+
+  const signatureY = lastTableY(doc) + 8;
+  const signatureData = await loadImageDataUrl(signature);
+  if (signatureData) {
+    doc.addImage(signatureData, 'PNG', pageWidth - 50, signatureY, 40, 16);
+  }
+  doc.setFontSize(8);
+  doc.text('Authorised Signatory', pageWidth - 30, signatureY + 21, { align: 'center' });
+  if (receipt.issuedByName) {
+    doc.text(`Collected by: ${receipt.issuedByName}`, 10, signatureY + 21);
+  }
+
+  doc.save(`${receipt.receiptNumber}.pdf`);
+};
+
+/**
+ * Records the print on the server and downloads the PDF. The first print is
+ * the original; every later one is marked as a duplicate.
+ */
+export const printReceipt = async (receiptId: number) => {
+  const { receipt } = await api.recordReceiptPrint(receiptId);
+  await downloadReceiptPdf(receipt, (receipt.prints?.length || 0) > 1);
+  return receipt;
+};
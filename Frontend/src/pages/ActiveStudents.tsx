@@ -6,6 +6,8 @@ import api from '../services/api';
 import { Search, ChevronLeft, ChevronRight, Trash2, Eye } from 'lucide-react';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
+import ExportMenu from '../components/ExportMenu';
+import { ExportColumn } from '../lib/export';
 
 // Define the Student type with the dynamic status field
 interface Student {
@@ -20,6 +22,7 @@ interface Student {
   membershipEnd: string;
   totalFee: number;
   amountPaid: number;
+  dueAmount: number;
   status: string; // Can be 'active', 'expired', etc.
   createdAt: string;
 }
@@ -30,6 +33,17 @@ const formatDate = (dateString: string | undefined): string => {
   return new Date(dateString).toISOString().split('T')[0];
 };
 
+const exportColumns: ExportColumn<Student>[] = [
+  { header: 'Name', value: s => s.name },
+  { header: 'Registration Number', value: s => s.registrationNumber || '' },
+  { header: 'Phone', value: s => s.phone },
+  { header: 'Status', value: s => (s.status === 'active' ? 'Active' : 'Expired') },
+  { header: 'Membership End', value: s => formatDate(s.membershipEnd) },
+  { header: 'Total Fee', value: s => Number(s.totalFee || 0), total: true },
+  { header: 'Paid', value: s => Number(s.amountPaid || 0), total: true },
+  { header: 'Due', value: s => Number(s.dueAmount || 0), total: true },
+];
+
 const ActiveStudents = () => {
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
@@ -103,14 +117,23 @@ const ActiveStudents = () => {
             <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
               <div className="p-4 border-b border-gray-200 flex flex-col md:flex-row items-start md:items-center justify-between space-y-2 md:space-y-0">
                 <h3 className="text-lg font-medium">Active Students List</h3>
-                <div className="relative w-full md:w-64">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-                  <input
-                    type="text"
-                    placeholder="Search students..."
-                    className="w-full pl-10 pr-4 py-2 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-1 focus:ring-purple-300"
-                    value={searchTerm}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
+                <div className="flex items-center gap-2 w-full md:w-auto">
+                  <div className="relative w-full md:w-64">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <input
+                      type="text"
+                      placeholder="Search students..."
+                      className="w-full pl-10 pr-4 py-2 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-1 focus:ring-purple-300"
+                      value={searchTerm}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
+                    />
+                  </div>
+                  <ExportMenu
+                    title="Active Students"
+                    fileName="active-students"
+                    columns={exportColumns}
+                    rows={filteredStudents}
+                    filters={[searchTerm ? `Search: ${searchTerm}` : '']}
                   />
                 </div>
               </div>
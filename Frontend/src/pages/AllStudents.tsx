@@ -7,6 +7,8 @@ import api, { Branch } from '../services/api';
 import { Search, ChevronLeft, ChevronRight, Trash2, Eye, ArrowUp, ArrowDown, ToggleLeft, ToggleRight } from 'lucide-react';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
+import ExportMenu from '../components/ExportMenu';
+import { ExportColumn } from '../lib/export';
 
 interface Student {
   id: number;
@@ -18,6 +20,10 @@ interface Student {
   status: string;
   seatNumber?: string | null;
   isActive: boolean;
+  branchName?: string | null;
+  totalFee?: number | string;
+  amountPaid?: number | string;
+  dueAmount?: number | string;
 }
 
 const formatDate = (dateString: string | undefined): string => {
@@ -25,6 +31,20 @@ const formatDate = (dateString: string | undefined): string => {
   return new Date(dateString).toISOString().split('T')[0];
 };
 
+const exportColumns: ExportColumn<Student>[] = [
+  { header: 'Name', value: s => s.name },
+  { header: 'Registration', value: s => s.registrationNumber || '' },
+  { header: 'Phone', value: s => s.phone },
+  { header: 'Branch', value: s => s.branchName || '' },
+  { header: 'Status', value: s => (!s.isActive ? 'Inactive' : s.status === 'active' ? 'Active' : 'Expired') },
+  { header: 'Seat', value: s => s.seatNumber || '' },
+  { header: 'Membership End', value: s => s.membershipEnd || '' },
+  { header: 'Added On', value: s => formatDate(s.createdAt) },
+  { header: 'Total Fee', value: s => Number(s.totalFee || 0), total: true },
+  { header: 'Paid', value: s => Number(s.amountPaid || 0), total: true },
+  { header: 'Due', value: s => Number(s.dueAmount || 0), total: true },
+];
+
 const AllStudents = () => {
   const [students, setStudents] = useState<Student[]>([]);
   const [branches, setBranches] = useState<Branch[]>([]);
@@ -139,6 +159,13 @@ const AllStudents = () => {
     ? branches.find(branch => branch.id === selectedBranchId)?.name
     : null;
 
+  const exportFilters = [
+    searchTerm ? `Search: ${searchTerm}` : '',
+    fromDate ? `From: ${fromDate}` : '',
+    toDate ? `To: ${toDate}` : '',
+    `Sorted by Added On (${sortDirection === 'asc' ? 'oldest first' : 'newest first'})`,
+  ];
+
   return (
     <div className="flex h-screen bg-gray-50">
       <Sidebar isCollapsed={isCollapsed} setIsCollapsed={setIsCollapsed} />
@@ -153,14 +180,24 @@ const AllStudents = () => {
             <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
               <div className="p-4 border-b border-gray-200 flex flex-col md:flex-row items-center justify-between gap-4">
                 <h3 className="text-lg font-medium">Students List</h3>
-                <div className="relative w-full md:w-64">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-                  <input
-                    type="text"
-                    placeholder="Search students..."
-                    className="w-full pl-10 pr-4 py-2 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-1 focus:ring-purple-300"
-                    value={searchTerm}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
+                <div className="flex items-center gap-2 w-full md:w-auto">
+                  <div className="relative w-full md:w-64">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <input
+                      type="text"
+                      placeholder="Search students..."
+                      className="w-full pl-10 pr-4 py-2 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-1 focus:ring-purple-300"
+                      value={searchTerm}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
+                    />
+                  </div>
+                  <ExportMenu
+                    title="All Students"
+                    fileName="all-students"
+                    columns={exportColumns}
+                    rows={filteredStudents}
+                    branchName={selectedBranchName}
+                    filters={exportFilters}
                   />
                 </div>
               </div>
@@ -0,0 +1,227 @@
+import React, { Fragment, useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { AlertTriangle, ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import Sidebar from '../components/Sidebar';
+import { Button } from '@/components/ui/button';
+import api, { AuditLog as AuditLogEntry, AuditLogFilters } from '../services/api';
+
+interface UserOption {
+  id: number;
+  username: string;
+}
+
+interface BranchOption {
+  id: number;
+  name: string;
+}
+
+const PAGE_SIZE = 50;
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatAction = (action: string) => action.replace(/_/g, ' ');
+
+const AuditLog: React.FC = () => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [branches, setBranches] = useState<BranchOption[]>([]);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    api.getAllUsers().then(setUsers).catch(() => toast.error('Failed to load users'));
+    api.getBranches().then(setBranches).catch(() => toast.error('Failed to load branches'));
+  }, []);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['auditLogs', filters, page],
+    queryFn: () => api.getAuditLogs({ ...filters, page, limit: PAGE_SIZE }),
+  });
+
+  const updateFilter = (changes: AuditLogFilters) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  const logs = data?.logs || [];
+  const totalPages = data ? Math.max(Math.ceil(data.total / data.limit), 1) : 1;
+
+  const renderDetails = (log: AuditLogEntry) => {
+    if (log.changes) {
+      return (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left py-1 pr-4">Field</th>
+              <th className="text-left py-1 pr-4">Before</th>
+              <th className="text-left py-1">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(log.changes).map(([field, change]) => (
+              <tr key={field} className="border-t">
+                <td className="py-1 pr-4 font-medium">{field}</td>
+                <td className="py-1 pr-4 text-red-600 break-all">{formatValue(change.from)}</td>
+                <td className="py-1 text-green-700 break-all">{formatValue(change.to)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    }
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+        <div>
+          <p className="font-medium text-gray-600 mb-1">Before</p>
+          <pre className="bg-gray-50 border rounded p-2 whitespace-pre-wrap break-all">
+            {log.beforeData ? JSON.stringify(log.beforeData, null, 2) : '—'}
+          </pre>
+        </div>
+        <div>
+          <p className="font-medium text-gray-600 mb-1">After</p>
+          <pre className="bg-gray-50 border rounded p-2 whitespace-pre-wrap break-all">
+            {log.afterData ? JSON.stringify(log.afterData, null, 2) : '—'}
+          </pre>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-[#fef9f6]">
+      <Sidebar isCollapsed={isCollapsed} setIsCollapsed={setIsCollapsed} />
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-6">
+        <motion.div
+          className="max-w-7xl mx-auto"
+          initial={{ opacity: 0, y: 24 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-800 mb-4">Audit Log</h1>
+
+          <div className="mb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+            <select
+              value={filters.userId || ''}
+              onChange={(e) => updateFilter({ userId: e.target.value ? Number(e.target.value) : undefined })}
+              className="p-2 border rounded-md"
+            >
+              <option value="">All Users</option>
+              {users.map((user) => <option key={user.id} value={user.id}>{user.username}</option>)}
+            </select>
+            <select
+              value={filters.entityType || ''}
+              onChange={(e) => updateFilter({ entityType: e.target.value || undefined })}
+              className="p-2 border rounded-md"
+            >
+              <option value="">All Entities</option>
+              {(data?.entityTypes || []).map((type) => <option key={type} value={type}>{type}</option>)}
+            </select>
+            <select
+              value={filters.branchId || ''}
+              onChange={(e) => updateFilter({ branchId: e.target.value ? Number(e.target.value) : undefined })}
+              className="p-2 border rounded-md"
+            >
+              <option value="">All Branches</option>
+              {branches.map((branch) => <option key={branch.id} value={branch.id}>{branch.name}</option>)}
+            </select>
+            <input
+              type="date"
+              value={filters.fromDate || ''}
+              onChange={(e) => updateFilter({ fromDate: e.target.value || undefined })}
+              className="p-2 border rounded-md"
+              aria-label="From date"
+            />
+            <input
+              type="date"
+              value={filters.toDate || ''}
+              onChange={(e) => updateFilter({ toDate: e.target.value || undefined })}
+              className="p-2 border rounded-md"
+              aria-label="To date"
+            />
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center text-gray-600 mt-6">
+              <Loader2 className="animate-spin mr-2" />
+              Loading audit log...
+            </div>
+          ) : error ? (
+            <div className="flex items-center justify-center text-red-500 mt-6">
+              <AlertTriangle className="mr-2" />
+              Error: {(error as Error).message}
+            </div>
+          ) : (
+            <div className="overflow-x-auto bg-white shadow-md rounded-xl w-full">
+              <table className="w-full text-sm text-left table-auto">
+                <thead className="bg-gray-100 text-gray-700 font-semibold">
+                  <tr>
+                    <th className="px-4 py-3 w-8"></th>
+                    <th className="px-4 py-3">Time</th>
+                    <th className="px-4 py-3">User</th>
+                    <th className="px-4 py-3">Action</th>
+                    <th className="px-4 py-3">Entity</th>
+                    <th className="px-4 py-3">Branch</th>
+                    <th className="px-4 py-3">IP</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {logs.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-6 text-center text-gray-500">No audit entries found.</td>
+                    </tr>
+                  ) : logs.map((log) => (
+                    <Fragment key={log.id}>
+                      <tr
+                        className="border-t hover:bg-gray-50 cursor-pointer"
+                        onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                      >
+                        <td className="px-4 py-2 text-gray-500">
+                          {expandedId === log.id ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap">{new Date(log.createdAt).toLocaleString()}</td>
+                        <td className="px-4 py-2">{log.username || '—'}</td>
+                        <td className="px-4 py-2 capitalize">{formatAction(log.action)}</td>
+                        <td className="px-4 py-2">
+                          {log.entityType}{log.entityId !== null ? ` #${log.entityId}` : ''}
+                        </td>
+                        <td className="px-4 py-2">{log.branchName || '—'}</td>
+                        <td className="px-4 py-2 text-gray-500">{log.ipAddress || '—'}</td>
+                      </tr>
+                      {expandedId === log.id && (
+                        <tr className="bg-gray-50">
+                          <td></td>
+                          <td colSpan={6} className="px-4 py-3">{renderDetails(log)}</td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {data && data.total > 0 && (
+            <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+              <span>{data.total} entries</span>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>Previous</Button>
+                <span>Page {page} of {totalPages}</span>
+                <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>Next</Button>
+              </div>
+            </div>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
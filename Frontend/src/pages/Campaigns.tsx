@@ -0,0 +1,537 @@
+import React, { useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { AlertTriangle, FileText, Loader2, Send, Users, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import Sidebar from '../components/Sidebar';
+import ExportMenu from '../components/ExportMenu';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import api, {
+  Campaign,
+  CampaignFilters,
+  CampaignInput,
+  CampaignMembership,
+  CampaignPreview,
+  CampaignRecipient,
+  MessageChannel,
+  MessageStatus,
+} from '../services/api';
+import { ExportColumn } from '../lib/export';
+
+const CHANNEL_LABELS: Record<MessageChannel, string> = {
+  whatsapp: 'WhatsApp',
+  email: 'Email',
+  sms: 'SMS',
+};
+
+const STATUS_STYLES: Record<MessageStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  sending: 'bg-blue-100 text-blue-700',
+  sent: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const SKIP_LABELS: Record<NonNullable<CampaignRecipient['skipReason']>, string> = {
+  opted_out: 'Opted out',
+  no_contact: 'No phone / email',
+};
+
+const selectClass = 'w-full h-10 px-3 border rounded-md bg-white text-sm';
+
+// Filters can be passed in the URL, e.g. from the expired memberships page:
+// /campaigns?membership=expired&days=30&branchId=2
+const initialForm = (searchParams: URLSearchParams): CampaignInput => {
+  const membership = searchParams.get('membership') as CampaignMembership | null;
+  const days = Number(searchParams.get('days'));
+  return {
+    name: '',
+    channel: 'whatsapp',
+    subject: '',
+    body: '',
+    providerTemplate: '',
+    perMinute: 20,
+    branchId: Number(searchParams.get('branchId')) || null,
+    membership: membership && ['active', 'expiring', 'expired'].includes(membership) ? membership : null,
+    days: days || (membership === 'expiring' ? 5 : null),
+    preparingFor: searchParams.get('preparingFor'),
+    dueOnly: false,
+  };
+};
+
+const describeAudience = (filters: Omit<CampaignFilters, 'branchId'>) => {
+  const parts: string[] = [];
+  if (filters.membership === 'active') parts.push('Active');
+  if (filters.membership === 'expiring') parts.push(`Expiring within ${filters.days} days`);
+  if (filters.membership === 'expired') parts.push(filters.days !== null ? `Expired in the last ${filters.days} days` : 'Expired');
+  if (filters.preparingFor) parts.push(`Preparing for "${filters.preparingFor}"`);
+  if (filters.dueOnly) parts.push('With dues');
+  return parts.length > 0 ? parts.join(' · ') : 'All students';
+};
+
+const reportColumns: ExportColumn<CampaignRecipient>[] = [
+  { header: 'Student', value: r => r.studentName || '' },
+  { header: 'Phone', value: r => r.phone || '' },
+  { header: 'Email', value: r => r.email || '' },
+  { header: 'Sent To', value: r => r.recipient || '' },
+  { header: 'Result', value: r => (r.skipReason ? SKIP_LABELS[r.skipReason] : r.status || '') },
+  { header: 'Sent At', value: r => (r.sentAt ? new Date(r.sentAt).toLocaleString() : '') },
+  { header: 'Error', value: r => r.lastError || '' },
+];
+
+// Broadcasts one message to the students matching some filters through the
+// configured provider, and follows each campaign's delivery.
+const Campaigns: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [searchParams] = useSearchParams();
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [form, setForm] = useState<CampaignInput>(() => initialForm(searchParams));
+  const [preview, setPreview] = useState<CampaignPreview | null>(null);
+  const [reportId, setReportId] = useState<number | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const campaignsQuery = useQuery({
+    queryKey: ['campaigns'],
+    queryFn: api.getCampaigns,
+    // Follow progress while any campaign still has messages to send
+    refetchInterval: (query) =>
+      query.state.data?.campaigns.some(campaign => campaign.pending > 0) ? 15000 : false,
+  });
+  const { data: branches = [] } = useQuery<{ id: number; name: string }[]>({
+    queryKey: ['branches'],
+    queryFn: api.getBranches,
+  });
+  const reportQuery = useQuery({
+    queryKey: ['campaign', reportId],
+    queryFn: () => api.getCampaign(reportId!),
+    enabled: reportId !== null,
+  });
+
+  // Any change to the message or audience makes the last preview stale
+  const updateForm = (changes: Partial<CampaignInput>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+    setPreview(null);
+  };
+
+  const previewCampaign = useMutation({
+    mutationFn: () => api.previewCampaign(form),
+    onSuccess: setPreview,
+    onError: (err: Error) => toast.error(err.message || 'Failed to preview campaign'),
+  });
+
+  const sendCampaign = useMutation({
+    mutationFn: () => api.createCampaign(form),
+    onSuccess: (result) => {
+      toast.success(`Campaign queued to ${result.recipients} student(s)`);
+      setForm(prev => ({ ...prev, name: '', body: '', subject: '', providerTemplate: '' }));
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+      queryClient.invalidateQueries({ queryKey: ['messages'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to send campaign'),
+  });
+
+  const cancelCampaign = useMutation({
+    mutationFn: (id: number) => api.cancelCampaign(id),
+    onSuccess: (result) => {
+      toast.success(result.message);
+      queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+      queryClient.invalidateQueries({ queryKey: ['campaign'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to cancel campaign'),
+  });
+
+  // Puts {{key}} at the cursor of the message text
+  const insertPlaceholder = (key: string) => {
+    const textarea = bodyRef.current;
+    const token = `{{${key}}}`;
+    const start = textarea ? textarea.selectionStart : form.body.length;
+    const end = textarea ? textarea.selectionEnd : form.body.length;
+    updateForm({ body: form.body.slice(0, start) + token + form.body.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handlePreview = () => {
+    if (!form.body.trim()) {
+      toast.error('Enter the message text');
+      return;
+    }
+    if (form.membership === 'expiring' && form.days === null) {
+      toast.error('Enter within how many days the memberships expire');
+      return;
+    }
+    previewCampaign.mutate();
+  };
+
+  const handleSend = () => {
+    if (!preview) return;
+    if (!form.name.trim()) {
+      toast.error('Enter a name for the campaign');
+      return;
+    }
+    const minutes = Math.ceil(preview.recipients / form.perMinute);
+    if (window.confirm(`Send "${form.name}" to ${preview.recipients} student(s) by ${CHANNEL_LABELS[form.channel]}? It takes about ${minutes} minute(s).`)) {
+      sendCampaign.mutate();
+    }
+  };
+
+  const campaigns = campaignsQuery.data?.campaigns || [];
+  const placeholders = campaignsQuery.data?.placeholders || [];
+  const maxPerMinute = campaignsQuery.data?.maxPerMinute || 50;
+  const report = reportQuery.data;
+  const toSend = (campaign: Campaign) => campaign.matched - campaign.skipped;
+  const progress = (campaign: Campaign) =>
+    toSend(campaign) > 0 ? Math.round(((campaign.sent + campaign.failed) / toSend(campaign)) * 100) : 100;
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-[#fef9f6]">
+      <Sidebar isCollapsed={isCollapsed} setIsCollapsed={setIsCollapsed} />
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-6">
+        <motion.div
+          className="max-w-7xl mx-auto space-y-6"
+          initial={{ opacity: 0, y: 24 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-800">Campaigns</h1>
+
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <h2 className="text-lg font-semibold mb-4">New Campaign</h2>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <div>
+                  <label htmlFor="campaignName" className="text-sm text-gray-600">Campaign name</label>
+                  <Input id="campaignName" value={form.name} placeholder="e.g. Win-back offer, SSC batch notice" onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label htmlFor="campaignBranch" className="text-sm text-gray-600">Branch</label>
+                    <select
+                      id="campaignBranch"
+                      value={form.branchId ?? ''}
+                      onChange={(e) => updateForm({ branchId: e.target.value ? Number(e.target.value) : null })}
+                      className={selectClass}
+                    >
+                      <option value="">All branches</option>
+                      {branches.map(branch => <option key={branch.id} value={branch.id}>{branch.name}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="campaignMembership" className="text-sm text-gray-600">Membership</label>
+                    <select
+                      id="campaignMembership"
+                      value={form.membership ?? ''}
+                      onChange={(e) => {
+                        const membership = (e.target.value || null) as CampaignMembership | null;
+                        updateForm({ membership, days: membership === 'expiring' ? form.days ?? 5 : form.days });
+                      }}
+                      className={selectClass}
+                    >
+                      <option value="">Any</option>
+                      <option value="active">Active</option>
+                      <option value="expiring">Expiring soon</option>
+                      <option value="expired">Expired</option>
+                    </select>
+                  </div>
+                </div>
+                {(form.membership === 'expiring' || form.membership === 'expired') && (
+                  <div>
+                    <label htmlFor="campaignDays" className="text-sm text-gray-600">
+                      {form.membership === 'expiring' ? 'Expiring within (days)' : 'Expired in the last (days, empty for any time)'}
+                    </label>
+                    <Input
+                      id="campaignDays"
+                      type="number"
+                      min={0}
+                      value={form.days ?? ''}
+                      onChange={(e) => updateForm({ days: e.target.value === '' ? null : Number(e.target.value) })}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="campaignPreparingFor" className="text-sm text-gray-600">Preparing for</label>
+                  <Input
+                    id="campaignPreparingFor"
+                    value={form.preparingFor ?? ''}
+                    placeholder="e.g. SSC (matches part of the text)"
+                    onChange={(e) => updateForm({ preparingFor: e.target.value || null })}
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={form.dueOnly} onChange={(e) => updateForm({ dueOnly: e.target.checked })} />
+                  Only students with an amount due
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label htmlFor="campaignChannel" className="text-sm text-gray-600">Send by</label>
+                    <select
+                      id="campaignChannel"
+                      value={form.channel}
+                      onChange={(e) => updateForm({ channel: e.target.value as MessageChannel })}
+                      className={selectClass}
+                    >
+                      {(Object.keys(CHANNEL_LABELS) as MessageChannel[]).map(channel => (
+                        <option key={channel} value={channel}>{CHANNEL_LABELS[channel]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="campaignRate" className="text-sm text-gray-600">Messages per minute</label>
+                    <Input
+                      id="campaignRate"
+                      type="number"
+                      min={1}
+                      max={maxPerMinute}
+                      value={form.perMinute}
+                      onChange={(e) => setForm({ ...form, perMinute: Math.min(Math.max(Number(e.target.value) || 1, 1), maxPerMinute) })}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                {form.channel === 'email' && (
+                  <div>
+                    <label htmlFor="campaignSubject" className="text-sm text-gray-600">Subject</label>
+                    <Input id="campaignSubject" value={form.subject} onChange={(e) => updateForm({ subject: e.target.value })} />
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="campaignBody" className="text-sm text-gray-600">Message</label>
+                  <Textarea
+                    id="campaignBody"
+                    ref={bodyRef}
+                    rows={6}
+                    placeholder="Hi {{name}}, we have seats open at {{branch_name}}..."
+                    value={form.body}
+                    onChange={(e) => updateForm({ body: e.target.value })}
+                  />
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {placeholders.map(placeholder => (
+                      <button
+                        key={placeholder.key}
+                        type="button"
+                        title={placeholder.label}
+                        onClick={() => insertPlaceholder(placeholder.key)}
+                        className="px-2 py-0.5 rounded bg-purple-50 text-purple-700 text-xs font-mono hover:bg-purple-100"
+                      >
+                        {`{{${placeholder.key}}}`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {form.channel !== 'sms' && (
+                  <div>
+                    <label htmlFor="campaignProvider" className="text-sm text-gray-600">
+                      {form.channel === 'whatsapp' ? 'Approved WhatsApp template (optional)' : 'Brevo template id (optional)'}
+                    </label>
+                    <Input
+                      id="campaignProvider"
+                      value={form.providerTemplate}
+                      onChange={(e) => updateForm({ providerTemplate: e.target.value })}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {form.channel === 'whatsapp'
+                        ? 'Sent with the message placeholders as its parameters, in order. Without one the text is sent as is, which WhatsApp only delivers within 24 hours of the student writing to you.'
+                        : 'Sent with every placeholder as a template param instead of the text above.'}
+                    </p>
+                  </div>
+                )}
+
+                {preview && (
+                  <div className="rounded-md border bg-gray-50 p-3 text-sm space-y-2">
+                    <div className="flex items-center gap-2 font-medium">
+                      <Users size={16} /> {preview.recipients} of {preview.matched} matching student(s) will get this message
+                    </div>
+                    {(preview.optedOut > 0 || preview.noContact > 0) && (
+                      <div className="text-xs text-gray-500">
+                        Skipped: {preview.optedOut} opted out, {preview.noContact} without {form.channel === 'email' ? 'an email address' : 'a phone number'}.
+                      </div>
+                    )}
+                    {preview.sample && (
+                      <div className="rounded bg-white border p-2">
+                        <div className="text-xs text-gray-500 mb-1">As {preview.sample.studentName} gets it:</div>
+                        {preview.sample.subject && <div className="font-medium">{preview.sample.subject}</div>}
+                        <div className="whitespace-pre-wrap">{preview.sample.text}</div>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={handlePreview} disabled={previewCampaign.isPending} className="flex items-center gap-1">
+                    <Users size={14} /> {previewCampaign.isPending ? 'Checking...' : 'Preview Audience'}
+                  </Button>
+                  <Button
+                    onClick={handleSend}
+                    disabled={!preview || preview.recipients === 0 || sendCampaign.isPending}
+                    className="flex items-center gap-1"
+                  >
+                    <Send size={14} /> {sendCampaign.isPending ? 'Queuing...' : 'Send Campaign'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {campaignsQuery.isLoading ? (
+            <div className="flex items-center justify-center text-gray-600 mt-6">
+              <Loader2 className="animate-spin mr-2" />
+              Loading campaigns...
+            </div>
+          ) : campaignsQuery.error ? (
+            <div className="flex items-center justify-center text-red-500 mt-6">
+              <AlertTriangle className="mr-2" />
+              Error: {(campaignsQuery.error as Error).message}
+            </div>
+          ) : (
+            <div className="overflow-x-auto bg-white shadow-md rounded-xl w-full">
+              <table className="w-full text-sm text-left table-auto">
+                <thead className="bg-gray-100 text-gray-700 font-semibold">
+                  <tr>
+                    <th className="px-4 py-3">Campaign</th>
+                    <th className="px-4 py-3">Audience</th>
+                    <th className="px-4 py-3">Progress</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {campaigns.length === 0 ? (
+                    <tr>
+                      <td colSpan={4} className="px-4 py-6 text-center text-gray-500">No campaigns sent yet.</td>
+                    </tr>
+                  ) : campaigns.map(campaign => (
+                    <tr key={campaign.id} className="border-t align-top">
+                      <td className="px-4 py-2">
+                        <div className="font-medium">{campaign.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {CHANNEL_LABELS[campaign.channel]} · {new Date(campaign.createdAt).toLocaleString()}
+                          {campaign.createdByName ? ` by ${campaign.createdByName}` : ''}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2">
+                        <div>{campaign.branchName || 'All branches'}</div>
+                        <div className="text-xs text-gray-500">{describeAudience(campaign.filters)}</div>
+                      </td>
+                      <td className="px-4 py-2 min-w-[220px]">
+                        <Progress value={progress(campaign)} className="h-2 mb-1" />
+                        <div className="text-xs text-gray-600">
+                          {campaign.sent} sent · {campaign.pending} queued · {campaign.failed} failed
+                          {campaign.skipped > 0 && ` · ${campaign.skipped} skipped`}
+                        </div>
+                        {campaign.status === 'cancelled' && <div className="text-xs text-red-600">Cancelled</div>}
+                      </td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap space-x-2">
+                        <Button size="sm" variant="outline" onClick={() => setReportId(campaign.id)} className="inline-flex items-center gap-1">
+                          <FileText size={14} /> Report
+                        </Button>
+                        {campaign.status !== 'cancelled' && campaign.pending > 0 && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={cancelCampaign.isPending}
+                            onClick={() => {
+                              if (window.confirm(`Stop "${campaign.name}"? Its ${campaign.pending} unsent message(s) will not go out.`)) {
+                                cancelCampaign.mutate(campaign.id);
+                              }
+                            }}
+                            className="inline-flex items-center gap-1 text-red-600"
+                          >
+                            <XCircle size={14} /> Cancel
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </motion.div>
+      </div>
+
+      <Dialog open={reportId !== null} onOpenChange={(open) => !open && setReportId(null)}>
+        <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{report ? report.campaign.name : 'Campaign report'}</DialogTitle>
+            <DialogDescription>
+              {report ? `${CHANNEL_LABELS[report.campaign.channel]} · ${report.campaign.branchName || 'All branches'} · ${describeAudience(report.campaign.filters)}` : 'Loading...'}
+            </DialogDescription>
+          </DialogHeader>
+          {reportQuery.isLoading ? (
+            <div className="flex items-center text-gray-600"><Loader2 className="animate-spin mr-2" /> Loading report...</div>
+          ) : report && (
+            <>
+              <div className="flex items-start justify-between gap-4">
+                <div className="text-sm whitespace-pre-wrap rounded bg-gray-50 border p-2 flex-1">{report.campaign.body}</div>
+                <ExportMenu
+                  title={`Campaign: ${report.campaign.name}`}
+                  fileName={`campaign-${report.campaign.id}`}
+                  columns={reportColumns}
+                  rows={report.recipients}
+                  branchName={report.campaign.branchName}
+                  filters={[describeAudience(report.campaign.filters)]}
+                />
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4">Student</th>
+                    <th className="py-2 pr-4">Sent to</th>
+                    <th className="py-2 pr-4">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.recipients.map(recipient => (
+                    <tr key={recipient.id} className="border-b last:border-0 align-top">
+                      <td className="py-2 pr-4">
+                        {recipient.studentId ? (
+                          <Link to={`/students/${recipient.studentId}`} className="text-purple-600 hover:underline">
+                            {recipient.studentName || `#${recipient.studentId}`}
+                          </Link>
+                        ) : '—'}
+                      </td>
+                      <td className="py-2 pr-4 break-all">{recipient.recipient || '—'}</td>
+                      <td className="py-2 pr-4">
+                        {recipient.skipReason ? (
+                          <span className="text-gray-500">{SKIP_LABELS[recipient.skipReason]}</span>
+                        ) : recipient.status ? (
+                          <>
+                            <span className={`px-2 py-0.5 rounded text-xs capitalize ${STATUS_STYLES[recipient.status]}`}>{recipient.status}</span>
+                            {recipient.sentAt && <span className="text-xs text-gray-500 ml-2">{new Date(recipient.sentAt).toLocaleString()}</span>}
+                            {recipient.status === 'pending' && recipient.nextAttemptAt && (
+                              <span className="text-xs text-gray-500 ml-2">at {new Date(recipient.nextAttemptAt).toLocaleTimeString()}</span>
+                            )}
+                            {recipient.lastError && recipient.status !== 'sent' && (
+                              <div className="text-xs text-red-600 mt-1 break-all">{recipient.lastError}</div>
+                            )}
+                          </>
+                        ) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Campaigns;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { KeyRound, Lock } from 'lucide-react';
+import { toast } from 'sonner';
+import api from '../services/api';
+import { useAuth } from '../context/AuthContext';
+
+// Shown right after login when the account must replace its password
+// (e.g. the default admin account). Every other page stays blocked until then.
+const ChangePassword = () => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { user, isLoading, login, logout } = useAuth();
+  const navigate = useNavigate();
+
+  if (isLoading) return <div>Loading...</div>;
+  if (!user) return <Navigate to="/login" />;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword.length < 8) {
+      toast.error('New password must be at least 8 characters long');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast.error('New passwords do not match');
+      return;
+    }
+    setLoading(true);
+
+    try {
+      const updatedUser = await api.changePassword({ currentPassword, newPassword });
+      login(updatedUser);
+      toast.success('Password changed successfully!');
+      navigate('/');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to change password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = 'pl-10 w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-300';
+
+  return (
+    <div
+      className="min-h-screen bg-cover bg-center flex items-center justify-center p-4"
+      style={{ backgroundImage: `url('/login-bg.jpg')` }}
+    >
+      <div className="bg-white bg-opacity-95 rounded-xl shadow-lg overflow-hidden w-full max-w-md">
+        <div className="p-8">
+          <div className="text-center mb-8">
+            <div className="inline-flex h-12 w-12 items-center justify-center rounded-full bg-gradient-radial from-purple-300 to-orange-200 mb-4">
+              <KeyRound className="h-6 w-6 text-purple-800" />
+            </div>
+            <h1 className="text-2xl font-bold">Change Password</h1>
+            <p className="text-gray-500 mt-2">
+              {user.mustChangePassword
+                ? 'Your account is using a default password. Choose a new one to continue.'
+                : 'Choose a new password for your account.'}
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {[
+              { id: 'currentPassword', label: 'Current Password', value: currentPassword, set: setCurrentPassword, autoComplete: 'current-password' },
+              { id: 'newPassword', label: 'New Password', value: newPassword, set: setNewPassword, autoComplete: 'new-password' },
+              { id: 'confirmPassword', label: 'Confirm New Password', value: confirmPassword, set: setConfirmPassword, autoComplete: 'new-password' },
+            ].map(field => (
+              <div key={field.id}>
+                <label htmlFor={field.id} className="block text-sm font-medium text-gray-700 mb-1">
+                  {field.label}
+                </label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Lock className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    id={field.id}
+                    type="password"
+                    value={field.value}
+                    onChange={(e) => field.set(e.target.value)}
+                    className={inputClass}
+                    required
+                    autoComplete={field.autoComplete}
+                  />
+                </div>
+              </div>
+            ))}
+
+            <div className="space-y-3">
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-purple-600 text-white py-2 px-4 rounded-lg hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-70"
+              >
+                {loading ? 'Saving...' : 'Change Password'}
+              </button>
+              <button
+                type="button"
+                onClick={async () => { await logout(); navigate('/login'); }}
+                className="w-full text-sm text-gray-600 hover:text-gray-800"
+              >
+                Log out
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePassword;
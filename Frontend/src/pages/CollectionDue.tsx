@@ -5,7 +5,9 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../context/AuthContext';
 import Sidebar from '../components/Sidebar';
 import api from '../services/api';
-import { Loader2 } from 'lucide-react';
+import { Loader2, X } from 'lucide-react';
+import ReceiptHistory from '../components/ReceiptHistory';
+import { printReceipt } from '../lib/receipt';
 
 // Interface for a single collection record
 interface Collection {
@@ -23,8 +25,15 @@ interface Collection {
   createdAt: string | null;
   branchId?: number;
   branchName?: string;
+  receiptCount?: number;
+  installmentCount?: number;
+  overdueAmount?: number;
+  nextDueDate?: string | null;
 }
 
+// What the payment modal needs; an overdue installment opens it for its membership period.
+type PayTarget = Pick<Collection, 'historyId' | 'name' | 'dueAmount'>;
+
 // Interface for the branch filter
 interface Branch {
   id: number;
@@ -45,9 +54,15 @@ const CollectionDue: React.FC = () => {
 
   // State for the payment modal
   const [isPayModalOpen, setIsPayModalOpen] = useState(false);
-  const [selectedCollection, setSelectedCollection] = useState<Collection | null>(null);
+  const [selectedCollection, setSelectedCollection] = useState<PayTarget | null>(null);
   const [paymentAmount, setPaymentAmount] = useState<string>('');
   const [paymentMethod, setPaymentMethod] = useState<'cash' | 'online' | null>(null);
+  const [paymentDate, setPaymentDate] = useState<string>('');
+  const [paymentReference, setPaymentReference] = useState<string>('');
+  const [paymentNote, setPaymentNote] = useState<string>('');
+
+  // State for the receipts modal
+  const [receiptsCollection, setReceiptsCollection] = useState<Collection | null>(null);
 
   // Fetch branches for the filter dropdown
   useEffect(() => {
@@ -62,6 +77,12 @@ const CollectionDue: React.FC = () => {
     queryFn: () => api.getCollections({ month: selectedMonth, branchId: selectedBranchId || undefined }),
   });
 
+  // Installments past their due date, whatever month the membership started in
+  const { data: overdueData } = useQuery({
+    queryKey: ['dueInstallments', selectedBranchId],
+    queryFn: () => api.getDueInstallments({ branchId: selectedBranchId || undefined, status: 'overdue' }),
+  });
+
   // QUERY 2: Fetch aggregate financial statistics (ADMINS ONLY)
   const { data: statsData, isLoading: isStatsLoading } = useQuery({
     queryKey: ['collectionStats', selectedMonth, selectedBranchId],
@@ -72,12 +93,31 @@ const CollectionDue: React.FC = () => {
   // --- Mutations ---
 
   const paymentMutation = useMutation({
-    mutationFn: (variables: { historyId: number; amount: number; method: 'cash' | 'online' }) =>
-      api.updateCollectionPayment(variables.historyId, { amount: variables.amount, method: variables.method }),
-    onSuccess: () => {
-      toast.success('Payment updated successfully');
+    mutationFn: (variables: { historyId: number; amount: number; method: 'cash' | 'online'; date: string; reference: string; note: string }) =>
+      api.updateCollectionPayment(variables.historyId, {
+        amount: variables.amount,
+        method: variables.method,
+        date: variables.date || undefined,
+        reference: variables.reference.trim() || undefined,
+        note: variables.note.trim() || undefined,
+      }),
+    onSuccess: (data) => {
+      if (data.receipt) {
+        const receiptId = data.receipt.id;
+        toast.success(`Payment updated successfully. Receipt ${data.receipt.receiptNumber} issued.`, {
+          action: {
+            label: 'Download',
+            onClick: () => {
+              printReceipt(receiptId).catch(() => toast.error('Failed to download receipt'));
+            },
+          },
+        });
+      } else {
+        toast.success('Payment updated successfully');
+      }
       setIsPayModalOpen(false);
       queryClient.invalidateQueries({ queryKey: ['collections'] });
+      queryClient.invalidateQueries({ queryKey: ['dueInstallments'] });
       if (user?.role === 'admin') {
         queryClient.invalidateQueries({ queryKey: ['collectionStats'] });
       }
@@ -89,10 +129,13 @@ const CollectionDue: React.FC = () => {
 
   // --- Event Handlers ---
 
-  const handlePayDue = (collection: Collection) => {
+  const handlePayDue = (collection: PayTarget) => {
     setSelectedCollection(collection);
     setPaymentAmount(collection.dueAmount.toFixed(2));
     setPaymentMethod(null);
+    setPaymentDate(new Date().toISOString().split('T')[0]);
+    setPaymentReference('');
+    setPaymentNote('');
     setIsPayModalOpen(true);
   };
 
@@ -110,6 +153,9 @@ const CollectionDue: React.FC = () => {
       historyId: selectedCollection.historyId,
       amount: payment,
       method: paymentMethod,
+      date: paymentDate,
+      reference: paymentReference,
+      note: paymentNote,
     });
   };
 
@@ -120,6 +166,7 @@ const CollectionDue: React.FC = () => {
   
   // Get total students count from the unfiltered data
   const totalStudents = collectionsData?.collections.length || 0;
+  const overdueInstallments = overdueData?.installments || [];
 
   return (
     <div className="flex h-screen overflow-hidden bg-[#fef9f6]">
@@ -172,6 +219,49 @@ const CollectionDue: React.FC = () => {
             </motion.div>
           )}
 
+          {overdueInstallments.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border border-red-200 mb-6 overflow-x-auto">
+              <h2 className="px-4 pt-4 text-lg font-semibold text-red-700">
+                Overdue Installments ({overdueInstallments.length})
+              </h2>
+              <table className="min-w-full divide-y divide-gray-200 mt-2">
+                <thead className="bg-red-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Student Name</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Branch</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Installment</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Due Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Left to Pay</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Days Overdue</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {overdueInstallments
+                    .filter(installment => installment.name.toLowerCase().includes(searchTerm.toLowerCase()))
+                    .map(installment => (
+                      <tr key={installment.id}>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-800">{installment.name}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{installment.branchName || 'N/A'}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">#{installment.installmentNo}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{new Date(installment.dueDate).toLocaleDateString()}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm font-bold text-red-600">₹{installment.remaining.toFixed(2)}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-800">{installment.daysOverdue}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm">
+                          <button
+                            onClick={() => handlePayDue({ historyId: installment.historyId, name: installment.name, dueAmount: installment.remaining })}
+                            className="text-purple-600 hover:text-purple-800 font-medium"
+                          >
+                            Pay Due
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           <div className="bg-white rounded-lg shadow-sm border overflow-x-auto">
             {isCollectionsLoading ? (
               <div className="text-center p-8"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>
@@ -207,12 +297,24 @@ const CollectionDue: React.FC = () => {
                         <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-800">₹{collection.online.toFixed(2)}</td>
                         <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-800">₹{collection.securityMoney.toFixed(2)}</td>
                         <td className="px-4 py-4 whitespace-nowrap text-sm font-semibold text-green-600">₹{collection.amountPaid.toFixed(2)}</td>
-                        <td className="px-4 py-4 whitespace-nowrap text-sm font-bold text-red-600">₹{collection.dueAmount.toFixed(2)}</td>
+                        <td className="px-4 py-4 whitespace-nowrap text-sm font-bold text-red-600">
+                          ₹{collection.dueAmount.toFixed(2)}
+                          {(collection.overdueAmount || 0) > 0 ? (
+                            <div className="text-xs font-medium">₹{(collection.overdueAmount || 0).toFixed(2)} overdue</div>
+                          ) : collection.nextDueDate && collection.dueAmount > 0 ? (
+                            <div className="text-xs font-normal text-gray-500">next due {new Date(collection.nextDueDate).toLocaleDateString()}</div>
+                          ) : null}
+                        </td>
                         <td className="px-4 py-4 whitespace-wrap text-sm text-gray-500">{collection.remark || 'N/A'}</td>
                         <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">{collection.createdAt ? new Date(collection.createdAt).toLocaleDateString() : 'N/A'}</td>
                         <td className="px-4 py-4 whitespace-nowrap text-sm">
                           {collection.dueAmount > 0 && (
-                            <button onClick={() => handlePayDue(collection)} className="text-purple-600 hover:text-purple-800 font-medium">Pay Due</button>
+                            <button onClick={() => handlePayDue(collection)} className="text-purple-600 hover:text-purple-800 font-medium mr-3">Pay Due</button>
+                          )}
+                          {(collection.receiptCount || 0) > 0 && (
+                            <button onClick={() => setReceiptsCollection(collection)} className="text-blue-600 hover:text-blue-800 font-medium">
+                              Receipts ({collection.receiptCount})
+                            </button>
                           )}
                         </td>
                       </tr>
@@ -238,6 +340,12 @@ const CollectionDue: React.FC = () => {
                 </div>
               </div>
               <input type="number" value={paymentAmount} onChange={(e) => setPaymentAmount(e.target.value)} placeholder="Enter payment amount" className="w-full p-2 border rounded-md mb-4" max={selectedCollection.dueAmount.toString()} />
+              <label className="block text-sm text-gray-600 mb-1">Payment Date</label>
+              <input type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} className="w-full p-2 border rounded-md mb-4" />
+              {paymentMethod === 'online' && (
+                <input type="text" value={paymentReference} onChange={(e) => setPaymentReference(e.target.value)} placeholder="Reference / UTR number" className="w-full p-2 border rounded-md mb-4" />
+              )}
+              <input type="text" value={paymentNote} onChange={(e) => setPaymentNote(e.target.value)} placeholder="Note (optional)" className="w-full p-2 border rounded-md mb-4" />
               <div className="flex justify-end space-x-2">
                 <button onClick={() => setIsPayModalOpen(false)} className="px-4 py-2 border rounded-md">Cancel</button>
                 <button onClick={handlePaymentSubmit} disabled={paymentMutation.isPending} className="px-4 py-2 bg-purple-600 text-white rounded-md disabled:bg-purple-300">
@@ -247,6 +355,19 @@ const CollectionDue: React.FC = () => {
             </div>
           </div>
         )}
+
+        {/* Receipts Modal */}
+        {receiptsCollection && (
+          <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50">
+            <div className="bg-white p-6 rounded-lg shadow-lg max-w-4xl w-full">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold">Receipts for {receiptsCollection.name}</h3>
+                <button onClick={() => setReceiptsCollection(null)} className="text-gray-500 hover:text-gray-700"><X size={18} /></button>
+              </div>
+              <ReceiptHistory historyId={receiptsCollection.historyId} />
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -2,7 +2,7 @@ import React, { useEffect, useState } from 'react';
 import Navbar from '../components/Navbar';
 import Sidebar from '../components/Sidebar';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import api from '../services/api';
+import api, { InstallmentInput } from '../services/api';
 import { Search, ChevronLeft, ChevronRight, Trash2, Eye, MessageCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -14,11 +14,17 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { Calendar } from '@/components/ui/calendar';
-import { format, addMonths } from 'date-fns';
+import { format, addMonths, parseISO } from 'date-fns';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
 import Select from 'react-select';
+import ExportMenu from '../components/ExportMenu';
+import FeeQuoteFields from '../components/FeeQuoteFields';
+import PromotionFields, { PromotionCodes } from '../components/PromotionFields';
+import InstallmentPlanEditor from '../components/InstallmentPlanEditor';
+import { useFeeQuote } from '../hooks/use-fee-quote';
+import { ExportColumn } from '../lib/export';
 
 // FIX: Added 'discount' property to the Student interface
 interface Student {
@@ -85,6 +91,11 @@ interface RenewStudentPayload {
   remark?: string;
   discount?: number; // This property is now correctly defined
   preparingFor?: string;
+  durationMonths?: number;
+  feeOverrideReason?: string;
+  installments?: InstallmentInput[];
+  couponCode?: string;
+  siblingPhone?: string;
 }
 
 
@@ -97,6 +108,19 @@ const formatDate = (dateString: string | undefined): string => {
   return new Date(dateString).toISOString().split('T')[0];
 };
 
+const exportColumns: ExportColumn<Student>[] = [
+  { header: 'Name', value: s => s.name },
+  { header: 'Registration Number', value: s => s.registrationNumber || '' },
+  { header: 'Email', value: s => s.email || '' },
+  { header: 'Phone', value: s => s.phone },
+  { header: 'Branch', value: s => s.branchName || '' },
+  { header: 'Seat', value: s => s.seatNumber || '' },
+  { header: 'Expiry', value: s => formatDate(s.membershipEnd) },
+  { header: 'Total Fee', value: s => Number(s.totalFee || 0), total: true },
+  { header: 'Paid', value: s => Number(s.amountPaid || 0), total: true },
+  { header: 'Due', value: s => Number(s.dueAmount || 0), total: true },
+];
+
 const ExpiredMemberships: React.FC = () => {
   const [students, setStudents] = useState<Student[]>([]);
   const [isCollapsed, setIsCollapsed] = useState<boolean>(false);
@@ -131,6 +155,35 @@ const ExpiredMemberships: React.FC = () => {
   const [remark, setRemark] = useState<string>('');
   const [preparingForInput, setPreparingForInput] = useState<string>('');
   const [discount, setDiscount] = useState<string>('');
+  const [durationMonths, setDurationMonths] = useState(1);
+  const [feeOverride, setFeeOverride] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [installments, setInstallments] = useState<InstallmentInput[]>([]);
+  const [promotionCodes, setPromotionCodes] = useState<PromotionCodes>({});
+  const {
+    quote: feeQuote, durations, canOverride, isFetching: loadingQuote, error: quoteError,
+  } = useFeeQuote(
+    renewDialogOpen && selectedBranch?.value && startDate
+      ? {
+          branchId: selectedBranch.value,
+          shiftIds: selectedShift?.value ? [selectedShift.value] : [],
+          months: durationMonths,
+          startDate: format(startDate, 'yyyy-MM-dd'),
+          withLocker: false,
+          studentId: selectedStudent?.id,
+          couponCode: promotionCodes.couponCode,
+          siblingPhone: promotionCodes.siblingPhone,
+        }
+      : null
+  );
+
+  // Fee, discount and end date come from the fee plan unless overridden
+  useEffect(() => {
+    if (!feeQuote || feeOverride) return;
+    setTotalFee(feeQuote.totalFee.toString());
+    setDiscount(feeQuote.discount.toString());
+    setEndDate(parseISO(feeQuote.membershipEnd));
+  }, [feeQuote, feeOverride]);
 
   const navigate = useNavigate();
   const { user } = useAuth();
@@ -230,6 +283,11 @@ const ExpiredMemberships: React.FC = () => {
         setDiscount(fullStudentDetails.discount ? fullStudentDetails.discount.toString() : '0');
         setRemark(fullStudentDetails.remark || '');
         setPreparingForInput(fullStudentDetails.preparingFor || '');
+        setDurationMonths(1);
+        setFeeOverride(false);
+        setOverrideReason('');
+        setInstallments([]);
+        setPromotionCodes({});
         
         setRenewDialogOpen(true);
     } catch (error) {
@@ -255,6 +313,19 @@ const ExpiredMemberships: React.FC = () => {
       toast.error('Please ensure Name, Phone, Branch, Shift, and Fee are filled correctly.');
       return;
     }
+    if (feeOverride && !overrideReason.trim()) {
+      toast.error('Enter the reason for overriding the fee');
+      return;
+    }
+    if (feeQuote?.promotionError) {
+      toast.error(feeQuote.promotionError);
+      return;
+    }
+    const installmentTotal = installments.reduce((sum, item) => sum + item.amount, 0);
+    if (installments.length > 0 && Math.abs(installmentTotal - ((parseFloat(totalFee) || 0) - discountAmount)) > 0.01) {
+      toast.error('Installments must add up to the fee after discount');
+      return;
+    }
 
     try {
       // FIX: The payload now matches the RenewStudentPayload interface
@@ -278,6 +349,11 @@ const ExpiredMemberships: React.FC = () => {
         discount: parseFloat(discount) || 0,
         remark: remark.trim() || undefined,
         preparingFor: preparingForInput.trim() || undefined,
+        durationMonths,
+        feeOverrideReason: feeOverride ? overrideReason.trim() : undefined,
+        installments: installments.length > 0 ? installments : undefined,
+        couponCode: promotionCodes.couponCode,
+        siblingPhone: promotionCodes.siblingPhone,
       };
 
       await api.renewStudent(selectedStudent.id, payload);
@@ -300,6 +376,13 @@ const ExpiredMemberships: React.FC = () => {
   const paid = cashAmount + onlineAmount;
   const due = (parseFloat(totalFee) || 0) - discountAmount - paid;
 
+  const filteredStudents = students.filter(
+    (s) =>
+      s.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (s.phone && s.phone.includes(searchTerm)) ||
+      (s.registrationNumber && s.registrationNumber.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
   if (!user) {
     navigate('/login');
     return null;
@@ -331,6 +414,22 @@ const ExpiredMemberships: React.FC = () => {
                 isClearable
               />
             </div>
+            {(user?.role === 'admin' || (hasPermissions(user) && user.permissions.includes('send_campaigns'))) && (
+              <Button
+                variant="outline"
+                onClick={() => navigate(`/campaigns?membership=expired${selectedBranchFilter?.value ? `&branchId=${selectedBranchFilter.value}` : ''}`)}
+              >
+                <MessageCircle size={16} /> Message All
+              </Button>
+            )}
+            <ExportMenu
+              title="Expired Memberships"
+              fileName="expired-memberships"
+              columns={exportColumns}
+              rows={filteredStudents}
+              branchName={selectedBranchFilter?.value ? selectedBranchFilter.label : null}
+              filters={[searchTerm ? `Search: ${searchTerm}` : '']}
+            />
           </div>
           {loading ? (
             <p>Loading...</p>
@@ -347,14 +446,7 @@ const ExpiredMemberships: React.FC = () => {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {students
-                  .filter(
-                    (s) =>
-                      s.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                      (s.phone && s.phone.includes(searchTerm)) ||
-                      (s.registrationNumber && s.registrationNumber.toLowerCase().includes(searchTerm.toLowerCase()))
-                  )
-                  .map((student) => (
+                {filteredStudents.map((student) => (
                     <TableRow key={student.id}>
                       <TableCell>{student.name}</TableCell>
                       <TableCell>{student.registrationNumber || 'N/A'}</TableCell>
@@ -472,7 +564,7 @@ const ExpiredMemberships: React.FC = () => {
               </div>
               <div>
                 <label className="block text-sm font-medium">End Date</label>
-                <Calendar mode="single" selected={endDate} onSelect={setEndDate} className="rounded-md border"/>
+                <Calendar mode="single" selected={endDate} onSelect={setEndDate} disabled={!feeOverride} className="rounded-md border"/>
               </div>
               <div>
                 <label className="block text-sm font-medium">Email</label>
@@ -520,13 +612,34 @@ const ExpiredMemberships: React.FC = () => {
                   isDisabled={!selectedShift}
                 />
               </div>
+              <FeeQuoteFields
+                quote={feeQuote}
+                durations={durations}
+                canOverride={canOverride}
+                isFetching={loadingQuote}
+                error={quoteError}
+                months={durationMonths}
+                onMonthsChange={setDurationMonths}
+                override={feeOverride}
+                onOverrideChange={setFeeOverride}
+                reason={overrideReason}
+                onReasonChange={setOverrideReason}
+              />
+              <PromotionFields
+                value={promotionCodes}
+                onChange={setPromotionCodes}
+                withReferrer={false}
+                promotions={feeQuote?.promotions ?? null}
+                error={feeQuote?.promotionError ?? null}
+              />
               <div>
                 <label className="block text-sm font-medium">Total Fee</label>
                 <input
-                  className="w-full border rounded px-3 py-2 mt-1"
+                  className={`w-full border rounded px-3 py-2 mt-1 ${feeOverride ? '' : 'bg-gray-100'}`}
                   type="number"
                   value={totalFee}
                   onChange={(e) => setTotalFee(e.target.value)}
+                  readOnly={!feeOverride}
                   min="0"
                   step="0.01"
                 />
@@ -534,15 +647,22 @@ const ExpiredMemberships: React.FC = () => {
               <div>
                 <label className="block text-sm font-medium">Discount</label>
                 <input
-                  className="w-full border rounded px-3 py-2 mt-1"
+                  className={`w-full border rounded px-3 py-2 mt-1 ${feeOverride ? '' : 'bg-gray-100'}`}
                   type="number"
                   value={discount}
                   onChange={(e) => setDiscount(e.target.value)}
+                  readOnly={!feeOverride}
                   min="0"
                   step="0.01"
                   placeholder="Enter discount amount"
                 />
               </div>
+              <InstallmentPlanEditor
+                netFee={(parseFloat(totalFee) || 0) - discountAmount}
+                startDate={startDate ? format(startDate, 'yyyy-MM-dd') : ''}
+                value={installments}
+                onChange={setInstallments}
+              />
               <div>
                 <label className="block text-sm font-medium">Cash Payment</label>
                 <input
@@ -5,6 +5,8 @@ import { toast } from 'sonner';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { MessageSquare } from 'lucide-react'; // Using a suitable icon for WhatsApp
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/context/AuthContext';
 import api from '../services/api';
 
 // Define the structure for student data
@@ -18,6 +20,9 @@ interface Student {
 const ExpiringMembershipsPage = () => {
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const canSendCampaigns = !!user && (user.role === 'admin' || user.permissions.includes('send_campaigns'));
 
   // Fetches students with expiring memberships when the page loads
   useEffect(() => {
@@ -74,9 +79,16 @@ const ExpiringMembershipsPage = () => {
         <Navbar />
         <div className="flex-1 overflow-y-auto p-6">
           <div className="max-w-7xl mx-auto">
-            <div className="mb-6">
-              <h1 className="text-2xl font-bold text-gray-800">Expiring Memberships</h1>
-              <p className="text-gray-500">View all memberships expiring soon.</p>
+            <div className="mb-6 flex items-start justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-800">Expiring Memberships</h1>
+                <p className="text-gray-500">View all memberships expiring soon.</p>
+              </div>
+              {canSendCampaigns && students.length > 0 && (
+                <Button variant="outline" onClick={() => navigate('/campaigns?membership=expiring&days=5')}>
+                  <MessageSquare className="h-4 w-4 mr-1" /> Message All
+                </Button>
+              )}
             </div>
             
             {/* The list of students is now rendered directly on this page. */}
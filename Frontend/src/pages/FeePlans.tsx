@@ -0,0 +1,406 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import Sidebar from '../components/Sidebar';
+import CouponsPanel from '../components/CouponsPanel';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import api, { FeeOffer, FeeOfferInput, FeePlan, FeePlanInput } from '../services/api';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const EMPTY_PLAN: FeePlanInput = {
+  branchId: null, name: '', shiftIds: [], durationMonths: 1, fee: 0, lockerFee: 0, securityDeposit: 0, isActive: true,
+};
+
+const emptyOffer = (): FeeOfferInput => ({
+  branchId: null, name: '', discountType: 'percent', discountValue: 0, validFrom: today(), validTo: today(), minMonths: 1, isActive: true,
+});
+
+const money = (value: string | number) => `Rs. ${Number(value).toFixed(2)}`;
+
+// Fee plans (shift combination × duration), seasonal offers and coupons.
+// Admission and renewal quote their fee from these.
+const FeePlans: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [branchFilter, setBranchFilter] = useState<number | undefined>(undefined);
+  const [planForm, setPlanForm] = useState<FeePlanInput>(EMPTY_PLAN);
+  const [editingPlanId, setEditingPlanId] = useState<number | null>(null);
+  const [planOpen, setPlanOpen] = useState(false);
+  const [offerForm, setOfferForm] = useState<FeeOfferInput>(emptyOffer());
+  const [editingOfferId, setEditingOfferId] = useState<number | null>(null);
+  const [offerOpen, setOfferOpen] = useState(false);
+
+  const { data: branches = [] } = useQuery({ queryKey: ['branches'], queryFn: api.getBranches });
+  const { data: schedulesData } = useQuery({ queryKey: ['schedules'], queryFn: () => api.getSchedules() });
+  const plansQuery = useQuery({ queryKey: ['feePlans', branchFilter], queryFn: () => api.getFeePlans(branchFilter) });
+  const offersQuery = useQuery({ queryKey: ['feeOffers', branchFilter], queryFn: () => api.getFeeOffers(branchFilter) });
+
+  const schedules = schedulesData?.schedules || [];
+  const formShifts = schedules.filter(shift => !shift.branchId || !planForm.branchId || shift.branchId === planForm.branchId);
+
+  const savePlan = useMutation({
+    mutationFn: () => (editingPlanId ? api.updateFeePlan(editingPlanId, planForm) : api.addFeePlan(planForm)),
+    onSuccess: () => {
+      toast.success(editingPlanId ? 'Fee plan updated' : 'Fee plan added');
+      setPlanOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['feePlans'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to save fee plan'),
+  });
+
+  const deletePlan = useMutation({
+    mutationFn: (id: number) => api.deleteFeePlan(id),
+    onSuccess: () => {
+      toast.success('Fee plan deleted');
+      queryClient.invalidateQueries({ queryKey: ['feePlans'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to delete fee plan'),
+  });
+
+  const saveOffer = useMutation({
+    mutationFn: () => (editingOfferId ? api.updateFeeOffer(editingOfferId, offerForm) : api.addFeeOffer(offerForm)),
+    onSuccess: () => {
+      toast.success(editingOfferId ? 'Offer updated' : 'Offer added');
+      setOfferOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['feeOffers'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to save offer'),
+  });
+
+  const deleteOffer = useMutation({
+    mutationFn: (id: number) => api.deleteFeeOffer(id),
+    onSuccess: () => {
+      toast.success('Offer deleted');
+      queryClient.invalidateQueries({ queryKey: ['feeOffers'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to delete offer'),
+  });
+
+  const openPlan = (plan?: FeePlan) => {
+    setEditingPlanId(plan ? plan.id : null);
+    setPlanForm(plan ? {
+      branchId: plan.branchId,
+      name: plan.name,
+      shiftIds: plan.shiftIds,
+      durationMonths: plan.durationMonths,
+      fee: Number(plan.fee),
+      lockerFee: Number(plan.lockerFee),
+      securityDeposit: Number(plan.securityDeposit),
+      isActive: plan.isActive,
+    } : { ...EMPTY_PLAN, branchId: branchFilter ?? null });
+    setPlanOpen(true);
+  };
+
+  const openOffer = (offer?: FeeOffer) => {
+    setEditingOfferId(offer ? offer.id : null);
+    setOfferForm(offer ? {
+      branchId: offer.branchId,
+      name: offer.name,
+      discountType: offer.discountType,
+      discountValue: Number(offer.discountValue),
+      validFrom: offer.validFrom,
+      validTo: offer.validTo,
+      minMonths: offer.minMonths,
+      isActive: offer.isActive,
+    } : { ...emptyOffer(), branchId: branchFilter ?? null });
+    setOfferOpen(true);
+  };
+
+  const toggleShift = (shiftId: number) => {
+    setPlanForm(form => ({
+      ...form,
+      shiftIds: form.shiftIds.includes(shiftId) ? form.shiftIds.filter(id => id !== shiftId) : [...form.shiftIds, shiftId],
+    }));
+  };
+
+  const handleSavePlan = () => {
+    if (!planForm.name.trim() || planForm.shiftIds.length === 0 || planForm.durationMonths <= 0) {
+      toast.error('Name, at least one shift and the duration are required');
+      return;
+    }
+    savePlan.mutate();
+  };
+
+  const handleSaveOffer = () => {
+    if (!offerForm.name.trim() || !offerForm.validFrom || !offerForm.validTo) {
+      toast.error('Name and validity dates are required');
+      return;
+    }
+    if (offerForm.validTo < offerForm.validFrom) {
+      toast.error('Valid to must be on or after valid from');
+      return;
+    }
+    saveOffer.mutate();
+  };
+
+  const branchSelect = (value: number | null, onChange: (branchId: number | null) => void, id: string) => (
+    <select
+      id={id}
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)}
+      className="w-full h-10 px-3 border rounded-md bg-white text-sm"
+    >
+      <option value="">All branches</option>
+      {branches.map(branch => <option key={branch.id} value={branch.id}>{branch.name}</option>)}
+    </select>
+  );
+
+  const plans = plansQuery.data?.plans || [];
+  const offers = offersQuery.data?.offers || [];
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-[#fef9f6]">
+      <Sidebar isCollapsed={isCollapsed} setIsCollapsed={setIsCollapsed} />
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-6">
+        <motion.div
+          className="max-w-6xl mx-auto space-y-6"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-800">🏷️ Fee Plans, Offers & Coupons</h1>
+            <div className="w-64">
+              <label htmlFor="feePlanBranch" className="text-sm text-gray-600">Branch</label>
+              {branchSelect(branchFilter ?? null, (branchId) => setBranchFilter(branchId ?? undefined), 'feePlanBranch')}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">Plans</h2>
+              <Button size="sm" onClick={() => openPlan()} className="flex items-center gap-1"><Plus size={14} /> Add Plan</Button>
+            </div>
+            {plansQuery.isLoading ? <div>Loading...</div> : plans.length === 0 ? (
+              <div className="text-sm text-gray-500">No fee plans yet. Without a plan the fee is the shift fee per month.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-4">Plan</th>
+                      <th className="py-2 pr-4">Branch</th>
+                      <th className="py-2 pr-4">Shifts</th>
+                      <th className="py-2 pr-4">Months</th>
+                      <th className="py-2 pr-4 text-right">Fee</th>
+                      <th className="py-2 pr-4 text-right">Locker</th>
+                      <th className="py-2 pr-4 text-right">Deposit</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plans.map(plan => (
+                      <tr key={plan.id} className={`border-b last:border-0 ${plan.isActive ? '' : 'text-gray-400'}`}>
+                        <td className="py-2 pr-4 font-medium">{plan.name}{!plan.isActive && ' (inactive)'}</td>
+                        <td className="py-2 pr-4">{plan.branchName || 'All branches'}</td>
+                        <td className="py-2 pr-4">{plan.shiftTitles.join(' + ')}</td>
+                        <td className="py-2 pr-4">{plan.durationMonths}</td>
+                        <td className="py-2 pr-4 text-right">{money(plan.fee)}</td>
+                        <td className="py-2 pr-4 text-right">{money(plan.lockerFee)}</td>
+                        <td className="py-2 pr-4 text-right">{money(plan.securityDeposit)}</td>
+                        <td className="py-2 text-right whitespace-nowrap">
+                          <Button size="sm" variant="ghost" onClick={() => openPlan(plan)}><Edit size={14} /></Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => window.confirm(`Delete the plan "${plan.name}"?`) && deletePlan.mutate(plan.id)}
+                          >
+                            <Trash2 size={14} className="text-red-500" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">Seasonal Offers</h2>
+              <Button size="sm" onClick={() => openOffer()} className="flex items-center gap-1"><Plus size={14} /> Add Offer</Button>
+            </div>
+            {offersQuery.isLoading ? <div>Loading...</div> : offers.length === 0 ? (
+              <div className="text-sm text-gray-500">No offers.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-4">Offer</th>
+                      <th className="py-2 pr-4">Branch</th>
+                      <th className="py-2 pr-4">Discount</th>
+                      <th className="py-2 pr-4">Valid</th>
+                      <th className="py-2 pr-4">Min. months</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {offers.map(offer => (
+                      <tr key={offer.id} className={`border-b last:border-0 ${offer.isActive ? '' : 'text-gray-400'}`}>
+                        <td className="py-2 pr-4 font-medium">{offer.name}{!offer.isActive && ' (inactive)'}</td>
+                        <td className="py-2 pr-4">{offer.branchName || 'All branches'}</td>
+                        <td className="py-2 pr-4">
+                          {offer.discountType === 'percent' ? `${Number(offer.discountValue)}%` : money(offer.discountValue)}
+                        </td>
+                        <td className="py-2 pr-4">{offer.validFrom} – {offer.validTo}</td>
+                        <td className="py-2 pr-4">{offer.minMonths}</td>
+                        <td className="py-2 text-right whitespace-nowrap">
+                          <Button size="sm" variant="ghost" onClick={() => openOffer(offer)}><Edit size={14} /></Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => window.confirm(`Delete the offer "${offer.name}"?`) && deleteOffer.mutate(offer.id)}
+                          >
+                            <Trash2 size={14} className="text-red-500" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <CouponsPanel branchFilter={branchFilter} branches={branches} />
+        </motion.div>
+      </div>
+
+      <Dialog open={planOpen} onOpenChange={setPlanOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPlanId ? 'Edit Fee Plan' : 'Add Fee Plan'}</DialogTitle>
+            <DialogDescription>
+              The plan applies to exactly this set of shifts. A branch plan is used before an all-branch one.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="planName" className="text-sm text-gray-600">Name</label>
+                <Input id="planName" placeholder="e.g. Morning 3 months" value={planForm.name} onChange={(e) => setPlanForm({ ...planForm, name: e.target.value })} />
+              </div>
+              <div>
+                <label htmlFor="planBranch" className="text-sm text-gray-600">Branch</label>
+                {branchSelect(planForm.branchId, (branchId) => setPlanForm({ ...planForm, branchId }), 'planBranch')}
+              </div>
+            </div>
+            <div>
+              <span className="text-sm text-gray-600">Shifts</span>
+              <div className="flex flex-wrap gap-3 mt-1">
+                {formShifts.map(shift => (
+                  <label key={shift.id} className="flex items-center gap-1 text-sm">
+                    <input type="checkbox" checked={planForm.shiftIds.includes(shift.id)} onChange={() => toggleShift(shift.id)} />
+                    {shift.title}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="planMonths" className="text-sm text-gray-600">Duration (months)</label>
+                <Input id="planMonths" type="number" min={1} value={planForm.durationMonths} onChange={(e) => setPlanForm({ ...planForm, durationMonths: Number(e.target.value) })} />
+              </div>
+              <div>
+                <label htmlFor="planFee" className="text-sm text-gray-600">Fee for the whole duration</label>
+                <Input id="planFee" type="number" min={0} value={planForm.fee} onChange={(e) => setPlanForm({ ...planForm, fee: Number(e.target.value) })} />
+              </div>
+              <div>
+                <label htmlFor="planLockerFee" className="text-sm text-gray-600">Locker add-on</label>
+                <Input id="planLockerFee" type="number" min={0} value={planForm.lockerFee} onChange={(e) => setPlanForm({ ...planForm, lockerFee: Number(e.target.value) })} />
+              </div>
+              <div>
+                <label htmlFor="planDeposit" className="text-sm text-gray-600">Security deposit</label>
+                <Input id="planDeposit" type="number" min={0} value={planForm.securityDeposit} onChange={(e) => setPlanForm({ ...planForm, securityDeposit: Number(e.target.value) })} />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={planForm.isActive} onChange={(e) => setPlanForm({ ...planForm, isActive: e.target.checked })} />
+              Active
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPlanOpen(false)}>Cancel</Button>
+            <Button onClick={handleSavePlan} disabled={savePlan.isPending}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={offerOpen} onOpenChange={setOfferOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingOfferId ? 'Edit Offer' : 'Add Offer'}</DialogTitle>
+            <DialogDescription>
+              Applies to memberships starting within the dates. When several offers fit, the largest discount wins.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="offerName" className="text-sm text-gray-600">Name</label>
+                <Input id="offerName" placeholder="e.g. Exam season" value={offerForm.name} onChange={(e) => setOfferForm({ ...offerForm, name: e.target.value })} />
+              </div>
+              <div>
+                <label htmlFor="offerBranch" className="text-sm text-gray-600">Branch</label>
+                {branchSelect(offerForm.branchId, (branchId) => setOfferForm({ ...offerForm, branchId }), 'offerBranch')}
+              </div>
+              <div>
+                <label htmlFor="offerType" className="text-sm text-gray-600">Discount type</label>
+                <select
+                  id="offerType"
+                  value={offerForm.discountType}
+                  onChange={(e) => setOfferForm({ ...offerForm, discountType: e.target.value as FeeOfferInput['discountType'] })}
+                  className="w-full h-10 px-3 border rounded-md bg-white text-sm"
+                >
+                  <option value="percent">Percent of fee</option>
+                  <option value="flat">Flat amount</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="offerValue" className="text-sm text-gray-600">Discount</label>
+                <Input id="offerValue" type="number" min={0} value={offerForm.discountValue} onChange={(e) => setOfferForm({ ...offerForm, discountValue: Number(e.target.value) })} />
+              </div>
+              <div>
+                <label htmlFor="offerFrom" className="text-sm text-gray-600">Valid from</label>
+                <Input id="offerFrom" type="date" value={offerForm.validFrom} onChange={(e) => setOfferForm({ ...offerForm, validFrom: e.target.value })} />
+              </div>
+              <div>
+                <label htmlFor="offerTo" className="text-sm text-gray-600">Valid to</label>
+                <Input id="offerTo" type="date" value={offerForm.validTo} onChange={(e) => setOfferForm({ ...offerForm, validTo: e.target.value })} />
+              </div>
+              <div>
+                <label htmlFor="offerMinMonths" className="text-sm text-gray-600">Minimum months</label>
+                <Input id="offerMinMonths" type="number" min={1} value={offerForm.minMonths} onChange={(e) => setOfferForm({ ...offerForm, minMonths: Number(e.target.value) })} />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={offerForm.isActive} onChange={(e) => setOfferForm({ ...offerForm, isActive: e.target.checked })} />
+              Active
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOfferOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveOffer} disabled={saveOffer.isPending}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default FeePlans;
@@ -0,0 +1,307 @@
+// src/pages/ImportStudents.tsx
+import React, { useEffect, useState } from 'react';
+import * as XLSX from 'xlsx';
+import Navbar from '../components/Navbar';
+import Sidebar from '../components/Sidebar';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import api, { StudentImportRow, StudentImportResult } from '../services/api';
+import { Upload, Download, CheckCircle, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useNavigate } from 'react-router-dom';
+
+interface Branch {
+  id: number;
+  name: string;
+}
+
+type ImportField = Exclude<keyof StudentImportRow, 'rowNumber' | 'branchId'>;
+
+// Spreadsheet columns we understand, with the header spellings we auto-detect.
+const IMPORT_FIELDS: Array<{ key: ImportField; label: string; required?: boolean; aliases: string[] }> = [
+  { key: 'name', label: 'Name', required: true, aliases: ['name', 'student name', 'student'] },
+  { key: 'phone', label: 'Phone', required: true, aliases: ['phone', 'mobile', 'phone number', 'mobile number', 'contact'] },
+  { key: 'email', label: 'Email', aliases: ['email', 'email id', 'e-mail'] },
+  { key: 'address', label: 'Address', aliases: ['address'] },
+  { key: 'registrationNumber', label: 'Registration Number', aliases: ['registration number', 'registration no', 'reg no', 'admission no'] },
+  { key: 'fatherName', label: "Father's Name", aliases: ['father name', "father's name", 'father'] },
+  { key: 'aadharNumber', label: 'Aadhar Number', aliases: ['aadhar number', 'aadhaar number', 'aadhar', 'aadhaar'] },
+  { key: 'branch', label: 'Branch (name or code)', aliases: ['branch', 'branch name', 'branch code'] },
+  { key: 'membershipStart', label: 'Membership Start', required: true, aliases: ['membership start', 'start date', 'start', 'from'] },
+  { key: 'membershipEnd', label: 'Membership End', required: true, aliases: ['membership end', 'end date', 'end', 'to', 'expiry'] },
+  { key: 'totalFee', label: 'Total Fee', aliases: ['total fee', 'fee', 'fees'] },
+  { key: 'discount', label: 'Discount', aliases: ['discount'] },
+  { key: 'durationMonths', label: 'Duration (months, priced from fee plan)', aliases: ['duration', 'months', 'duration months'] },
+  { key: 'feeOverrideReason', label: 'Fee Override Reason', aliases: ['fee override reason', 'override reason', 'fee reason'] },
+  { key: 'cash', label: 'Cash Payment', aliases: ['cash', 'cash payment', 'cash paid'] },
+  { key: 'online', label: 'Online Payment', aliases: ['online', 'online payment', 'online paid', 'upi'] },
+  { key: 'securityMoney', label: 'Security Money', aliases: ['security money', 'security', 'deposit'] },
+  { key: 'seatNumber', label: 'Seat Number', aliases: ['seat number', 'seat', 'seat no'] },
+  { key: 'shifts', label: 'Shifts (comma separated)', aliases: ['shifts', 'shift'] },
+  { key: 'lockerNumber', label: 'Locker Number', aliases: ['locker number', 'locker', 'locker no'] },
+  { key: 'preparingFor', label: 'Preparing For', aliases: ['preparing for', 'exam', 'course'] },
+  { key: 'remark', label: 'Remark', aliases: ['remark', 'remarks', 'note', 'notes'] },
+];
+
+const NUMERIC_FIELDS: ImportField[] = ['totalFee', 'discount', 'durationMonths', 'cash', 'online', 'securityMoney'];
+const DATE_FIELDS: ImportField[] = ['membershipStart', 'membershipEnd'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_.]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Accepts Excel dates, YYYY-MM-DD and the DD/MM/YYYY format staff type by hand.
+const normalizeDate = (value: unknown): string => {
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+  const text = String(value ?? '').trim();
+  const dmy = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (dmy) {
+    return `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+  }
+  return text;
+};
+
+const ImportStudents = () => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [defaultBranchId, setDefaultBranchId] = useState<number | undefined>(undefined);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [sheetRows, setSheetRows] = useState<Record<string, unknown>[]>([]);
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, string>>>({});
+  const [report, setReport] = useState<StudentImportResult | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const fetchBranches = async () => {
+      try {
+        const fetchedBranches = await api.getBranches();
+        setBranches(fetchedBranches);
+      } catch (error) {
+        console.error('Failed to fetch branches:', error);
+        toast.error('Failed to fetch branches');
+      }
+    };
+    fetchBranches();
+  }, []);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const workbook = XLSX.read(await file.arrayBuffer(), { cellDates: true });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' });
+      if (rows.length === 0) {
+        toast.error('The selected sheet has no rows');
+        return;
+      }
+      const sheetHeaders = Object.keys(rows[0]);
+      const autoMapping: Partial<Record<ImportField, string>> = {};
+      IMPORT_FIELDS.forEach(field => {
+        const match = sheetHeaders.find(h => field.aliases.includes(normalizeHeader(h)));
+        if (match) autoMapping[field.key] = match;
+      });
+      setFileName(file.name);
+      setHeaders(sheetHeaders);
+      setSheetRows(rows);
+      setMapping(autoMapping);
+      setReport(null);
+    } catch (error) {
+      console.error('Failed to read spreadsheet:', error);
+      toast.error('Could not read the file. Upload a CSV or XLSX spreadsheet.');
+    }
+  };
+
+  const buildRows = (): StudentImportRow[] =>
+    sheetRows.map((sheetRow, index) => {
+      // Header is spreadsheet row 1, so data starts at row 2.
+      const row: Record<string, unknown> = { rowNumber: index + 2 };
+      IMPORT_FIELDS.forEach(({ key }) => {
+        const column = mapping[key];
+        if (!column) return;
+        const raw = sheetRow[column];
+        if (raw === '' || raw === null || raw === undefined) return;
+        if (NUMERIC_FIELDS.includes(key)) {
+          row[key] = parseFloat(String(raw)) || 0;
+        } else if (DATE_FIELDS.includes(key)) {
+          row[key] = normalizeDate(raw);
+        } else {
+          row[key] = String(raw).trim();
+        }
+      });
+      if (!row.branch && defaultBranchId) {
+        row.branchId = defaultBranchId;
+      }
+      return row as unknown as StudentImportRow;
+    });
+
+  const runImport = async (dryRun: boolean) => {
+    const missing = IMPORT_FIELDS.filter(f => f.required && !mapping[f.key]).map(f => f.label);
+    if (missing.length > 0) {
+      toast.error(`Map the required columns first: ${missing.join(', ')}`);
+      return;
+    }
+    if (!mapping.branch && !defaultBranchId) {
+      toast.error('Select a default branch or map a Branch column');
+      return;
+    }
+    try {
+      setProcessing(true);
+      const result = await api.importStudents({ rows: buildRows(), dryRun });
+      setReport(result);
+      if (dryRun) {
+        toast.success(`Validation finished: ${result.valid} valid, ${result.invalid} with errors`);
+      } else {
+        toast.success(`Imported ${result.valid} students`);
+      }
+    } catch (error) {
+      console.error('Failed to import students:', error);
+      toast.error((error as Error).message || 'Failed to import students');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const sheet = XLSX.utils.aoa_to_sheet([IMPORT_FIELDS.map(f => f.label.replace(/ \(.*\)$/, ''))]);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Students');
+    XLSX.writeFile(workbook, 'student-import-template.xlsx');
+  };
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <Sidebar isCollapsed={isCollapsed} setIsCollapsed={setIsCollapsed} />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Navbar />
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="max-w-7xl mx-auto space-y-6">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-800">Import Students</h1>
+              <p className="text-gray-500">Upload a CSV or XLSX sheet, check the dry-run report, then import the valid rows</p>
+            </div>
+
+            <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-4 flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg cursor-pointer hover:bg-purple-700">
+                <Upload size={16} />
+                {fileName || 'Choose spreadsheet'}
+                <input type="file" accept=".csv,.xlsx,.xls" onChange={handleFileChange} className="hidden" />
+              </label>
+              <div className="flex items-center space-x-2">
+                <label className="text-sm text-gray-500">Default Branch:</label>
+                <select
+                  value={defaultBranchId ?? ''}
+                  onChange={(e) => setDefaultBranchId(e.target.value ? Number(e.target.value) : undefined)}
+                  className="p-2 border rounded text-sm"
+                >
+                  <option value="">From sheet</option>
+                  {branches.map(branch => (
+                    <option key={branch.id} value={branch.id}>{branch.name}</option>
+                  ))}
+                </select>
+              </div>
+              <button onClick={handleDownloadTemplate} className="flex items-center gap-2 text-sm text-purple-600 hover:text-purple-800">
+                <Download size={16} /> Download template
+              </button>
+            </div>
+
+            {headers.length > 0 && (
+              <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-4">
+                <h3 className="text-lg font-medium mb-4">Column Mapping ({sheetRows.length} rows)</h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {IMPORT_FIELDS.map(field => (
+                    <div key={field.key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        {field.label}{field.required ? ' *' : ''}
+                      </label>
+                      <select
+                        value={mapping[field.key] ?? ''}
+                        onChange={(e) => {
+                          setMapping(prev => ({ ...prev, [field.key]: e.target.value || undefined }));
+                          setReport(null);
+                        }}
+                        className="w-full p-2 border rounded text-sm"
+                      >
+                        <option value="">Not imported</option>
+                        {headers.map(h => (
+                          <option key={h} value={h}>{h}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-4 mt-6">
+                  <button
+                    onClick={() => runImport(true)}
+                    disabled={processing}
+                    className="px-4 py-2 border border-purple-600 text-purple-600 rounded-lg hover:bg-purple-50 disabled:opacity-50"
+                  >
+                    {processing ? 'Working...' : 'Validate (Dry Run)'}
+                  </button>
+                  <button
+                    onClick={() => runImport(false)}
+                    disabled={processing || !report || !report.dryRun || report.valid === 0}
+                    className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+                  >
+                    Import {report?.dryRun ? report.valid : ''} Valid Rows
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {report && (
+              <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+                <div className="p-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+                  <h3 className="text-lg font-medium">{report.dryRun ? 'Dry-Run Report' : 'Import Result'}</h3>
+                  <div className="text-sm text-gray-600">
+                    {report.total} rows · <span className="text-green-600">{report.valid} {report.dryRun ? 'valid' : 'imported'}</span> · <span className="text-red-600">{report.invalid} with errors</span>
+                  </div>
+                  {!report.dryRun && (
+                    <button onClick={() => navigate('/students')} className="text-sm text-purple-600 hover:text-purple-800">
+                      View All Students
+                    </button>
+                  )}
+                </div>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Row</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Phone</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.rows.map(row => (
+                        <TableRow key={row.rowNumber} className={row.status === 'error' ? 'bg-red-50' : ''}>
+                          <TableCell>{row.rowNumber}</TableCell>
+                          <TableCell>{row.name || 'N/A'}</TableCell>
+                          <TableCell>{row.phone || 'N/A'}</TableCell>
+                          <TableCell>
+                            {row.status === 'valid' ? (
+                              <span className="flex items-center gap-1 text-green-600"><CheckCircle size={14} /> {report.dryRun ? 'Valid' : 'Imported'}</span>
+                            ) : (
+                              <span className="flex items-center gap-1 text-red-600"><XCircle size={14} /> Error</span>
+                            )}
+                          </TableCell>
+                          <TableCell>{row.message || ''}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportStudents;
@@ -6,6 +6,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import api from '../services/api';
 import { toast } from 'sonner';
 import { ToggleRight } from 'lucide-react';
+import ExportMenu from '../components/ExportMenu';
+import { ExportColumn } from '../lib/export';
 
 interface InactiveStudent {
   id: number;
@@ -13,8 +15,23 @@ interface InactiveStudent {
   phone: string;
   registrationNumber?: string | null;
   branchName?: string;
+  membershipEnd?: string | null;
+  totalFee?: number | string;
+  amountPaid?: number | string;
+  dueAmount?: number | string;
 }
 
+const exportColumns: ExportColumn<InactiveStudent>[] = [
+  { header: 'Name', value: s => s.name },
+  { header: 'Registration Number', value: s => s.registrationNumber || '' },
+  { header: 'Phone', value: s => s.phone },
+  { header: 'Branch', value: s => s.branchName || '' },
+  { header: 'Membership End', value: s => s.membershipEnd || '' },
+  { header: 'Total Fee', value: s => Number(s.totalFee || 0), total: true },
+  { header: 'Paid', value: s => Number(s.amountPaid || 0), total: true },
+  { header: 'Due', value: s => Number(s.dueAmount || 0), total: true },
+];
+
 const InactiveStudents = () => {
   const [students, setStudents] = useState<InactiveStudent[]>([]);
   const [loading, setLoading] = useState(true);
@@ -57,9 +74,17 @@ const InactiveStudents = () => {
         <Navbar />
         <div className="flex-1 overflow-y-auto p-6">
           <div className="max-w-7xl mx-auto">
-            <div className="mb-6">
-              <h1 className="text-2xl font-bold text-gray-800">Inactive Students</h1>
-              <p className="text-gray-500">List of all manually deactivated students.</p>
+            <div className="mb-6 flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-800">Inactive Students</h1>
+                <p className="text-gray-500">List of all manually deactivated students.</p>
+              </div>
+              <ExportMenu
+                title="Inactive Students"
+                fileName="inactive-students"
+                columns={exportColumns}
+                rows={students}
+              />
             </div>
             <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
               <div className="overflow-x-auto">
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Lock, User } from 'lucide-react';
+import { KeyRound, Lock, User } from 'lucide-react';
 import { toast } from 'sonner';
 import api from '../services/api';
 import { useAuth } from '../context/AuthContext';
@@ -8,10 +8,22 @@ import { useAuth } from '../context/AuthContext';
 const Login = () => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [loading, setLoading] = useState(false);
-  const { login } = useAuth();
+  const { login, twoFactorPending, beginTwoFactor, verifyTwoFactor, cancelTwoFactor } = useAuth();
   const navigate = useNavigate();
 
+  const goToApp = (user: { mustChangePassword?: boolean }) => {
+    if (user.mustChangePassword) {
+      toast.info('Please choose a new password to continue');
+      navigate('/change-password');
+      return;
+    }
+    toast.success('Login successful!');
+    navigate('/');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!username || !password) {
@@ -21,10 +33,14 @@ const Login = () => {
     setLoading(true);
 
     try {
-      const user = await api.login({ username, password });
+      const { user, twoFactorRequired } = await api.login({ username, password });
+      if (twoFactorRequired) {
+        setCode('');
+        beginTwoFactor();
+        return;
+      }
       login(user);
-      toast.success('Login successful!');
-      navigate('/');
+      goToApp(user);
     } catch (err) {
       console.error('Login error:', err);
       toast.error(err.message || 'Login failed. Please try again.');
@@ -33,6 +49,93 @@ const Login = () => {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      toast.error(useRecoveryCode ? 'Please enter a recovery code' : 'Please enter the 6-digit code');
+      return;
+    }
+    setLoading(true);
+
+    try {
+      const result = await verifyTwoFactor(useRecoveryCode ? { recoveryCode: code.trim() } : { totpCode: code.trim() });
+      if (result.recoveryCodesRemaining !== undefined) {
+        toast.warning(`Recovery code used. ${result.recoveryCodesRemaining} code(s) left.`);
+      }
+      goToApp(result.user);
+    } catch (error) {
+      toast.error((error as Error).message || 'Verification failed. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelTwoFactor = async () => {
+    await cancelTwoFactor();
+    setPassword('');
+    setCode('');
+    setUseRecoveryCode(false);
+  };
+
+  if (twoFactorPending) {
+    return (
+      <div
+        className="min-h-screen bg-cover bg-center flex items-center justify-center p-4"
+        style={{ backgroundImage: `url('/login-bg.jpg')` }}
+      >
+        <div className="bg-white bg-opacity-95 rounded-xl shadow-lg overflow-hidden w-full max-w-md">
+          <div className="p-8">
+            <div className="text-center mb-8">
+              <div className="inline-flex h-12 w-12 items-center justify-center rounded-full bg-gradient-radial from-purple-300 to-orange-200 mb-4">
+                <KeyRound className="h-6 w-6 text-purple-800" />
+              </div>
+              <h1 className="text-2xl font-bold">Two-Factor Verification</h1>
+              <p className="text-gray-500 mt-2">
+                {useRecoveryCode
+                  ? 'Enter one of your recovery codes'
+                  : 'Enter the 6-digit code from your authenticator app'}
+              </p>
+            </div>
+
+            <form onSubmit={handleVerify} className="space-y-6">
+              <input
+                id="code"
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg text-center tracking-widest focus:outline-none focus:ring-2 focus:ring-purple-300"
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                autoFocus
+                required
+              />
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-purple-600 text-white py-2 px-4 rounded-lg hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-70"
+              >
+                {loading ? 'Verifying...' : 'Verify'}
+              </button>
+              <div className="flex justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); }}
+                  className="text-purple-600 hover:text-purple-800"
+                >
+                  {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                </button>
+                <button type="button" onClick={handleCancelTwoFactor} className="text-gray-600 hover:text-gray-800">
+                  Back to login
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div
       className="min-h-screen bg-cover bg-center flex items-center justify-center p-4"
@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Loader2, RotateCw } from 'lucide-react';
+import { toast } from 'sonner';
+import Sidebar from '../components/Sidebar';
+import { Button } from '@/components/ui/button';
+import api, { MessageFilters, MessageStatus, OutboxMessage } from '../services/api';
+
+interface BranchOption {
+  id: number;
+  name: string;
+}
+
+const PAGE_SIZE = 50;
+
+const STATUS_TABS: { value: MessageStatus | undefined; label: string }[] = [
+  { value: undefined, label: 'All' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'pending', label: 'Queued' },
+  { value: 'failed', label: 'Failed' },
+];
+
+const STATUS_STYLES: Record<MessageStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  sending: 'bg-blue-100 text-blue-700',
+  sent: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const formatKind = (kind: string) => kind.replace(/_/g, ' ');
+
+const payloadSummary = (message: OutboxMessage) => {
+  if (message.payload.textOnly && message.payload.text) return message.payload.text;
+  if (message.payload.parameters && message.payload.parameters.length > 0) return message.payload.parameters.join(' · ');
+  if (message.payload.params) return Object.values(message.payload.params).map(String).join(' · ');
+  return '';
+};
+
+// Delivery log of the notification outbox: reminders queued, sent or given up
+// on, with a resend button. ?studentId= narrows it to one student.
+const Messages: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [searchParams] = useSearchParams();
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [branches, setBranches] = useState<BranchOption[]>([]);
+  const [filters, setFilters] = useState<MessageFilters>(() => {
+    const studentId = Number(searchParams.get('studentId'));
+    return studentId ? { studentId } : {};
+  });
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    api.getBranches().then(setBranches).catch(() => toast.error('Failed to load branches'));
+  }, []);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['messages', filters, page],
+    queryFn: () => api.getMessages({ ...filters, page, limit: PAGE_SIZE }),
+  });
+
+  const resend = useMutation({
+    mutationFn: (id: number) => api.resendMessage(id),
+    onSuccess: () => {
+      toast.success('Message queued to be sent again');
+      queryClient.invalidateQueries({ queryKey: ['messages'] });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to resend message'),
+  });
+
+  const updateFilter = (changes: MessageFilters) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  const messages = data?.messages || [];
+  const totalPages = data ? Math.max(Math.ceil(data.total / data.limit), 1) : 1;
+  const counts = data?.statusCounts || {};
+  const countFor = (status: MessageStatus | undefined) =>
+    status ? counts[status] || 0 : Object.values(counts).reduce((sum, count) => sum + (count || 0), 0);
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-[#fef9f6]">
+      <Sidebar isCollapsed={isCollapsed} setIsCollapsed={setIsCollapsed} />
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-6">
+        <motion.div
+          className="max-w-7xl mx-auto"
+          initial={{ opacity: 0, y: 24 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-800 mb-4">Messages</h1>
+
+          {filters.studentId && (
+            <div className="mb-4 text-sm text-gray-600">
+              Showing messages of {messages[0]?.studentName || `student #${filters.studentId}`}.{' '}
+              <button type="button" className="text-purple-600 hover:underline" onClick={() => updateFilter({ studentId: undefined })}>
+                Show all students
+              </button>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            {STATUS_TABS.map(tab => (
+              <Button
+                key={tab.label}
+                size="sm"
+                variant={filters.status === tab.value ? 'default' : 'outline'}
+                onClick={() => updateFilter({ status: tab.value })}
+              >
+                {tab.label} ({countFor(tab.value)})
+              </Button>
+            ))}
+          </div>
+
+          <div className="mb-6 grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <select
+              value={filters.channel || ''}
+              onChange={(e) => updateFilter({ channel: (e.target.value || undefined) as MessageFilters['channel'] })}
+              className="p-2 border rounded-md"
+            >
+              <option value="">All Channels</option>
+              <option value="whatsapp">WhatsApp</option>
+              <option value="email">Email</option>
+              <option value="sms">SMS</option>
+            </select>
+            <select
+              value={filters.kind || ''}
+              onChange={(e) => updateFilter({ kind: e.target.value || undefined })}
+              className="p-2 border rounded-md"
+            >
+              <option value="">All Types</option>
+              {(data?.kinds || []).map(kind => <option key={kind} value={kind}>{formatKind(kind)}</option>)}
+            </select>
+            <select
+              value={filters.branchId || ''}
+              onChange={(e) => updateFilter({ branchId: e.target.value ? Number(e.target.value) : undefined })}
+              className="p-2 border rounded-md"
+            >
+              <option value="">All Branches</option>
+              {branches.map(branch => <option key={branch.id} value={branch.id}>{branch.name}</option>)}
+            </select>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center text-gray-600 mt-6">
+              <Loader2 className="animate-spin mr-2" />
+              Loading messages...
+            </div>
+          ) : error ? (
+            <div className="flex items-center justify-center text-red-500 mt-6">
+              <AlertTriangle className="mr-2" />
+              Error: {(error as Error).message}
+            </div>
+          ) : (
+            <div className="overflow-x-auto bg-white shadow-md rounded-xl w-full">
+              <table className="w-full text-sm text-left table-auto">
+                <thead className="bg-gray-100 text-gray-700 font-semibold">
+                  <tr>
+                    <th className="px-4 py-3">Queued</th>
+                    <th className="px-4 py-3">Student</th>
+                    <th className="px-4 py-3">Type</th>
+                    <th className="px-4 py-3">Channel / Recipient</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3">Attempts</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {messages.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-6 text-center text-gray-500">No messages found.</td>
+                    </tr>
+                  ) : messages.map(message => (
+                    <tr key={message.id} className="border-t align-top">
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        {new Date(message.createdAt).toLocaleString()}
+                        {message.resendOf && <div className="text-xs text-gray-500">Resend of #{message.resendOf}{message.createdByName ? ` by ${message.createdByName}` : ''}</div>}
+                      </td>
+                      <td className="px-4 py-2">
+                        {message.studentId ? (
+                          <Link to={`/students/${message.studentId}`} className="text-purple-600 hover:underline">
+                            {message.studentName || `#${message.studentId}`}
+                          </Link>
+                        ) : '—'}
+                        {message.branchName && <div className="text-xs text-gray-500">{message.branchName}</div>}
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="capitalize">{formatKind(message.kind)}</div>
+                        <div className="text-xs text-gray-500">{message.template}</div>
+                        {payloadSummary(message) && <div className="text-xs text-gray-500 break-all">{payloadSummary(message)}</div>}
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="capitalize">{message.channel}{message.provider && <span className="text-xs text-gray-500"> via {message.provider}</span>}</div>
+                        <div className="text-xs text-gray-500 break-all">{message.recipient}</div>
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className={`px-2 py-0.5 rounded text-xs capitalize ${STATUS_STYLES[message.status]}`}>{message.status}</span>
+                        {message.sentAt && <div className="text-xs text-gray-500 mt-1">{new Date(message.sentAt).toLocaleString()}</div>}
+                        {message.status === 'pending' && message.attempts > 0 && (
+                          <div className="text-xs text-gray-500 mt-1">Retry at {new Date(message.nextAttemptAt).toLocaleString()}</div>
+                        )}
+                        {message.lastError && message.status !== 'sent' && (
+                          <div className="text-xs text-red-600 mt-1 break-all">{message.lastError}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">{message.attempts} / {message.maxAttempts}</td>
+                      <td className="px-4 py-2 text-right">
+                        {(message.status === 'sent' || message.status === 'failed') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={resend.isPending}
+                            onClick={() => resend.mutate(message.id)}
+                            className="flex items-center gap-1"
+                          >
+                            <RotateCw size={14} /> Resend
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {data && data.total > 0 && (
+            <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+              <span>{data.total} messages</span>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>Previous</Button>
+                <span>Page {page} of {totalPages}</span>
+                <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>Next</Button>
+              </div>
+            </div>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+};
+
+export default Messages;
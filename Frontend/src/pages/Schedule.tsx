@@ -27,6 +27,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Plus, Trash2, X, Loader2, Pencil, Calendar as CalendarIcon } from 'lucide-react';
 import { toast } from 'sonner';
 import api from '../services/api';
+import ShiftTimingFields, { ShiftTimingValue } from '../components/ShiftTimingFields';
+import { formatShiftDays, formatShiftRange } from '../config/shifts';
 
 // Error Boundary Component
 class ErrorBoundary extends React.Component {
@@ -63,7 +65,7 @@ class ErrorBoundary extends React.Component {
   }
 }
 
-interface ScheduleEvent {
+interface ScheduleEvent extends ShiftTimingValue {
   id: number;
   title: string;
   description: string | null;
@@ -72,6 +74,27 @@ interface ScheduleEvent {
   fee: number;
 }
 
+const EMPTY_TIMING: ShiftTimingValue = { startTime: '', endTime: '', daysOfWeek: [], branchId: null, capacity: '' };
+
+// Checks the timing inputs and converts them to the API shape.
+const toTimingPayload = (timing: ShiftTimingValue) => {
+  if (!timing.startTime || !timing.endTime) {
+    return { error: 'Please set both the start and end time.' };
+  }
+  if (timing.startTime === timing.endTime) {
+    return { error: 'Start and end time cannot be the same.' };
+  }
+  return {
+    payload: {
+      startTime: timing.startTime,
+      endTime: timing.endTime,
+      daysOfWeek: timing.daysOfWeek.length > 0 ? timing.daysOfWeek : null,
+      branchId: timing.branchId,
+      capacity: timing.capacity ? parseInt(timing.capacity, 10) : null,
+    },
+  };
+};
+
 const parseValidDate = (dateStr: string): Date | null => {
   if (!dateStr) return null;
   const d = new Date(dateStr + 'T00:00:00');
@@ -113,6 +136,7 @@ const SchedulePage: React.FC = () => {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [eventToEdit, setEventToEdit] = useState<ScheduleEvent | null>(null);
   const [eventToDelete, setEventToDelete] = useState<ScheduleEvent | null>(null);
+  const [branches, setBranches] = useState<Array<{ id: number; name: string }>>([]);
 
   const initialNewEventState = {
     title: '',
@@ -120,6 +144,7 @@ const SchedulePage: React.FC = () => {
     time: '',
     description: '',
     fee: 0,
+    ...EMPTY_TIMING,
   };
   const [newEvent, setNewEvent] = useState(initialNewEventState);
 
@@ -138,6 +163,11 @@ const SchedulePage: React.FC = () => {
           time: schedule.time || '',
           eventDate: schedule.eventDate || '', // Rely on camelCase from interceptor
           fee: parseFloat(schedule.fee) || 0,
+          startTime: schedule.startTime ? schedule.startTime.slice(0, 5) : '',
+          endTime: schedule.endTime ? schedule.endTime.slice(0, 5) : '',
+          daysOfWeek: schedule.daysOfWeek || [],
+          branchId: schedule.branchId ?? null,
+          capacity: schedule.capacity ? String(schedule.capacity) : '',
         }));
       setEvents(formattedSchedules);
     } catch (error: any) {
@@ -153,9 +183,23 @@ const SchedulePage: React.FC = () => {
     fetchEvents();
   }, [fetchEvents]);
 
+  useEffect(() => {
+    api.getBranches()
+      .then(setBranches)
+      .catch(() => setBranches([]));
+  }, []);
+
+  const branchName = (branchId: number | null) =>
+    branchId === null ? 'All branches' : branches.find(branch => branch.id === branchId)?.name || `Branch ${branchId}`;
+
   const handleAddEventSubmit = async () => {
-    if (!newEvent.title.trim() || !newEvent.time) {
-      toast.error('Please fill in Event Title and Time.');
+    if (!newEvent.title.trim()) {
+      toast.error('Please fill in Event Title.');
+      return;
+    }
+    const timing = toTimingPayload(newEvent);
+    if (timing.error) {
+      toast.error(timing.error);
       return;
     }
 
@@ -165,9 +209,10 @@ const SchedulePage: React.FC = () => {
     const scheduleDataToSend = {
       title: newEvent.title.trim(),
       description: newEvent.description.trim() || null,
-      time: newEvent.time,
+      time: newEvent.startTime,
       eventDate: dateStrYYYYMMDD, // Ensure YYYY-MM-DD format
       fee: newEvent.fee,
+      ...timing.payload,
     };
 
     console.log('Sending add event data:', scheduleDataToSend); // Debug log
@@ -188,6 +233,11 @@ const SchedulePage: React.FC = () => {
 
   const handleUpdateEventSubmit = async () => {
     if (!eventToEdit) return;
+    const timing = toTimingPayload(eventToEdit);
+    if (timing.error) {
+      toast.error(timing.error);
+      return;
+    }
 
     // Normalize eventDate to YYYY-MM-DD format
     const normalizedEventDate = parseValidDate(eventToEdit.eventDate);
@@ -201,13 +251,14 @@ const SchedulePage: React.FC = () => {
     console.log('Sending update event data:', updatedEvent); // Debug log
     setIsLoading(true);
     try {
-      const { id, title, description, time, fee, eventDate } = updatedEvent;
+      const { id, title, description, fee, eventDate } = updatedEvent;
       await api.updateSchedule(id, {
         title,
         description,
-        time,
+        time: timing.payload?.startTime,
         eventDate,
         fee,
+        ...timing.payload,
       });
       await fetchEvents();
       setIsEditDialogOpen(false);
@@ -324,6 +375,7 @@ const SchedulePage: React.FC = () => {
                             <TableRow>
                               <TableHead className="w-[150px]">Event</TableHead>
                               <TableHead>Time</TableHead>
+                              <TableHead className="hidden lg:table-cell">Branch</TableHead>
                               <TableHead>Fee</TableHead>
                               <TableHead className="hidden md:table-cell">Description</TableHead>
                               <TableHead className="text-right">Actions</TableHead>
@@ -333,7 +385,14 @@ const SchedulePage: React.FC = () => {
                             {filteredEvents.map((event) => (
                               <TableRow key={event.id} className="hover:bg-gray-50 dark:hover:bg-gray-800/50">
                                 <TableCell className="font-medium">{event.title}</TableCell>
-                                <TableCell>{formatTimeForDisplay(event.time)}</TableCell>
+                                <TableCell>
+                                  {formatShiftRange(event.startTime, event.endTime) || formatTimeForDisplay(event.time)}
+                                  <div className="text-xs text-gray-500">
+                                    {formatShiftDays(event.daysOfWeek)}
+                                    {event.capacity && ` · ${event.capacity} seats`}
+                                  </div>
+                                </TableCell>
+                                <TableCell className="hidden lg:table-cell">{branchName(event.branchId)}</TableCell>
                                 <TableCell>₹{event.fee.toFixed(2)}</TableCell>
                                 <TableCell className="hidden md:table-cell max-w-xs truncate">{event.description || '—'}</TableCell>
                                 <TableCell className="text-right space-x-1">
@@ -365,7 +424,7 @@ const SchedulePage: React.FC = () => {
             </DialogHeader>
             <div className="grid gap-4 py-4">
               <Input id="eventTitle" placeholder="Event Title" value={newEvent.title} onChange={(e) => setNewEvent({ ...newEvent, title: e.target.value })} />
-              <Input id="eventTime" type="time" value={newEvent.time} onChange={(e) => setNewEvent({ ...newEvent, time: e.target.value })} />
+              <ShiftTimingFields idPrefix="newShift" value={newEvent} branches={branches} onChange={(timing) => setNewEvent({ ...newEvent, ...timing })} />
               <Input id="eventFee" type="number" placeholder="Fee" value={newEvent.fee} onChange={(e) => setNewEvent({ ...newEvent, fee: parseFloat(e.target.value) || 0 })} />
               <Textarea id="eventDescription" placeholder="Description (optional)" value={newEvent.description || ''} onChange={(e) => setNewEvent({ ...newEvent, description: e.target.value })} />
               <div className="text-sm text-gray-500 dark:text-gray-400">Date: {formatDateForDisplay(newEvent.date)}</div>
@@ -388,7 +447,7 @@ const SchedulePage: React.FC = () => {
             {eventToEdit && (
               <div className="grid gap-4 py-4">
                 <Input id="editEventTitle" placeholder="Event Title" value={eventToEdit.title} onChange={(e) => setEventToEdit({ ...eventToEdit, title: e.target.value })} />
-                <Input id="editEventTime" type="time" value={eventToEdit.time} onChange={(e) => setEventToEdit({ ...eventToEdit, time: e.target.value })} />
+                <ShiftTimingFields idPrefix="editShift" value={eventToEdit} branches={branches} onChange={(timing) => setEventToEdit({ ...eventToEdit, ...timing })} />
                 <Input id="editEventFee" type="number" placeholder="Fee" value={eventToEdit.fee} onChange={(e) => setEventToEdit({ ...eventToEdit, fee: parseFloat(e.target.value) || 0 })} />
                 <Textarea id="editEventDescription" placeholder="Description (optional)" value={eventToEdit.description || ''} onChange={(e) => setEventToEdit({ ...eventToEdit, description: e.target.value })} />
                 <div className="text-sm text-gray-500 dark:text-gray-400">Date: {formatDateForDisplay(eventToEdit.eventDate)}</div>
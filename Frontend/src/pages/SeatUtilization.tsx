@@ -0,0 +1,274 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { motion } from 'framer-motion';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import Sidebar from '../components/Sidebar';
+import api, { SeatUtilizationReport } from '../services/api';
+
+interface Branch {
+  id: number;
+  name: string;
+}
+
+const LINE_COLORS = ['#7c3aed', '#f97316', '#059669', '#2563eb', '#db2777', '#ca8a04', '#0891b2', '#4b5563'];
+
+// Heatmap cell colour: white when never used, deep green when full every day.
+const heatColor = (occupancy: number) => `rgba(5, 150, 105, ${Math.min(occupancy, 100) / 100})`;
+
+const SeatUtilization: React.FC = () => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [selectedBranchId, setSelectedBranchId] = useState<number | null>(null);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [data, setData] = useState<SeatUtilizationReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchBranches = async () => {
+      try {
+        const branchesData = await api.getBranches();
+        setBranches(branchesData);
+      } catch (error) {
+        console.error('Failed to fetch branches:', error);
+        toast.error('Failed to load branches');
+      }
+    };
+    fetchBranches();
+  }, []);
+
+  const handleFetch = async () => {
+    try {
+      setLoading(true);
+      const response = await api.getSeatUtilization({ month, branchId: selectedBranchId || undefined });
+      setData(response);
+    } catch (error) {
+      console.error('Failed to fetch seat utilization:', error);
+      toast.error('Failed to load seat utilization');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Branch names are only worth showing when the report spans several branches.
+  const multiBranch = !!data && new Set(data.shifts.map(row => row.branchId)).size > 1;
+  const lineKey = (row: { branchName: string; shiftTitle: string }) =>
+    multiBranch ? `${row.branchName} · ${row.shiftTitle}` : row.shiftTitle;
+  // One point per day; shifts limited to some weekdays simply have no value on other days.
+  const chartData = data
+    ? Array.from(new Set(data.shifts.flatMap(row => row.daily.map(day => day.date)))).sort().map(date => {
+      const point: Record<string, string | number> = { date: date.slice(8) };
+      data.shifts.forEach(row => {
+        const day = row.daily.find(d => d.date === date);
+        if (day) point[lineKey(row)] = day.occupancy;
+      });
+      return point;
+    })
+    : [];
+
+  const heatmapShifts = data
+    ? Array.from(new Map(data.shifts.map(row => [row.shiftId, row.shiftTitle])).entries())
+    : [];
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-[#fef9f6]">
+      <Sidebar isCollapsed={isCollapsed} setIsCollapsed={setIsCollapsed} />
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-6">
+        <motion.div
+          className="max-w-6xl mx-auto"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <motion.h1
+            className="text-2xl md:text-3xl font-bold mb-6 text-gray-800 flex items-center gap-2"
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+          >
+            💺 Seat Utilization
+          </motion.h1>
+
+          <motion.div
+            className="bg-white rounded-lg shadow p-6 mb-6 grid grid-cols-1 sm:grid-cols-3 gap-4 items-end"
+            initial={{ opacity: 0, scale: 0.97 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ delay: 0.15 }}
+          >
+            <div>
+              <label htmlFor="month" className="block text-sm font-medium text-gray-700 mb-2">
+                Select Month
+              </label>
+              <input
+                type="month"
+                id="month"
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div>
+              <label htmlFor="branch" className="block text-sm font-medium text-gray-700 mb-2">
+                Select Branch
+              </label>
+              <select
+                id="branch"
+                value={selectedBranchId || ''}
+                onChange={(e) => setSelectedBranchId(e.target.value ? Number(e.target.value) : null)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="">All Branches</option>
+                {branches.map((branch) => (
+                  <option key={branch.id} value={branch.id}>
+                    {branch.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={handleFetch}
+              disabled={loading}
+              className="w-full sm:w-auto bg-purple-600 text-white px-6 py-2 rounded-lg hover:bg-purple-700 transition disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Fetch Report'}
+            </button>
+          </motion.div>
+
+          {data && (
+            <motion.div
+              className="space-y-6"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.25 }}
+            >
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="bg-white p-4 rounded-lg shadow">
+                  <p className="text-sm text-gray-500">Occupancy</p>
+                  <p className="text-2xl font-semibold">{data.totals.occupancy.toFixed(1)}%</p>
+                  <p className="text-xs text-gray-400">{data.countedDays} day(s) counted</p>
+                </div>
+                <div className="bg-white p-4 rounded-lg shadow">
+                  <p className="text-sm text-gray-500">Vacant seat-days</p>
+                  <p className="text-2xl font-semibold text-red-600">{data.totals.vacancyDays}</p>
+                </div>
+                <div className="bg-white p-4 rounded-lg shadow">
+                  <p className="text-sm text-gray-500">Fee earned by seats</p>
+                  <p className="text-2xl font-semibold text-green-600">Rs. {data.totals.revenue.toFixed(2)}</p>
+                </div>
+              </div>
+
+              <div className="bg-white p-6 rounded-lg shadow overflow-x-auto">
+                <h2 className="text-lg font-semibold mb-4 text-gray-800">Occupancy by Shift</h2>
+                {data.shifts.length === 0 ? (
+                  <p className="text-sm text-gray-500">No seats or shifts for this selection.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        {multiBranch && <th className="py-2">Branch</th>}
+                        <th className="py-2">Shift</th>
+                        <th className="py-2 text-right">Seats</th>
+                        <th className="py-2 text-right">Days</th>
+                        <th className="py-2 text-right">Occupied seat-days</th>
+                        <th className="py-2 text-right">Vacant seat-days</th>
+                        <th className="py-2 text-right">Occupancy</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.shifts.map(row => (
+                        <tr key={`${row.branchId}-${row.shiftId}`} className="border-b last:border-0">
+                          {multiBranch && <td className="py-2">{row.branchName}</td>}
+                          <td className="py-2">{row.shiftTitle}</td>
+                          <td className="py-2 text-right">{row.seats}</td>
+                          <td className="py-2 text-right">{row.runDays}</td>
+                          <td className="py-2 text-right">{row.occupiedSeatDays}</td>
+                          <td className="py-2 text-right">{row.vacancyDays}</td>
+                          <td className="py-2 text-right font-semibold">{row.occupancy.toFixed(1)}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {chartData.length > 0 && (
+                <div className="bg-white p-6 rounded-lg shadow">
+                  <h2 className="text-lg font-semibold mb-4 text-gray-800">Daily Occupancy (%)</h2>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="date" />
+                      <YAxis domain={[0, 100]} />
+                      <Tooltip />
+                      <Legend />
+                      {data.shifts.map((row, index) => (
+                        <Line
+                          key={`${row.branchId}-${row.shiftId}`}
+                          type="monotone"
+                          dataKey={lineKey(row)}
+                          stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                          dot={false}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+
+              {data.seats.length > 0 && (
+                <div className="bg-white p-6 rounded-lg shadow overflow-x-auto">
+                  <h2 className="text-lg font-semibold mb-1 text-gray-800">Seat × Shift Heatmap</h2>
+                  <p className="text-xs text-gray-500 mb-4">
+                    Share of the shift's days each seat was held. Revenue is each membership's fee spread over its days.
+                  </p>
+                  <table className="text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        {multiBranch && <th className="py-2 pr-4">Branch</th>}
+                        <th className="py-2 pr-4">Seat</th>
+                        {heatmapShifts.map(([shiftId, title]) => (
+                          <th key={shiftId} className="py-2 px-2 text-center whitespace-nowrap">{title}</th>
+                        ))}
+                        <th className="py-2 pl-4 text-right">Revenue</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.seats.map(seat => (
+                        <tr key={seat.seatId} className="border-b last:border-0">
+                          {multiBranch && <td className="py-1 pr-4">{seat.branchName}</td>}
+                          <td className="py-1 pr-4 font-medium">{seat.seatNumber}</td>
+                          {heatmapShifts.map(([shiftId]) => {
+                            const cell = seat.shifts.find(shift => shift.shiftId === shiftId);
+                            return (
+                              <td key={shiftId} className="p-0.5">
+                                {cell ? (
+                                  <div
+                                    className={`h-7 min-w-[3rem] rounded text-xs flex items-center justify-center ${cell.occupancy > 50 ? 'text-white' : 'text-gray-700'}`}
+                                    style={{ backgroundColor: heatColor(cell.occupancy) }}
+                                    title={`${cell.occupiedDays} of ${cell.runDays} days`}
+                                  >
+                                    {Math.round(cell.occupancy)}%
+                                  </div>
+                                ) : (
+                                  <div className="h-7 min-w-[3rem] rounded bg-gray-100" />
+                                )}
+                              </td>
+                            );
+                          })}
+                          <td className="py-1 pl-4 text-right">Rs. {seat.revenue.toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </motion.div>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+};
+
+export default SeatUtilization;
@@ -1,23 +1,16 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import api from '../services/api';
+import api, { Seat, SeatLayout } from '../services/api';
 import { toast } from 'sonner';
-import { ArrowLeft, Trash2, PlusCircle, Loader2 } from 'lucide-react';
+import { ArrowLeft, Trash2, PlusCircle, Loader2, UserPlus, ExternalLink } from 'lucide-react';
 import Sidebar from '../components/Sidebar';
 import Navbar from '../components/Navbar';
+import SeatMap from '../components/SeatMap';
+import SeatMapDesigner from '../components/SeatMapDesigner';
+import SeatTimeline from '../components/SeatTimeline';
 import { useAuth } from '../context/AuthContext';
 
-interface Seat {
-  id: number;
-  seatNumber: string;
-  branchId?: number;
-  shifts: Array<{
-    shiftId: number;
-    shiftTitle: string;
-    isAssigned: boolean;
-    studentName: string | null;
-  }>;
-}
+type ViewMode = 'list' | 'map' | 'design';
 
 interface Schedule {
   id: number;
@@ -37,6 +30,10 @@ const SeatsPage = () => {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [branches, setBranches] = useState<{ id: number; name: string }[]>([]);
   const [selectedBranchId, setSelectedBranchId] = useState<number | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
+  const [layout, setLayout] = useState<SeatLayout | null>(null);
+  const [mapShiftId, setMapShiftId] = useState<number | null>(null);
+  const [mapSeatId, setMapSeatId] = useState<number | null>(null);
   const navigate = useNavigate();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
 
@@ -129,6 +126,15 @@ const SeatsPage = () => {
     }
   };
 
+  const fetchLayout = useCallback(async (branchId: number) => {
+    try {
+      const response = await api.getSeatLayout(branchId);
+      setLayout(response.layout);
+    } catch (err) {
+      toast.error((err as Error).message || 'Failed to load seat map');
+    }
+  }, []);
+
   useEffect(() => {
     if (isAuthenticated) {
       fetchBranches();
@@ -137,6 +143,25 @@ const SeatsPage = () => {
     }
   }, [selectedBranchId, isAuthenticated]);
 
+  useEffect(() => {
+    setLayout(null);
+    setMapSeatId(null);
+    if (isAuthenticated && selectedBranchId) {
+      fetchLayout(selectedBranchId);
+    }
+  }, [selectedBranchId, isAuthenticated, fetchLayout]);
+
+  const mapSeat = seats.find(seat => seat.id === mapSeatId);
+
+  const startAssignment = (seat: Seat, shiftId: number) => {
+    const params = new URLSearchParams({
+      branchId: String(selectedBranchId),
+      seatId: String(seat.id),
+      shiftId: String(shiftId),
+    });
+    navigate(`/students/add?${params.toString()}`);
+  };
+
   if (authLoading) {
     return (
       <div className="flex min-h-screen justify-center items-center">
@@ -186,7 +211,97 @@ const SeatsPage = () => {
               </select>
             </div>
 
-            {loading ? (
+            <div className="mb-6 flex flex-wrap items-center gap-2">
+              {(['list', 'map', 'design'] as ViewMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setViewMode(mode)}
+                  className={`px-3 py-1.5 rounded-md text-sm border ${viewMode === mode ? 'bg-purple-600 text-white border-purple-600' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {mode === 'list' ? 'List' : mode === 'map' ? 'Seat Map' : 'Design Map'}
+                </button>
+              ))}
+              {viewMode === 'map' && (
+                <select
+                  value={mapShiftId ?? ''}
+                  onChange={(e) => setMapShiftId(e.target.value ? parseInt(e.target.value, 10) : null)}
+                  className="ml-auto border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  aria-label="Shift"
+                >
+                  <option value="">All shifts</option>
+                  {schedules.map((schedule) => (
+                    <option key={schedule.id} value={schedule.id}>{schedule.title}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {viewMode !== 'list' && !selectedBranchId ? (
+              <div className="text-center text-gray-500 py-8">Select a branch to see its seat map.</div>
+            ) : viewMode !== 'list' && (loading || !layout) ? (
+              <div className="flex justify-center items-center py-8">
+                <Loader2 size={24} className="animate-spin text-gray-500" />
+              </div>
+            ) : viewMode === 'design' && layout ? (
+              <div className="bg-white p-4 rounded-lg shadow-sm border mb-6">
+                <SeatMapDesigner
+                  layout={layout}
+                  seats={seats}
+                  onSaved={() => {
+                    fetchLayout(layout.branchId);
+                    fetchSeats();
+                  }}
+                />
+              </div>
+            ) : viewMode === 'map' && layout ? (
+              <div className="bg-white p-4 rounded-lg shadow-sm border mb-6 space-y-4">
+                <SeatMap
+                  layout={layout}
+                  seats={seats}
+                  shiftId={mapShiftId}
+                  selectedSeatId={mapSeatId}
+                  onSeatClick={(seat) => setMapSeatId(seat.id === mapSeatId ? null : seat.id)}
+                />
+                {mapSeat && (
+                  <div className="border-t pt-4">
+                    <h3 className="font-semibold mb-2">
+                      Seat {mapSeat.seatNumber}
+                      {mapSeat.zone && <span className="ml-2 text-xs text-gray-500">{mapSeat.zone === 'ac' ? 'AC' : 'Non-AC'}</span>}
+                      {mapSeat.isWindow && <span className="ml-2 text-xs text-gray-500">Window</span>}
+                    </h3>
+                    <div className="space-y-1">
+                      {schedules
+                        .filter((schedule) => mapShiftId === null || schedule.id === mapShiftId)
+                        .map((schedule) => {
+                          const shift = mapSeat.shifts.find((s) => s.shiftId === schedule.id);
+                          return (
+                            <div key={schedule.id} className="flex items-center justify-between text-sm p-2 rounded-md bg-gray-50">
+                              <span>{schedule.title}</span>
+                              {shift?.isAssigned && shift.studentId ? (
+                                <button
+                                  onClick={() => navigate(`/students/${shift.studentId}`)}
+                                  className="flex items-center gap-1 text-purple-600 hover:underline"
+                                >
+                                  {shift.studentName} <ExternalLink size={12} />
+                                </button>
+                              ) : (
+                                <button
+                                  onClick={() => startAssignment(mapSeat, schedule.id)}
+                                  className="flex items-center gap-1 text-green-700 hover:underline"
+                                >
+                                  <UserPlus size={14} /> Assign
+                                </button>
+                              )}
+                            </div>
+                          );
+                        })}
+                    </div>
+                    <h4 className="font-semibold text-sm mt-4 mb-2">History</h4>
+                    <SeatTimeline seatId={mapSeat.id} />
+                  </div>
+                )}
+              </div>
+            ) : loading ? (
               <div className="flex justify-center items-center py-8">
                 <Loader2 size={24} className="animate-spin text-gray-500 dark:text-gray-400" />
               </div>
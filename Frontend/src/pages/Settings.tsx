@@ -5,10 +5,20 @@ import Sidebar from '../components/Sidebar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { toast } from 'sonner';
-import { User, Trash2 } from 'lucide-react';
+import { User, Trash2, MapPin, ShieldCheck } from 'lucide-react';
 import api from '../services/api';
 import { useAuth } from '../context/AuthContext';
-import { allPermissions } from '../config/permission';
+import { toPermissionOverrides } from '../config/permission';
+import TwoFactorSettings from '../components/TwoFactorSettings';
+import PermissionPicker from '../components/PermissionPicker';
+import RoleManagement from '../components/RoleManagement';
+import WaitlistSettings from '../components/WaitlistSettings';
+import PauseSettings from '../components/PauseSettings';
+import InstallmentSettings from '../components/InstallmentSettings';
+import PromotionSettings from '../components/PromotionSettings';
+import MessagingSettings from '../components/MessagingSettings';
+import MessageTemplates from '../components/MessageTemplates';
+import ReminderRules from '../components/ReminderRules';
 
 // Define interfaces
 interface UserData {
@@ -18,6 +28,11 @@ interface UserData {
   email: string | null;
   role: string;
   permissions: string[];
+  roleId?: number | null;
+  roleName?: string | null;
+  revokedPermissions?: string[];
+  effectivePermissions?: string[];
+  allowedBranchIds?: number[] | null;
 }
 
 interface UserProfile {
@@ -38,12 +53,16 @@ interface NewUserData {
   username: string;
   password: string;
   role: 'admin' | 'staff';
+  roleId: number | null;
+  // Effective permissions as ticked in the form; split into overrides on submit.
   permissions: string[];
+  // Empty means the user may work with every branch.
+  allowedBranchIds: number[];
 }
 
 interface SettingsData {
   brevoTemplateId: string;
-  daysBeforeExpiration: number;
+  requireAdminTwoFactor?: string;
 }
 
 interface FormData {
@@ -58,16 +77,6 @@ const Settings = () => {
   const queryClient = useQueryClient();
   const { user } = useAuth();
 
-  // Group permissions by category for cleaner display
-  const permissionsByCategory = allPermissions.reduce((acc, permission) => {
-    const category = permission.category || 'General';
-    if (!acc[category]) {
-      acc[category] = [];
-    }
-    acc[category].push(permission);
-    return acc;
-  }, {} as Record<string, typeof allPermissions>);
-
   const { data: userProfile, isLoading, error } = useQuery<UserProfile>({
     queryKey: ['userProfile'],
     queryFn: api.getUserProfile,
@@ -79,6 +88,19 @@ const Settings = () => {
     enabled: user?.role === 'admin',
   });
 
+  const { data: rolesData } = useQuery({
+    queryKey: ['roles'],
+    queryFn: api.getRoles,
+    enabled: user?.role === 'admin',
+  });
+  const roles = rolesData?.roles || [];
+
+  const { data: branches = [] } = useQuery({
+    queryKey: ['branches'],
+    queryFn: api.getBranches,
+    enabled: user?.role === 'admin',
+  });
+
   const { data: settings, isLoading: settingsLoading, error: settingsError } = useQuery<SettingsData>({
     queryKey: ['settings'],
     queryFn: api.getSettings,
@@ -90,11 +112,17 @@ const Settings = () => {
   });
 
   const [newUserData, setNewUserData] = useState<NewUserData>({
-    username: '', password: '', role: 'staff', permissions: [],
+    username: '', password: '', role: 'staff', roleId: null, permissions: [], allowedBranchIds: [],
   });
 
+  const [accessEditUserId, setAccessEditUserId] = useState<number | null>(null);
+  const [accessEdit, setAccessEdit] = useState<{ roleId: number | null; permissions: string[] }>({ roleId: null, permissions: [] });
+
+  const [branchEditUserId, setBranchEditUserId] = useState<number | null>(null);
+  const [branchEditIds, setBranchEditIds] = useState<number[]>([]);
+
   const [settingsForm, setSettingsForm] = useState({
-    brevoTemplateId: '', daysBeforeExpiration: '',
+    brevoTemplateId: '',
   });
 
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
@@ -117,7 +145,6 @@ const Settings = () => {
     if (settings) {
       setSettingsForm({
         brevoTemplateId: settings.brevoTemplateId || '',
-        daysBeforeExpiration: settings.daysBeforeExpiration?.toString() || '',
       });
     }
   }, [settings]);
@@ -132,24 +159,14 @@ const Settings = () => {
     setNewUserData((prev) => ({ ...prev, [name]: value }));
   };
 
-  const handlePermissionChange = (permissionId: string) => {
-    setNewUserData(prev => {
-      let newPermissions = [...prev.permissions];
-      if (permissionId === 'manage_library_students') {
-        if (newPermissions.includes(permissionId)) {
-          newPermissions = newPermissions.filter(p => p !== permissionId);
-        } else {
-          newPermissions.push(permissionId);
-        }
-      } else {
-        if (newPermissions.includes(permissionId)) {
-          newPermissions = newPermissions.filter(p => p !== permissionId);
-        } else {
-          newPermissions.push(permissionId);
-        }
-      }
-      return { ...prev, permissions: newPermissions };
-    });
+  const rolePermissionsOf = (roleId: number | null) => roles.find(role => role.id === roleId)?.permissions || [];
+
+  const toggleBranchId = (ids: number[], branchId: number) =>
+    ids.includes(branchId) ? ids.filter(id => id !== branchId) : [...ids, branchId];
+
+  const branchNames = (ids?: number[] | null) => {
+    if (!ids || ids.length === 0) return 'All branches';
+    return ids.map(id => branches.find(branch => branch.id === id)?.name || `#${id}`).join(', ');
   };
 
   const handleSettingsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -177,10 +194,10 @@ const Settings = () => {
   });
 
   const createUserMutation = useMutation({
-    mutationFn: (data: NewUserData) => api.addUser(data),
+    mutationFn: (data: Parameters<typeof api.addUser>[0]) => api.addUser(data),
     onSuccess: () => {
       toast.success('User created successfully!');
-      setNewUserData({ username: '', password: '', role: 'staff', permissions: [] });
+      setNewUserData({ username: '', password: '', role: 'staff', roleId: null, permissions: [], allowedBranchIds: [] });
       queryClient.invalidateQueries({ queryKey: ['allUsers'] });
     },
     onError: (error: any) => toast.error(error.message || 'Failed to create user'),
@@ -195,8 +212,31 @@ const Settings = () => {
     onError: (error: any) => toast.error(error.message || 'Failed to delete user'),
   });
 
+  const accessMutation = useMutation({
+    mutationFn: ({ userId, roleId, permissions }: { userId: number; roleId: number | null; permissions: string[] }) =>
+      api.updateUserPermissions(userId, { roleId, ...toPermissionOverrides(rolePermissionsOf(roleId), permissions) }),
+    onSuccess: () => {
+      toast.success('Access updated. The user will have to log in again.');
+      setAccessEditUserId(null);
+      queryClient.invalidateQueries({ queryKey: ['allUsers'] });
+      queryClient.invalidateQueries({ queryKey: ['roles'] });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to update access'),
+  });
+
+  const branchesMutation = useMutation({
+    mutationFn: ({ userId, branchIds }: { userId: number; branchIds: number[] }) =>
+      api.updateUserBranches(userId, branchIds.length > 0 ? branchIds : null),
+    onSuccess: () => {
+      toast.success('Allowed branches updated. The user will have to log in again.');
+      setBranchEditUserId(null);
+      queryClient.invalidateQueries({ queryKey: ['allUsers'] });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to update branches'),
+  });
+
   const settingsMutation = useMutation({
-    mutationFn: (data: { brevoTemplateId: string; daysBeforeExpiration: number }) => api.updateSettings(data),
+    mutationFn: (data: { brevoTemplateId: string }) => api.updateSettings(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['settings'] });
       toast.success('Settings updated successfully!');
@@ -204,6 +244,18 @@ const Settings = () => {
     onError: (error: any) => toast.error(error.message || 'Failed to update settings'),
   });
 
+  const twoFactorRequirementMutation = useMutation({
+    mutationFn: (required: boolean) => api.updateSettings({ requireAdminTwoFactor: required }),
+    onSuccess: (_, required) => {
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      queryClient.invalidateQueries({ queryKey: ['twoFactorStatus'] });
+      toast.success(required
+        ? 'Two-factor authentication is now required for admins from their next login'
+        : 'Two-factor authentication is now optional for admins');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to update setting'),
+  });
+
   const handleProfileUpdate = (e: React.FormEvent) => {
     e.preventDefault();
     profileMutation.mutate({ fullName: formData.fullName || null, email: formData.email || null });
@@ -228,9 +280,15 @@ const Settings = () => {
       toast.error('Username and password are required');
       return;
     }
+    const overrides = toPermissionOverrides(rolePermissionsOf(newUserData.roleId), newUserData.permissions);
     const dataToSubmit = {
       ...newUserData,
-      permissions: newUserData.role === 'admin' ? [] : newUserData.permissions,
+      roleId: newUserData.role === 'admin' ? null : newUserData.roleId,
+      permissions: newUserData.role === 'admin' ? [] : overrides.permissions,
+      revokedPermissions: newUserData.role === 'admin' ? [] : overrides.revokedPermissions,
+      allowedBranchIds: newUserData.role === 'admin' || newUserData.allowedBranchIds.length === 0
+        ? null
+        : newUserData.allowedBranchIds,
     };
     createUserMutation.mutate(dataToSubmit);
   };
@@ -243,12 +301,7 @@ const Settings = () => {
 
   const handleSettingsUpdate = (e: React.FormEvent) => {
     e.preventDefault();
-    const daysBeforeExpiration = parseInt(settingsForm.daysBeforeExpiration, 10);
-    if (isNaN(daysBeforeExpiration) || daysBeforeExpiration <= 0) {
-      toast.error('Days Before Expiration must be a positive number');
-      return;
-    }
-    settingsMutation.mutate({ brevoTemplateId: settingsForm.brevoTemplateId, daysBeforeExpiration });
+    settingsMutation.mutate({ brevoTemplateId: settingsForm.brevoTemplateId });
   };
 
   if (!user) return <div>Please log in to access settings.</div>;
@@ -309,6 +362,31 @@ const Settings = () => {
 
             {user.role === 'admin' && (
               <div className="space-y-8">
+                <div className="bg-white rounded-lg shadow-sm border p-6">
+                  <h3 className="text-xl font-semibold mb-4">Two-Factor Authentication</h3>
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                    <TwoFactorSettings />
+                    <div>
+                      <h4 className="text-lg font-semibold mb-2">Policy</h4>
+                      <label className="flex items-start gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 mt-0.5 rounded"
+                          checked={settings?.requireAdminTwoFactor === 'true'}
+                          disabled={settingsLoading || twoFactorRequirementMutation.isPending}
+                          onChange={(e) => twoFactorRequirementMutation.mutate(e.target.checked)}
+                        />
+                        <span>
+                          Require two-factor authentication for all admin accounts
+                          <span className="block text-xs text-gray-500">
+                            Admins without 2FA will have to set it up right after their next login.
+                          </span>
+                        </span>
+                      </label>
+                    </div>
+                  </div>
+                </div>
+
                 <div className="bg-white rounded-lg shadow-sm border p-6">
                   <h3 className="text-xl font-semibold mb-4">Email Settings</h3>
                   {settingsLoading ? <div>Loading...</div> : settingsError ? <div>Error...</div> : (
@@ -316,10 +394,9 @@ const Settings = () => {
                       <div>
                         <label htmlFor="brevoTemplateId">Brevo Template ID</label>
                         <Input id="brevoTemplateId" name="brevoTemplateId" value={settingsForm.brevoTemplateId} onChange={handleSettingsChange}/>
-                      </div>
-                      <div>
-                        <label htmlFor="daysBeforeExpiration">Remind Before Expiration (Days)</label>
-                        <Input id="daysBeforeExpiration" name="daysBeforeExpiration" type="number" value={settingsForm.daysBeforeExpiration} onChange={handleSettingsChange}/>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Emailed by expiry reminder rules when there is no in-app email template. When to remind is set under Reminder Rules.
+                        </p>
                       </div>
                       <div className="flex justify-end">
                         <Button type="submit">Save Email Settings</Button>
@@ -328,6 +405,22 @@ const Settings = () => {
                   )}
                 </div>
 
+                <WaitlistSettings />
+
+                <PauseSettings />
+
+                <InstallmentSettings />
+
+                <PromotionSettings />
+
+                <MessagingSettings />
+
+                <MessageTemplates />
+
+                <ReminderRules />
+
+                <RoleManagement />
+
                 <div className="bg-white rounded-lg shadow-sm border p-6">
                   <h3 className="text-xl font-semibold mb-4">User Management</h3>
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -351,42 +444,34 @@ const Settings = () => {
                         </div>
                         {newUserData.role === 'staff' && (
                           <div className="space-y-4">
-                            <label className="font-medium">Permissions</label>
-                            {Object.entries(permissionsByCategory).map(([category, perms]) => (
-                              <div key={category}>
-                                <h5 className="text-sm font-semibold text-gray-600 mb-2">{category}</h5>
-                                <div className="space-y-2 border p-3 rounded-md">
-                                  {perms.map((p) => (
-                                    <div key={p.id}>
-                                      <div className="flex items-center">
-                                        <input
-                                          type="checkbox"
-                                          id={p.id}
-                                          checked={newUserData.permissions.includes(p.id)}
-                                          onChange={() => handlePermissionChange(p.id)}
-                                          className="h-4 w-4 rounded"
-                                        />
-                                        <label htmlFor={p.id} className="ml-2 text-sm">
-                                          {p.label}
-                                        </label>
-                                      </div>
-                                      {/* --- MODIFICATION START --- */}
-                                      {p.id === 'view_collections' && (
-                                        <p className="pl-6 text-xs text-gray-500">
-                                          Allows staff to see student dues and process payments, but not view total collection summaries.
-                                        </p>
-                                      )}
-                                      {/* --- MODIFICATION END --- */}
-                                      {p.id === 'manage_library_students' && (
-                                        <p className="pl-6 text-xs text-gray-500">
-                                          (Includes access to branches, shifts, and lockers)
-                                        </p>
-                                      )}
-                                    </div>
-                                  ))}
-                                </div>
+                            <PermissionPicker
+                              idPrefix="new-user"
+                              roles={roles}
+                              roleId={newUserData.roleId}
+                              permissions={newUserData.permissions}
+                              onChange={(access) => setNewUserData(prev => ({ ...prev, ...access }))}
+                            />
+                            <div>
+                              <h5 className="text-sm font-semibold text-gray-600 mb-2">Branches</h5>
+                              <div className="space-y-2 border p-3 rounded-md">
+                                {branches.map((branch) => (
+                                  <div key={branch.id} className="flex items-center">
+                                    <input
+                                      type="checkbox"
+                                      id={`new-user-branch-${branch.id}`}
+                                      checked={newUserData.allowedBranchIds.includes(branch.id)}
+                                      onChange={() => setNewUserData(prev => ({
+                                        ...prev,
+                                        allowedBranchIds: toggleBranchId(prev.allowedBranchIds, branch.id),
+                                      }))}
+                                      className="h-4 w-4 rounded"
+                                    />
+                                    <label htmlFor={`new-user-branch-${branch.id}`} className="ml-2 text-sm">{branch.name}</label>
+                                  </div>
+                                ))}
+                                <p className="text-xs text-gray-500">Leave all unchecked to give access to every branch.</p>
                               </div>
-                            ))}
+                            </div>
                           </div>
                         )}
                         <div className="flex justify-end">
@@ -399,16 +484,100 @@ const Settings = () => {
                       {usersLoading ? <div>Loading...</div> : usersError ? <div>Error...</div> : (
                         <ul className="space-y-3">
                           {allUsers?.map((u) => (
-                            <li key={u.id} className="flex justify-between items-center p-2 border rounded-md">
-                              <div>
-                                <p className="font-semibold">{u.username} <span className="text-xs font-mono p-1 bg-gray-100 rounded">{u.role}</span></p>
-                                {u.role === 'staff' && u.permissions?.length > 0 &&
-                                  <p className="text-xs text-gray-500 max-w-xs truncate">{u.permissions.join(', ')}</p>
-                                }
+                            <li key={u.id} className="p-2 border rounded-md">
+                              <div className="flex justify-between items-center">
+                                <div>
+                                  <p className="font-semibold">{u.username} <span className="text-xs font-mono p-1 bg-gray-100 rounded">{u.role}</span></p>
+                                  {u.role === 'staff' && u.roleName &&
+                                    <p className="text-xs text-gray-600">Role: {u.roleName}</p>
+                                  }
+                                  {u.role === 'staff' && (u.effectivePermissions?.length ?? 0) > 0 &&
+                                    <p className="text-xs text-gray-500 max-w-xs truncate">{u.effectivePermissions?.join(', ')}</p>
+                                  }
+                                  {u.role === 'staff' &&
+                                    <p className="text-xs text-gray-500 max-w-xs truncate">Branches: {branchNames(u.allowedBranchIds)}</p>
+                                  }
+                                </div>
+                                <div className="flex">
+                                  {u.role === 'staff' && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      title="Role and permissions"
+                                      onClick={() => {
+                                        setAccessEditUserId(accessEditUserId === u.id ? null : u.id);
+                                        setAccessEdit({ roleId: u.roleId ?? null, permissions: u.effectivePermissions || [] });
+                                      }}
+                                    >
+                                      <ShieldCheck className="h-4 w-4 text-gray-600" />
+                                    </Button>
+                                  )}
+                                  {u.role === 'staff' && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      title="Allowed branches"
+                                      onClick={() => {
+                                        setBranchEditUserId(branchEditUserId === u.id ? null : u.id);
+                                        setBranchEditIds(u.allowedBranchIds || []);
+                                      }}
+                                    >
+                                      <MapPin className="h-4 w-4 text-gray-600" />
+                                    </Button>
+                                  )}
+                                  <Button variant="ghost" size="sm" onClick={() => handleDeleteUser(u.id)}>
+                                    <Trash2 className="h-4 w-4 text-red-500" />
+                                  </Button>
+                                </div>
                               </div>
-                              <Button variant="ghost" size="sm" onClick={() => handleDeleteUser(u.id)}>
-                                <Trash2 className="h-4 w-4 text-red-500" />
-                              </Button>
+                              {accessEditUserId === u.id && (
+                                <div className="mt-2 space-y-2 border-t pt-2">
+                                  <PermissionPicker
+                                    idPrefix={`user-${u.id}`}
+                                    roles={roles}
+                                    roleId={accessEdit.roleId}
+                                    permissions={accessEdit.permissions}
+                                    onChange={setAccessEdit}
+                                  />
+                                  <div className="flex justify-end gap-2">
+                                    <Button variant="outline" size="sm" onClick={() => setAccessEditUserId(null)}>Cancel</Button>
+                                    <Button
+                                      size="sm"
+                                      disabled={accessMutation.isPending}
+                                      onClick={() => accessMutation.mutate({ userId: u.id, ...accessEdit })}
+                                    >
+                                      Save Access
+                                    </Button>
+                                  </div>
+                                </div>
+                              )}
+                              {branchEditUserId === u.id && (
+                                <div className="mt-2 space-y-2 border-t pt-2">
+                                  {branches.map((branch) => (
+                                    <div key={branch.id} className="flex items-center">
+                                      <input
+                                        type="checkbox"
+                                        id={`user-${u.id}-branch-${branch.id}`}
+                                        checked={branchEditIds.includes(branch.id)}
+                                        onChange={() => setBranchEditIds(prev => toggleBranchId(prev, branch.id))}
+                                        className="h-4 w-4 rounded"
+                                      />
+                                      <label htmlFor={`user-${u.id}-branch-${branch.id}`} className="ml-2 text-sm">{branch.name}</label>
+                                    </div>
+                                  ))}
+                                  <p className="text-xs text-gray-500">Leave all unchecked to give access to every branch.</p>
+                                  <div className="flex justify-end gap-2">
+                                    <Button variant="outline" size="sm" onClick={() => setBranchEditUserId(null)}>Cancel</Button>
+                                    <Button
+                                      size="sm"
+                                      disabled={branchesMutation.isPending}
+                                      onClick={() => branchesMutation.mutate({ userId: u.id, branchIds: branchEditIds })}
+                                    >
+                                      Save Branches
+                                    </Button>
+                                  </div>
+                                </div>
+                              )}
                             </li>
                           ))}
                         </ul>
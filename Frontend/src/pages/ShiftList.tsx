@@ -6,7 +6,8 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import Navbar from '../components/Navbar';
 import Sidebar from '../components/Sidebar';
 import api from '../services/api';
-import { Clock, Calendar, Users, Loader2 } from 'lucide-react';
+import { Clock, Calendar, Users, Loader2, MapPin } from 'lucide-react';
+import { formatShiftDays, formatShiftRange } from '../config/shifts';
 
 const ShiftList: React.FC = () => {
   const [shifts, setShifts] = useState<any[]>([]);
@@ -95,6 +96,12 @@ const ShiftList: React.FC = () => {
                               Time
                             </div>
                           </TableHead>
+                          <TableHead className="text-gray-700 dark:text-gray-300">
+                            <div className="flex items-center gap-1.5">
+                              <MapPin size={16} />
+                              Branch
+                            </div>
+                          </TableHead>
                           <TableHead className="text-right text-gray-700 dark:text-gray-300">
                             <div className="flex items-center justify-end gap-1.5">
                               <Users size={16} />
@@ -116,7 +123,11 @@ const ShiftList: React.FC = () => {
                               {formatDate(shift.eventDate)}
                             </TableCell>
                             <TableCell className="text-gray-600 dark:text-gray-400">
-                              {(shift.description)} {/* Fixed: Use shift.time instead of description */}
+                              {formatShiftRange(shift.startTime, shift.endTime) || formatTime(shift.time)}
+                              <div className="text-xs text-gray-500 dark:text-gray-400">{formatShiftDays(shift.daysOfWeek)}</div>
+                            </TableCell>
+                            <TableCell className="text-gray-600 dark:text-gray-400">
+                              {shift.branchName || 'All branches'}
                             </TableCell>
                             <TableCell className="text-right">
                               <Link
@@ -125,6 +136,11 @@ const ShiftList: React.FC = () => {
                               >
                                 {shift.studentCount}
                               </Link>
+                              {shift.capacity && (
+                                <span className={Number(shift.studentCount) >= shift.capacity ? 'text-red-600 font-medium' : 'text-gray-500'}>
+                                  {' '}/ {shift.capacity}
+                                </span>
+                              )}
                             </TableCell>
                           </TableRow>
                         ))}
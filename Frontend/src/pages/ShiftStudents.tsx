@@ -12,6 +12,9 @@ import { toast } from 'sonner';
 import Navbar from '../components/Navbar';
 import Sidebar from '../components/Sidebar';
 import api from '../services/api';
+import ExportMenu from '../components/ExportMenu';
+import ShiftWaitlist from '../components/ShiftWaitlist';
+import { ExportColumn } from '../lib/export';
 
 // Interface updated to include registrationNumber
 interface Student {
@@ -43,6 +46,23 @@ interface Student {
   }>;
 }
 
+const formatDate = (dateString: string | undefined): string => {
+  if (!dateString) return '';
+  return new Date(dateString).toISOString().split('T')[0];
+};
+
+const exportColumns: ExportColumn<Student>[] = [
+  { header: 'Name', value: s => s.name },
+  { header: 'Registration Number', value: s => s.registrationNumber || '' },
+  { header: 'Email', value: s => s.email || '' },
+  { header: 'Phone', value: s => s.phone || '' },
+  { header: 'Status', value: s => s.status },
+  { header: 'Membership End', value: s => formatDate(s.membershipEnd) },
+  { header: 'Total Fee', value: s => Number(s.totalFee || 0), total: true },
+  { header: 'Paid', value: s => Number(s.amountPaid || 0), total: true },
+  { header: 'Due', value: s => Number(s.dueAmount || 0), total: true },
+];
+
 const ShiftStudents: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -157,6 +177,18 @@ const ShiftStudents: React.FC = () => {
                       <SelectItem value="expired">Expired</SelectItem>
                     </SelectContent>
                   </Select>
+                  <div className="sm:ml-auto">
+                    <ExportMenu
+                      title={`Students in ${shiftName}`}
+                      fileName="shift-students"
+                      columns={exportColumns}
+                      rows={students}
+                      filters={[
+                        filters.search ? `Search: ${filters.search}` : '',
+                        filters.status !== 'all' ? `Status: ${filters.status}` : '',
+                      ]}
+                    />
+                  </div>
                 </div>
                 {isLoading ? (
                   <div className="text-center py-8 text-gray-500 dark:text-gray-400">Loading students...</div>
@@ -205,6 +237,7 @@ const ShiftStudents: React.FC = () => {
                 )}
               </CardContent>
             </Card>
+            {id && !isNaN(parseInt(id, 10)) && <ShiftWaitlist shiftId={parseInt(id, 10)} />}
           </div>
         </div>
       </div>
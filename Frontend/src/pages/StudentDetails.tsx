@@ -1,12 +1,21 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import Navbar from '../components/Navbar';
 import Sidebar from '../components/Sidebar';
-import api from '../services/api';
+import api, { MembershipPause } from '../services/api';
 import { toast } from 'sonner';
-import { Trash2, ArrowLeft, Edit, Printer } from 'lucide-react';
+import { Trash2, ArrowLeft, Edit, Printer, ArrowRightLeft } from 'lucide-react';
 import ShivLibraryBanner from "./ShivLibraryBanner.png";
 import SignatureDirector from "./SignatureDirector.jpg";
+import ReceiptHistory from '../components/ReceiptHistory';
+import PaymentTimeline from '../components/PaymentTimeline';
+import SeatTimeline from '../components/SeatTimeline';
+import TransferSeatDialog from '../components/TransferSeatDialog';
+import MembershipPauses from '../components/MembershipPauses';
+import InstallmentSchedule from '../components/InstallmentSchedule';
+import ReferralSummary from '../components/ReferralSummary';
+import { useAuth } from '../context/AuthContext';
 
 interface Student {
   id: number;
@@ -43,6 +52,8 @@ interface Student {
     seatNumber: string;
     shiftTitle: string;
   }>;
+  activePause?: MembershipPause | null;
+  campaignOptOut?: boolean;
 }
 
 const formatDate = (isoDate: string | undefined): string => {
@@ -58,6 +69,12 @@ const StudentDetails: React.FC = () => {
   const [student, setStudent] = useState<Student | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const { user } = useAuth();
+  const canViewMessages = !!user && (user.role === 'admin' || user.permissions.includes('manage_messages'));
+  const canSendCampaigns = !!user && (user.role === 'admin' || user.permissions.includes('send_campaigns'));
+  const [transferOpen, setTransferOpen] = useState(false);
+  const queryClient = useQueryClient();
   const printRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -104,7 +121,18 @@ const StudentDetails: React.FC = () => {
     };
 
     fetchStudent();
-  }, [id]);
+  }, [id, reloadKey]);
+
+  const handleCampaignOptOut = async (optOut: boolean) => {
+    if (!student) return;
+    try {
+      const result = await api.setCampaignOptOut(student.id, optOut);
+      setStudent({ ...student, campaignOptOut: result.campaignOptOut });
+      toast.success(result.message);
+    } catch (err) {
+      toast.error((err as Error).message || 'Failed to update campaign opt-out');
+    }
+  };
 
   const handleDelete = async () => {
     if (window.confirm('Are you sure you want to delete this student?')) {
@@ -251,6 +279,9 @@ const StudentDetails: React.FC = () => {
                         <p className={`inline-block px-2 py-1 rounded-full text-xs ${student.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
                           {student.status === 'active' ? 'Active' : 'Expired'}
                         </p>
+                        {student.activePause && (
+                          <p className="inline-block ml-2 px-2 py-1 rounded-full text-xs bg-amber-100 text-amber-800">Paused</p>
+                        )}
                       </div>
                       <div>
                         <h2 className="text-lg font-medium">Membership Start</h2>
@@ -386,6 +417,13 @@ const StudentDetails: React.FC = () => {
                     <Edit size={16} className="mr-2" />
                     Edit
                   </button>
+                  <button
+                    onClick={() => setTransferOpen(true)}
+                    className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+                  >
+                    <ArrowRightLeft size={16} className="mr-2" />
+                    Transfer Seat/Shift
+                  </button>
                   <button
                     onClick={handleDelete}
                     className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
@@ -401,11 +439,74 @@ const StudentDetails: React.FC = () => {
                     Print
                   </button>
                 </div>
+
+                <div className="mt-8 no-print">
+                  <h2 className="text-lg font-medium mb-3">Pauses</h2>
+                  <MembershipPauses
+                    studentId={student.id}
+                    activePause={student.activePause ?? null}
+                    onChange={() => setReloadKey(key => key + 1)}
+                  />
+                </div>
+
+                <div className="mt-8 no-print">
+                  <h2 className="text-lg font-medium mb-3">Seat Timeline</h2>
+                  <SeatTimeline studentId={student.id} />
+                </div>
+
+                <div className="mt-8 no-print">
+                  <h2 className="text-lg font-medium mb-3">Installments</h2>
+                  <InstallmentSchedule key={reloadKey} studentId={student.id} />
+                </div>
+
+                <div className="mt-8 no-print">
+                  <h2 className="text-lg font-medium mb-3">Referrals</h2>
+                  <ReferralSummary studentId={student.id} />
+                </div>
+
+                {(canViewMessages || canSendCampaigns) && (
+                  <div className="mt-8 no-print">
+                    <h2 className="text-lg font-medium mb-3">Messages</h2>
+                    {canViewMessages && (
+                      <Link to={`/messages?studentId=${student.id}`} className="text-sm text-purple-600 hover:underline">
+                        Reminders sent to this student
+                      </Link>
+                    )}
+                    <label className="flex items-center gap-2 text-sm mt-2">
+                      <input
+                        type="checkbox"
+                        checked={!!student.campaignOptOut}
+                        onChange={(e) => handleCampaignOptOut(e.target.checked)}
+                      />
+                      Opted out of campaigns (reminders and receipts are still sent)
+                    </label>
+                  </div>
+                )}
+
+                <div className="mt-8 no-print">
+                  <h2 className="text-lg font-medium mb-3">Payment Timeline</h2>
+                  <PaymentTimeline key={reloadKey} studentId={student.id} onChange={() => setReloadKey(key => key + 1)} />
+                </div>
+
+                <div className="mt-8 no-print">
+                  <h2 className="text-lg font-medium mb-3">Fee Receipts</h2>
+                  <ReceiptHistory key={reloadKey} studentId={student.id} />
+                </div>
               </div>
             </div>
           </div>
         </div>
       </div>
+
+      <TransferSeatDialog
+        open={transferOpen}
+        onOpenChange={setTransferOpen}
+        student={student}
+        onTransferred={() => {
+          setReloadKey(key => key + 1);
+          queryClient.invalidateQueries({ queryKey: ['seatHistory'] });
+        }}
+      />
     </>
   );
 };
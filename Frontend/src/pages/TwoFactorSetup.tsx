@@ -0,0 +1,50 @@
+import { Navigate, useNavigate } from 'react-router-dom';
+import { ShieldCheck } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import TwoFactorSettings from '../components/TwoFactorSettings';
+
+// Shown after login when 2FA is required for admins and this account has not
+// enrolled yet. Every other page stays blocked until enrollment is finished.
+const TwoFactorSetup = () => {
+  const { user, isLoading, refreshUser, logout } = useAuth();
+  const navigate = useNavigate();
+
+  if (isLoading) return <div>Loading...</div>;
+  if (!user) return <Navigate to="/login" />;
+
+  const handleEnabled = async () => {
+    await refreshUser();
+    navigate('/');
+  };
+
+  return (
+    <div
+      className="min-h-screen bg-cover bg-center flex items-center justify-center p-4"
+      style={{ backgroundImage: `url('/login-bg.jpg')` }}
+    >
+      <div className="bg-white bg-opacity-95 rounded-xl shadow-lg overflow-hidden w-full max-w-md">
+        <div className="p-8">
+          <div className="text-center mb-8">
+            <div className="inline-flex h-12 w-12 items-center justify-center rounded-full bg-gradient-radial from-purple-300 to-orange-200 mb-4">
+              <ShieldCheck className="h-6 w-6 text-purple-800" />
+            </div>
+            <h1 className="text-2xl font-bold">Set Up Two-Factor Authentication</h1>
+            <p className="text-gray-500 mt-2">Two-factor authentication is required for admin accounts.</p>
+          </div>
+
+          <TwoFactorSettings onEnabled={handleEnabled} />
+
+          <button
+            type="button"
+            onClick={async () => { await logout(); navigate('/login'); }}
+            className="w-full mt-6 text-sm text-gray-600 hover:text-gray-800"
+          >
+            Log out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSetup;
@@ -4,6 +4,10 @@ interface NewUserData {
   username: string;
   password: string;
   role: 'admin' | 'staff';
+  permissions?: string[];
+  roleId?: number | null;
+  revokedPermissions?: string[];
+  allowedBranchIds?: number[] | null;
 }
 
 interface Branch {
@@ -70,6 +74,24 @@ interface Student {
     seatNumber: string;
     shiftTitle: string;
   }>;
+  activePause?: MembershipPause | null;
+}
+
+export type PauseSeatAction = 'hold' | 'release';
+
+// A freeze of a membership; resumedOn is null while the student is paused.
+export interface MembershipPause {
+  id: number;
+  studentId: number;
+  pausedOn: string;
+  expectedResumeOn: string | null;
+  resumedOn: string | null;
+  daysPaused: number | null;
+  seatAction: PauseSeatAction;
+  previousMembershipEnd: string | null;
+  reason: string | null;
+  createdByName?: string | null;
+  resumedByName?: string | null;
 }
 
 interface Collection {
@@ -85,27 +107,330 @@ interface Collection {
   securityMoney: number;
   remark: string | null;
   createdAt: string | null;
+  receiptCount?: number;
+  installmentCount?: number;
+  // Unpaid part of installments past their due date.
+  overdueAmount?: number;
+  nextDueDate?: string | null;
+}
+
+export type InstallmentStatus = 'pending' | 'partial' | 'paid';
+
+export interface InstallmentInput {
+  dueDate: string;
+  amount: number;
+}
+
+export interface FeeInstallment {
+  id: number;
+  historyId: number;
+  installmentNo: number;
+  dueDate: string;
+  amount: number;
+  paidAmount: number;
+  remaining: number;
+  status: InstallmentStatus;
+  isOverdue: boolean;
+  lastRemindedOn: string | null;
+  membershipStart: string;
+  membershipEnd: string;
+}
+
+export interface DueInstallment {
+  id: number;
+  historyId: number;
+  studentId: number;
+  name: string;
+  phone: string | null;
+  branchName: string | null;
+  installmentNo: number;
+  dueDate: string;
+  amount: number;
+  paidAmount: number;
+  remaining: number;
+  status: InstallmentStatus;
+  daysOverdue: number;
+  lastRemindedOn: string | null;
+}
+
+export interface FeePlan {
+  id: number;
+  // null = every branch
+  branchId: number | null;
+  branchName: string | null;
+  name: string;
+  shiftIds: number[];
+  shiftTitles: string[];
+  durationMonths: number;
+  fee: string | number;
+  lockerFee: string | number;
+  securityDeposit: string | number;
+  isActive: boolean;
+}
+
+export interface FeePlanInput {
+  branchId: number | null;
+  name: string;
+  shiftIds: number[];
+  durationMonths: number;
+  fee: number;
+  lockerFee: number;
+  securityDeposit: number;
+  isActive: boolean;
+}
+
+export type FeeDiscountType = 'percent' | 'flat';
+
+export interface FeeOffer {
+  id: number;
+  branchId: number | null;
+  branchName: string | null;
+  name: string;
+  discountType: FeeDiscountType;
+  discountValue: string | number;
+  validFrom: string;
+  validTo: string;
+  minMonths: number;
+  isActive: boolean;
+}
+
+export interface FeeOfferInput {
+  branchId: number | null;
+  name: string;
+  discountType: FeeDiscountType;
+  discountValue: number;
+  validFrom: string;
+  validTo: string;
+  minMonths: number;
+  isActive: boolean;
+}
+
+export interface FeeQuote {
+  feePlanId: number | null;
+  planName: string | null;
+  durationMonths: number;
+  baseFee: number;
+  lockerFee: number;
+  totalFee: number;
+  discount: number;
+  feeOfferId: number | null;
+  offerName: string | null;
+  offerDiscount: number;
+  // Included in discount; null when promotionError says why one can't be used.
+  promotions: FeePromotions | null;
+  promotionError: string | null;
+  securityDeposit: number;
+  membershipStart: string;
+  membershipEnd: string;
+}
+
+export interface FeePromotions {
+  couponId: number | null;
+  couponCode: string | null;
+  couponDiscount: number;
+  referrerId: number | null;
+  referrerName: string | null;
+  referralCreditIds: number[];
+  referralDiscount: number;
+  siblingStudentId: number | null;
+  siblingName: string | null;
+  siblingDiscount: number;
+  total: number;
+}
+
+export interface FeeQuoteQuery {
+  branchId: number;
+  shiftIds: number[];
+  months: number;
+  startDate: string;
+  withLocker: boolean;
+  // Renewing student, for their referral credits.
+  studentId?: number;
+  couponCode?: string;
+  referrerPhone?: string;
+  siblingPhone?: string;
+}
+
+export interface Coupon {
+  id: number;
+  code: string;
+  description: string | null;
+  branchId: number | null;
+  branchName: string | null;
+  discountType: FeeDiscountType;
+  discountValue: string | number;
+  validFrom: string;
+  validTo: string;
+  maxUses: number | null;
+  isActive: boolean;
+  timesUsed: number;
+  totalDiscount: number;
+}
+
+export interface CouponInput {
+  code: string;
+  description: string;
+  branchId: number | null;
+  discountType: FeeDiscountType;
+  discountValue: number;
+  validFrom: string;
+  validTo: string;
+  maxUses: number | null;
+  isActive: boolean;
+}
+
+export interface ReferralCredit {
+  id: number;
+  referredStudentId: number | null;
+  referredStudentName: string | null;
+  amount: number;
+  status: 'available' | 'used';
+  createdAt: string;
+  usedAt: string | null;
+  usedOnMembershipStart: string | null;
+}
+
+export interface StudentReferrals {
+  referrer: { id: number; name: string; phone: string } | null;
+  credits: ReferralCredit[];
 }
 
-interface Seat {
+export type SeatZone = 'ac' | 'non_ac';
+
+export interface Seat {
   id: number;
   seatNumber: string;
   branchId?: number;
+  // Position on the branch floor plan (0-based); null when not placed yet.
+  rowIndex?: number | null;
+  colIndex?: number | null;
+  zone?: SeatZone | null;
+  isWindow?: boolean;
   shifts: Array<{
     shiftId: number;
     shiftTitle: string;
     isAssigned: boolean;
+    studentId?: number | null;
     studentName: string | null;
   }>;
 }
 
-interface Schedule {
+export interface SeatLayout {
+  branchId: number;
+  rows: number;
+  cols: number;
+}
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'admitted' | 'expired' | 'cancelled';
+
+export interface WaitlistEntry {
+  id: number;
+  branchId: number;
+  branchName: string | null;
+  name: string;
+  phone: string;
+  email: string | null;
+  shiftIds: number[];
+  shiftTitles: string[];
+  notes: string | null;
+  status: WaitlistStatus;
+  offeredSeatId: number | null;
+  offeredSeatNumber: string | null;
+  offeredAt: string | null;
+  offerExpiresAt: string | null;
+  createdAt: string;
+}
+
+export interface NewWaitlistEntry {
+  branchId: number;
+  name: string;
+  phone: string;
+  email?: string;
+  shiftIds: number[];
+  notes?: string;
+}
+
+export interface SeatSuggestion {
+  seatId: number;
+  seatNumber: string;
+  zone: SeatZone | null;
+  isWindow: boolean;
+  // Steps from the requested neighbour seat on the floor plan, when both are placed.
+  distance: number | null;
+  reasons: string[];
+}
+
+export interface SeatSuggestionQuery {
+  branchId: number;
+  shiftIds: number[];
+  zone?: SeatZone | null;
+  nearSeatId?: number | null;
+}
+
+export interface SeatPlacement {
+  id: number;
+  rowIndex: number;
+  colIndex: number;
+  zone: SeatZone | null;
+  isWindow: boolean;
+}
+
+export interface Schedule {
   id: number;
   title: string;
   description?: string | null;
   time: string;
   eventDate: string;
   fee: number; // <-- Add this line
+  // Time range ("HH:MM:SS"); an end before the start runs past midnight.
+  startTime?: string | null;
+  endTime?: string | null;
+  // 0 = Sunday ... 6 = Saturday; null means every day.
+  daysOfWeek?: number[] | null;
+  // null means the shift is offered in every branch.
+  branchId?: number | null;
+  capacity?: number | null;
+}
+
+export interface ScheduleTiming {
+  startTime?: string | null;
+  endTime?: string | null;
+  daysOfWeek?: number[] | null;
+  branchId?: number | null;
+  capacity?: number | null;
+}
+
+export interface ShiftUtilization {
+  branchId: number;
+  branchName: string;
+  shiftId: number;
+  shiftTitle: string;
+  // Sellable seats in the shift: the branch's seats, or the shift capacity if lower.
+  seats: number;
+  runDays: number;
+  occupiedSeatDays: number;
+  availableSeatDays: number;
+  vacancyDays: number;
+  occupancy: number;
+  daily: Array<{ date: string; seats: number; occupancy: number }>;
+}
+
+export interface SeatUtilization {
+  seatId: number;
+  seatNumber: string;
+  branchId: number;
+  branchName: string;
+  revenue: number;
+  memberships: number;
+  shifts: Array<{ shiftId: number; occupiedDays: number; runDays: number; occupancy: number }>;
+}
+
+export interface SeatUtilizationReport {
+  month: string;
+  countedDays: number;
+  shifts: ShiftUtilization[];
+  seats: SeatUtilization[];
+  totals: { occupancy: number; vacancyDays: number; revenue: number };
 }
 
 interface DashboardStats {
@@ -122,6 +447,385 @@ interface CollectionStats {
     totalOnline: number;
 }
 
+export interface StudentImportRow {
+  rowNumber: number;
+  name: string;
+  phone: string;
+  email?: string;
+  address?: string;
+  registrationNumber?: string;
+  fatherName?: string;
+  aadharNumber?: string;
+  branch?: string;
+  branchId?: number;
+  membershipStart: string;
+  membershipEnd: string;
+  totalFee?: number;
+  discount?: number;
+  cash?: number;
+  online?: number;
+  securityMoney?: number;
+  seatNumber?: string;
+  shifts?: string;
+  lockerNumber?: string;
+  remark?: string;
+  preparingFor?: string;
+  durationMonths?: number;
+  feeOverrideReason?: string;
+}
+
+export interface StudentImportResult {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  rows: Array<{
+    rowNumber: number;
+    name: string;
+    phone: string;
+    status: 'valid' | 'error';
+    message?: string;
+    studentId?: number | null;
+  }>;
+}
+
+export interface Receipt {
+  id: number;
+  receiptNumber: string;
+  branchId: number | null;
+  branchName?: string | null;
+  studentId: number;
+  historyId: number | null;
+  studentName: string;
+  phone: string | null;
+  registrationNumber?: string | null;
+  membershipStart: string | null;
+  membershipEnd: string | null;
+  shiftTitles?: string | null;
+  seatNumber?: string | null;
+  totalFee: number;
+  discount: number;
+  cash: number;
+  online: number;
+  amount: number;
+  securityMoney: number;
+  dueAmount: number;
+  issuedBy?: number | null;
+  issuedByName?: string | null;
+  issuedAt: string;
+  voidedAt?: string | null;
+  voidReason?: string | null;
+  replacedBy?: number | null;
+  replacedByNumber?: string | null;
+  printCount: number;
+  lastPrintedAt?: string | null;
+  prints?: Array<{
+    id: number;
+    printedAt: string;
+    printedByName?: string | null;
+  }>;
+}
+
+export interface StudentPayment {
+  id: number;
+  historyId: number | null;
+  amount: number;
+  type: string;
+  method: 'cash' | 'online' | null;
+  reference?: string | null;
+  note?: string | null;
+  reversalOf?: number | null;
+  reason?: string | null;
+  reversed?: boolean;
+  date: string;
+  createdAt: string;
+  collectedByName?: string | null;
+  membershipStart?: string | null;
+  membershipEnd?: string | null;
+}
+
+// One seat + shift a student held; endedOn is null while it is current.
+export interface SeatPeriod {
+  id: number;
+  studentId: number;
+  studentName?: string;
+  seatId: number | null;
+  seatNumber: string | null;
+  shiftId: number | null;
+  shiftTitle: string | null;
+  branchId: number | null;
+  branchName?: string | null;
+  startedOn: string;
+  endedOn: string | null;
+  startReason: string | null;
+  endReason: string | null;
+  note?: string | null;
+  createdByName?: string | null;
+}
+
+export interface SeatTransfer {
+  seatId: number | null;
+  shiftIds: number[];
+  feeDifference?: number;
+  amountCollected?: number;
+  method?: 'cash' | 'online';
+  reference?: string;
+  note?: string;
+  feeOverrideReason?: string;
+  installments?: InstallmentInput[];
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export interface Role {
+  id: number;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  userCount: number;
+}
+
+// Role plus per-user overrides: `permissions` are granted on top of the role,
+// `revokedPermissions` are taken away from it.
+export interface UserAccess {
+  roleId: number | null;
+  permissions: string[];
+  revokedPermissions: string[];
+}
+
+export interface AuditLog {
+  id: number;
+  userId: number | null;
+  username: string | null;
+  action: string;
+  entityType: string;
+  entityId: number | null;
+  branchId: number | null;
+  branchName: string | null;
+  beforeData: Record<string, unknown> | null;
+  afterData: Record<string, unknown> | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  userId?: number;
+  entityType?: string;
+  entityId?: number;
+  branchId?: number;
+  fromDate?: string;
+  toDate?: string;
+  page?: number;
+  limit?: number;
+}
+
+export type MessageChannel = 'whatsapp' | 'email' | 'sms';
+export type MessageStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface OutboxMessage {
+  id: number;
+  channel: MessageChannel;
+  recipient: string;
+  template: string;
+  payload: { parameters?: string[]; params?: Record<string, unknown>; subject?: string; text?: string; textOnly?: boolean };
+  kind: string;
+  status: MessageStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  provider: string | null;
+  providerMessageId: string | null;
+  resendOf: number | null;
+  createdAt: string;
+  sentAt: string | null;
+  studentId: number | null;
+  studentName: string | null;
+  branchId: number | null;
+  branchName: string | null;
+  createdByName: string | null;
+}
+
+export interface MessageTemplate {
+  id: number;
+  event: string;
+  channel: MessageChannel;
+  branchId: number | null;
+  branchName: string | null;
+  subject: string | null;
+  body: string;
+  providerTemplate: string | null;
+  isActive: boolean;
+  updatedAt: string;
+}
+
+export interface MessageTemplateInput {
+  event: string;
+  channel: MessageChannel;
+  branchId: number | null;
+  subject: string;
+  body: string;
+  providerTemplate: string;
+  isActive: boolean;
+}
+
+export interface MessageTemplateOption {
+  key: string;
+  label: string;
+}
+
+export interface MessageTemplatePreview {
+  subject: string;
+  text: string;
+  parameters: string[];
+  unknownPlaceholders: string[];
+  student: { id: number; name: string; phone: string | null; email: string | null };
+}
+
+export type ReminderTrigger = 'before_expiry' | 'expiry_day' | 'after_expiry' | 'due_amount' | 'hostel_stay_ending';
+
+export interface ReminderRule {
+  id: number;
+  name: string;
+  trigger: ReminderTrigger;
+  days: number;
+  event: string;
+  channels: MessageChannel[];
+  // null means every branch; hostel branches for hostel_stay_ending.
+  branchIds: number[] | null;
+  sendFromHour: number;
+  sendToHour: number;
+  isActive: boolean;
+  timesFired: number;
+  firedLast30Days: number;
+  lastFiredAt: string | null;
+}
+
+export interface ReminderRuleInput {
+  name: string;
+  trigger: ReminderTrigger;
+  days: number;
+  event: string;
+  channels: MessageChannel[];
+  branchIds: number[];
+  sendFromHour: number;
+  sendToHour: number;
+  isActive: boolean;
+}
+
+export interface ReminderTriggerOption {
+  key: ReminderTrigger;
+  label: string;
+  usesDays: boolean;
+}
+
+export interface ReminderRuleRun {
+  id: number;
+  ruleId: number;
+  ruleName: string;
+  studentId: number | null;
+  hostelStudentId: number | null;
+  studentName: string | null;
+  occurrence: string;
+  queued: number;
+  firedAt: string;
+}
+
+export type CampaignMembership = 'active' | 'expiring' | 'expired';
+
+export interface CampaignFilters {
+  branchId: number | null;
+  membership: CampaignMembership | null;
+  // Expiring within / expired in the last this many days.
+  days: number | null;
+  preparingFor: string | null;
+  dueOnly: boolean;
+}
+
+export interface CampaignInput extends CampaignFilters {
+  name: string;
+  channel: MessageChannel;
+  subject: string;
+  body: string;
+  providerTemplate: string;
+  perMinute: number;
+}
+
+export interface CampaignAudience {
+  matched: number;
+  optedOut: number;
+  noContact: number;
+  recipients: number;
+}
+
+export interface CampaignPreview extends CampaignAudience {
+  sample: { studentName: string; subject: string; text: string } | null;
+}
+
+export interface Campaign {
+  id: number;
+  name: string;
+  channel: MessageChannel;
+  subject: string | null;
+  body: string;
+  providerTemplate: string | null;
+  branchId: number | null;
+  branchName: string | null;
+  filters: Omit<CampaignFilters, 'branchId'>;
+  perMinute: number;
+  status: 'queued' | 'cancelled';
+  createdByName: string | null;
+  createdAt: string;
+  cancelledAt: string | null;
+  matched: number;
+  skipped: number;
+  pending: number;
+  sent: number;
+  failed: number;
+}
+
+export interface CampaignRecipient {
+  id: number;
+  studentId: number | null;
+  studentName: string | null;
+  phone: string | null;
+  email: string | null;
+  skipReason: 'opted_out' | 'no_contact' | null;
+  messageId: number | null;
+  recipient: string | null;
+  status: MessageStatus | null;
+  attempts: number | null;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  sentAt: string | null;
+}
+
+export interface MessagingProviderOption {
+  name: string;
+  label: string;
+}
+
+export interface MessageFilters {
+  studentId?: number;
+  branchId?: number;
+  status?: MessageStatus;
+  channel?: MessageChannel;
+  kind?: string;
+  page?: number;
+  limit?: number;
+}
+
 const API_URL = window.cordova
   ? 'https://shivlibrary-7kkn.onrender.com/api'
   : process.env.NODE_ENV === 'production'
@@ -211,10 +915,13 @@ const api = {
   login: async ({ username, password }: { username: string; password: string }) => {
     try {
       const response = await apiClient.post('/auth/login', { username, password });
-      const { message, user } = response.data;
+      const { message, user, twoFactorRequired } = response.data;
+      if (twoFactorRequired) {
+        return { user: null, twoFactorRequired: true };
+      }
       if (message === 'Login successful' && user) {
         console.log('Login successful, user:', user);
-        return user;
+        return { user, twoFactorRequired: false };
       } else {
         throw new Error(message || 'Login failed: Invalid response from server');
       }
@@ -249,6 +956,43 @@ const api = {
     }
   },
 
+  // Second login step. Pass either the authenticator code or a recovery code.
+  verifyTwoFactor: async (data: { totpCode?: string; recoveryCode?: string }) => {
+    const response = await apiClient.post('/auth/2fa/verify', data);
+    return response.data;
+  },
+
+  getTwoFactorStatus: async (): Promise<TwoFactorStatus> => {
+    const response = await apiClient.get('/auth/2fa/status');
+    return response.data;
+  },
+
+  setupTwoFactor: async (): Promise<TwoFactorEnrollment> => {
+    const response = await apiClient.post('/auth/2fa/setup');
+    return response.data;
+  },
+
+  enableTwoFactor: async (code: string): Promise<{ message: string; recoveryCodes: string[] }> => {
+    const response = await apiClient.post('/auth/2fa/enable', { totpCode: code });
+    return response.data;
+  },
+
+  regenerateRecoveryCodes: async (code: string): Promise<{ message: string; recoveryCodes: string[] }> => {
+    const response = await apiClient.post('/auth/2fa/recovery-codes', { totpCode: code });
+    return response.data;
+  },
+
+  disableTwoFactor: async (password: string) => {
+    const response = await apiClient.post('/auth/2fa/disable', { password });
+    return response.data;
+  },
+
+  // Used for the forced password change after login; works while other routes are blocked.
+  changePassword: async (data: { currentPassword: string; newPassword: string }) => {
+    const response = await apiClient.post('/auth/change-password', data);
+    return response.data.user;
+  },
+
   getPublicBranches: async (): Promise<Branch[]> => {
     try {
       const response = await apiClient.get('/branches/public');
@@ -464,6 +1208,11 @@ const api = {
     return response.data;
   },
 
+  setCampaignOptOut: async (id: number, campaignOptOut: boolean): Promise<{ campaignOptOut: boolean; message: string }> => {
+    const response = await apiClient.put(`/students/${id}/campaign-opt-out`, { campaignOptOut });
+    return response.data;
+  },
+
   getStudents: async (fromDate?: string, toDate?: string, branchId?: number): Promise<{ students: Student[] }> => {
     const params: any = { fromDate, toDate };
     if (branchId) params.branchId = branchId;
@@ -471,6 +1220,65 @@ const api = {
     return response.data;
   },
 
+  getStudentPayments: async (id: number): Promise<{ payments: StudentPayment[] }> => {
+    const response = await apiClient.get(`/students/${id}/payments`);
+    return response.data;
+  },
+
+  reverseStudentPayment: async (studentId: number, paymentId: number, reason: string): Promise<{ message: string; reversal: StudentPayment; receipt: Receipt | null }> => {
+    const response = await apiClient.post(`/students/${studentId}/payments/${paymentId}/reverse`, { reason });
+    return response.data;
+  },
+
+  refundStudent: async (
+    studentId: number,
+    refund: { kind: 'fee' | 'security'; amount: number; method: 'cash' | 'online'; reason: string; reference?: string; historyId?: number }
+  ): Promise<{ message: string; refund: StudentPayment }> => {
+    const response = await apiClient.post(`/students/${studentId}/refunds`, refund);
+    return response.data;
+  },
+
+  getStudentSeatHistory: async (id: number): Promise<{ history: SeatPeriod[] }> => {
+    const response = await apiClient.get(`/students/${id}/seat-history`);
+    return response.data;
+  },
+
+  transferStudent: async (id: number, transfer: SeatTransfer): Promise<{ message: string; receipt: Receipt | null }> => {
+    const response = await apiClient.post(`/students/${id}/transfer`, transfer);
+    return response.data;
+  },
+
+  getStudentInstallments: async (id: number): Promise<{ installments: FeeInstallment[] }> => {
+    const response = await apiClient.get(`/students/${id}/installments`);
+    return response.data;
+  },
+
+  getStudentReferrals: async (id: number): Promise<StudentReferrals> => {
+    const response = await apiClient.get(`/students/${id}/referrals`);
+    return response.data;
+  },
+
+  getStudentPauses: async (id: number): Promise<{ pauses: MembershipPause[] }> => {
+    const response = await apiClient.get(`/students/${id}/pauses`);
+    return response.data;
+  },
+
+  pauseStudent: async (
+    id: number,
+    pause: { pausedOn?: string; expectedResumeOn?: string; seatAction?: PauseSeatAction; reason?: string }
+  ): Promise<{ message: string; pause: MembershipPause }> => {
+    const response = await apiClient.post(`/students/${id}/pause`, pause);
+    return response.data;
+  },
+
+  resumeStudent: async (
+    id: number,
+    resumedOn?: string
+  ): Promise<{ message: string; pause: MembershipPause; membershipEnd: string; seatRestored: boolean | null }> => {
+    const response = await apiClient.post(`/students/${id}/resume`, { resumedOn });
+    return response.data;
+  },
+
   getStudent: async (id: number): Promise<Student> => {
     const response = await apiClient.get(`/students/${id}`);
     return response.data;
@@ -532,9 +1340,21 @@ const api = {
     online?: number;
     securityMoney?: number;
     remark?: string | null;
+    dateOfBirth?: string | null;
     profileImageUrl?: string | null;
     aadhaarFrontUrl?: string | null;
     aadhaarBackUrl?: string | null;
+    // Admits a waitlist entry, using the seat held for it.
+    waitlistId?: number;
+    // Prices the membership from the fee plan; a different fee needs feeOverrideReason.
+    durationMonths?: number;
+    feeOverrideReason?: string;
+    // Splits the fee after discount into dated installments.
+    installments?: InstallmentInput[];
+    // Promotions, priced into the quoted discount.
+    couponCode?: string;
+    referrerPhone?: string;
+    siblingPhone?: string;
   }): Promise<{ student: Student }> => {
     try {
       const normalizedData = {
@@ -583,15 +1403,22 @@ const api = {
       online: number;
       securityMoney: number;
       remark: string;
+      dateOfBirth?: string | null;
       profileImageUrl: string;
       aadhaarFrontUrl?: string | null;
       aadhaarBackUrl?: string | null;
+      feeOverrideReason?: string;
     }
   ): Promise<{ student: Student }> => {
     const response = await apiClient.put(`/students/${id}`, studentData);
     return response.data;
   },
 
+  importStudents: async (payload: { rows: StudentImportRow[]; dryRun: boolean }): Promise<StudentImportResult> => {
+    const response = await apiClient.post('/students/import', payload);
+    return response.data;
+  },
+
   deleteStudent: async (id: number): Promise<{ message: string; student: Student }> => {
     const response = await apiClient.delete(`/students/${id}`);
     return response.data;
@@ -619,6 +1446,11 @@ const api = {
       securityMoney?: number;
       remark?: string;
       discount?: number;
+      durationMonths?: number;
+      feeOverrideReason?: string;
+      installments?: InstallmentInput[];
+      couponCode?: string;
+      siblingPhone?: string;
     }
   ): Promise<{ message: string; student: Student }> => {
     const response = await apiClient.post(`/students/${id}/renew`, membershipData);
@@ -630,8 +1462,8 @@ const api = {
     return response.data;
   },
 
-  getSchedules: async (): Promise<{ schedules: Schedule[] }> => {
-    const response = await apiClient.get('/schedules');
+  getSchedules: async (params?: { branchId?: number }): Promise<{ schedules: Schedule[] }> => {
+    const response = await apiClient.get('/schedules', { params });
     // Ensure the response is wrapped in { schedules: ... } if it's a flat array
     const data = Array.isArray(response.data) ? { schedules: response.data } : response.data;
     return data;
@@ -658,12 +1490,12 @@ const api = {
     eventDate: string; 
     description?: string;
     fee?: number; // <-- Add this line
-  }): Promise<Schedule> => {
+  } & ScheduleTiming): Promise<Schedule> => {
     const response = await apiClient.post('/schedules', scheduleData);
     return response.data;
   },
 
-  updateSchedule: async (id: number, scheduleData: { title?: string; time?: string; eventDate?: string; description?: string; fee?: number }): Promise<Schedule> => {
+  updateSchedule: async (id: number, scheduleData: { title?: string; time?: string; eventDate?: string; description?: string; fee?: number } & ScheduleTiming): Promise<Schedule> => {
     const response = await apiClient.put(`/schedules/${id}`, scheduleData);
     return response.data;
   },
@@ -703,6 +1535,37 @@ const api = {
     }
   },
 
+  updateUserPermissions: async (userId: number, access: UserAccess) => {
+    const response = await apiClient.put(`/users/${userId}/permissions`, access);
+    return response.data;
+  },
+
+  getRoles: async (): Promise<{ roles: Role[] }> => {
+    const response = await apiClient.get('/roles');
+    return response.data;
+  },
+
+  createRole: async (role: { name: string; description?: string; permissions: string[] }): Promise<{ role: Role }> => {
+    const response = await apiClient.post('/roles', role);
+    return response.data;
+  },
+
+  updateRole: async (id: number, role: { name: string; description?: string; permissions: string[] }): Promise<{ role: Role }> => {
+    const response = await apiClient.put(`/roles/${id}`, role);
+    return response.data;
+  },
+
+  deleteRole: async (id: number) => {
+    const response = await apiClient.delete(`/roles/${id}`);
+    return response.data;
+  },
+
+  // null gives the user access to every branch again.
+  updateUserBranches: async (userId: number, allowedBranchIds: number[] | null) => {
+    const response = await apiClient.put(`/users/${userId}/branches`, { allowedBranchIds });
+    return response.data;
+  },
+
   getAllUsers: async () => {
     try {
       const response = await apiClient.get('/users');
@@ -748,6 +1611,110 @@ const api = {
     return response.data;
   },
 
+  getSeatLayout: async (branchId: number): Promise<{ layout: SeatLayout }> => {
+    const response = await apiClient.get('/seats/layout', { params: { branchId } });
+    return response.data;
+  },
+
+  saveSeatLayout: async (data: SeatLayout & { seats: SeatPlacement[] }): Promise<{ message: string; layout: SeatLayout }> => {
+    const response = await apiClient.put('/seats/layout', data);
+    return response.data;
+  },
+
+  getSeatSuggestions: async (query: SeatSuggestionQuery): Promise<{ suggestions: SeatSuggestion[]; totalFree: number }> => {
+    const response = await apiClient.get('/seats/suggestions', {
+      params: {
+        branchId: query.branchId,
+        shiftIds: query.shiftIds.join(','),
+        zone: query.zone || undefined,
+        nearSeatId: query.nearSeatId || undefined,
+      },
+    });
+    return response.data;
+  },
+
+  getWaitlist: async (params: { branchId?: number; shiftId?: number; status?: WaitlistStatus | 'all' } = {}): Promise<{ waitlist: WaitlistEntry[] }> => {
+    const response = await apiClient.get('/waitlist', { params });
+    return response.data;
+  },
+
+  addToWaitlist: async (entry: NewWaitlistEntry): Promise<{ entry: WaitlistEntry }> => {
+    const response = await apiClient.post('/waitlist', entry);
+    return response.data;
+  },
+
+  removeFromWaitlist: async (id: number): Promise<{ message: string }> => {
+    const response = await apiClient.delete(`/waitlist/${id}`);
+    return response.data;
+  },
+
+  getFeeQuote: async (query: FeeQuoteQuery): Promise<{ quote: FeeQuote; canOverride: boolean }> => {
+    const response = await apiClient.get('/fee-plans/quote', {
+      params: { ...query, shiftIds: query.shiftIds.join(',') },
+    });
+    return response.data;
+  },
+
+  getFeePlans: async (branchId?: number): Promise<{ plans: FeePlan[] }> => {
+    const response = await apiClient.get('/fee-plans', { params: { branchId } });
+    return response.data;
+  },
+
+  addFeePlan: async (plan: FeePlanInput): Promise<{ plan: FeePlan }> => {
+    const response = await apiClient.post('/fee-plans', plan);
+    return response.data;
+  },
+
+  updateFeePlan: async (id: number, plan: FeePlanInput): Promise<{ plan: FeePlan }> => {
+    const response = await apiClient.put(`/fee-plans/${id}`, plan);
+    return response.data;
+  },
+
+  deleteFeePlan: async (id: number): Promise<{ message: string }> => {
+    const response = await apiClient.delete(`/fee-plans/${id}`);
+    return response.data;
+  },
+
+  getFeeOffers: async (branchId?: number): Promise<{ offers: FeeOffer[] }> => {
+    const response = await apiClient.get('/fee-plans/offers', { params: { branchId } });
+    return response.data;
+  },
+
+  addFeeOffer: async (offer: FeeOfferInput): Promise<{ offer: FeeOffer }> => {
+    const response = await apiClient.post('/fee-plans/offers', offer);
+    return response.data;
+  },
+
+  updateFeeOffer: async (id: number, offer: FeeOfferInput): Promise<{ offer: FeeOffer }> => {
+    const response = await apiClient.put(`/fee-plans/offers/${id}`, offer);
+    return response.data;
+  },
+
+  deleteFeeOffer: async (id: number): Promise<{ message: string }> => {
+    const response = await apiClient.delete(`/fee-plans/offers/${id}`);
+    return response.data;
+  },
+
+  getCoupons: async (branchId?: number): Promise<{ coupons: Coupon[] }> => {
+    const response = await apiClient.get('/fee-plans/coupons', { params: { branchId } });
+    return response.data;
+  },
+
+  addCoupon: async (coupon: CouponInput): Promise<{ coupon: Coupon }> => {
+    const response = await apiClient.post('/fee-plans/coupons', coupon);
+    return response.data;
+  },
+
+  updateCoupon: async (id: number, coupon: CouponInput): Promise<{ coupon: Coupon }> => {
+    const response = await apiClient.put(`/fee-plans/coupons/${id}`, coupon);
+    return response.data;
+  },
+
+  deleteCoupon: async (id: number): Promise<{ message: string }> => {
+    const response = await apiClient.delete(`/fee-plans/coupons/${id}`);
+    return response.data;
+  },
+
   deleteSeat: async (id: number): Promise<{ message: string }> => {
     const response = await apiClient.delete(`/seats/${id}`);
     return response.data;
@@ -763,6 +1730,11 @@ const api = {
     }
   },
 
+  getSeatHistory: async (seatId: number): Promise<{ history: SeatPeriod[] }> => {
+    const response = await apiClient.get(`/seats/${seatId}/history`);
+    return response.data;
+  },
+
   getAvailableShifts: async (seatId: number): Promise<{ availableShifts: Array<{ id: number; title: string; time: string; eventDate: string }> }> => {
     try {
       const response = await apiClient.get('/seats');
@@ -863,6 +1835,11 @@ const api = {
     return response.data;
   },
 
+  getDueInstallments: async (params: { branchId?: number; status?: 'overdue' | 'upcoming' | 'all' } = {}): Promise<{ installments: DueInstallment[] }> => {
+    const response = await apiClient.get('/collections/installments', { params });
+    return response.data;
+  },
+
   getCollectionStats: async (params: { month?: string; branchId?: number } = {}): Promise<CollectionStats> => {
     const response = await apiClient.get('/collections/stats', { params });
     return response.data;
@@ -870,16 +1847,160 @@ const api = {
 
   updateCollectionPayment: async (
     historyId: number,
-    paymentDetails: { amount: number; method: 'cash' | 'online' }
-  ): Promise<{ message: string; collection: Collection }> => {
-    const { amount, method } = paymentDetails;
+    paymentDetails: { amount: number; method: 'cash' | 'online'; date?: string; reference?: string; note?: string }
+  ): Promise<{ message: string; collection: Collection; receipt: Receipt | null }> => {
+    const { amount, method, date, reference, note } = paymentDetails;
     const response = await apiClient.put(`/collections/${historyId}`, {
       paymentAmount: amount,
       paymentMethod: method,
+      paymentDate: date,
+      reference,
+      note,
     });
     return response.data;
   },
 
+  getReceipts: async (params: { studentId?: number; historyId?: number }): Promise<{ receipts: Receipt[] }> => {
+    const response = await apiClient.get('/receipts', { params });
+    return response.data;
+  },
+
+  getReceipt: async (id: number): Promise<{ receipt: Receipt }> => {
+    const response = await apiClient.get(`/receipts/${id}`);
+    return response.data;
+  },
+
+  recordReceiptPrint: async (id: number): Promise<{ receipt: Receipt }> => {
+    const response = await apiClient.post(`/receipts/${id}/print`);
+    return response.data;
+  },
+
+  getAuditLogs: async (
+    filters: AuditLogFilters = {}
+  ): Promise<{ logs: AuditLog[]; total: number; page: number; limit: number; entityTypes: string[] }> => {
+    const response = await apiClient.get('/audit-logs', { params: filters });
+    return response.data;
+  },
+
+  getMessages: async (
+    filters: MessageFilters = {}
+  ): Promise<{
+    messages: OutboxMessage[];
+    total: number;
+    page: number;
+    limit: number;
+    statusCounts: Partial<Record<MessageStatus, number>>;
+    kinds: string[];
+  }> => {
+    const response = await apiClient.get('/messages', { params: filters });
+    return response.data;
+  },
+
+  resendMessage: async (id: number): Promise<{ message: string; notification: OutboxMessage }> => {
+    const response = await apiClient.post(`/messages/${id}/resend`);
+    return response.data;
+  },
+
+  getCampaigns: async (): Promise<{
+    campaigns: Campaign[];
+    placeholders: MessageTemplateOption[];
+    maxPerMinute: number;
+    defaultPerMinute: number;
+  }> => {
+    const response = await apiClient.get('/campaigns');
+    return response.data;
+  },
+
+  previewCampaign: async (campaign: Omit<CampaignInput, 'name' | 'perMinute'>): Promise<CampaignPreview> => {
+    const response = await apiClient.post('/campaigns/preview', campaign);
+    return response.data;
+  },
+
+  createCampaign: async (campaign: CampaignInput): Promise<{ campaign: Campaign } & CampaignAudience> => {
+    const response = await apiClient.post('/campaigns', campaign);
+    return response.data;
+  },
+
+  getCampaign: async (id: number): Promise<{ campaign: Campaign; recipients: CampaignRecipient[] }> => {
+    const response = await apiClient.get(`/campaigns/${id}`);
+    return response.data;
+  },
+
+  cancelCampaign: async (id: number): Promise<{ message: string; campaign: Campaign }> => {
+    const response = await apiClient.post(`/campaigns/${id}/cancel`);
+    return response.data;
+  },
+
+  getMessagingProviders: async (): Promise<{ providers: Record<MessageChannel, MessagingProviderOption[]> }> => {
+    const response = await apiClient.get('/settings/messaging-providers');
+    return response.data;
+  },
+
+  sendTestMessage: async (channel: MessageChannel, to: string): Promise<{ message: string; provider: string; providerMessageId: string | null }> => {
+    const response = await apiClient.post('/settings/messaging-test', { channel, to });
+    return response.data;
+  },
+
+  getMessageTemplates: async (): Promise<{
+    templates: MessageTemplate[];
+    events: MessageTemplateOption[];
+    placeholders: MessageTemplateOption[];
+  }> => {
+    const response = await apiClient.get('/message-templates');
+    return response.data;
+  },
+
+  addMessageTemplate: async (template: MessageTemplateInput): Promise<{ template: MessageTemplate }> => {
+    const response = await apiClient.post('/message-templates', template);
+    return response.data;
+  },
+
+  updateMessageTemplate: async (id: number, template: MessageTemplateInput): Promise<{ template: MessageTemplate }> => {
+    const response = await apiClient.put(`/message-templates/${id}`, template);
+    return response.data;
+  },
+
+  deleteMessageTemplate: async (id: number): Promise<{ message: string }> => {
+    const response = await apiClient.delete(`/message-templates/${id}`);
+    return response.data;
+  },
+
+  previewMessageTemplate: async (
+    template: Pick<MessageTemplateInput, 'event' | 'subject' | 'body' | 'providerTemplate'> & { studentId: number }
+  ): Promise<MessageTemplatePreview> => {
+    const response = await apiClient.post('/message-templates/preview', template);
+    return response.data;
+  },
+
+  getReminderRules: async (): Promise<{
+    rules: ReminderRule[];
+    triggers: ReminderTriggerOption[];
+    events: MessageTemplateOption[];
+  }> => {
+    const response = await apiClient.get('/reminder-rules');
+    return response.data;
+  },
+
+  getReminderRuleRuns: async (filters: { ruleId?: number; studentId?: number; limit?: number } = {}): Promise<{ runs: ReminderRuleRun[] }> => {
+    const response = await apiClient.get('/reminder-rules/runs', { params: filters });
+    return response.data;
+  },
+
+  addReminderRule: async (rule: ReminderRuleInput): Promise<{ rule: ReminderRule }> => {
+    const response = await apiClient.post('/reminder-rules', rule);
+    return response.data;
+  },
+
+  updateReminderRule: async (id: number, rule: ReminderRuleInput): Promise<{ rule: ReminderRule }> => {
+    const response = await apiClient.put(`/reminder-rules/${id}`, rule);
+    return response.data;
+  },
+
+  deleteReminderRule: async (id: number): Promise<{ message: string }> => {
+    const response = await apiClient.delete(`/reminder-rules/${id}`);
+    return response.data;
+  },
+
   getExpenses: async (branchId?: number): Promise<{ expenses: Expense[]; products: Product[] }> => {
     const params: any = {};
     if (branchId) params.branchId = branchId;
@@ -922,6 +2043,11 @@ const api = {
     return response.data;
   },
 
+  getSeatUtilization: async (params: { month: string; branchId?: number }): Promise<SeatUtilizationReport> => {
+    const response = await apiClient.get('/reports/seat-utilization', { params });
+    return response.data;
+  },
+
   getMonthlyCollections: async (month: string) => {
     const response = await apiClient.get('/reports/monthly-collections', { params: { month } });
     return response.data;